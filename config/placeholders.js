@@ -34,5 +34,14 @@ module.exports = {
     domain_complexity: path.join('prompts', 'templates', 'bmad', '02-pm', '01-prd', 'shared', 'domain-complexity.csv'),
     project_types: path.join('prompts', 'templates', 'bmad', '02-pm', '01-prd', 'shared', 'project-types.csv'),
     prd_template: path.join('prompts', 'templates', 'bmad', '02-pm', '01-prd', 'shared', 'prd-template.md'),
+  },
+
+  // Placeholders filled by something other than a file
+  // Inline sources need no entry here: {env:NAME}, {step:plan-agent.output}
+  sources: {
+    // git_changes: { type: 'command', command: 'git diff --stat', cacheSeconds: 30 },
+    // ci_branch: { type: 'env', name: 'CI_BRANCH' },
+    // task_titles: { type: 'json', file: path.join('.codemachine', 'artifacts', 'tasks.json'), path: 'tasks[*].title' },
+    // latest_plan: { type: 'step', agentId: 'plan-agent' },
   }
 };
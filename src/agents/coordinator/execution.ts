@@ -1,6 +1,13 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import type { CoordinationPlan, CommandGroup, AgentCommand, AgentExecutionResult, CoordinationResult } from './types.js';
+import type {
+  CoordinationPlan,
+  CoordinationNode,
+  CoordinationIsolation,
+  AgentCommand,
+  AgentExecutionResult,
+  CoordinationResult
+} from './types.js';
 import { executeAgent } from '../runner/runner.js';
 import { loadAgentTemplate } from '../runner/config.js';
 import { AgentMonitorService } from '../monitoring/index.js';
@@ -8,6 +15,14 @@ import { processPromptString } from '../../shared/prompts/index.js';
 import { resolvePlaceholderPath, loadPlaceholdersConfig } from '../../shared/prompts/config/loader.js';
 import * as logger from '../../shared/logging/logger.js';
 import { safeResolvePath, PathTraversalError } from '../../shared/utils/path.js';
+import {
+  captureBase,
+  createIsolatedWorktree,
+  findRepositoryRoot,
+  mergeIsolatedWorktrees,
+  removeIsolatedWorktree,
+  type IsolatedWorktree
+} from './worktree.js';
 import chalk from 'chalk';
 
 export interface CoordinationExecutorOptions {
@@ -19,10 +34,21 @@ export interface CoordinationExecutorOptions {
 
   /** Optional logger for agent output */
   logger?: (agentName: string, chunk: string) => void;
+
+  /** Where parallel branches write their changes (default: shared) */
+  isolation?: CoordinationIsolation;
 }
 
 /**
- * Executes coordination plans with parallel/sequential support
+ * Results of executing one node of the coordination tree
+ */
+interface NodeOutcome {
+  results: AgentExecutionResult[];
+  success: boolean;
+}
+
+/**
+ * Executes coordination plans with parallel/sequential/fallback support
  * Handles file loading, template loading, and prompt building
  */
 export class CoordinationExecutor {
@@ -36,77 +62,166 @@ export class CoordinationExecutor {
    * Execute the complete coordination plan
    */
   async execute(plan: CoordinationPlan): Promise<CoordinationResult> {
-    const results: AgentExecutionResult[] = [];
+    const { results, success } = await this.executeNode(plan.root, this.options.workingDir);
+
+    return {
+      parentId: this.options.parentId,
+      results,
+      success
+    };
+  }
 
-    // Execute groups sequentially (even if group itself is parallel)
-    for (const group of plan.groups) {
-      const groupResults = await this.executeGroup(group);
-      results.push(...groupResults);
+  /**
+   * Execute a node of the coordination tree
+   * @param agentDir Directory agents run in (an isolated worktree inside isolated branches)
+   */
+  private async executeNode(node: CoordinationNode, agentDir: string): Promise<NodeOutcome> {
+    if (node.type === 'command') {
+      const result = await this.executeCommand(node.command, agentDir);
+      return { results: [result], success: result.success };
+    }
 
-      // Check if any failed (only matters for sequential)
-      const anyFailed = groupResults.some(r => !r.success);
-      if (anyFailed && group.mode === 'sequential') {
-        logger.warn('Sequential group had failures, stopping execution');
-        break;
+    switch (node.mode) {
+      case 'parallel':
+        return this.executeParallel(node.children, agentDir);
+      case 'fallback':
+        return this.executeFallback(node.children, agentDir);
+      default:
+        return this.executeSequential(node.children, agentDir);
+    }
+  }
+
+  /**
+   * Execute nodes in parallel (succeeds only if every branch succeeds)
+   */
+  private async executeParallel(nodes: CoordinationNode[], agentDir: string): Promise<NodeOutcome> {
+    if (this.options.isolation === 'worktree') {
+      const root = await findRepositoryRoot(agentDir);
+      if (root) {
+        return this.executeIsolated(nodes, root, agentDir);
       }
+      logger.warn(`Worktree isolation needs a git repository, running branches in ${agentDir}`);
     }
 
-    const success = results.every(r => r.success);
+    console.log(chalk.dim(`\n→ Executing ${nodes.length} branches in parallel...\n`));
 
+    const outcomes = await Promise.all(nodes.map(node => this.executeNode(node, agentDir)));
     return {
-      parentId: this.options.parentId,
-      results,
-      success
+      results: outcomes.flatMap(o => o.results),
+      success: outcomes.every(o => o.success)
     };
   }
 
   /**
-   * Execute a command group (either parallel or sequential)
+   * Execute parallel branches in separate git worktrees, then merge their changes back
+   * A branch whose changes conflict fails and keeps its worktree for manual resolution;
+   * if merging itself fails every worktree is kept, otherwise none outlives the group
    */
-  private async executeGroup(group: CommandGroup): Promise<AgentExecutionResult[]> {
-    if (group.mode === 'parallel') {
-      return this.executeParallel(group.commands);
-    } else {
-      return this.executeSequential(group.commands);
+  private async executeIsolated(nodes: CoordinationNode[], root: string, agentDir: string): Promise<NodeOutcome> {
+    console.log(chalk.dim(`\n→ Executing ${nodes.length} branches in parallel (isolated worktrees)...\n`));
+
+    const base = await captureBase(root);
+    const worktrees: IsolatedWorktree[] = [];
+    try {
+      // One at a time - concurrent `git worktree add` calls contend for the same lock
+      for (let i = 0; i < nodes.length; i++) {
+        worktrees.push(await createIsolatedWorktree(root, base, agentDir));
+      }
+    } catch (error) {
+      await Promise.all(worktrees.map(worktree => removeIsolatedWorktree(root, worktree)));
+      throw error;
+    }
+
+    // Until merging starts nothing is kept; merging removes the worktrees it no longer needs
+    let merging = false;
+    try {
+      // Wait for every branch, so no worktree is removed while an agent still works in it
+      const settled = await Promise.allSettled(nodes.map((node, i) => this.executeNode(node, worktrees[i].workingDir)));
+      const failure = settled.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+      if (failure) {
+        throw failure.reason;
+      }
+      const outcomes = settled.map(outcome => (outcome as PromiseFulfilledResult<NodeOutcome>).value);
+
+      console.log(chalk.dim(`\n→ Merging ${nodes.length} worktrees...\n`));
+      merging = true;
+      const merges = await mergeIsolatedWorktrees(root, base, worktrees);
+
+      merges.forEach((merge, i) => {
+        for (const result of outcomes[i].results) {
+          result.merge = merge;
+        }
+        if (merge.conflicts.length > 0) {
+          const message = `Merge conflicts in ${merge.conflicts.join(', ')} (worktree kept at ${merge.worktree})`;
+          console.log(chalk.red(`✗ ${message}`));
+          outcomes[i].success = false;
+          for (const result of outcomes[i].results) {
+            result.success = false;
+            result.error = result.error ?? message;
+          }
+        }
+      });
+
+      return {
+        results: outcomes.flatMap(o => o.results),
+        success: outcomes.every(o => o.success)
+      };
+    } finally {
+      if (!merging) {
+        await Promise.all(worktrees.map(worktree => removeIsolatedWorktree(root, worktree)));
+      }
     }
   }
 
   /**
-   * Execute commands in parallel
+   * Execute nodes sequentially, stopping at the first failure
    */
-  private async executeParallel(commands: AgentCommand[]): Promise<AgentExecutionResult[]> {
-    console.log(chalk.dim(`\n→ Executing ${commands.length} agents in parallel...\n`));
+  private async executeSequential(nodes: CoordinationNode[], agentDir: string): Promise<NodeOutcome> {
+    const results: AgentExecutionResult[] = [];
+
+    for (let i = 0; i < nodes.length; i++) {
+      console.log(chalk.dim(`\n→ Executing step ${i + 1}/${nodes.length}...\n`));
+
+      const outcome = await this.executeNode(nodes[i], agentDir);
+      results.push(...outcome.results);
 
-    const promises = commands.map(cmd => this.executeCommand(cmd));
-    return Promise.all(promises);
+      // Stop on failure
+      if (!outcome.success) {
+        logger.error(`Step ${i + 1} failed, stopping sequential execution`);
+        return { results, success: false };
+      }
+    }
+
+    return { results, success: true };
   }
 
   /**
-   * Execute commands sequentially
+   * Execute nodes in order until one succeeds (|| branches)
    */
-  private async executeSequential(commands: AgentCommand[]): Promise<AgentExecutionResult[]> {
+  private async executeFallback(nodes: CoordinationNode[], agentDir: string): Promise<NodeOutcome> {
     const results: AgentExecutionResult[] = [];
 
-    for (let i = 0; i < commands.length; i++) {
-      console.log(chalk.dim(`\n→ Executing agent ${i + 1}/${commands.length}...\n`));
+    for (let i = 0; i < nodes.length; i++) {
+      if (i > 0) {
+        console.log(chalk.yellow(`\n→ Previous branch failed, running fallback ${i}/${nodes.length - 1}...\n`));
+      }
 
-      const result = await this.executeCommand(commands[i]);
-      results.push(result);
+      const outcome = await this.executeNode(nodes[i], agentDir);
+      results.push(...outcome.results);
 
-      // Stop on failure
-      if (!result.success) {
-        logger.error(`Agent ${result.name} failed, stopping sequential execution`);
-        break;
+      if (outcome.success) {
+        return { results, success: true };
       }
     }
 
-    return results;
+    return { results, success: false };
   }
 
   /**
    * Execute a single command
+   * Templates and input files are read from the working directory; the agent runs in agentDir
    */
-  private async executeCommand(command: AgentCommand): Promise<AgentExecutionResult> {
+  private async executeCommand(command: AgentCommand, agentDir: string): Promise<AgentExecutionResult> {
     console.log(chalk.bold.cyan(`\n┌─ Agent: ${command.name}`));
     if (command.input && command.input.length > 0) {
       console.log(chalk.dim(`│  Input: ${command.input.join(', ')}`));
@@ -136,7 +251,8 @@ export class CoordinationExecutor {
       const suppressOutput = command.tail !== undefined && command.tail > 0;
 
       const result = await executeAgent(command.name, compositePrompt, {
-        workingDir: this.options.workingDir,
+        workingDir: agentDir,
+        projectRoot: this.options.workingDir,
         parentId: this.options.parentId,
         displayPrompt: command.prompt, // Show user's actual request in logs, not full composite
         logger: suppressOutput
@@ -2,22 +2,28 @@
  * Agent Coordinator System
  *
  * Provides multi-agent coordination with parallel and sequential execution:
- * - Parse coordination scripts with & (parallel) and && (sequential)
+ * - Parse coordination scripts with & (parallel), && (sequential), || (on failure)
+ *   and nested ( ) groups
  * - Execute agents in coordinated groups
  * - Track parent-child relationships in monitoring
+ * - Optionally isolate parallel branches in git worktrees and merge them back
  *
  * The parser is unified - handles both legacy and enhanced DSL syntax
  * The executor handles file loading, template loading, and prompt building
  */
 
 export { CoordinatorService, createCoordinator, type CoordinatorDependencies } from './service.js';
-export { CoordinatorParser } from './parser.js';
+export { CoordinatorParser, collectCommands } from './parser.js';
 export { CoordinationExecutor } from './execution.js';
 export type {
   CoordinationMode,
+  CoordinationIsolation,
   AgentCommand,
-  CommandGroup,
+  CommandNode,
+  GroupNode,
+  CoordinationNode,
   CoordinationPlan,
   AgentExecutionResult,
-  CoordinationResult
+  CoordinationResult,
+  WorktreeMergeResult
 } from './types';
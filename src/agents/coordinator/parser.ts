@@ -1,4 +1,5 @@
-import type { CoordinationPlan, CommandGroup, AgentCommand, CoordinationMode } from './types';
+import type { CoordinationPlan, CoordinationNode, CoordinationMode, AgentCommand } from './types';
+import { CoordinationSyntaxError } from '../../shared/errors/index.js';
 import {
   validateAgentName,
   validateInputPath,
@@ -8,6 +9,33 @@ import {
   INPUT_LIMITS,
 } from '../../shared/utils/sanitize.js';
 
+type TokenType = 'command' | 'parallel' | 'and' | 'or' | 'lparen' | 'rparen' | 'eof';
+
+interface Token {
+  type: TokenType;
+  /** Raw text (command text or operator) */
+  value: string;
+  /** Offset in the script (0-based) */
+  position: number;
+}
+
+/** Operator tokens and the group mode they produce */
+const OPERATOR_MODES: Partial<Record<TokenType, CoordinationMode>> = {
+  or: 'fallback',
+  and: 'sequential',
+  parallel: 'parallel',
+};
+
+/**
+ * Collect all agent commands in a coordination tree (left to right)
+ */
+export function collectCommands(node: CoordinationNode): AgentCommand[] {
+  if (node.type === 'command') {
+    return [node.command];
+  }
+  return node.children.flatMap(collectCommands);
+}
+
 /**
  * Parse coordination script into coordination plan
  *
@@ -15,16 +43,16 @@ import {
  * - Enhanced: agent[input:file.md;file2.md,tail:100,prompt:"text"]
  * - Parallel: agent1 'prompt1' & agent2 'prompt2' & agent3 'prompt3'
  * - Sequential: agent1 'prompt1' && agent2 'prompt2' && agent3 'prompt3'
- * - Mixed: agent1 'p1' && (agent2 'p2' & agent3 'p3') && agent4 'p4'
+ * - On failure: agent1 'prompt1' || agent2 'recover'
+ * - Nested: a && (b & (c && d)) && e
  *
- * For MVP, we'll support simpler syntax without parentheses:
- * - All & = parallel group
- * - All && = sequential group
- * - No mixing in same level
+ * Precedence (loosest to tightest): ||, &&, &. Parentheses override it,
+ * so `a && b & c || d` reads as `(a && (b & c)) || d`.
  */
 export class CoordinatorParser {
   /**
    * Parse coordination script
+   * @throws {CoordinationSyntaxError} With the location of the problem
    */
   parse(script: string): CoordinationPlan {
     // Trim and validate
@@ -33,108 +61,208 @@ export class CoordinatorParser {
       throw new Error('Coordination script cannot be empty');
     }
 
-    // Determine coordination mode based on separator
-    // Priority: if any && exists, treat as sequential; otherwise parallel
-    const hasSequential = trimmed.includes('&&');
-    const hasParallel = trimmed.includes('&') && !hasSequential;
+    const tokens = this.tokenize(trimmed);
+    let index = 0;
 
-    if (hasSequential && trimmed.includes('&') && trimmed.split('&&').some(part => part.includes('&'))) {
-      // Mixed mode - more complex parsing needed
-      return this.parseMixed(trimmed);
-    }
+    const peek = (): Token => tokens[index];
+    const next = (): Token => tokens[index++];
 
-    if (hasSequential) {
-      return this.parseSequential(trimmed);
-    }
+    const describe = (token: Token): string =>
+      token.type === 'eof' ? 'end of script' : `'${token.value}'`;
 
-    if (hasParallel) {
-      return this.parseParallel(trimmed);
-    }
+    // Binary levels share one shape: operand (op operand)*
+    const parseLevel = (operator: TokenType, parseOperand: () => CoordinationNode) => (): CoordinationNode => {
+      const children = [parseOperand()];
+      while (peek().type === operator) {
+        next();
+        children.push(parseOperand());
+      }
+      if (children.length === 1) {
+        return children[0];
+      }
+      return { type: 'group', mode: OPERATOR_MODES[operator]!, children };
+    };
 
-    // Single command
-    return this.parseSingle(trimmed);
-  }
+    const parsePrimary = (): CoordinationNode => {
+      const token = next();
 
-  /**
-   * Parse single command (no & or &&)
-   */
-  private parseSingle(script: string): CoordinationPlan {
-    const command = this.parseCommand(script);
-    return {
-      groups: [
-        {
-          mode: 'sequential',
-          commands: [command]
+      if (token.type === 'command') {
+        return { type: 'command', command: this.parseCommandAt(token, trimmed), position: token.position };
+      }
+
+      if (token.type === 'lparen') {
+        if (peek().type === 'rparen') {
+          throw new CoordinationSyntaxError('Empty group', trimmed, peek().position);
         }
-      ]
+        const inner = parseOr();
+        const closing = next();
+        if (closing.type !== 'rparen') {
+          throw new CoordinationSyntaxError(
+            `Missing ')' to close '(' opened at column ${token.position + 1}; found ${describe(closing)}`,
+            trimmed,
+            closing.position
+          );
+        }
+        return inner;
+      }
+
+      throw new CoordinationSyntaxError(
+        `Expected an agent command but found ${describe(token)}`,
+        trimmed,
+        token.position
+      );
     };
+
+    const parseParallel = parseLevel('parallel', parsePrimary);
+    const parseAnd = parseLevel('and', parseParallel);
+    const parseOr = parseLevel('or', parseAnd);
+
+    const root = parseOr();
+
+    const trailing = peek();
+    if (trailing.type !== 'eof') {
+      const reason = trailing.type === 'rparen'
+        ? "Unmatched ')'"
+        : `Expected an operator (&, &&, ||) but found ${describe(trailing)}`;
+      throw new CoordinationSyntaxError(reason, trimmed, trailing.position);
+    }
+
+    return { root };
   }
 
   /**
-   * Parse parallel commands (separated by &)
+   * Split a script into command and operator tokens
+   * Quotes and [options] are kept intact inside command text. A '(' only opens a
+   * group at the start of a command; elsewhere it is part of the command text.
    */
-  private parseParallel(script: string): CoordinationPlan {
-    const parts = this.smartSplit(script, '&').map(p => p.trim());
-    const commands = parts.map(part => this.parseCommand(part));
-
-    return {
-      groups: [
-        {
-          mode: 'parallel',
-          commands
-        }
-      ]
+  private tokenize(script: string): Token[] {
+    const tokens: Token[] = [];
+    let current = '';
+    let currentStart = -1;
+    let groupDepth = 0;
+    let literalParens = 0;
+    let quoteChar = '';
+    let quoteStart = -1;
+    let bracketStart = -1;
+
+    const flush = () => {
+      const text = current.trim();
+      if (text) {
+        tokens.push({ type: 'command', value: text, position: currentStart });
+      }
+      current = '';
+      currentStart = -1;
+      literalParens = 0;
     };
-  }
 
-  /**
-   * Parse sequential commands (separated by &&)
-   */
-  private parseSequential(script: string): CoordinationPlan {
-    const parts = this.smartSplitMultiChar(script, '&&').map(p => p.trim());
-    const commands = parts.map(part => this.parseCommand(part));
-
-    return {
-      groups: [
-        {
-          mode: 'sequential',
-          commands
-        }
-      ]
+    const append = (char: string, i: number) => {
+      if (currentStart === -1) {
+        if (char === ' ' || char === '\t') return;
+        currentStart = i;
+      }
+      current += char;
     };
+
+    for (let i = 0; i < script.length; i++) {
+      const char = script[i];
+      const nextChar = script[i + 1] ?? '';
+
+      // Inside [options]: everything is literal until the closing bracket
+      if (bracketStart !== -1) {
+        append(char, i);
+        if (char === ']') bracketStart = -1;
+        continue;
+      }
+
+      // Inside quotes: a quote only closes when followed by whitespace, an operator or the end
+      if (quoteChar) {
+        append(char, i);
+        if (char === quoteChar && script[i - 1] !== '\\' && /^[\s&|)]?$/.test(nextChar)) {
+          quoteChar = '';
+        }
+        continue;
+      }
+
+      if ((char === '"' || char === "'") && (i === 0 || /[\s(&|]/.test(script[i - 1]))) {
+        quoteChar = char;
+        quoteStart = i;
+        append(char, i);
+        continue;
+      }
+
+      // Options bracket directly after the agent name
+      if (char === '[' && current.length > 0 && !/\s/.test(current)) {
+        bracketStart = i;
+        append(char, i);
+        continue;
+      }
+
+      if (char === '&' || char === '|') {
+        flush();
+        if (char === '&' && nextChar === '&') {
+          tokens.push({ type: 'and', value: '&&', position: i });
+          i++;
+        } else if (char === '|' && nextChar === '|') {
+          tokens.push({ type: 'or', value: '||', position: i });
+          i++;
+        } else if (char === '&') {
+          tokens.push({ type: 'parallel', value: '&', position: i });
+        } else {
+          throw new CoordinationSyntaxError("Unexpected '|' (use '||' to run on failure)", script, i);
+        }
+        continue;
+      }
+
+      if (char === '(') {
+        if (current.trim() === '') {
+          tokens.push({ type: 'lparen', value: '(', position: i });
+          groupDepth++;
+        } else {
+          literalParens++;
+          append(char, i);
+        }
+        continue;
+      }
+
+      if (char === ')') {
+        if (literalParens > 0) {
+          literalParens--;
+          append(char, i);
+        } else if (groupDepth > 0) {
+          flush();
+          tokens.push({ type: 'rparen', value: ')', position: i });
+          groupDepth--;
+        } else {
+          throw new CoordinationSyntaxError("Unmatched ')'", script, i);
+        }
+        continue;
+      }
+
+      append(char, i);
+    }
+
+    if (quoteChar) {
+      throw new CoordinationSyntaxError(`Unterminated ${quoteChar} quote`, script, quoteStart);
+    }
+    if (bracketStart !== -1) {
+      throw new CoordinationSyntaxError("Unterminated '[' options", script, bracketStart);
+    }
+
+    flush();
+    tokens.push({ type: 'eof', value: '', position: script.length });
+    return tokens;
   }
 
   /**
-   * Parse mixed mode (contains both & and &&)
-   * For now, we'll treat && as group separators and & as parallel within groups
-   *
-   * Example: "db 'schema' && frontend 'ui' & backend 'api' && test 'e2e'"
-   * Groups:
-   * 1. Sequential: db 'schema'
-   * 2. Parallel: frontend 'ui', backend 'api'
-   * 3. Sequential: test 'e2e'
+   * Parse a command token, reporting validation failures at its location
    */
-  private parseMixed(script: string): CoordinationPlan {
-    // Split by && first (quote-aware)
-    const sequentialParts = this.smartSplitMultiChar(script, '&&').map(p => p.trim());
-
-    const groups: CommandGroup[] = sequentialParts.map(part => {
-      // Check if this part has parallel commands (outside of quotes)
-      if (this.containsOutsideQuotes(part, '&')) {
-        const parallelParts = this.smartSplit(part, '&').map(p => p.trim());
-        return {
-          mode: 'parallel' as CoordinationMode,
-          commands: parallelParts.map(p => this.parseCommand(p))
-        };
-      } else {
-        return {
-          mode: 'sequential' as CoordinationMode,
-          commands: [this.parseCommand(part)]
-        };
-      }
-    });
-
-    return { groups };
+  private parseCommandAt(token: Token, script: string): AgentCommand {
+    try {
+      return this.parseCommand(token.value);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      throw new CoordinationSyntaxError(err.message.split('\n')[0], script, token.position, { cause: err });
+    }
   }
 
   /**
@@ -425,62 +553,4 @@ export class CoordinatorParser {
 
     return result;
   }
-
-  /**
-   * Smart split for multi-character delimiters that respects quotes
-   */
-  private smartSplitMultiChar(str: string, delimiter: string): string[] {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    let quoteChar = '';
-
-    for (let i = 0; i < str.length; i++) {
-      const char = str[i];
-      const boundary = this.checkQuoteBoundary(str, i, char, inQuotes, quoteChar);
-
-      if (boundary) {
-        inQuotes = boundary.type === 'open';
-        quoteChar = boundary.quoteChar;
-      }
-
-      if (!inQuotes && str.substring(i, i + delimiter.length) === delimiter) {
-        result.push(current);
-        current = '';
-        i += delimiter.length - 1;
-      } else {
-        current += char;
-      }
-    }
-
-    if (current) {
-      result.push(current);
-    }
-
-    return result;
-  }
-
-  /**
-   * Check if a string contains a character outside of quotes
-   */
-  private containsOutsideQuotes(str: string, searchChar: string): boolean {
-    let inQuotes = false;
-    let quoteChar = '';
-
-    for (let i = 0; i < str.length; i++) {
-      const char = str[i];
-      const boundary = this.checkQuoteBoundary(str, i, char, inQuotes, quoteChar);
-
-      if (boundary) {
-        inQuotes = boundary.type === 'open';
-        quoteChar = boundary.quoteChar;
-      }
-
-      if (char === searchChar && !inQuotes) {
-        return true;
-      }
-    }
-
-    return false;
-  }
 }
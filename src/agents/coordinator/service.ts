@@ -1,6 +1,6 @@
-import { CoordinatorParser } from './parser.js';
+import { CoordinatorParser, collectCommands } from './parser.js';
 import { CoordinationExecutor } from './execution.js';
-import type { CoordinationResult } from './types.js';
+import type { CoordinationIsolation, CoordinationResult } from './types.js';
 import { AgentMonitorService } from '../monitoring/index.js';
 import * as logger from '../../shared/logging/logger.js';
 import chalk from 'chalk';
@@ -11,6 +11,9 @@ export interface CoordinatorOptions {
 
   /** Optional logger for agent output */
   logger?: (agentName: string, chunk: string) => void;
+
+  /** Where parallel branches write their changes (default: shared) */
+  isolation?: CoordinationIsolation;
 }
 
 /**
@@ -93,7 +96,7 @@ export class CoordinatorService {
     let plan;
     try {
       plan = this.parser.parse(script);
-      logger.debug(`Parsed coordination plan with ${plan.groups.length} groups`);
+      logger.debug(`Parsed coordination plan with ${collectCommands(plan.root).length} agents`);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       console.error(chalk.red(`\n✗ Failed to parse coordination script: ${message}\n`));
@@ -139,7 +142,8 @@ export class CoordinatorService {
     const executor = new CoordinationExecutor({
       workingDir: options.workingDir,
       parentId: contextParentId, // Agents register directly under workflow agent
-      logger: options.logger
+      logger: options.logger,
+      isolation: options.isolation
     });
 
     // Execute the plan
@@ -148,7 +152,7 @@ export class CoordinatorService {
       result = await executor.execute(plan);
 
       // No monitoring needed - child agents track themselves
-      // Coordination success = all children succeeded
+      // Coordination success is evaluated over the plan tree (|| can recover failures)
 
       // Print summary
       this.printSummary(result);
@@ -176,6 +180,9 @@ export class CoordinatorService {
     console.log(`${chalk.green('✓ Succeeded:')} ${succeeded}`);
     if (failed > 0) {
       console.log(`${chalk.red('✗ Failed:')} ${failed}`);
+      if (result.success) {
+        console.log(chalk.yellow('↺ Failures were recovered by || fallback branches'));
+      }
     }
 
     console.log('\n' + chalk.bold('Agent Results:'));
@@ -193,6 +200,9 @@ export class CoordinatorService {
           : r.prompt;
         console.log(`     ${chalk.dim('Prompt:')} ${displayPrompt}`);
       }
+      if (r.merge && r.merge.conflicts.length === 0 && r.merge.changedFiles.length > 0) {
+        console.log(`     ${chalk.dim('Merged:')} ${r.merge.changedFiles.length} file(s)`);
+      }
       if (r.error) {
         console.log(`     ${chalk.red('Error:')} ${r.error}`);
       }
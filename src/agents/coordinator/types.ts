@@ -3,9 +3,19 @@
  */
 
 /**
- * Coordination mode for agents
+ * Coordination mode for a group of nodes
+ * - parallel: `&` - run all children concurrently
+ * - sequential: `&&` - run children in order, stop at the first failure
+ * - fallback: `||` - run children in order until one succeeds
  */
-export type CoordinationMode = 'parallel' | 'sequential';
+export type CoordinationMode = 'parallel' | 'sequential' | 'fallback';
+
+/**
+ * Where parallel branches write their changes
+ * - shared: every branch works directly in the working directory
+ * - worktree: each branch works in its own git worktree and is merged back afterwards
+ */
+export type CoordinationIsolation = 'shared' | 'worktree';
 
 /**
  * A single agent command to execute
@@ -28,22 +38,42 @@ export interface AgentCommand {
 }
 
 /**
- * A group of agent commands that share the same coordination mode
+ * Leaf node: a single agent command
+ */
+export interface CommandNode {
+  type: 'command';
+
+  /** Parsed command */
+  command: AgentCommand;
+
+  /** Offset of the command in the original script (0-based) */
+  position: number;
+}
+
+/**
+ * Branch node: children combined with one coordination mode
  */
-export interface CommandGroup {
-  /** Coordination mode for this group */
+export interface GroupNode {
+  type: 'group';
+
+  /** How the children are combined */
   mode: CoordinationMode;
 
-  /** Commands in this group */
-  commands: AgentCommand[];
+  /** Child nodes (commands or nested groups) */
+  children: CoordinationNode[];
 }
 
+/**
+ * Node in the coordination tree
+ */
+export type CoordinationNode = CommandNode | GroupNode;
+
 /**
  * Complete coordination plan parsed from coordination script
  */
 export interface CoordinationPlan {
-  /** Groups of commands with their coordination modes */
-  groups: CommandGroup[];
+  /** Root of the coordination tree */
+  root: CoordinationNode;
 }
 
 /**
@@ -73,6 +103,23 @@ export interface AgentExecutionResult {
 
   /** Number of lines if tail limiting was applied */
   tailApplied?: number;
+
+  /** Merge of the agent's isolated worktree (worktree isolation only) */
+  merge?: WorktreeMergeResult;
+}
+
+/**
+ * Outcome of merging one parallel branch's worktree back into the working directory
+ */
+export interface WorktreeMergeResult {
+  /** Files the branch changed, relative to the repository root */
+  changedFiles: string[];
+
+  /** Conflicting files; none of the branch's changes are applied when this is non-empty */
+  conflicts: string[];
+
+  /** Worktree kept on disk for manual resolution when there are conflicts */
+  worktree?: string;
 }
 
 /**
@@ -85,6 +132,6 @@ export interface CoordinationResult {
   /** Results from all executed agents */
   results: AgentExecutionResult[];
 
-  /** Whether all agents succeeded */
+  /** Whether the plan succeeded (a failed `||` branch that was recovered still counts) */
   success: boolean;
 }
@@ -0,0 +1,202 @@
+import { mkdtemp, realpath, rm, unlink } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { spawnProcess } from '../../infra/process/spawn.js';
+import * as logger from '../../shared/logging/logger.js';
+import type { WorktreeMergeResult } from './types.js';
+
+/**
+ * Git worktree isolation for parallel coordination branches.
+ *
+ * Before a parallel group runs, the working tree (including uncommitted and
+ * untracked files) is captured as a base commit. Each branch then runs in a
+ * detached worktree checked out at that commit. Afterwards every branch's
+ * changes are captured the same way and three-way merged back, in script
+ * order, with `git merge-tree`. `.codemachine/` is never captured or merged.
+ */
+
+// Commits use a fixed identity so isolation works without git user config
+const ISOLATION_IDENTITY = {
+  GIT_AUTHOR_NAME: 'CodeMachine',
+  GIT_AUTHOR_EMAIL: 'isolation@codemachine.local',
+  GIT_COMMITTER_NAME: 'CodeMachine',
+  GIT_COMMITTER_EMAIL: 'isolation@codemachine.local',
+};
+
+const CAPTURE_PATHSPEC = [':/', ':(top,exclude).codemachine'];
+
+/**
+ * A parallel branch checked out in its own worktree
+ */
+export interface IsolatedWorktree {
+  /** Worktree root */
+  path: string;
+  /** Directory inside the worktree matching the original working directory */
+  workingDir: string;
+  /** Commit the worktree was created from */
+  base: string;
+}
+
+async function git(cwd: string, args: string[], env?: NodeJS.ProcessEnv): Promise<{ stdout: string; exitCode: number }> {
+  const result = await spawnProcess({ command: 'git', args, cwd, env });
+  return { stdout: result.stdout.trim(), exitCode: result.exitCode };
+}
+
+async function gitOrThrow(cwd: string, args: string[], env?: NodeJS.ProcessEnv): Promise<string> {
+  const result = await spawnProcess({ command: 'git', args, cwd, env });
+  if (result.exitCode !== 0) {
+    throw new Error(`git ${args[0]} failed: ${result.stderr.trim() || `exit code ${result.exitCode}`}`);
+  }
+  return result.stdout.trim();
+}
+
+/**
+ * Resolve the repository root of a directory (null when it is not in a git work tree)
+ */
+export async function findRepositoryRoot(cwd: string): Promise<string | null> {
+  const { stdout, exitCode } = await git(cwd, ['rev-parse', '--show-toplevel']);
+  return exitCode === 0 && stdout ? stdout : null;
+}
+
+/**
+ * Commit the current state of a work tree without touching its index, HEAD or branches
+ */
+async function captureWorkTree(root: string, parent: string | null, message: string): Promise<string> {
+  const tempDir = await mkdtemp(path.join(tmpdir(), 'codemachine-isolation-'));
+  const env = { GIT_INDEX_FILE: path.join(tempDir, 'index') };
+
+  try {
+    if (parent) {
+      await gitOrThrow(root, ['read-tree', parent], env);
+    }
+    await gitOrThrow(root, ['add', '-A', '--', ...CAPTURE_PATHSPEC], env);
+    const tree = await gitOrThrow(root, ['write-tree'], env);
+    return await gitOrThrow(
+      root,
+      ['commit-tree', tree, ...(parent ? ['-p', parent] : []), '-m', message],
+      { ...ISOLATION_IDENTITY },
+    );
+  } finally {
+    await rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Capture the working tree as the base commit for a parallel group
+ */
+export async function captureBase(root: string): Promise<string> {
+  const { stdout: head, exitCode } = await git(root, ['rev-parse', '--verify', '--quiet', 'HEAD']);
+  return captureWorkTree(root, exitCode === 0 ? head : null, 'codemachine isolation: base');
+}
+
+/**
+ * Check out the base commit in a new detached worktree
+ */
+export async function createIsolatedWorktree(root: string, base: string, workingDir: string): Promise<IsolatedWorktree> {
+  const worktreePath = await mkdtemp(path.join(tmpdir(), 'codemachine-worktree-'));
+  await gitOrThrow(root, ['worktree', 'add', '--detach', '--force', worktreePath, base]);
+  logger.debug(`[Isolation] Created worktree ${worktreePath} at ${base}`);
+
+  return {
+    path: worktreePath,
+    workingDir: path.join(worktreePath, path.relative(root, await realpath(workingDir))),
+    base,
+  };
+}
+
+/**
+ * Remove a worktree created by createIsolatedWorktree
+ */
+export async function removeIsolatedWorktree(root: string, worktree: IsolatedWorktree): Promise<void> {
+  const { exitCode } = await git(root, ['worktree', 'remove', '--force', worktree.path]);
+  if (exitCode !== 0) {
+    await rm(worktree.path, { recursive: true, force: true });
+    await git(root, ['worktree', 'prune']);
+  }
+}
+
+async function changedPaths(root: string, from: string, to: string): Promise<string[]> {
+  const output = await gitOrThrow(root, ['diff-tree', '-r', '--name-only', '-z', from, to]);
+  return output.split('\0').filter(Boolean);
+}
+
+/**
+ * Merge the changes of each branch worktree back into the working tree
+ *
+ * Branches are merged in order. A branch whose changes conflict with the
+ * working tree or an earlier branch is skipped as a whole and its worktree is
+ * kept. Other worktrees are removed only once the merged result has been
+ * applied; if merging fails, every worktree is kept.
+ */
+export async function mergeIsolatedWorktrees(root: string, base: string, worktrees: IsolatedWorktree[]): Promise<WorktreeMergeResult[]> {
+  const results: WorktreeMergeResult[] = [];
+  const done: IsolatedWorktree[] = [];
+
+  try {
+    const current = await captureWorkTree(root, base, 'codemachine isolation: working tree');
+    let merged = current;
+
+    for (const worktree of worktrees) {
+      const branch = await captureWorkTree(worktree.path, base, 'codemachine isolation: branch');
+      const changedFiles = await changedPaths(root, base, branch);
+
+      if (changedFiles.length === 0) {
+        results.push({ changedFiles, conflicts: [] });
+        done.push(worktree);
+        continue;
+      }
+
+      const { stdout, exitCode } = await git(root, ['merge-tree', '--write-tree', '--name-only', '--no-messages', '-z', merged, branch]);
+      const [tree, ...conflicted] = stdout.split('\0').filter(Boolean);
+
+      if (exitCode === 1) {
+        logger.warn(`[Isolation] Conflicts merging ${worktree.path}: ${conflicted.join(', ')}`);
+        results.push({ changedFiles, conflicts: Array.from(new Set(conflicted)), worktree: worktree.path });
+        continue;
+      }
+      if (exitCode !== 0 || !tree) {
+        throw new Error(`git merge-tree failed with exit code ${exitCode}`);
+      }
+
+      merged = await gitOrThrow(root, ['commit-tree', tree, '-p', merged, '-p', branch, '-m', 'codemachine isolation: merge'], {
+        ...ISOLATION_IDENTITY,
+      });
+      results.push({ changedFiles, conflicts: [] });
+      done.push(worktree);
+    }
+
+    if (merged !== current) {
+      await applyTree(root, current, merged);
+    }
+  } catch (error) {
+    logger.warn(`[Isolation] Merge failed, keeping worktrees: ${worktrees.map((worktree) => worktree.path).join(', ')}`);
+    throw error;
+  }
+
+  for (const worktree of done) {
+    await removeIsolatedWorktree(root, worktree);
+  }
+  return results;
+}
+
+/**
+ * Bring the working tree from one captured commit to another
+ */
+async function applyTree(root: string, from: string, to: string): Promise<void> {
+  const output = await gitOrThrow(root, ['diff-tree', '-r', '--name-status', '--no-renames', '-z', from, to]);
+  const fields = output.split('\0').filter(Boolean);
+  const written: string[] = [];
+
+  for (let i = 0; i + 1 < fields.length; i += 2) {
+    const [status, file] = [fields[i], fields[i + 1]];
+    if (status === 'D') {
+      await unlink(path.join(root, file)).catch(() => {});
+    } else {
+      written.push(file);
+    }
+  }
+
+  if (written.length > 0) {
+    await gitOrThrow(root, ['restore', `--source=${to}`, '--worktree', '--', ...written.map((file) => `:(top,literal)${file}`)]);
+  }
+}
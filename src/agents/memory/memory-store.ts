@@ -1,4 +1,6 @@
-import { MemoryAdapter, MemoryAnalyticsSource } from '../../infra/fs/memory-adapter.js';
+import type { MemoryAnalyticsHooks, MemoryAnalyticsSource } from '../../infra/fs/memory-adapter.js';
+import { SqliteMemoryAdapter } from '../../infra/fs/sqlite-memory-adapter.js';
+import { getCodemachineFiles } from '../../shared/config/paths.js';
 
 export interface MemoryEntry {
   agentId: string;
@@ -12,8 +14,70 @@ export interface MemorySummary {
   lastTimestamp: string | null;
 }
 
+export interface MemorySearchQuery {
+  /** Free text; entries matching any of its words rank by relevance (empty = newest first) */
+  text?: string;
+  /** Only entries of this agent */
+  agentId?: string;
+  /** Only entries tagged with all of these (`metadata.tags`) */
+  tags?: string[];
+  /** Maximum results (default 10) */
+  limit?: number;
+}
+
+export interface MemorySearchResult extends MemoryEntry {
+  /** Relevance to the query text, higher is better (0 without text) */
+  score: number;
+}
+
+export interface MemoryRetentionPolicy {
+  /** Keep at most this many of the newest entries per agent */
+  maxEntriesPerAgent?: number;
+  /** Delete entries older than this */
+  maxAgeDays?: number;
+}
+
+/**
+ * Storage behind a MemoryStore (MemoryAdapter: JSON files, SqliteMemoryAdapter: SQLite)
+ */
+export interface MemoryStorageAdapter {
+  readonly analytics?: MemoryAnalyticsHooks;
+  append(entry: MemoryEntry): Promise<void>;
+  read(agentId: string): Promise<MemoryEntry[]>;
+  readAll(): Promise<Record<string, MemoryEntry[]>>;
+  /** Adapters without search are scanned by MemoryStore.search */
+  search?(query: MemorySearchQuery): Promise<MemorySearchResult[]>;
+  prune?(policy: MemoryRetentionPolicy): Promise<number>;
+}
+
+function readPositiveNumber(value: string | undefined): number | undefined {
+  const parsed = value === undefined ? NaN : Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * Retention policy from CODEMACHINE_MEMORY_MAX_ENTRIES (entries kept per agent)
+ * and CODEMACHINE_MEMORY_MAX_AGE_DAYS, or undefined to keep every entry when
+ * neither is set
+ */
+export function resolveMemoryRetention(env: NodeJS.ProcessEnv = process.env): MemoryRetentionPolicy | undefined {
+  const maxEntriesPerAgent = readPositiveNumber(env.CODEMACHINE_MEMORY_MAX_ENTRIES);
+  const maxAgeDays = readPositiveNumber(env.CODEMACHINE_MEMORY_MAX_AGE_DAYS);
+  if (maxEntriesPerAgent === undefined && maxAgeDays === undefined) return undefined;
+  return { maxEntriesPerAgent, maxAgeDays };
+}
+
+/**
+ * Memory store of a project, backed by `.codemachine/memory/memory.db`
+ */
+export function createMemoryStore(cwd: string): MemoryStore {
+  return new MemoryStore(
+    new SqliteMemoryAdapter(getCodemachineFiles(cwd).memoryDb, { retention: resolveMemoryRetention() }),
+  );
+}
+
 export class MemoryStore {
-  constructor(private readonly adapter: MemoryAdapter) {}
+  constructor(private readonly adapter: MemoryStorageAdapter) {}
 
   async append(entry: MemoryEntry): Promise<void> {
     const normalized = this.normalizeEntry(entry);
@@ -49,6 +113,51 @@ export class MemoryStore {
     };
   }
 
+  /**
+   * Find entries relevant to a query, best match first
+   */
+  async search(query: MemorySearchQuery): Promise<MemorySearchResult[]> {
+    const normalized: MemorySearchQuery = {
+      ...query,
+      agentId: query.agentId === undefined ? undefined : this.normalizeAgentId(query.agentId),
+      limit: query.limit ?? 10,
+    };
+    if (this.adapter.search) {
+      return this.adapter.search(normalized);
+    }
+    return this.scan(normalized);
+  }
+
+  /**
+   * Delete entries outside a retention policy
+   *
+   * @returns Number of entries deleted (0 if the adapter cannot prune)
+   */
+  async prune(policy: MemoryRetentionPolicy): Promise<number> {
+    return (await this.adapter.prune?.(policy)) ?? 0;
+  }
+
+  private async scan(query: MemorySearchQuery): Promise<MemorySearchResult[]> {
+    const entries = query.agentId
+      ? await this.adapter.read(query.agentId)
+      : Object.values(await this.adapter.readAll()).flat();
+    const words = query.text?.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+    if (query.text?.trim() && words.length === 0) return [];
+
+    return entries
+      .filter((entry) => {
+        const tags = Array.isArray(entry.metadata?.tags) ? (entry.metadata.tags as unknown[]) : [];
+        return (query.tags ?? []).every((tag) => tags.includes(tag));
+      })
+      .map((entry) => {
+        const content = entry.content.toLowerCase();
+        return { ...entry, score: words.filter((word) => content.includes(word)).length };
+      })
+      .filter((entry) => words.length === 0 || entry.score > 0)
+      .sort((a, b) => b.score - a.score || this.parseTimestamp(b.timestamp) - this.parseTimestamp(a.timestamp))
+      .slice(0, query.limit);
+  }
+
   private get storeSource(): MemoryAnalyticsSource {
     return 'store';
   }
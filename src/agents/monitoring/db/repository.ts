@@ -1,6 +1,22 @@
 import type { Database } from 'bun:sqlite';
-import type { AgentRecord, RegisterAgentInput } from '../types.js';
+import type { AgentRecord, AgentUsageFilters, AgentUsageRecord, RegisterAgentInput } from '../types.js';
 import { withDatabaseRetrySync } from '../../../shared/utils/retry.js';
+
+type UsageRow = {
+  id: number;
+  name: string;
+  engine: string | null;
+  model_name: string | null;
+  status: string;
+  start_time: string;
+  duration: number | null;
+  tokens_in: number | null;
+  tokens_out: number | null;
+  cost: number | null;
+  cache_read_tokens: number | null;
+  cache_creation_tokens: number | null;
+};
+
 type AgentRow = {
   id: number;
   name: string;
@@ -91,6 +107,43 @@ export class AgentRepository {
     return rows.map((row: AgentRow) => this.toRecord(row));
   }
 
+  getUsage(filters: AgentUsageFilters = {}): AgentUsageRecord[] {
+    const conditions: string[] = [];
+    const values: string[] = [];
+    if (filters.since) {
+      conditions.push('a.start_time >= ?');
+      values.push(filters.since);
+    }
+    if (filters.until) {
+      conditions.push('a.start_time < ?');
+      values.push(filters.until);
+    }
+
+    const rows = this.db.prepare(`
+      SELECT a.id, a.name, a.engine, a.model_name, a.status, a.start_time, a.duration,
+        t.tokens_in, t.tokens_out, t.cost, t.cache_read_tokens, t.cache_creation_tokens
+      FROM agents a
+      LEFT JOIN telemetry t ON a.id = t.agent_id
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY a.start_time ASC
+    `).all(...values) as UsageRow[];
+
+    return rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      engine: row.engine ?? undefined,
+      modelName: row.model_name ?? undefined,
+      status: row.status as AgentUsageRecord['status'],
+      startTime: row.start_time,
+      duration: row.duration ?? undefined,
+      tokensIn: row.tokens_in ?? 0,
+      tokensOut: row.tokens_out ?? 0,
+      cost: row.cost ?? undefined,
+      cacheReadTokens: row.cache_read_tokens ?? undefined,
+      cacheCreationTokens: row.cache_creation_tokens ?? undefined,
+    }));
+  }
+
   update(id: number, updates: Partial<AgentRecord>): void {
     const fields: string[] = [];
     const values: Array<string | number | null> = [];
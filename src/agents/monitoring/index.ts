@@ -14,10 +14,19 @@ export { AgentLoggerService } from './logger';
 export { AgentRegistry } from './registry';
 export { MonitoringCleanup } from './cleanup';
 export { agentRecordToSubAgentState, convertChildrenToSubAgents } from './converters';
+export {
+  computeAgentStats,
+  percentile,
+  AGENT_STATS_GROUP_BY,
+  type AgentStatsGroup,
+  type AgentStatsGroupBy,
+} from './stats';
 export type {
   AgentRecord,
   AgentStatus,
   RegisterAgentInput,
   AgentRegistryData,
-  AgentQueryFilters
+  AgentQueryFilters,
+  AgentUsageFilters,
+  AgentUsageRecord
 } from './types';
@@ -2,7 +2,14 @@ import type { Database } from 'bun:sqlite';
 import type { ParsedTelemetry } from '../../shared/telemetry/index.js';
 import { getDB } from './db/connection.js';
 import { AgentRepository } from './db/repository.js';
-import type { AgentRecord, AgentQueryFilters, AgentStatus, RegisterAgentInput } from './types.js';
+import type {
+  AgentRecord,
+  AgentQueryFilters,
+  AgentStatus,
+  AgentUsageFilters,
+  AgentUsageRecord,
+  RegisterAgentInput,
+} from './types.js';
 import * as logger from '../../shared/logging/logger.js';
 
 /**
@@ -254,6 +261,13 @@ export class AgentMonitorService {
     return agents;
   }
 
+  /**
+   * Get per-agent usage (tokens, cost, duration) for analytics
+   */
+  getUsage(filters: AgentUsageFilters = {}): AgentUsageRecord[] {
+    return this.repository.getUsage(filters);
+  }
+
   /**
    * Get root agents (agents without parents)
    * Reloads from disk to ensure fresh data
@@ -0,0 +1,99 @@
+import type { AgentUsageRecord } from './types.js';
+
+/**
+ * Dimension to group agent usage by
+ */
+export type AgentStatsGroupBy = 'engine' | 'model' | 'agent' | 'day';
+
+export const AGENT_STATS_GROUP_BY: AgentStatsGroupBy[] = ['engine', 'model', 'agent', 'day'];
+
+/**
+ * Aggregated usage for one group
+ */
+export interface AgentStatsGroup {
+  key: string;
+  runs: number;
+  completed: number;
+  failed: number;
+  tokensIn: number;
+  tokensOut: number;
+  cost: number;
+  /** Duration percentiles in milliseconds (null when no run recorded a duration) */
+  durationP50: number | null;
+  durationP90: number | null;
+  durationP99: number | null;
+  /** Cache reads as a share of all input tokens (null when no run reported cache reads) */
+  cacheHitRatio: number | null;
+}
+
+const UNKNOWN_KEY = 'unknown';
+
+function groupKey(record: AgentUsageRecord, groupBy: AgentStatsGroupBy): string {
+  switch (groupBy) {
+    case 'engine':
+      return record.engine ?? UNKNOWN_KEY;
+    case 'model':
+      return record.modelName ?? UNKNOWN_KEY;
+    case 'agent':
+      return record.name;
+    case 'day':
+      // Start times are ISO timestamps, so the day is the UTC date prefix
+      return record.startTime.slice(0, 10);
+  }
+}
+
+/**
+ * Nearest-rank percentile of an ascending list
+ */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+/**
+ * Aggregate usage records into groups, sorted by key
+ */
+export function computeAgentStats(records: AgentUsageRecord[], groupBy: AgentStatsGroupBy): AgentStatsGroup[] {
+  const groups = new Map<string, AgentUsageRecord[]>();
+  for (const record of records) {
+    const key = groupKey(record, groupBy);
+    const list = groups.get(key);
+    if (list) {
+      list.push(record);
+    } else {
+      groups.set(key, [record]);
+    }
+  }
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, list]) => {
+      const durations = list
+        .map((record) => record.duration)
+        .filter((duration): duration is number => typeof duration === 'number')
+        .sort((a, b) => a - b);
+
+      const withCache = list.filter((record) => record.cacheReadTokens !== undefined);
+      const cacheRead = withCache.reduce((sum, record) => sum + (record.cacheReadTokens ?? 0), 0);
+      // tokensIn excludes cached input, so the total input adds reads and writes back in
+      const cacheInput = withCache.reduce(
+        (sum, record) => sum + record.tokensIn + (record.cacheReadTokens ?? 0) + (record.cacheCreationTokens ?? 0),
+        0,
+      );
+
+      return {
+        key,
+        runs: list.length,
+        completed: list.filter((record) => record.status === 'completed').length,
+        failed: list.filter((record) => record.status === 'failed').length,
+        tokensIn: list.reduce((sum, record) => sum + record.tokensIn, 0),
+        tokensOut: list.reduce((sum, record) => sum + record.tokensOut, 0),
+        cost: list.reduce((sum, record) => sum + (record.cost ?? 0), 0),
+        durationP50: percentile(durations, 50),
+        durationP90: percentile(durations, 90),
+        durationP99: percentile(durations, 99),
+        cacheHitRatio: cacheInput > 0 ? cacheRead / cacheInput : null,
+      };
+    });
+}
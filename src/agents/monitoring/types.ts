@@ -94,3 +94,31 @@ export interface AgentQueryFilters {
   parentId?: number;
   name?: string;
 }
+
+/**
+ * Date range for usage queries (ISO timestamps, matched against start time)
+ */
+export interface AgentUsageFilters {
+  /** Include agents started at or after this time */
+  since?: string;
+  /** Include agents started before this time */
+  until?: string;
+}
+
+/**
+ * Per-agent usage row for analytics
+ */
+export interface AgentUsageRecord {
+  id: number;
+  name: string;
+  engine?: string;
+  modelName?: string;
+  status: AgentStatus;
+  startTime: string;
+  duration?: number;
+  tokensIn: number;
+  tokensOut: number;
+  cost?: number;
+  cacheReadTokens?: number;
+  cacheCreationTokens?: number;
+}
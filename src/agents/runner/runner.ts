@@ -1,9 +1,6 @@
-import * as path from 'node:path';
-
 import type { EngineType } from '../../infra/engines/index.js';
-import { getEngine, registry, engineAuthCache } from '../../infra/engines/index.js';
-import { MemoryAdapter } from '../../infra/fs/memory-adapter.js';
-import { MemoryStore } from '../index.js';
+import { getEngine, registry, engineAuthCache, computeCost } from '../../infra/engines/index.js';
+import { createMemoryStore } from '../index.js';
 import { loadAgentConfig } from './config.js';
 import { loadChainedPrompts, type ChainedPrompt } from './chained.js';
 import { AgentMonitorService, AgentLoggerService } from '../monitoring/index.js';
@@ -390,9 +387,7 @@ export async function executeAgent(
   );
 
   // Set up memory
-  const memoryDir = path.resolve(workingDir, '.codemachine', 'memory');
-  const adapter = new MemoryAdapter(memoryDir);
-  const store = new MemoryStore(adapter);
+  const store = createMemoryStore(workingDir);
 
   // Get engine and execute (async for lazy loading)
   // NOTE: Prompt is already complete - no template loading or building here
@@ -414,6 +409,7 @@ export async function executeAgent(
     const result = await engine.run({
       prompt, // Already complete and ready to use
       workingDir,
+      agentId,
       resumeSessionId,
       resumePrompt,
       model,
@@ -500,7 +496,11 @@ export async function executeAgent(
           }
         }
       },
-      onTelemetry: (telemetry) => {
+      onTelemetry: (reported) => {
+        // Price the run from the model catalog when the engine reports no cost
+        const cost = reported.cost ?? (model ? computeCost(engineType, model, reported) : undefined);
+        const telemetry = cost === reported.cost ? reported : { ...reported, cost };
+
         // Update telemetry in monitoring (fire and forget - don't block streaming)
         if (monitor && monitoringAgentId !== undefined) {
           monitor.updateTelemetry(monitoringAgentId, telemetry).catch(err =>
@@ -2,9 +2,10 @@ import { Command } from 'commander';
 import { listAgents } from './list.js';
 import { showAgentLogs } from './logs.js';
 import { exportAgents } from './export.js';
+import { showAgentStats, type AgentStatsOptions } from './stats.js';
 
 /**
- * Main agents command - routes to list or logs based on subcommand
+ * Main agents command - routes to list, logs, export or stats based on subcommand
  */
 export function createAgentsCommand(): Command {
   const command = new Command('agents')
@@ -39,5 +40,17 @@ export function createAgentsCommand(): Command {
       await exportAgents();
     });
 
+  // agents stats
+  command
+    .command('stats')
+    .description('Show token, cost and duration analytics for recorded agent runs')
+    .option('--by <dimension>', 'Group by engine, model, agent or day', 'engine')
+    .option('--since <date>', 'Only runs started on or after this date (YYYY-MM-DD, ISO timestamp or 7d)')
+    .option('--until <date>', 'Only runs started before this date (a YYYY-MM-DD date includes that whole day)')
+    .option('--format <format>', 'Output as table, csv or json', 'table')
+    .action((options: AgentStatsOptions) => {
+      showAgentStats(options);
+    });
+
   return command;
 }
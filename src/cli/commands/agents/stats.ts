@@ -0,0 +1,173 @@
+import {
+  AgentMonitorService,
+  computeAgentStats,
+  AGENT_STATS_GROUP_BY,
+  type AgentStatsGroup,
+  type AgentStatsGroupBy,
+} from '../../../agents/monitoring/index.js';
+import chalk from 'chalk';
+
+export type AgentStatsFormat = 'table' | 'csv' | 'json';
+
+export interface AgentStatsOptions {
+  by?: string;
+  since?: string;
+  until?: string;
+  format?: string;
+}
+
+const FORMATS: AgentStatsFormat[] = ['table', 'csv', 'json'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Print usage analytics grouped by engine, model, agent or day
+ */
+export function showAgentStats(options: AgentStatsOptions): void {
+  const groupBy = (options.by ?? 'engine') as AgentStatsGroupBy;
+  if (!AGENT_STATS_GROUP_BY.includes(groupBy)) {
+    console.error(chalk.red(`Invalid --by: ${options.by} (expected one of ${AGENT_STATS_GROUP_BY.join(', ')})`));
+    process.exit(1);
+  }
+
+  const format = (options.format ?? 'table') as AgentStatsFormat;
+  if (!FORMATS.includes(format)) {
+    console.error(chalk.red(`Invalid --format: ${options.format} (expected one of ${FORMATS.join(', ')})`));
+    process.exit(1);
+  }
+
+  const since = options.since ? parseStatsDate(options.since, 'start') : undefined;
+  const until = options.until ? parseStatsDate(options.until, 'end') : undefined;
+  if (since === null || until === null) {
+    const value = since === null ? options.since : options.until;
+    console.error(chalk.red(`Invalid date: ${value} (expected YYYY-MM-DD, an ISO timestamp or a number of days like 7d)`));
+    process.exit(1);
+  }
+
+  const records = AgentMonitorService.getInstance().getUsage({ since, until });
+  const groups = computeAgentStats(records, groupBy);
+
+  switch (format) {
+    case 'json':
+      console.log(JSON.stringify({ groupBy, since: since ?? null, until: until ?? null, groups }, null, 2));
+      break;
+    case 'csv':
+      console.log(formatStatsCsv(groups, groupBy));
+      break;
+    default:
+      printStatsTable(groups, groupBy);
+  }
+}
+
+/**
+ * Parse a --since/--until value into an ISO timestamp (null if invalid)
+ *
+ * Accepts `Nd` (N days ago), a date (`--until` covers the whole day) or an ISO timestamp.
+ */
+export function parseStatsDate(value: string, edge: 'start' | 'end', now = new Date()): string | null {
+  const relative = /^(\d+)d$/.exec(value.trim());
+  if (relative) {
+    return new Date(now.getTime() - Number(relative[1]) * DAY_MS).toISOString();
+  }
+
+  const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value.trim());
+  const date = new Date(isDateOnly ? `${value.trim()}T00:00:00.000Z` : value);
+  if (Number.isNaN(date.getTime())) {
+    return null;
+  }
+  if (isDateOnly && edge === 'end') {
+    return new Date(date.getTime() + DAY_MS).toISOString();
+  }
+  return date.toISOString();
+}
+
+/**
+ * Render groups as CSV with a header row
+ */
+export function formatStatsCsv(groups: AgentStatsGroup[], groupBy: AgentStatsGroupBy): string {
+  const header = [
+    groupBy,
+    'runs',
+    'completed',
+    'failed',
+    'tokens_in',
+    'tokens_out',
+    'cost',
+    'duration_p50_ms',
+    'duration_p90_ms',
+    'duration_p99_ms',
+    'cache_hit_ratio',
+  ];
+  const rows = groups.map((group) => [
+    csvField(group.key),
+    group.runs,
+    group.completed,
+    group.failed,
+    group.tokensIn,
+    group.tokensOut,
+    group.cost.toFixed(4),
+    group.durationP50 ?? '',
+    group.durationP90 ?? '',
+    group.durationP99 ?? '',
+    group.cacheHitRatio === null ? '' : group.cacheHitRatio.toFixed(4),
+  ]);
+
+  return [header, ...rows].map((row) => row.join(',')).join('\n');
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function printStatsTable(groups: AgentStatsGroup[], groupBy: AgentStatsGroupBy): void {
+  console.log('');
+
+  if (groups.length === 0) {
+    console.log(chalk.dim('No agent runs recorded for this range.'));
+    console.log('');
+    return;
+  }
+
+  const header = [groupBy.toUpperCase(), 'RUNS', 'FAILED', 'TOKENS IN', 'TOKENS OUT', 'COST', 'P50', 'P90', 'P99', 'CACHE HIT'];
+  const rows = groups.map((group) => [
+    group.key,
+    String(group.runs),
+    String(group.failed),
+    group.tokensIn.toLocaleString('en-US'),
+    group.tokensOut.toLocaleString('en-US'),
+    `$${group.cost.toFixed(2)}`,
+    formatDuration(group.durationP50),
+    formatDuration(group.durationP90),
+    formatDuration(group.durationP99),
+    group.cacheHitRatio === null ? '-' : `${Math.round(group.cacheHitRatio * 100)}%`,
+  ]);
+
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length))
+  );
+  const formatRow = (row: string[]) =>
+    row.map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))).join('  ');
+
+  console.log(chalk.bold(formatRow(header)));
+  console.log(chalk.dim('─'.repeat(widths.reduce((sum, width) => sum + width + 2, -2))));
+  for (const row of rows) {
+    console.log(formatRow(row));
+  }
+
+  const totalRuns = groups.reduce((sum, group) => sum + group.runs, 0);
+  const totalCost = groups.reduce((sum, group) => sum + group.cost, 0);
+  console.log('');
+  console.log(chalk.dim(`Total: ${totalRuns} runs, $${totalCost.toFixed(2)}`));
+  console.log('');
+}
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) {
+    return '-';
+  }
+  const seconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  if (minutes > 0) {
+    return `${minutes}m ${seconds % 60}s`;
+  }
+  return `${seconds}s`;
+}
@@ -0,0 +1,165 @@
+import type { Command } from 'commander';
+import chalk from 'chalk';
+
+import {
+  runDoctor,
+  applyDoctorFixes,
+  type DoctorReport,
+  type DoctorFixResult,
+} from '../../runtime/services/doctor.js';
+import type { HealthStatus } from '../../runtime/services/health-check.js';
+
+type DoctorCommandOptions = {
+  json?: boolean;
+  fix?: boolean;
+};
+
+const STATUS_ORDER: HealthStatus[] = ['unhealthy', 'degraded', 'healthy'];
+
+export function registerDoctorCommand(program: Command): void {
+  program
+    .command('doctor')
+    .description('Check system health and workspace configuration')
+    .option('--json', 'Print the report as JSON')
+    .option('--fix', 'Repair fixable issues (missing directories, stale log locks, credential permissions)')
+    .action(async (options: DoctorCommandOptions) => {
+      const cwd = process.env.CODEMACHINE_CWD || process.cwd();
+
+      let fixes: DoctorFixResult[] = [];
+      let report = await runDoctor(cwd);
+
+      if (options.fix && report.issues.length > 0) {
+        fixes = await applyDoctorFixes(report.issues);
+        report = await runDoctor(cwd);
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(toJson(report, fixes), null, 2));
+      } else {
+        printReport(report, fixes, options.fix ?? false);
+      }
+
+      process.exit(report.overall === 'unhealthy' ? 1 : 0);
+    });
+}
+
+function toJson(report: DoctorReport, fixes: DoctorFixResult[]) {
+  return {
+    overall: report.overall,
+    timestamp: report.health.timestamp.toISOString(),
+    checks: report.health.checks,
+    summary: report.health.summary,
+    config: {
+      valid: report.config.valid,
+      errors: report.config.errors.map((error) => error.message),
+      warnings: report.config.warnings,
+      agents: report.config.config.agents,
+    },
+    issues: report.issues,
+    fixes: fixes.map((fix) => ({
+      kind: fix.issue.kind,
+      path: fix.issue.path,
+      fixed: fix.fixed,
+      error: fix.error,
+    })),
+  };
+}
+
+function printReport(report: DoctorReport, fixes: DoctorFixResult[], fixRequested: boolean): void {
+  console.log('');
+  console.log(chalk.bold('CodeMachine Doctor'));
+  console.log(chalk.dim('─'.repeat(60)));
+
+  // Health checks grouped by status
+  for (const status of STATUS_ORDER) {
+    const checks = report.health.checks.filter((check) => check.status === status);
+    if (checks.length === 0) continue;
+
+    console.log('');
+    console.log(formatStatusHeading(status, checks.length));
+    for (const check of checks) {
+      console.log(`  ${statusIcon(check.status)} ${chalk.bold(check.name)} ${chalk.dim('-')} ${check.message}`);
+    }
+  }
+
+  // Configuration validation
+  console.log('');
+  if (report.config.valid) {
+    console.log(chalk.bold.green(`CONFIGURATION (${report.config.config.agents.length} agents)`));
+  } else {
+    console.log(chalk.bold.red(`CONFIGURATION (${report.config.errors.length} errors)`));
+  }
+  for (const error of report.config.errors) {
+    console.log(`  ${chalk.red('✗')} ${error.message}`);
+  }
+  for (const warning of report.config.warnings) {
+    console.log(`  ${chalk.yellow('!')} ${warning}`);
+  }
+  if (report.config.valid && report.config.warnings.length === 0) {
+    console.log(`  ${chalk.green('✓')} Configuration is valid`);
+  }
+
+  // Fix results
+  if (fixes.length > 0) {
+    console.log('');
+    console.log(chalk.bold('FIXES'));
+    for (const fix of fixes) {
+      if (fix.fixed) {
+        console.log(`  ${chalk.green('✓')} ${fix.issue.message}`);
+      } else {
+        console.log(`  ${chalk.red('✗')} ${fix.issue.message}: ${fix.error}`);
+      }
+    }
+  }
+
+  // Remaining fixable issues
+  if (report.issues.length > 0) {
+    console.log('');
+    console.log(chalk.bold.yellow(`FIXABLE ISSUES (${report.issues.length})`));
+    for (const issue of report.issues) {
+      console.log(`  ${chalk.yellow('!')} ${issue.message}`);
+    }
+    if (!fixRequested) {
+      console.log(chalk.dim('\n  Run `codemachine doctor --fix` to repair these automatically.'));
+    }
+  }
+
+  console.log('');
+  console.log(chalk.dim('─'.repeat(60)));
+  console.log(`Overall: ${formatStatus(report.overall)}`);
+  console.log('');
+}
+
+function formatStatusHeading(status: HealthStatus, count: number): string {
+  const label = `${status.toUpperCase()} (${count})`;
+  switch (status) {
+    case 'healthy':
+      return chalk.bold.green(label);
+    case 'degraded':
+      return chalk.bold.yellow(label);
+    default:
+      return chalk.bold.red(label);
+  }
+}
+
+function formatStatus(status: HealthStatus): string {
+  switch (status) {
+    case 'healthy':
+      return chalk.green('Healthy');
+    case 'degraded':
+      return chalk.yellow('Degraded');
+    default:
+      return chalk.red('Unhealthy');
+  }
+}
+
+function statusIcon(status: HealthStatus): string {
+  switch (status) {
+    case 'healthy':
+      return chalk.green('✓');
+    case 'degraded':
+      return chalk.yellow('!');
+    default:
+      return chalk.red('✗');
+  }
+}
@@ -4,3 +4,6 @@ export { registerAuthCommands } from './auth.command.js';
 export { registerRunCommand } from './run.command.js';
 export { registerStepCommand } from './step.command.js';
 export { registerAgentsCommand } from './agents/register.js';
+export { registerDoctorCommand } from './doctor.command.js';
+export { registerRollbackCommand } from './rollback.command.js';
+export { registerPromptCommand } from './prompt.command.js';
@@ -0,0 +1,185 @@
+import * as path from 'node:path';
+import type { Command } from 'commander';
+import chalk from 'chalk';
+
+import { loadAgentConfig, loadAgentTemplate } from '../../agents/runner/index.js';
+import { loadChainedPrompts, type ChainedPrompt } from '../../agents/runner/chained.js';
+import { assemblePrompt, type AssembledPrompt, type PlaceholderContribution } from '../../shared/prompts/index.js';
+import {
+  getSelectedConditions,
+  getSelectedTrack,
+  getTemplatePathFromTracking,
+} from '../../shared/workflows/index.js';
+import { flattenWorkflowSteps, loadTemplateWithPath } from '../../workflows/templates/index.js';
+import type { ModuleStep } from '../../workflows/templates/types.js';
+import { resolvePromptBudget } from '../../workflows/execution/prompt-budget.js';
+import { readStepPrompt } from '../../workflows/execution/step.js';
+
+type PromptRenderOptions = {
+  step?: string;
+  track?: string;
+  conditions?: string;
+};
+
+/**
+ * A fully expanded agent prompt with its chained prompts
+ */
+export interface RenderedPrompt {
+  agentId: string;
+  /** Workflow step the prompt was rendered for (undefined = agent config) */
+  step?: { index: number; step: ModuleStep };
+  track: string | null;
+  conditions: string[];
+  assembled: AssembledPrompt;
+  chainedPrompts: ChainedPrompt[];
+}
+
+export function registerPromptCommand(program: Command): void {
+  const promptCommand = program.command('prompt').description('Inspect agent prompts');
+
+  promptCommand
+    .command('render <agent-id>')
+    .description('Print the fully expanded prompt of an agent with the source of each placeholder')
+    .option('--step <n>', 'Render the prompt of workflow step n (index as in template.json)')
+    .option('--track <track>', 'Workflow track (default: the selected track)')
+    .option('--conditions <list>', 'Comma-separated conditions (default: the selected conditions)')
+    .action(async (agentId: string, options: PromptRenderOptions) => {
+      const cwd = process.env.CODEMACHINE_CWD || process.cwd();
+
+      let stepIndex: number | undefined;
+      if (options.step !== undefined) {
+        stepIndex = Number(options.step);
+        if (!Number.isInteger(stepIndex) || stepIndex < 0) {
+          console.error(chalk.red(`\nInvalid --step: ${options.step} (expected a step index, 0 or higher)\n`));
+          process.exit(1);
+        }
+      }
+
+      try {
+        const rendered = await renderAgentPrompt(agentId, cwd, {
+          stepIndex,
+          track: options.track,
+          conditions: options.conditions?.split(',').map((c) => c.trim()).filter(Boolean),
+        });
+        printRenderedPrompt(rendered, cwd);
+      } catch (error) {
+        console.error(chalk.red(`\n${error instanceof Error ? error.message : String(error)}\n`));
+        process.exit(1);
+      }
+    });
+}
+
+/**
+ * Expand an agent's prompt the way a workflow run would
+ *
+ * With a step index, the prompt path and prompt budget of that step in the
+ * workflow template (default: the active one) are used; otherwise the agent's
+ * configured prompt.
+ * Chained prompts are loaded as they are queued at runtime (not expanded).
+ */
+export async function renderAgentPrompt(
+  agentId: string,
+  cwd: string,
+  options: { stepIndex?: number; track?: string; conditions?: string[]; templatePath?: string } = {},
+): Promise<RenderedPrompt> {
+  const cmRoot = path.join(cwd, '.codemachine');
+  const track = options.track ?? (await getSelectedTrack(cmRoot));
+  const conditions = options.conditions ?? (await getSelectedConditions(cmRoot));
+  const agentConfig = await loadAgentConfig(agentId, cwd);
+
+  let rawPrompt: string;
+  let step: RenderedPrompt['step'];
+  let assembled: AssembledPrompt;
+
+  if (options.stepIndex !== undefined) {
+    const templatePath = options.templatePath ?? (await getTemplatePathFromTracking(cmRoot));
+    const { template } = await loadTemplateWithPath(cwd, templatePath);
+    const moduleSteps = flattenWorkflowSteps(template.steps, { track, conditions }).filter(
+      (s): s is ModuleStep => s.type === 'module',
+    );
+    const moduleStep = moduleSteps[options.stepIndex];
+    if (!moduleStep) {
+      throw new Error(`Step ${options.stepIndex} does not exist (the workflow has ${moduleSteps.length} steps for this track and conditions)`);
+    }
+    if (moduleStep.agentId !== agentId) {
+      throw new Error(`Step ${options.stepIndex} runs ${moduleStep.agentId}, not ${agentId}`);
+    }
+    step = { index: options.stepIndex, step: moduleStep };
+
+    rawPrompt = await readStepPrompt(moduleStep, cwd);
+
+    // Preview without calling an engine: a 'summarize' budget falls back to truncating
+    const budget = await resolvePromptBudget(moduleStep, template.promptBudget, cwd);
+    assembled = await assemblePrompt(rawPrompt, cwd, budget && { ...budget, summarize: undefined });
+  } else {
+    rawPrompt = await loadAgentTemplate(agentId, cwd);
+    assembled = await assemblePrompt(rawPrompt, cwd);
+  }
+
+  const chainedPrompts = agentConfig.chainedPromptsPath
+    ? await loadChainedPrompts(agentConfig.chainedPromptsPath, cwd, conditions)
+    : [];
+
+  return { agentId, step, track, conditions, assembled, chainedPrompts };
+}
+
+function formatSource(placeholder: PlaceholderContribution, cwd: string): string {
+  const source = placeholder.source;
+  if (!source || source.kind === 'built-in') return chalk.dim('built-in');
+  if (source.kind === 'undefined') return chalk.yellow('not defined in config/placeholders.js');
+  if (source.kind !== 'file') {
+    const label = source.pattern ? `${source.kind}: ${source.pattern}` : source.kind;
+    if (!source.missing) return label;
+    return placeholder.optional ? chalk.dim(`${label} (unavailable, optional)`) : chalk.yellow(`${label} (unavailable)`);
+  }
+  if (source.missing) {
+    return placeholder.optional ? chalk.dim(`${source.pattern} (missing, optional)`) : chalk.yellow(`${source.pattern} (missing)`);
+  }
+  // Project files relative to the workspace, package files (prompts/templates/...) absolute
+  const files = (source.files ?? []).map((file) => {
+    const relative = path.relative(cwd, file);
+    return relative && !relative.startsWith('..') ? relative : file;
+  });
+  return files.length === 1 && source.pattern && files[0].endsWith(path.normalize(source.pattern))
+    ? files[0]
+    : `${source.pattern} → ${files.join(', ')}`;
+}
+
+function printRenderedPrompt(rendered: RenderedPrompt, cwd: string): void {
+  const { assembled, chainedPrompts } = rendered;
+  const target = rendered.step ? `step ${rendered.step.index} (${rendered.step.step.agentName})` : 'agent config';
+
+  console.log('');
+  console.log(chalk.bold(`Prompt of ${rendered.agentId} — ${target}`));
+  console.log(chalk.dim(`Track: ${rendered.track ?? 'none'}  Conditions: ${rendered.conditions.join(', ') || 'none'}`));
+  console.log(chalk.dim('─'.repeat(80)));
+  console.log(assembled.prompt);
+  console.log(chalk.dim('─'.repeat(80)));
+
+  for (const [index, chained] of chainedPrompts.entries()) {
+    console.log(chalk.bold(`Chained prompt ${index + 1}/${chainedPrompts.length}: ${chained.name}`) + chalk.dim(` — ${chained.label}`));
+    console.log(chained.content.trim());
+    console.log(chalk.dim('─'.repeat(80)));
+  }
+
+  const { report } = assembled;
+  console.log(chalk.bold('Placeholders'));
+  if (report.placeholders.length === 0) {
+    console.log(chalk.dim('  (none)'));
+  }
+  for (const placeholder of report.placeholders) {
+    const tokens = placeholder.action === 'kept'
+      ? `~${placeholder.finalTokens} tokens`
+      : `~${placeholder.tokens} → ${placeholder.finalTokens} tokens (${placeholder.action})`;
+    const times = placeholder.occurrences > 1 ? ` ×${placeholder.occurrences}` : '';
+    console.log(`  ${placeholder.expression}${times}  ${chalk.cyan(tokens)}  ${formatSource(placeholder, cwd)}`);
+  }
+
+  const budget = report.maxTokens !== undefined ? ` of a ${report.maxTokens} token budget` : '';
+  console.log('');
+  console.log(chalk.dim(`Total: ~${report.estimatedTokens} tokens${budget} (${report.templateTokens} outside placeholders)`));
+  if (chainedPrompts.length > 0) {
+    console.log(chalk.dim('Chained prompts are sent as written; placeholders in them are not expanded.'));
+  }
+  console.log('');
+}
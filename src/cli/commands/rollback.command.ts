@@ -0,0 +1,66 @@
+import * as path from 'node:path';
+import type { Command } from 'commander';
+import chalk from 'chalk';
+
+import { getStepSnapshots, rollbackToStep, SnapshotError } from '../../shared/workflows/index.js';
+
+type RollbackCommandOptions = {
+  toStep?: string;
+};
+
+export function registerRollbackCommand(program: Command): void {
+  program
+    .command('rollback')
+    .description('Restore files to a step snapshot and rerun the workflow from the following step')
+    .option('--to-step <n>', 'Index of the completed step to roll back to (as in template.json)')
+    .action(async (options: RollbackCommandOptions) => {
+      const cwd = process.env.CODEMACHINE_CWD || process.cwd();
+      const cmRoot = path.join(cwd, '.codemachine');
+
+      if (options.toStep === undefined) {
+        await printSnapshots(cmRoot);
+        return;
+      }
+
+      const stepIndex = Number(options.toStep);
+      if (!Number.isInteger(stepIndex) || stepIndex < 0) {
+        console.error(chalk.red(`\nInvalid --to-step: ${options.toStep} (expected a step index, 0 or higher)\n`));
+        process.exit(1);
+      }
+
+      try {
+        const { commit, removedSteps } = await rollbackToStep(cwd, cmRoot, stepIndex);
+        console.log('');
+        console.log(chalk.green(`✓ Restored files to the snapshot of step ${stepIndex} (${commit.slice(0, 10)})`));
+        if (removedSteps.length > 0) {
+          console.log(chalk.dim(`  Reset steps ${removedSteps.join(', ')}`));
+        }
+        console.log(chalk.dim(`  The next run resumes at step ${stepIndex + 1}.`));
+        console.log('');
+      } catch (error) {
+        if (error instanceof SnapshotError) {
+          console.error(chalk.red(`\n${error.message}\n`));
+          process.exit(1);
+        }
+        throw error;
+      }
+    });
+}
+
+async function printSnapshots(cmRoot: string): Promise<void> {
+  const snapshots = await getStepSnapshots(cmRoot);
+
+  console.log('');
+  if (snapshots.length === 0) {
+    console.log(chalk.dim('No step snapshots recorded. Enable them with `snapshots: true` in the template or `start --snapshots`.'));
+  } else {
+    console.log(chalk.bold('Step snapshots'));
+    for (const snapshot of snapshots) {
+      const completedAt = snapshot.completedAt ? new Date(snapshot.completedAt).toLocaleString() : 'N/A';
+      console.log(`  ${String(snapshot.stepIndex).padStart(3)}  ${snapshot.commit.slice(0, 10)}  ${chalk.dim(completedAt)}`);
+    }
+    console.log('');
+    console.log(chalk.dim('Roll back with: codemachine rollback --to-step <n>'));
+  }
+  console.log('');
+}
@@ -1,13 +1,16 @@
 import type { Command } from 'commander';
-import { CoordinatorService } from '../../agents/coordinator/index.js';
+import { CoordinatorService, type CoordinationIsolation } from '../../agents/coordinator/index.js';
 import { MonitoringCleanup } from '../../agents/monitoring/index.js';
 import chalk from 'chalk';
 
 type RunCommandOptions = {
   model?: string;
   dir: string;
+  isolation?: string;
 };
 
+const ISOLATION_MODES: CoordinationIsolation[] = ['shared', 'worktree'];
+
 /**
  * Register the unified run command (replaces agent + orchestrate)
  */
@@ -22,7 +25,10 @@ export async function registerRunCommand(program: Command): Promise<void> {
     .description(`Run agent(s) with enhanced syntax using ${defaultEngineName}`)
     .option('--model <model>', 'Model to use (overrides agent config)')
     .option('-d, --dir <directory>', 'Working directory', process.cwd())
+    .option('--isolation <mode>', 'Where parallel (&) branches write: shared or worktree', 'shared')
     .action(async (script: string, options: RunCommandOptions) => {
+      checkIsolation(options.isolation);
+
       // Set up cleanup handlers for graceful shutdown
       MonitoringCleanup.setup();
 
@@ -40,6 +46,16 @@ export async function registerRunCommand(program: Command): Promise<void> {
   await registerEngineRunCommands(program);
 }
 
+/**
+ * Exit with an error unless --isolation names a known mode
+ */
+function checkIsolation(isolation: string | undefined): void {
+  if (isolation !== undefined && !ISOLATION_MODES.includes(isolation as CoordinationIsolation)) {
+    console.error(chalk.red(`\nInvalid --isolation: ${isolation} (expected one of ${ISOLATION_MODES.join(', ')})\n`));
+    process.exit(1);
+  }
+}
+
 /**
  * Main script execution logic
  * Uses CoordinatorService for both single agents and coordination
@@ -47,11 +63,14 @@ export async function registerRunCommand(program: Command): Promise<void> {
 async function runScript(script: string, options: RunCommandOptions): Promise<void> {
   const trimmed = script.trim();
 
+  const isolation = (options.isolation ?? 'shared') as CoordinationIsolation;
+
   // CoordinatorService handles both single agents and coordination
   // No need for separate detection - the parser handles both syntaxes
   const coordinator = CoordinatorService.getInstance();
   await coordinator.execute(trimmed, {
-    workingDir: options.dir
+    workingDir: options.dir,
+    isolation
   });
 }
 
@@ -75,7 +94,10 @@ async function registerEngineRunCommands(program: Command): Promise<void> {
       .argument('<script>', 'Agent script to execute')
       .option('--model <model>', 'Model to use (overrides agent config)')
       .option('-d, --dir <directory>', 'Working directory', process.cwd())
+      .option('--isolation <mode>', 'Where parallel (&) branches write: shared or worktree', 'shared')
       .action(async (script: string, options: RunCommandOptions) => {
+        checkIsolation(options.isolation);
+
         // Set up cleanup handlers for graceful shutdown
         MonitoringCleanup.setup();
 
@@ -113,4 +135,7 @@ async function registerEngineRunCommands(program: Command): Promise<void> {
  *
  * Orchestration (mixed):
  * codemachine run "db[tail:50] 'setup' && frontend[input:design.md,tail:100] & backend[input:api-spec.md,tail:100]"
+ *
+ * Orchestration (parallel, each branch in its own git worktree):
+ * codemachine run --isolation worktree "frontend 'UI' & backend 'API'"
  */
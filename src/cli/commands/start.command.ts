@@ -6,16 +6,33 @@ import { debug } from '../../shared/logging/logger.js';
 import { clearTerminal } from '../../shared/utils/terminal.js';
 import {
   getBuiltInPresetNames,
+  isBuiltInPreset,
   isValidEngineId,
   getAvailableEngineIds,
+  loadEngineConfig,
+  describeAvailablePresets,
+  setAgentTierConfig,
 } from '../../workflows/execution/engine-presets.js';
+import { loadAgentTierConfig } from '../../workflows/execution/agent-tiers.js';
+import type { ExecutionPlan } from '../../workflows/execution/dry-run.js';
 
 const DEFAULT_SPEC_PATH = '.codemachine/inputs/specifications.md';
+const HEADLESS_LOG_LEVELS = ['minimal', 'normal', 'verbose'] as const;
+const HEADLESS_INPUT_POLICIES = ['continue', 'skip', 'fail'] as const;
+const PLAN_FORMATS = ['text', 'json', 'mermaid'] as const;
 
 type StartCommandOptions = {
   spec?: string;
   engine?: string;
   preset?: string;
+  headless?: boolean;
+  logFile?: string;
+  logLevel?: string;
+  onInput?: string;
+  maxParallel?: string;
+  snapshots?: boolean;
+  dryRun?: boolean;
+  format?: string;
 };
 
 export function registerStartCommand(program: Command): void {
@@ -28,6 +45,14 @@ export function registerStartCommand(program: Command): void {
     .option('--spec <path>', 'Path to the planning specification file')
     .option('--engine <engine>', `Use a specific engine for all agents (${engineIds})`)
     .option('--preset <preset>', `Use an engine preset (${presetNames})`)
+    .option('--headless', 'Run without the TUI, logging workflow events to stdout or --log-file')
+    .option('--log-file <path>', 'Write headless logs to a file instead of stdout')
+    .option('--log-level <level>', `Headless log detail (${HEADLESS_LOG_LEVELS.join(', ')})`, 'normal')
+    .option('--on-input <policy>', `Headless answer when an agent waits for input (${HEADLESS_INPUT_POLICIES.join(', ')})`, 'continue')
+    .option('--max-parallel <n>', 'Maximum steps of a parallel group running at once (default: template setting or 4)')
+    .option('--snapshots', 'Record a git snapshot as each step completes (enables `codemachine rollback`)')
+    .option('--dry-run', 'Print the execution plan (engines, models, prompt sizes, loops) without running agents')
+    .option('--format <format>', `Dry-run output (${PLAN_FORMATS.join(', ')})`, 'text')
     .action(async (options: StartCommandOptions, command: Command) => {
       const cwd = process.env.CODEMACHINE_CWD || process.cwd();
 
@@ -43,18 +68,36 @@ export function registerStartCommand(program: Command): void {
         process.exit(1);
       }
 
-      // Validate preset if provided
-      if (options.preset) {
-        const validPresets = getBuiltInPresetNames();
-        if (!validPresets.includes(options.preset as typeof validPresets[number])) {
+      // Validate preset if provided (built-in or custom from engine-config.json)
+      if (options.preset && !isBuiltInPreset(options.preset)) {
+        const engineConfig = await loadEngineConfig(path.join(cwd, '.codemachine'));
+        if (!engineConfig?.presets?.[options.preset]) {
+          setAgentTierConfig(await loadAgentTierConfig(cwd, engineConfig));
           console.error(chalk.red(`\nUnknown preset: ${options.preset}`));
-          console.error(chalk.gray(`Available presets: ${presetNames}\n`));
+          console.error(chalk.gray(`${describeAvailablePresets(engineConfig)}\n`));
           process.exit(1);
         }
       }
 
+      // Validate parallel limit if provided
+      const maxParallel = options.maxParallel !== undefined ? Number(options.maxParallel) : undefined;
+      if (maxParallel !== undefined && (!Number.isInteger(maxParallel) || maxParallel < 1)) {
+        console.error(chalk.red(`\nInvalid --max-parallel: ${options.maxParallel} (expected a positive integer)\n`));
+        process.exit(1);
+      }
+
+      if (options.dryRun) {
+        await runDryRun(cwd, options);
+        return;
+      }
+
       debug(`Starting workflow (spec: ${specificationPath}, engine: ${options.engine ?? 'default'}, preset: ${options.preset ?? 'none'})`);
 
+      if (options.headless) {
+        await runHeadless(cwd, specificationPath, options, maxParallel);
+        return;
+      }
+
       // Comprehensive terminal clearing
       clearTerminal();
 
@@ -67,6 +110,8 @@ export function registerStartCommand(program: Command): void {
           specificationPath,
           engineOverride: options.engine,
           enginePreset: options.preset,
+          maxParallel,
+          snapshots: options.snapshots,
         });
         console.log('\n✓ Workflow completed successfully');
         process.exit(0);
@@ -80,3 +125,159 @@ export function registerStartCommand(program: Command): void {
       }
     });
 }
+
+/**
+ * Print the execution plan instead of running the workflow
+ */
+async function runDryRun(cwd: string, options: StartCommandOptions): Promise<void> {
+  const format = options.format ?? 'text';
+  if (!PLAN_FORMATS.includes(format as typeof PLAN_FORMATS[number])) {
+    console.error(chalk.red(`\nInvalid --format: ${options.format} (expected one of ${PLAN_FORMATS.join(', ')})\n`));
+    process.exit(1);
+  }
+
+  const { buildExecutionPlan, describePlannedStep, formatPlanMermaid } = await import('../../workflows/execution/dry-run.js');
+
+  let plan: ExecutionPlan;
+  try {
+    plan = await buildExecutionPlan({ cwd, engineOverride: options.engine, enginePreset: options.preset });
+  } catch (error) {
+    console.error(chalk.red(`\n${error instanceof Error ? error.message : String(error)}\n`));
+    process.exit(1);
+  }
+
+  if (format === 'json') {
+    console.log(JSON.stringify(plan, null, 2));
+  } else if (format === 'mermaid') {
+    console.log(formatPlanMermaid(plan));
+  } else {
+    printPlan(plan, describePlannedStep);
+  }
+
+  process.exit(0);
+}
+
+function printPlan(plan: ExecutionPlan, describePlannedStep: (step: ExecutionPlan['steps'][number]) => string): void {
+  const width = String(Math.max(0, ...plan.steps.map((step) => step.index ?? 0))).length;
+
+  console.log('');
+  console.log(chalk.bold(`Execution plan: ${plan.workflow}`) + chalk.dim(` (${plan.templatePath})`));
+  const resume = plan.startIndex > 0 ? `  Resumes at step ${plan.startIndex}` : '';
+  console.log(chalk.dim(`Track: ${plan.track ?? 'none'}  Conditions: ${plan.conditions.join(', ') || 'none'}${resume}`));
+  console.log('');
+
+  for (const step of plan.steps) {
+    const index = step.index === undefined ? '-'.padStart(width) : String(step.index).padStart(width);
+    const groups = step.groups?.length
+      ? chalk.dim(` [${step.groups.map((g) => (g.kind === 'branch' ? `${g.label}: ${g.path}` : g.label)).join(' › ')}]`)
+      : '';
+    const name = `${step.agentName} (${step.agentId})`;
+
+    if (step.skipped || step.resumed) {
+      const reason = step.skipped ?? 'completed in an earlier run';
+      console.log(chalk.dim(`  ${index}  ${name}  ${reason}`) + groups);
+      continue;
+    }
+
+    const source = step.engineSource === 'default' ? chalk.dim(' (default)') : step.engineSource === 'preset' ? chalk.dim(' (preset)') : '';
+    const details = step.promptError ? chalk.yellow(`prompt not rendered: ${step.promptError.split('\n')[0]}`) : chalk.cyan(describePlannedStep(step));
+    console.log(`  ${index}  ${name}${groups}`);
+    console.log(`  ${' '.repeat(width)}  ${details}${source}`);
+    if (step.promptOverBudget) {
+      console.log(chalk.yellow(`  ${' '.repeat(width)}  over its ${step.promptBudget} token budget even after trimming`));
+    }
+  }
+
+  if (plan.edges.length > 0) {
+    console.log('');
+    console.log(chalk.bold('Edges'));
+    for (const edge of plan.edges) {
+      if (edge.kind === 'loop') {
+        const max = edge.maxIterations !== undefined ? ` (at most ${edge.maxIterations} times)` : '';
+        console.log(`  ${edge.from} → ${edge.to}  loop${max}`);
+      } else {
+        console.log(`  ${edge.from} → ${edge.agentId}  trigger`);
+      }
+    }
+  }
+
+  const { totals } = plan;
+  console.log('');
+  console.log(chalk.dim(`${totals.runnable} of ${totals.steps} steps will run, ~${totals.promptTokens} prompt tokens`));
+  if (totals.promptErrors > 0) {
+    console.log(chalk.yellow(`${totals.promptErrors} prompt(s) could not be rendered yet (files written by earlier steps may not exist)`));
+  }
+  console.log('');
+}
+
+/**
+ * Run the workflow with the HeadlessAdapter subscribed to the event bus.
+ * Exits with 0 (completed), 1 (error) or 2 (stopped).
+ */
+async function runHeadless(
+  cwd: string,
+  specificationPath: string,
+  options: StartCommandOptions,
+  maxParallel?: number,
+): Promise<void> {
+  const logLevel = options.logLevel ?? 'normal';
+  if (!HEADLESS_LOG_LEVELS.includes(logLevel as typeof HEADLESS_LOG_LEVELS[number])) {
+    console.error(chalk.red(`\nUnknown log level: ${logLevel}`));
+    console.error(chalk.gray(`Available log levels: ${HEADLESS_LOG_LEVELS.join(', ')}\n`));
+    process.exit(1);
+  }
+
+  const inputPolicy = options.onInput ?? 'continue';
+  if (!HEADLESS_INPUT_POLICIES.includes(inputPolicy as typeof HEADLESS_INPUT_POLICIES[number])) {
+    console.error(chalk.red(`\nUnknown input policy: ${inputPolicy}`));
+    console.error(chalk.gray(`Available input policies: ${HEADLESS_INPUT_POLICIES.join(', ')}\n`));
+    process.exit(1);
+  }
+
+  const { runWorkflow } = await import('../../workflows/index.js');
+  const { WorkflowEventBus } = await import('../../workflows/events/index.js');
+  const { getControlBus } = await import('../../workflows/control/index.js');
+  const { ValidationError } = await import('../../runtime/services/validation.js');
+  const { HeadlessAdapter } = await import('../tui/routes/workflow/adapters/headless.js');
+
+  const eventBus = new WorkflowEventBus();
+  const adapter = new HeadlessAdapter({
+    logFile: options.logFile ? path.resolve(cwd, options.logFile) : undefined,
+    logLevel: logLevel as typeof HEADLESS_LOG_LEVELS[number],
+    inputPolicy: inputPolicy as typeof HEADLESS_INPUT_POLICIES[number],
+  });
+
+  const controlBus = getControlBus();
+  adapter.onInput = (input) => controlBus.emit('input', input);
+  adapter.onQuit = () => controlBus.emit('stop');
+
+  adapter.connect(eventBus);
+  adapter.start();
+
+  let exitCode: number;
+  try {
+    await runWorkflow({
+      cwd,
+      specificationPath,
+      engineOverride: options.engine,
+      enginePreset: options.preset,
+      maxParallel,
+      snapshots: options.snapshots,
+      headless: true,
+      eventBus,
+    });
+    exitCode = adapter.getExitCode();
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      console.log(`\n${error.message}\n`);
+    } else {
+      console.error('\n✗ Workflow failed:', error instanceof Error ? error.message : String(error));
+    }
+    exitCode = 1;
+  } finally {
+    adapter.stop();
+    adapter.disconnect();
+  }
+
+  process.exit(exitCode);
+}
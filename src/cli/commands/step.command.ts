@@ -1,8 +1,6 @@
 import type { Command } from 'commander';
-import * as path from 'node:path';
 
-import { MemoryAdapter } from '../../infra/fs/memory-adapter.js';
-import { MemoryStore } from '../../agents/index.js';
+import { createMemoryStore } from '../../agents/index.js';
 import { loadAgentTemplate, loadAgentConfig } from '../../agents/runner/index.js';
 import { getEngine } from '../../infra/engines/index.js';
 import type { EngineType } from '../../infra/engines/index.js';
@@ -114,9 +112,7 @@ async function executeStep(
   const modelReasoningEffort = options.reasoning ?? (agentConfig.modelReasoningEffort as 'low' | 'medium' | 'high' | undefined) ?? engineModule.metadata.defaultModelReasoningEffort;
 
   // Set up memory (write-only, no read)
-  const memoryDir = path.resolve(workingDir, '.codemachine', 'memory');
-  const adapter = new MemoryAdapter(memoryDir);
-  const store = new MemoryStore(adapter);
+  const store = createMemoryStore(workingDir);
 
   // Build composite prompt without memory
   let compositePrompt: string;
@@ -153,6 +149,7 @@ async function executeStep(
     const result = await engine.run({
       prompt: compositePrompt,
       workingDir,
+      agentId,
       model,
       modelReasoningEffort,
       onData: (chunk) => {
@@ -33,6 +33,12 @@ async function handleTemplateSelectionSuccess(template: WorkflowTemplate, templa
   template.steps.forEach((step, index) => {
     if (isModuleStep(step)) {
       console.log(`  ${index + 1}. ${step.agentName} [${step.agentId}]`);
+    } else if (step.type === 'parallel') {
+      console.log(`  ${index + 1}. [Parallel: ${step.label ?? step.id}] ${step.steps.map((s) => s.agentName).join(', ')}`);
+    } else if (step.type === 'branch') {
+      console.log(`  ${index + 1}. [Branch: ${step.label ?? step.id}] paths: ${Object.keys(step.paths).join(', ')}`);
+    } else if (step.type === 'include') {
+      console.log(`  ${index + 1}. [Workflow: ${step.workflow}]`);
     } else {
       console.log(`  ${index + 1}. [UI Element]`);
     }
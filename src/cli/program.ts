@@ -7,6 +7,9 @@ import {
   registerRunCommand,
   registerStepCommand,
   registerAgentsCommand,
+  registerDoctorCommand,
+  registerRollbackCommand,
+  registerPromptCommand,
 } from './commands/index.js';
 import { resolvePackageJson } from '../shared/runtime/root.js';
 
@@ -32,6 +35,9 @@ export async function registerCli(program: Command): Promise<void> {
   registerTemplatesCommand(program);
   registerAuthCommands(program);
   registerAgentsCommand(program);
+  registerDoctorCommand(program);
+  registerRollbackCommand(program);
+  registerPromptCommand(program);
   await registerRunCommand(program);
   await registerStepCommand(program);
 }
@@ -333,6 +333,85 @@ describe('HeadlessAdapter', () => {
   });
 });
 
+describe('HeadlessAdapter input policy and exit code', () => {
+  let bus: WorkflowEventBus;
+  const waitTick = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(() => {
+    bus = createWorkflowEventBus();
+  });
+
+  it('should answer input waits with an empty prompt by default', async () => {
+    const adapter = createHeadlessAdapter({ logger: () => {} });
+    const inputs: { prompt?: string; skip?: boolean }[] = [];
+    adapter.onInput = (input) => inputs.push(input);
+    adapter.connect(bus);
+    adapter.start();
+
+    bus.emit({ type: 'input:state', inputState: { active: true, queuedPrompts: [], currentIndex: 0 } });
+    expect(inputs).toHaveLength(0);
+    await waitTick();
+
+    expect(inputs).toEqual([{}]);
+  });
+
+  it('should skip waiting agents with the skip policy', async () => {
+    const adapter = createHeadlessAdapter({ logger: () => {}, inputPolicy: 'skip' });
+    const inputs: { prompt?: string; skip?: boolean }[] = [];
+    adapter.onInput = (input) => inputs.push(input);
+    adapter.connect(bus);
+    adapter.start();
+
+    bus.emit({ type: 'input:state', inputState: { active: true } });
+    await waitTick();
+
+    expect(inputs).toEqual([{ skip: true }]);
+  });
+
+  it('should quit and report failure with the fail policy', async () => {
+    const adapter = createHeadlessAdapter({ logger: () => {}, inputPolicy: 'fail' });
+    let quit = false;
+    adapter.onQuit = () => { quit = true; };
+    adapter.connect(bus);
+    adapter.start();
+
+    bus.emit({ type: 'input:state', inputState: { active: true } });
+    await waitTick();
+    bus.emit({ type: 'workflow:status', status: 'stopped' });
+
+    expect(quit).toBe(true);
+    expect(adapter.getInputFailure()).not.toBeNull();
+    expect(adapter.getExitCode()).toBe(1);
+  });
+
+  it('should ignore inactive input state', async () => {
+    const adapter = createHeadlessAdapter({ logger: () => {} });
+    const inputs: { prompt?: string; skip?: boolean }[] = [];
+    adapter.onInput = (input) => inputs.push(input);
+    adapter.connect(bus);
+    adapter.start();
+
+    bus.emit({ type: 'input:state', inputState: null });
+    await waitTick();
+
+    expect(inputs).toHaveLength(0);
+  });
+
+  it('should map final workflow status to exit code', () => {
+    const adapter = createHeadlessAdapter({ logger: () => {} });
+    adapter.connect(bus);
+    adapter.start();
+
+    expect(adapter.getExitCode()).toBe(1);
+    bus.emit({ type: 'workflow:status', status: 'completed' });
+    expect(adapter.getExitCode()).toBe(0);
+    bus.emit({ type: 'workflow:status', status: 'stopped' });
+    expect(adapter.getExitCode()).toBe(2);
+    bus.emit({ type: 'workflow:status', status: 'error' });
+    expect(adapter.getExitCode()).toBe(1);
+  });
+});
+
 describe('createAdapter factory', () => {
   it('should create headless adapter', () => {
     const adapter = createAdapter('headless');
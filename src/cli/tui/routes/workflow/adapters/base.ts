@@ -27,6 +27,7 @@ export abstract class BaseUIAdapter implements IWorkflowUI {
   onQuit?: () => void;
   onCheckpointContinue?: () => void;
   onCheckpointQuit?: () => void;
+  onInput?: (input: { prompt?: string; skip?: boolean }) => void;
 
   constructor(options: UIAdapterOptions = {}) {
     this.options = options;
@@ -117,6 +118,13 @@ export abstract class BaseUIAdapter implements IWorkflowUI {
     this.onCheckpointQuit?.();
   }
 
+  /**
+   * Emit user action: answer an input prompt
+   */
+  protected emitInput(input: { prompt?: string; skip?: boolean }): void {
+    this.onInput?.(input);
+  }
+
   /**
    * Called when start() is invoked - subclasses implement UI initialization
    */
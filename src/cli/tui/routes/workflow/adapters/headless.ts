@@ -10,6 +10,15 @@ import * as path from 'node:path';
 import { BaseUIAdapter } from './base.js';
 import type { UIAdapterOptions } from './types.js';
 import type { WorkflowEvent } from '../../../../../workflows/events/index.js';
+import type { WorkflowStatus } from '../state/types.js';
+
+/**
+ * How the headless adapter answers when the workflow waits for input:
+ * - 'continue': submit an empty prompt (runs queued chained prompts, then advances)
+ * - 'skip': skip the waiting agent
+ * - 'fail': quit the workflow and report an error exit code
+ */
+export type HeadlessInputPolicy = 'continue' | 'skip' | 'fail';
 
 export interface HeadlessAdapterOptions extends UIAdapterOptions {
   /** Path to log file (if not set, logs to console) */
@@ -23,6 +32,9 @@ export interface HeadlessAdapterOptions extends UIAdapterOptions {
 
   /** Show timestamps in logs */
   timestamps?: boolean;
+
+  /** How to answer input waits (default: 'continue') */
+  inputPolicy?: HeadlessInputPolicy;
 }
 
 /**
@@ -44,6 +56,9 @@ export class HeadlessAdapter extends BaseUIAdapter {
   private customLogger: ((message: string) => void) | null = null;
   private showTimestamps: boolean;
   private agentNames = new Map<string, string>();
+  private inputPolicy: HeadlessInputPolicy;
+  private workflowStatus: WorkflowStatus | null = null;
+  private inputFailure: string | null = null;
 
   constructor(options: HeadlessAdapterOptions = {}) {
     super(options);
@@ -51,6 +66,37 @@ export class HeadlessAdapter extends BaseUIAdapter {
     this.logLevel = options.logLevel || 'normal';
     this.customLogger = options.logger || null;
     this.showTimestamps = options.timestamps ?? true;
+    this.inputPolicy = options.inputPolicy || 'continue';
+  }
+
+  /**
+   * Last workflow status seen on the event bus
+   */
+  getWorkflowStatus(): WorkflowStatus | null {
+    return this.workflowStatus;
+  }
+
+  /**
+   * Process exit code for the observed outcome:
+   * 0 = completed, 1 = error (or input wait under 'fail' policy), 2 = stopped
+   */
+  getExitCode(): number {
+    if (this.inputFailure) return 1;
+    switch (this.workflowStatus) {
+      case 'completed':
+        return 0;
+      case 'stopped':
+        return 2;
+      default:
+        return 1;
+    }
+  }
+
+  /**
+   * Reason the workflow was failed by the input policy, if any
+   */
+  getInputFailure(): string | null {
+    return this.inputFailure;
   }
 
   protected onStart(): void {
@@ -84,6 +130,7 @@ export class HeadlessAdapter extends BaseUIAdapter {
         break;
 
       case 'workflow:status':
+        this.workflowStatus = event.status;
         this.log(`Workflow status: ${event.status}`);
         break;
 
@@ -125,6 +172,30 @@ export class HeadlessAdapter extends BaseUIAdapter {
         }
         break;
 
+      case 'behavior:decision':
+        if (this.logLevel !== 'minimal') {
+          const name = this.agentNames.get(event.agentId) || event.agentId;
+          const { decision, errors } = event.record;
+          this.log(decision
+            ? `[${name}] Decision: ${decision.action}${decision.reason ? ` - ${decision.reason}` : ''}`
+            : `[${name}] Invalid behavior.json: ${errors?.join('; ')}`);
+        }
+        break;
+
+      case 'artifact:update': {
+        const { artifact } = event;
+        if (artifact.status === 'valid') {
+          if (this.logLevel !== 'minimal') {
+            this.log(`Artifact ${artifact.name}: ${artifact.files.join(', ')}`);
+          }
+        } else if (artifact.status === 'invalid' || (artifact.status === 'missing' && !artifact.optional)) {
+          this.log(`!!  Artifact ${artifact.name} ${artifact.status}: ${artifact.errors?.join('; ') ?? artifact.path}`);
+        } else if (this.logLevel === 'verbose') {
+          this.log(`Artifact ${artifact.name} ${artifact.status === 'pending' ? 'expected' : 'not written (optional)'} at ${artifact.path}`);
+        }
+        break;
+      }
+
       case 'subagent:added':
         if (this.logLevel === 'verbose') {
           const parentName = this.agentNames.get(event.parentId) || event.parentId;
@@ -166,6 +237,12 @@ export class HeadlessAdapter extends BaseUIAdapter {
         }
         break;
 
+      case 'input:state':
+        if (event.inputState?.active) {
+          this.answerInput(event.inputState.queuedPrompts?.length ?? 0, event.inputState.currentIndex ?? 0);
+        }
+        break;
+
       case 'message:log':
         if (this.logLevel === 'verbose') {
           const name = this.agentNames.get(event.agentId) || event.agentId;
@@ -186,6 +263,14 @@ export class HeadlessAdapter extends BaseUIAdapter {
         }
         break;
 
+      case 'engine:circuit':
+        if (event.state === 'open') {
+          this.log(`!!  Engine ${event.engineId} circuit opened (repeated failures), skipping until it recovers`);
+        } else if (this.logLevel !== 'minimal') {
+          this.log(`Engine ${event.engineId} circuit ${event.state === 'closed' ? 'closed' : 'half-open'}`);
+        }
+        break;
+
       default:
         if (this.logLevel === 'verbose') {
           this.log(`Event: ${(event as WorkflowEvent).type}`);
@@ -193,6 +278,34 @@ export class HeadlessAdapter extends BaseUIAdapter {
     }
   }
 
+  /**
+   * Answer an input wait according to the configured policy.
+   * Deferred so the input provider finishes subscribing before we reply.
+   */
+  private answerInput(queueLength: number, queueIndex: number): void {
+    switch (this.inputPolicy) {
+      case 'continue':
+        if (queueIndex < queueLength) {
+          this.log(`Input requested, sending queued prompt ${queueIndex + 1}/${queueLength}`);
+        } else {
+          this.log('Input requested, continuing to next step');
+        }
+        setImmediate(() => this.emitInput({}));
+        break;
+
+      case 'skip':
+        this.log('Input requested, skipping agent');
+        setImmediate(() => this.emitInput({ skip: true }));
+        break;
+
+      case 'fail':
+        this.inputFailure = 'Workflow requested input while running headless';
+        this.log(`${this.inputFailure}, stopping`);
+        setImmediate(() => this.emitQuit());
+        break;
+    }
+  }
+
   /**
    * Log a message to console or file
    */
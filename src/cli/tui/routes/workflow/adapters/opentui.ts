@@ -7,7 +7,7 @@
 
 import type { WorkflowEvent } from "../../../../../workflows/events/index.js"
 import { debug } from "../../../../../shared/logging/logger.js"
-import type { AgentStatus, SubAgentState, LoopState, ChainedState, InputState, RateLimitState, TriggeredAgentState } from "../state/types.js"
+import type { AgentStatus, SubAgentState, LoopState, ChainedState, InputState, RateLimitState, TriggeredAgentState, EngineCircuitState, StepGroup, ArtifactRecord } from "../state/types.js"
 import { BaseUIAdapter } from "./base.js"
 import type { UIAdapterOptions } from "./types.js"
 
@@ -28,6 +28,7 @@ export interface UIActions {
     thinkingCount: number
     stepIndex?: number
     totalSteps?: number
+    groups?: StepGroup[]
   }): void
   updateAgentStatus(agentId: string, status: AgentStatus): void
   updateAgentEngine(agentId: string, engine: string): void
@@ -39,6 +40,7 @@ export interface UIActions {
   updateAgentGoal(agentId: string, goal: string): void
   updateAgentCurrentFile(agentId: string, currentFile: string): void
   updateAgentCurrentAction(agentId: string, currentAction: string): void
+  updateAgentDecision(agentId: string, decision: string): void
   setLoopState(loopState: LoopState | null): void
   clearLoopRound(agentId: string): void
   addSubAgent(parentId: string, subAgent: SubAgentState): void
@@ -49,6 +51,8 @@ export interface UIActions {
   setCheckpointState(checkpoint: { active: boolean; reason?: string } | null): void
   setInputState(inputState: InputState | null): void
   setRateLimitState(rateLimitState: RateLimitState | null): void
+  setEngineCircuitState(engineId: string, state: EngineCircuitState): void
+  updateArtifact(artifact: ArtifactRecord): void
   /** @deprecated Use setInputState instead */
   setChainedState(chainedState: ChainedState | null): void
   registerMonitoringId(uiAgentId: string, monitoringId: number): void
@@ -122,6 +126,7 @@ export class OpenTUIAdapter extends BaseUIAdapter {
           thinkingCount: 0,
           stepIndex: event.agent.stepIndex,
           totalSteps: event.agent.totalSteps,
+          groups: event.agent.groups,
         })
         break
 
@@ -162,6 +167,21 @@ export class OpenTUIAdapter extends BaseUIAdapter {
         this.actions.updateAgentCurrentAction(event.agentId, event.action)
         break
 
+      case "behavior:decision": {
+        const { decision, errors } = event.record
+        this.actions.updateAgentDecision(
+          event.agentId,
+          decision
+            ? `${decision.action}${decision.reason ? ` - ${decision.reason}` : ""}`
+            : `invalid (${errors?.length ?? 0} error${errors?.length === 1 ? "" : "s"})`
+        )
+        break
+      }
+
+      case "artifact:update":
+        this.actions.updateArtifact(event.artifact)
+        break
+
       // Sub-agent events
       case "subagent:added":
         this.actions.addSubAgent(event.parentId, event.subAgent)
@@ -250,6 +270,10 @@ export class OpenTUIAdapter extends BaseUIAdapter {
           `Falling back from ${event.fromEngine} to ${event.toEngine}: ${event.reason}`
         )
         break
+
+      case "engine:circuit":
+        this.actions.setEngineCircuitState(event.engineId, event.state)
+        break
     }
   }
 }
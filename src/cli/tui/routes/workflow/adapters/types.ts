@@ -22,6 +22,9 @@ export interface WorkflowUserActions {
 
   /** User chose to quit from checkpoint */
   onCheckpointQuit?: () => void;
+
+  /** User answered an input prompt (empty prompt = use queue or advance) */
+  onInput?: (input: { prompt?: string; skip?: boolean }) => void;
 }
 
 /**
@@ -17,6 +17,7 @@ import { AgentMonitorService } from "../../../../../../../agents/monitoring/inde
 export interface HistoryViewProps {
   onClose: () => void
   onOpenLogViewer: (monitoringId: number) => void
+  onRollback?: (monitoringId: number) => void
   disabled?: boolean
   initialSelectedIndex?: number
   onSelectedIndexChange?: (index: number) => void
@@ -62,6 +63,7 @@ export function HistoryView(props: HistoryViewProps) {
     onClose: props.onClose,
     onOpenLogViewer: props.onOpenLogViewer,
     onClearHistory: handleClearHistory,
+    onRollback: props.onRollback,
     onScrollToIndex: handleScrollToIndex,
     disabled: () => props.disabled ?? false,
   })
@@ -171,7 +173,7 @@ export function HistoryView(props: HistoryViewProps) {
 
           <box paddingTop={1}>
             <text fg={themeCtx.theme.textMuted}>
-              [H/Esc] Close  [Up/Down] Navigate  [g/G] Top/Bottom  [Enter] Logs  [Ctrl+D] Clear
+              [H/Esc] Close  [Up/Down] Navigate  [g/G] Top/Bottom  [Enter] Logs  [R] Rollback  [Ctrl+D] Clear
             </text>
           </box>
         </box>
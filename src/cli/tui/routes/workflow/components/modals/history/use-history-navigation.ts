@@ -15,6 +15,7 @@ export interface UseHistoryNavigationOptions {
   onClose: () => void
   onOpenLogViewer: (monitoringId: number) => void
   onClearHistory?: () => void
+  onRollback?: (monitoringId: number) => void
   onScrollToIndex?: (index: number) => void
   disabled?: () => boolean
 }
@@ -120,6 +121,15 @@ export function useHistoryNavigation(options: UseHistoryNavigationOptions) {
       return
     }
 
+    if (evt.name === "r" && !evt.ctrl) {
+      evt.preventDefault()
+      const selected = options.flattenedAgents()[selectedIndex()]
+      if (selected && options.onRollback) {
+        options.onRollback(selected.agent.id)
+      }
+      return
+    }
+
     // Ctrl+D to clear history
     if (evt.ctrl && evt.name === "d") {
       evt.preventDefault()
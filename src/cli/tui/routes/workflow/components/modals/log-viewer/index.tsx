@@ -2,16 +2,19 @@
 /**
  * Log Viewer Component
  *
- * Full-screen log viewer with scrolling support.
+ * Full-screen log viewer with scrolling, search, filters by line kind,
+ * follow mode and export of the filtered view.
  */
 
-import { createMemo } from "solid-js"
+import { createEffect, createMemo, createSignal } from "solid-js"
+import type { Renderable, ScrollBoxRenderable } from "@opentui/core"
 import { useTerminalDimensions } from "@opentui/solid"
-import { useModalKeyboard } from "@tui/shared/hooks"
 import { useLogStream } from "../../../hooks/useLogStream"
 import { LogHeader } from "./log-header"
 import { LogContent } from "./log-content"
 import { LogFooter } from "./log-footer"
+import { exportLogLines } from "./log-search"
+import { useLogNavigation } from "./use-log-navigation"
 
 export interface LogViewerProps {
   agentId: string
@@ -21,19 +24,46 @@ export interface LogViewerProps {
 
 export function LogViewer(props: LogViewerProps) {
   const dimensions = useTerminalDimensions()
+  const [scrollRef, setScrollRef] = createSignal<ScrollBoxRenderable | undefined>()
 
   const monitoringId = () => props.getMonitoringId(props.agentId)
   const logStream = useLogStream(monitoringId)
 
+  // Scroll so the line sits near the top of the viewport (lines can wrap, so use its layout position)
+  const handleJumpToLine = (index: number) => {
+    const ref = scrollRef()
+    if (!ref) return
+    const child = ref.content.getChildren()[index] as Renderable | undefined
+    if (!child) return
+    ref.scrollTop = Math.max(0, child.y - ref.content.y - 2)
+  }
+
+  const nav = useLogNavigation({
+    lines: () => logStream.lines,
+    onJumpToLine: handleJumpToLine,
+    onExport: async (lines) => {
+      if (!logStream.logPath) throw new Error("log file not found")
+      return exportLogLines(logStream.logPath, lines)
+    },
+    onClose: props.onClose,
+  })
+
+  // Resuming follow jumps back to the tail
+  createEffect(() => {
+    const ref = scrollRef()
+    if (nav.follow() && ref) {
+      ref.scrollTop = ref.scrollHeight
+    }
+  })
+
+  // Footer grows by a line for the search input and for the status message
   const visibleLines = createMemo(() => {
     const height = dimensions()?.height ?? 40
-    return Math.max(5, height - 9)
+    const footerExtra = (nav.searchMode() ? 1 : 0) + (nav.status() ? 1 : 0)
+    return Math.max(5, height - 9 - footerExtra)
   })
 
-  // Close on Escape
-  useModalKeyboard({
-    onClose: props.onClose,
-  })
+  const matchPosition = createMemo(() => nav.matches().indexOf(nav.currentLine()) + 1)
 
   return (
     <box flexDirection="column" height="100%">
@@ -44,16 +74,31 @@ export function LogViewer(props: LogViewerProps) {
         isRunning={logStream.isRunning}
       />
       <LogContent
-        lines={logStream.lines}
+        lines={nav.view()}
         isLoading={logStream.isLoading}
         isConnecting={logStream.isConnecting}
         error={logStream.error}
         visibleHeight={visibleLines()}
-        isRunning={logStream.isRunning}
+        follow={nav.follow()}
+        isFiltered={nav.kinds().size > 0}
+        highlight={nav.query()}
+        currentLine={nav.currentLine()}
+        focused={!nav.searchMode()}
+        scrollRef={setScrollRef}
       />
       <LogFooter
         total={logStream.lines.length}
+        shown={nav.view().length}
         isRunning={logStream.isRunning}
+        follow={nav.follow()}
+        kinds={nav.kinds()}
+        query={nav.query()}
+        searchMode={nav.searchMode()}
+        onQueryInput={nav.setQuery}
+        matchCount={nav.matches().length}
+        matchPosition={matchPosition()}
+        errorCount={nav.errors().length}
+        status={nav.status()}
       />
     </box>
   )
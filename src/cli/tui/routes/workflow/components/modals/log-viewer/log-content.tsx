@@ -6,6 +6,7 @@
  */
 
 import { Show, For } from "solid-js"
+import type { ScrollBoxRenderable } from "@opentui/core"
 import { useTheme } from "@tui/shared/context/theme"
 import { LogLine } from "../../shared/log-line"
 
@@ -15,7 +16,17 @@ export interface LogContentProps {
   isConnecting: boolean
   error: string | null
   visibleHeight: number
-  isRunning?: boolean
+  /** Stick to the bottom as lines arrive */
+  follow: boolean
+  /** Lines are filtered by kind (changes the empty message) */
+  isFiltered?: boolean
+  /** Search query to highlight */
+  highlight?: string
+  /** Index of the current search match / jump target */
+  currentLine?: number
+  /** Scrollbox loses focus while the search input is active */
+  focused?: boolean
+  scrollRef?: (ref: ScrollBoxRenderable) => void
 }
 
 export function LogContent(props: LogContentProps) {
@@ -46,14 +57,15 @@ export function LogContent(props: LogContentProps) {
           when={props.lines.length > 0}
           fallback={
             <box justifyContent="center" alignItems="center" height="100%">
-              <text fg={themeCtx.theme.textMuted}>Log file is empty</text>
+              <text fg={themeCtx.theme.textMuted}>{props.isFiltered ? "No lines match the filters" : "Log file is empty"}</text>
             </box>
           }
         >
           <scrollbox
+            ref={(r: ScrollBoxRenderable) => props.scrollRef?.(r)}
             height={props.visibleHeight}
             width="100%"
-            stickyScroll={props.isRunning ?? true}
+            stickyScroll={props.follow}
             stickyStart="bottom"
             scrollbarOptions={{
               showArrows: true,
@@ -63,10 +75,12 @@ export function LogContent(props: LogContentProps) {
               },
             }}
             viewportCulling={true}
-            focused={true}
+            focused={props.focused ?? true}
           >
             <For each={props.lines}>
-              {(line) => <LogLine line={line || " "} />}
+              {(line, index) => (
+                <LogLine line={line || " "} highlight={props.highlight} isCurrentMatch={index() === props.currentLine} />
+              )}
             </For>
           </scrollbox>
         </Show>
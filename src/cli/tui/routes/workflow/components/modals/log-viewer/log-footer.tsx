@@ -2,15 +2,30 @@
 /**
  * Log Footer Component
  *
- * Total lines count and keyboard shortcuts.
+ * Line counts, search input, filter/follow state and keyboard shortcuts.
  */
 
-import { Show } from "solid-js"
+import { For, Show } from "solid-js"
 import { useTheme } from "@tui/shared/context/theme"
+import { LINE_KIND_LABELS, type LineKind } from "./log-search"
+
+const FILTER_ORDER: LineKind[] = ["tool", "thinking", "error"]
 
 export interface LogFooterProps {
   total: number
+  /** Lines in the filtered view */
+  shown: number
   isRunning: boolean
+  follow: boolean
+  kinds: ReadonlySet<LineKind>
+  query: string
+  searchMode: boolean
+  onQueryInput: (value: string) => void
+  matchCount: number
+  /** Position of the current line among the matches (0 when not on a match) */
+  matchPosition: number
+  errorCount: number
+  status: string | null
 }
 
 export function LogFooter(props: LogFooterProps) {
@@ -18,19 +33,56 @@ export function LogFooter(props: LogFooterProps) {
 
   return (
     <>
+      <Show when={props.searchMode}>
+        <box paddingLeft={1} paddingRight={1} flexDirection="row" height={1}>
+          <text fg={themeCtx.theme.primary}>/</text>
+          <input
+            value={props.query}
+            placeholder="Search logs"
+            placeholderColor={themeCtx.theme.textMuted}
+            onInput={props.onQueryInput}
+            focused
+            flexGrow={1}
+            backgroundColor={themeCtx.theme.background}
+            focusedBackgroundColor={themeCtx.theme.background}
+            textColor={themeCtx.theme.text}
+            focusedTextColor={themeCtx.theme.text}
+            cursorColor={themeCtx.theme.primary}
+          />
+          <text fg={themeCtx.theme.textMuted}> {props.matchCount} matches</text>
+        </box>
+      </Show>
       <Show when={props.total > 0}>
         <box paddingLeft={1} paddingRight={1} flexDirection="row">
           <text fg={themeCtx.theme.textMuted}>
-            {props.total} lines
+            {props.shown === props.total ? `${props.total} lines` : `${props.shown}/${props.total} lines`}
           </text>
+          <For each={FILTER_ORDER.filter((kind) => props.kinds.has(kind))}>
+            {(kind) => <text fg={themeCtx.theme.info}> [{LINE_KIND_LABELS[kind]}]</text>}
+          </For>
+          <Show when={props.query && !props.searchMode}>
+            <text fg={themeCtx.theme.info}>
+              {" "}• "{props.query}" {props.matchPosition > 0 ? `${props.matchPosition}/` : ""}{props.matchCount} matches
+            </text>
+          </Show>
+          <Show when={props.errorCount > 0}>
+            <text fg={themeCtx.theme.error}> • {props.errorCount} errors</text>
+          </Show>
           <Show when={props.isRunning}>
-            <text fg={themeCtx.theme.warning}> • Live updates enabled</text>
+            <text fg={themeCtx.theme.warning}> • {props.follow ? "Following live updates" : "Follow paused"}</text>
           </Show>
         </box>
       </Show>
+      <Show when={props.status}>
+        <box paddingLeft={1} paddingRight={1}>
+          <text fg={themeCtx.theme.success}>{props.status}</text>
+        </box>
+      </Show>
       <box paddingLeft={1} paddingRight={1}>
         <text fg={themeCtx.theme.textMuted}>
-          [Esc] Close  [Up/Down] Scroll
+          {props.searchMode
+            ? "[Enter] Done  [Esc] Cancel"
+            : "[Esc] Close  [Up/Down] Scroll  [/] Search  [n/N] Next/Prev match  [e/E] Next/Prev error  [1/2/3/0] Tools/Thinking/Errors/All  [f] Follow  [s] Export"}
         </text>
       </box>
     </>
@@ -0,0 +1,85 @@
+/**
+ * Log Search
+ *
+ * Filtering, search and export for the log viewer.
+ */
+
+import { mkdir, writeFile } from "fs/promises"
+import { basename, dirname, join } from "path"
+import { isCaseSensitiveQuery } from "@tui/shared/utils"
+import { classifyLine, stripMarker, type LineKind } from "../../../../../../../shared/formatters/outputMarkers.js"
+
+export type { LineKind }
+
+export const LINE_KIND_LABELS: Record<LineKind, string> = {
+  tool: "Tools",
+  thinking: "Thinking",
+  error: "Errors",
+}
+
+/**
+ * Lines matching any of the selected kinds (all lines when none is selected)
+ */
+export function filterLogLines(lines: string[], kinds: ReadonlySet<LineKind>): string[] {
+  if (kinds.size === 0) return lines
+  return lines.filter((line) => classifyLine(line).some((kind) => kinds.has(kind)))
+}
+
+/**
+ * Searchable text of a line (markers and ANSI codes removed)
+ */
+export function lineText(line: string): string {
+  // eslint-disable-next-line no-control-regex
+  return stripMarker(line).replace(/\x1b\[[0-9;]*m/g, "")
+}
+
+/**
+ * Indexes of the lines containing the query
+ */
+export function findMatchingLines(lines: string[], query: string): number[] {
+  if (!query) return []
+  const caseSensitive = isCaseSensitiveQuery(query)
+  const needle = caseSensitive ? query : query.toLowerCase()
+  const matches: number[] = []
+  lines.forEach((line, index) => {
+    const text = lineText(line)
+    if ((caseSensitive ? text : text.toLowerCase()).includes(needle)) {
+      matches.push(index)
+    }
+  })
+  return matches
+}
+
+/**
+ * Indexes of the error lines
+ */
+export function findErrorLines(lines: string[]): number[] {
+  const errors: number[] = []
+  lines.forEach((line, index) => {
+    if (classifyLine(line).includes("error")) errors.push(index)
+  })
+  return errors
+}
+
+/**
+ * Next (or previous) index after `from`, wrapping around
+ */
+export function stepIndex(indexes: number[], from: number, direction: 1 | -1): number | undefined {
+  if (indexes.length === 0) return undefined
+  if (direction === 1) {
+    return indexes.find((index) => index > from) ?? indexes[0]
+  }
+  return [...indexes].reverse().find((index) => index < from) ?? indexes[indexes.length - 1]
+}
+
+/**
+ * Write lines as plain text to logs/exports next to the log file
+ * Returns the path of the export
+ */
+export async function exportLogLines(logPath: string, lines: string[], now: Date = new Date()): Promise<string> {
+  const stamp = now.toISOString().replace(/[:.]/g, "-")
+  const exportPath = join(dirname(logPath), "exports", `${basename(logPath, ".log")}-${stamp}.log`)
+  await mkdir(dirname(exportPath), { recursive: true })
+  await writeFile(exportPath, lines.map(lineText).join("\n") + "\n", "utf-8")
+  return exportPath
+}
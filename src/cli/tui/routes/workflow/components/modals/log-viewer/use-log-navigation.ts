@@ -0,0 +1,159 @@
+/**
+ * Log Navigation Hook
+ *
+ * Manages search, filters, follow mode and keyboard shortcuts for the log viewer.
+ */
+
+import { createMemo, createSignal } from "solid-js"
+import { useKeyboard } from "@opentui/solid"
+import { filterLogLines, findErrorLines, findMatchingLines, stepIndex, type LineKind } from "./log-search"
+
+const FILTER_KEYS: Record<string, LineKind> = {
+  "1": "tool",
+  "2": "thinking",
+  "3": "error",
+}
+
+export interface UseLogNavigationOptions {
+  /** All log lines */
+  lines: () => string[]
+  /** Scroll the given line of the filtered view into sight */
+  onJumpToLine: (index: number) => void
+  /** Export the filtered view, returning the export path */
+  onExport: (lines: string[]) => Promise<string>
+  onClose: () => void
+}
+
+export function useLogNavigation(options: UseLogNavigationOptions) {
+  const [query, setQueryRaw] = createSignal("")
+  const [searchMode, setSearchMode] = createSignal(false)
+  const [kinds, setKinds] = createSignal<ReadonlySet<LineKind>>(new Set())
+  const [follow, setFollow] = createSignal(true)
+  const [currentLine, setCurrentLine] = createSignal(-1)
+  const [status, setStatus] = createSignal<string | null>(null)
+
+  // Filtered view, and search matches / errors as line indexes into it
+  const view = createMemo(() => filterLogLines(options.lines(), kinds()))
+  const matches = createMemo(() => findMatchingLines(view(), query()))
+  const errors = createMemo(() => findErrorLines(view()))
+
+  const jumpTo = (index: number | undefined) => {
+    if (index === undefined) return
+    setFollow(false)
+    setCurrentLine(index)
+    options.onJumpToLine(index)
+  }
+
+  // Incremental search: jump to the first match at or after the current line
+  const setQuery = (value: string) => {
+    setQueryRaw(value)
+    const found = findMatchingLines(view(), value)
+    jumpTo(found.find((index) => index >= currentLine()) ?? found[0])
+  }
+
+  const toggleKind = (kind: LineKind) => {
+    setKinds((prev) => {
+      const next = new Set(prev)
+      if (next.has(kind)) next.delete(kind)
+      else next.add(kind)
+      return next
+    })
+    // Line indexes refer to the previous view
+    setCurrentLine(-1)
+  }
+
+  const exportView = async () => {
+    setStatus("Exporting...")
+    try {
+      setStatus(`Exported ${view().length} lines to ${await options.onExport(view())}`)
+    } catch (error) {
+      setStatus(`Export failed: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  useKeyboard((evt) => {
+    // While typing a query, only Enter/Escape are handled; other keys go to the input
+    if (searchMode()) {
+      if (evt.name === "return") {
+        evt.preventDefault()
+        setSearchMode(false)
+        return
+      }
+      if (evt.name === "escape") {
+        evt.preventDefault()
+        setQueryRaw("")
+        setSearchMode(false)
+        return
+      }
+      return
+    }
+
+    if (evt.name === "escape") {
+      evt.preventDefault()
+      // First Escape clears the search, the next one closes
+      if (query()) {
+        setQueryRaw("")
+        return
+      }
+      options.onClose()
+      return
+    }
+
+    if (evt.name === "/") {
+      evt.preventDefault()
+      setStatus(null)
+      setSearchMode(true)
+      return
+    }
+
+    if (evt.name === "n" && query()) {
+      evt.preventDefault()
+      jumpTo(stepIndex(matches(), currentLine(), evt.shift ? -1 : 1))
+      return
+    }
+
+    if (evt.name === "e") {
+      evt.preventDefault()
+      jumpTo(stepIndex(errors(), currentLine(), evt.shift ? -1 : 1))
+      return
+    }
+
+    if (FILTER_KEYS[evt.name]) {
+      evt.preventDefault()
+      toggleKind(FILTER_KEYS[evt.name])
+      return
+    }
+
+    if (evt.name === "0") {
+      evt.preventDefault()
+      setKinds(new Set<LineKind>())
+      setCurrentLine(-1)
+      return
+    }
+
+    if (evt.name === "f") {
+      evt.preventDefault()
+      setFollow((prev) => !prev)
+      return
+    }
+
+    if (evt.name === "s" && !evt.ctrl) {
+      evt.preventDefault()
+      void exportView()
+      return
+    }
+  })
+
+  return {
+    view,
+    query,
+    setQuery,
+    searchMode,
+    kinds,
+    follow,
+    currentLine,
+    matches,
+    errors,
+    status,
+  }
+}
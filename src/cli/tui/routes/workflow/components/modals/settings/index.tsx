@@ -2,46 +2,76 @@
 /**
  * Settings Modal
  *
- * Allows user to select engine presets and configure fallback behavior.
+ * Allows user to select engine presets and configure fallback behavior,
+ * and opens the custom preset and agent override editors.
  */
 
-import { createSignal, For } from "solid-js"
+import { createMemo, createSignal, For, Match, Switch } from "solid-js"
 import { useKeyboard, useTerminalDimensions } from "@opentui/solid"
 import { useTheme } from "@tui/shared/context/theme"
 import { ModalBase, ModalHeader, ModalFooter } from "@tui/shared/components/modal"
+import type { EnginePresetConfig } from "../../../../../../../workflows/execution/engine-presets.js"
+import { describeCustomPreset } from "./preset-editing"
+import { PresetEditor } from "./preset-editor"
+import { OverrideEditor } from "./override-editor"
 
 export interface SettingsModalProps {
   currentPreset: string | null
   fallbackEnabled: boolean
+  /** Custom presets from .codemachine/engine-config.json */
+  customPresets: Record<string, EnginePresetConfig>
+  /** Per-agent engine overrides from .codemachine/engine-config.json */
+  overrides: Record<string, string>
   onSelect: (preset: string | null) => void
   onFallbackToggle: (enabled: boolean) => void
+  onPresetsSave: (presets: Record<string, EnginePresetConfig>) => void
+  onOverridesSave: (overrides: Record<string, string>) => void
   onClose: () => void
 }
 
-interface PresetOption {
-  value: string | null
+type SettingsView = "main" | "presets" | "overrides"
+
+interface MenuOption {
+  /** Preset to select, or the sub-view to open */
+  action: { preset: string | null } | { view: SettingsView }
   label: string
   description: string
 }
 
-const PRESET_OPTIONS: PresetOption[] = [
-  { value: null, label: "Default", description: "Use step-level engine settings" },
-  { value: "all-claude", label: "All Claude", description: "Opus (complex) / Sonnet (standard) / Haiku (simple)" },
-  { value: "all-gemini", label: "All Gemini", description: "Pro (complex/standard) / Flash (simple)" },
-  { value: "all-codex", label: "All Codex", description: "GPT-4o (complex/standard) / GPT-4o-mini (simple)" },
-  { value: "all-cursor", label: "All Cursor", description: "Claude 3.5 Sonnet for all tiers" },
+const PRESET_OPTIONS: MenuOption[] = [
+  { action: { preset: null }, label: "Default", description: "Use step-level engine settings" },
+  { action: { preset: "all-claude" }, label: "All Claude", description: "Opus (complex) / Sonnet (standard) / Haiku (simple)" },
+  { action: { preset: "all-gemini" }, label: "All Gemini", description: "2.5 Pro (complex/standard) / 2.5 Flash (simple)" },
+  { action: { preset: "all-codex" }, label: "All Codex", description: "GPT-5 Codex (complex/standard) / GPT-5 Codex Mini (simple)" },
+  { action: { preset: "all-cursor" }, label: "All Cursor", description: "Claude 3.5 Sonnet for all tiers" },
 ]
 
-// Total menu items: presets + 1 for fallback toggle
-const TOTAL_ITEMS = PRESET_OPTIONS.length + 1
-const FALLBACK_INDEX = PRESET_OPTIONS.length
+const isCurrentOption = (option: MenuOption, currentPreset: string | null) =>
+  "preset" in option.action && option.action.preset === currentPreset
 
 export function SettingsModal(props: SettingsModalProps) {
   const themeCtx = useTheme()
   const dimensions = useTerminalDimensions()
+  const [view, setView] = createSignal<SettingsView>("main")
+
+  // Built-in presets, custom presets, then the editors
+  const options = createMemo<MenuOption[]>(() => [
+    ...PRESET_OPTIONS,
+    ...Object.entries(props.customPresets).map(([name, preset]) => ({
+      action: { preset: name },
+      label: name,
+      description: describeCustomPreset(preset),
+    })),
+    { action: { view: "presets" }, label: "Custom presets...", description: "Create, edit or delete custom presets" },
+    { action: { view: "overrides" }, label: "Agent overrides...", description: "Pick the engine for individual agents" },
+  ])
+
+  // Total menu items: options + 1 for fallback toggle
+  const totalItems = () => options().length + 1
+  const fallbackIndex = () => options().length
 
   // Find current selection index
-  const initialIndex = PRESET_OPTIONS.findIndex(opt => opt.value === props.currentPreset)
+  const initialIndex = options().findIndex((option) => isCurrentOption(option, props.currentPreset))
   const [selectedIndex, setSelectedIndex] = createSignal(initialIndex >= 0 ? initialIndex : 0)
 
   const modalWidth = () => {
@@ -49,29 +79,40 @@ export function SettingsModal(props: SettingsModalProps) {
     return Math.min(safeWidth, 70)
   }
 
+  // Header, intro line, footer and modal border take the rest
+  const overrideRows = () => Math.max(5, (dimensions()?.height ?? 24) - 14)
+
   useKeyboard((evt) => {
+    // Sub-views handle their own keys
+    if (view() !== "main") return
+
     if (evt.name === "up") {
       evt.preventDefault()
-      setSelectedIndex((prev) => (prev > 0 ? prev - 1 : TOTAL_ITEMS - 1))
+      setSelectedIndex((prev) => (prev > 0 ? prev - 1 : totalItems() - 1))
       return
     }
 
     if (evt.name === "down") {
       evt.preventDefault()
-      setSelectedIndex((prev) => (prev < TOTAL_ITEMS - 1 ? prev + 1 : 0))
+      setSelectedIndex((prev) => (prev < totalItems() - 1 ? prev + 1 : 0))
       return
     }
 
     if (evt.name === "return") {
       evt.preventDefault()
       const idx = selectedIndex()
-      if (idx === FALLBACK_INDEX) {
+      if (idx === fallbackIndex()) {
         // Toggle fallback
         props.onFallbackToggle(!props.fallbackEnabled)
+        return
+      }
+      const action = options()[idx].action
+      if ("view" in action) {
+        // Open editor
+        setView(action.view)
       } else {
         // Select preset
-        const option = PRESET_OPTIONS[idx]
-        props.onSelect(option.value)
+        props.onSelect(action.preset)
       }
       return
     }
@@ -83,67 +124,88 @@ export function SettingsModal(props: SettingsModalProps) {
     }
   })
 
+  const backToMain = () => {
+    // Keep the selection in range when presets were removed
+    setSelectedIndex((prev) => Math.min(prev, totalItems() - 1))
+    setView("main")
+  }
+
   return (
     <ModalBase width={modalWidth()}>
       <ModalHeader title="Engine Settings" icon="*" iconColor={themeCtx.theme.primary} />
-      <box paddingLeft={2} paddingRight={2} paddingTop={1}>
-        <text fg={themeCtx.theme.textMuted}>Select engine preset:</text>
-      </box>
-      <box flexDirection="column" paddingLeft={2} paddingRight={2} paddingTop={1} paddingBottom={1}>
-        <For each={PRESET_OPTIONS}>
-          {(option, index) => {
-            const isSelected = () => index() === selectedIndex()
-            const isCurrent = () => option.value === props.currentPreset
-
-            return (
-              <box flexDirection="row" paddingTop={index() > 0 ? 0 : 0}>
-                <box width={3}>
-                  <text fg={isSelected() ? themeCtx.theme.primary : themeCtx.theme.textMuted}>
-                    {isCurrent() ? "* " : isSelected() ? "> " : "  "}
-                  </text>
-                </box>
-                <box flexDirection="column" flexGrow={1}>
-                  <text fg={isSelected() ? themeCtx.theme.primary : themeCtx.theme.text}>
-                    {option.label}
-                  </text>
-                  <text fg={themeCtx.theme.textMuted}>
-                    {option.description}
-                  </text>
-                </box>
-              </box>
-            )
-          }}
-        </For>
-      </box>
-
-      {/* Divider */}
-      <box paddingLeft={2} paddingRight={2}>
-        <text fg={themeCtx.theme.borderSubtle}>{"─".repeat(modalWidth() - 4)}</text>
-      </box>
-
-      {/* Fallback Toggle */}
-      <box paddingLeft={2} paddingRight={2} paddingTop={1}>
-        <text fg={themeCtx.theme.textMuted}>Rate limit behavior:</text>
-      </box>
-      <box flexDirection="row" paddingLeft={2} paddingRight={2} paddingTop={1} paddingBottom={1}>
-        <box width={3}>
-          <text fg={selectedIndex() === FALLBACK_INDEX ? themeCtx.theme.primary : themeCtx.theme.textMuted}>
-            {selectedIndex() === FALLBACK_INDEX ? "> " : "  "}
-          </text>
-        </box>
-        <box flexDirection="column" flexGrow={1}>
-          <text fg={selectedIndex() === FALLBACK_INDEX ? themeCtx.theme.primary : themeCtx.theme.text}>
-            Fallback: {props.fallbackEnabled ? "ON" : "OFF"}
-          </text>
-          <text fg={themeCtx.theme.textMuted}>
-            {props.fallbackEnabled
-              ? "Will try other engines if rate limited"
-              : "Will wait for rate limit reset (no engine switch)"}
-          </text>
-        </box>
-      </box>
-
-      <ModalFooter shortcuts="[Up/Down] Navigate  [Enter] Select/Toggle  [Esc] Cancel" />
+      <Switch>
+        <Match when={view() === "presets"}>
+          <PresetEditor presets={props.customPresets} onSave={props.onPresetsSave} onBack={backToMain} />
+        </Match>
+        <Match when={view() === "overrides"}>
+          <OverrideEditor
+            overrides={props.overrides}
+            visibleRows={overrideRows()}
+            onSave={props.onOverridesSave}
+            onBack={backToMain}
+          />
+        </Match>
+        <Match when={view() === "main"}>
+          <box paddingLeft={2} paddingRight={2} paddingTop={1}>
+            <text fg={themeCtx.theme.textMuted}>Select engine preset:</text>
+          </box>
+          <box flexDirection="column" paddingLeft={2} paddingRight={2} paddingTop={1} paddingBottom={1}>
+            <For each={options()}>
+              {(option, index) => {
+                const isSelected = () => index() === selectedIndex()
+                const isCurrent = () => isCurrentOption(option, props.currentPreset)
+
+                return (
+                  <box flexDirection="row">
+                    <box width={3}>
+                      <text fg={isSelected() ? themeCtx.theme.primary : themeCtx.theme.textMuted}>
+                        {isCurrent() ? "* " : isSelected() ? "> " : "  "}
+                      </text>
+                    </box>
+                    <box flexDirection="column" flexGrow={1}>
+                      <text fg={isSelected() ? themeCtx.theme.primary : themeCtx.theme.text}>
+                        {option.label}
+                      </text>
+                      <text fg={themeCtx.theme.textMuted}>
+                        {option.description}
+                      </text>
+                    </box>
+                  </box>
+                )
+              }}
+            </For>
+          </box>
+
+          {/* Divider */}
+          <box paddingLeft={2} paddingRight={2}>
+            <text fg={themeCtx.theme.borderSubtle}>{"─".repeat(modalWidth() - 4)}</text>
+          </box>
+
+          {/* Fallback Toggle */}
+          <box paddingLeft={2} paddingRight={2} paddingTop={1}>
+            <text fg={themeCtx.theme.textMuted}>Rate limit behavior:</text>
+          </box>
+          <box flexDirection="row" paddingLeft={2} paddingRight={2} paddingTop={1} paddingBottom={1}>
+            <box width={3}>
+              <text fg={selectedIndex() === fallbackIndex() ? themeCtx.theme.primary : themeCtx.theme.textMuted}>
+                {selectedIndex() === fallbackIndex() ? "> " : "  "}
+              </text>
+            </box>
+            <box flexDirection="column" flexGrow={1}>
+              <text fg={selectedIndex() === fallbackIndex() ? themeCtx.theme.primary : themeCtx.theme.text}>
+                Fallback: {props.fallbackEnabled ? "ON" : "OFF"}
+              </text>
+              <text fg={themeCtx.theme.textMuted}>
+                {props.fallbackEnabled
+                  ? "Will try other engines if rate limited"
+                  : "Will wait for rate limit reset (no engine switch)"}
+              </text>
+            </box>
+          </box>
+
+          <ModalFooter shortcuts="[Up/Down] Navigate  [Enter] Select/Toggle  [Esc] Cancel" />
+        </Match>
+      </Switch>
     </ModalBase>
   )
 }
@@ -0,0 +1,106 @@
+/** @jsxImportSource @opentui/solid */
+/**
+ * Override Editor
+ *
+ * Settings sub-view for per-agent engine overrides.
+ */
+
+import { createMemo, createSignal, For, Show } from "solid-js"
+import { useKeyboard } from "@opentui/solid"
+import { useTheme } from "@tui/shared/context/theme"
+import { ModalFooter } from "@tui/shared/components/modal"
+import { getAvailableEngineIds } from "../../../../../../../workflows/execution/engine-presets.js"
+import { cycleOption, getOverrideAgentIds, setAgentOverride } from "./preset-editing"
+
+export interface OverrideEditorProps {
+  overrides: Record<string, string>
+  /** Rows of agents shown at once */
+  visibleRows: number
+  onSave: (overrides: Record<string, string>) => void
+  onBack: () => void
+}
+
+export function OverrideEditor(props: OverrideEditorProps) {
+  const themeCtx = useTheme()
+  // null = no override (preset or step engine applies)
+  const engineOptions: Array<string | null> = [null, ...getAvailableEngineIds()]
+
+  const [draft, setDraft] = createSignal<Record<string, string>>({ ...props.overrides })
+  const [selectedIndex, setSelectedIndex] = createSignal(0)
+
+  const agentIds = createMemo(() => getOverrideAgentIds(props.overrides))
+  const isDirty = createMemo(() => JSON.stringify(draft()) !== JSON.stringify(props.overrides))
+
+  // Scroll window keeping the selected agent visible
+  const windowStart = createMemo(() => {
+    const rows = Math.max(1, props.visibleRows)
+    return Math.max(0, Math.min(selectedIndex() - Math.floor(rows / 2), agentIds().length - rows))
+  })
+  const visibleIds = () => agentIds().slice(windowStart(), windowStart() + Math.max(1, props.visibleRows))
+
+  useKeyboard((evt) => {
+    const count = agentIds().length
+    if (evt.name === "up") {
+      evt.preventDefault()
+      setSelectedIndex((prev) => (prev > 0 ? prev - 1 : count - 1))
+      return
+    }
+    if (evt.name === "down") {
+      evt.preventDefault()
+      setSelectedIndex((prev) => (prev < count - 1 ? prev + 1 : 0))
+      return
+    }
+    if (evt.name === "left" || evt.name === "right") {
+      evt.preventDefault()
+      const agentId = agentIds()[selectedIndex()]
+      const engine = cycleOption(engineOptions, draft()[agentId] ?? null, evt.name === "left" ? -1 : 1)
+      setDraft((prev) => setAgentOverride(prev, agentId, engine))
+      return
+    }
+    if (evt.name === "return") {
+      evt.preventDefault()
+      if (isDirty()) props.onSave(draft())
+      props.onBack()
+      return
+    }
+    if (evt.name === "escape") {
+      evt.preventDefault()
+      props.onBack()
+    }
+  })
+
+  return (
+    <>
+      <box paddingLeft={2} paddingRight={2} paddingTop={1}>
+        <text fg={themeCtx.theme.textMuted}>
+          Engine per agent{isDirty() ? " (unsaved changes)" : ""}:
+        </text>
+      </box>
+      <box flexDirection="column" paddingLeft={2} paddingRight={2} paddingTop={1} paddingBottom={1}>
+        <For each={visibleIds()}>
+          {(agentId) => {
+            const isSelected = () => agentIds()[selectedIndex()] === agentId
+            const engine = () => draft()[agentId]
+            return (
+              <box flexDirection="row" height={1}>
+                <text fg={isSelected() ? themeCtx.theme.primary : themeCtx.theme.textMuted}>
+                  {isSelected() ? "> " : "  "}
+                </text>
+                <box flexGrow={1}>
+                  <text fg={isSelected() ? themeCtx.theme.primary : themeCtx.theme.text}>{agentId}</text>
+                </box>
+                <Show
+                  when={engine()}
+                  fallback={<text fg={themeCtx.theme.textMuted}>{isSelected() ? "< default >" : "default"}</text>}
+                >
+                  <text fg={themeCtx.theme.info}>{isSelected() ? `< ${engine()} >` : engine()}</text>
+                </Show>
+              </box>
+            )
+          }}
+        </For>
+      </box>
+      <ModalFooter shortcuts="[Up/Down] Navigate  [Left/Right] Engine  [Enter] Save  [Esc] Discard" />
+    </>
+  )
+}
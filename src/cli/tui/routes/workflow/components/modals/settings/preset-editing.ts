@@ -0,0 +1,152 @@
+/**
+ * Preset Editing
+ *
+ * Drafts, validation and updates for custom engine presets and
+ * per-agent overrides in the settings modal.
+ */
+
+import {
+  getBuiltInPreset,
+  getBuiltInPresetNames,
+  getEngineModelOptions,
+  getTieredAgentIds,
+  isBuiltInPreset,
+  type AgentTier,
+  type EnginePresetConfig,
+} from "../../../../../../../workflows/execution/engine-presets.js"
+
+export const TIERS: AgentTier[] = [1, 2, 3]
+
+export const TIER_LABELS: Record<AgentTier, string> = {
+  1: "Complex",
+  2: "Standard",
+  3: "Simple",
+}
+
+const PRESET_NAME_PATTERN = /^[a-z0-9][a-z0-9._-]*$/i
+
+export interface PresetDraft {
+  name: string
+  engine: string
+  modelByTier: Record<AgentTier, string>
+}
+
+/**
+ * Tier models for an engine: those of its built-in preset, otherwise its
+ * first model for every tier
+ */
+export function defaultModelsForEngine(engineId: string): Record<AgentTier, string> {
+  const builtIn = getBuiltInPresetNames()
+    .map((name) => getBuiltInPreset(name))
+    .find((config) => config.defaultEngine === engineId)
+  if (builtIn?.modelByTier) return { ...builtIn.modelByTier }
+
+  const model = getEngineModelOptions(engineId)[0] ?? "default"
+  return { 1: model, 2: model, 3: model }
+}
+
+export function createPresetDraft(name: string, preset: EnginePresetConfig | undefined, engines: string[]): PresetDraft {
+  const engine = preset?.defaultEngine ?? engines[0] ?? ""
+  return {
+    name,
+    engine,
+    modelByTier: { ...defaultModelsForEngine(engine), ...preset?.modelByTier },
+  }
+}
+
+/**
+ * One-line summary of a custom preset: its engine and tier models
+ */
+export function describeCustomPreset(preset: EnginePresetConfig): string {
+  const engine = preset.defaultEngine ?? "Custom agent mappings"
+  const tierModels = preset.modelByTier
+  return tierModels ? `${engine}: ${TIERS.map((tier) => tierModels[tier]).join(" / ")}` : engine
+}
+
+/**
+ * Model choices for a tier picker; a model set by hand in the config file
+ * stays selectable
+ */
+export function modelOptionsFor(engineId: string, current: string): string[] {
+  const options = getEngineModelOptions(engineId)
+  return current && !options.includes(current) ? [current, ...options] : options
+}
+
+/**
+ * Step to the previous/next option, wrapping around
+ */
+export function cycleOption<T>(options: readonly T[], current: T, direction: 1 | -1): T {
+  if (options.length === 0) return current
+  const index = options.indexOf(current)
+  if (index === -1) return options[0]
+  return options[(index + direction + options.length) % options.length]
+}
+
+/**
+ * Error message for an invalid preset name, or null when it can be saved
+ */
+export function validatePresetName(
+  name: string,
+  presets: Record<string, EnginePresetConfig> | undefined,
+  originalName?: string,
+): string | null {
+  const trimmed = name.trim()
+  if (!trimmed) return "Name is required"
+  if (!PRESET_NAME_PATTERN.test(trimmed)) return "Use letters, numbers, '.', '_' or '-'"
+  if (isBuiltInPreset(trimmed)) return `"${trimmed}" is a built-in preset`
+  if (trimmed !== originalName && presets?.[trimmed]) return `Preset "${trimmed}" already exists`
+  return null
+}
+
+/**
+ * Presets with the draft saved under its name. A renamed preset keeps its
+ * position and any agent overrides it had.
+ */
+export function savePresetDraft(
+  presets: Record<string, EnginePresetConfig> | undefined,
+  draft: PresetDraft,
+  originalName?: string,
+): Record<string, EnginePresetConfig> {
+  const name = draft.name.trim()
+  const saved: EnginePresetConfig = {
+    ...(originalName ? presets?.[originalName] : undefined),
+    defaultEngine: draft.engine,
+    modelByTier: { ...draft.modelByTier },
+  }
+
+  const next: Record<string, EnginePresetConfig> = {}
+  for (const [key, config] of Object.entries(presets ?? {})) {
+    next[key === originalName ? name : key] = key === originalName ? saved : config
+  }
+  next[name] = saved
+  return next
+}
+
+export function removePreset(
+  presets: Record<string, EnginePresetConfig> | undefined,
+  name: string,
+): Record<string, EnginePresetConfig> {
+  const { [name]: _removed, ...rest } = presets ?? {}
+  return rest
+}
+
+/**
+ * Overrides with the agent's engine set, or removed when engine is null
+ */
+export function setAgentOverride(
+  overrides: Record<string, string> | undefined,
+  agentId: string,
+  engine: string | null,
+): Record<string, string> {
+  const { [agentId]: _previous, ...rest } = overrides ?? {}
+  return engine ? { ...rest, [agentId]: engine } : rest
+}
+
+/**
+ * Agents listed in the overrides editor: tiered agents, then any other
+ * agent that already has an override
+ */
+export function getOverrideAgentIds(overrides: Record<string, string> | undefined): string[] {
+  const ids = getTieredAgentIds()
+  return [...ids, ...Object.keys(overrides ?? {}).filter((id) => !ids.includes(id))]
+}
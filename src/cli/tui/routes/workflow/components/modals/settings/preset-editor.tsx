@@ -0,0 +1,271 @@
+/** @jsxImportSource @opentui/solid */
+/**
+ * Preset Editor
+ *
+ * Settings sub-view listing custom engine presets, with a form to create
+ * or edit one (name, engine and a model per agent tier).
+ */
+
+import { createMemo, createSignal, For, Show } from "solid-js"
+import { useKeyboard } from "@opentui/solid"
+import { useTheme } from "@tui/shared/context/theme"
+import { ModalFooter } from "@tui/shared/components/modal"
+import {
+  getAvailableEngineIds,
+  type EnginePresetConfig,
+} from "../../../../../../../workflows/execution/engine-presets.js"
+import {
+  TIERS,
+  TIER_LABELS,
+  createPresetDraft,
+  cycleOption,
+  defaultModelsForEngine,
+  describeCustomPreset,
+  modelOptionsFor,
+  removePreset,
+  savePresetDraft,
+  validatePresetName,
+  type PresetDraft,
+} from "./preset-editing"
+
+export interface PresetEditorProps {
+  presets: Record<string, EnginePresetConfig>
+  onSave: (presets: Record<string, EnginePresetConfig>) => void
+  onBack: () => void
+}
+
+// Form fields: name, engine, then one model per tier
+const NAME_FIELD = 0
+const ENGINE_FIELD = 1
+const FIELD_COUNT = 2 + TIERS.length
+
+export function PresetEditor(props: PresetEditorProps) {
+  const themeCtx = useTheme()
+  const engines = getAvailableEngineIds()
+
+  const names = createMemo(() => Object.keys(props.presets))
+  const [selectedIndex, setSelectedIndex] = createSignal(0)
+  const [pendingDelete, setPendingDelete] = createSignal<string | null>(null)
+
+  // Form state: the draft and the name it was opened with (undefined for a new preset)
+  const [draft, setDraft] = createSignal<PresetDraft | null>(null)
+  const [originalName, setOriginalName] = createSignal<string | undefined>()
+  const [field, setField] = createSignal(NAME_FIELD)
+  const [error, setError] = createSignal<string | null>(null)
+
+  // List rows: presets + "New preset"
+  const rowCount = () => names().length + 1
+
+  const openForm = (name?: string) => {
+    setDraft(createPresetDraft(name ?? "", name ? props.presets[name] : undefined, engines))
+    setOriginalName(name)
+    setField(NAME_FIELD)
+    setError(null)
+  }
+
+  const closeForm = () => {
+    setDraft(null)
+    setError(null)
+  }
+
+  const updateDraft = (patch: Partial<PresetDraft>) => {
+    const current = draft()
+    if (current) setDraft({ ...current, ...patch })
+  }
+
+  const cycleField = (direction: 1 | -1) => {
+    const current = draft()
+    if (!current) return
+    const index = field()
+    if (index === ENGINE_FIELD) {
+      const engine = cycleOption(engines, current.engine, direction)
+      updateDraft({ engine, modelByTier: defaultModelsForEngine(engine) })
+      return
+    }
+    if (index > ENGINE_FIELD) {
+      const tier = TIERS[index - 2]
+      const model = cycleOption(modelOptionsFor(current.engine, current.modelByTier[tier]), current.modelByTier[tier], direction)
+      updateDraft({ modelByTier: { ...current.modelByTier, [tier]: model } })
+    }
+  }
+
+  const saveDraft = () => {
+    const current = draft()
+    if (!current) return
+    const problem = validatePresetName(current.name, props.presets, originalName())
+    if (problem) {
+      setError(problem)
+      setField(NAME_FIELD)
+      return
+    }
+    const presets = savePresetDraft(props.presets, current, originalName())
+    props.onSave(presets)
+    setSelectedIndex(Object.keys(presets).indexOf(current.name.trim()))
+    closeForm()
+  }
+
+  useKeyboard((evt) => {
+    if (draft()) {
+      if (evt.name === "up" || evt.name === "down") {
+        evt.preventDefault()
+        const step = evt.name === "up" ? -1 : 1
+        setField((prev) => (prev + step + FIELD_COUNT) % FIELD_COUNT)
+        return
+      }
+      if ((evt.name === "left" || evt.name === "right") && field() !== NAME_FIELD) {
+        evt.preventDefault()
+        cycleField(evt.name === "left" ? -1 : 1)
+        return
+      }
+      if (evt.name === "return") {
+        evt.preventDefault()
+        saveDraft()
+        return
+      }
+      if (evt.name === "escape") {
+        evt.preventDefault()
+        closeForm()
+      }
+      return
+    }
+
+    if (evt.name === "up") {
+      evt.preventDefault()
+      setPendingDelete(null)
+      setSelectedIndex((prev) => (prev > 0 ? prev - 1 : rowCount() - 1))
+      return
+    }
+    if (evt.name === "down") {
+      evt.preventDefault()
+      setPendingDelete(null)
+      setSelectedIndex((prev) => (prev < rowCount() - 1 ? prev + 1 : 0))
+      return
+    }
+    if (evt.name === "return") {
+      evt.preventDefault()
+      openForm(names()[selectedIndex()])
+      return
+    }
+    if (evt.name === "n") {
+      evt.preventDefault()
+      openForm()
+      return
+    }
+    if (evt.name === "d") {
+      evt.preventDefault()
+      const name = names()[selectedIndex()]
+      if (!name) return
+      // Press d twice to confirm
+      if (pendingDelete() !== name) {
+        setPendingDelete(name)
+        return
+      }
+      setPendingDelete(null)
+      props.onSave(removePreset(props.presets, name))
+      setSelectedIndex((prev) => Math.max(0, Math.min(prev, rowCount() - 2)))
+      return
+    }
+    if (evt.name === "escape") {
+      evt.preventDefault()
+      props.onBack()
+    }
+  })
+
+  const fieldColor = (index: number) => (field() === index ? themeCtx.theme.primary : themeCtx.theme.text)
+  const fieldMarker = (index: number) => (field() === index ? "> " : "  ")
+
+  return (
+    <Show
+      when={draft()}
+      fallback={
+        <>
+          <box paddingLeft={2} paddingRight={2} paddingTop={1}>
+            <text fg={themeCtx.theme.textMuted}>Custom presets (.codemachine/engine-config.json):</text>
+          </box>
+          <box flexDirection="column" paddingLeft={2} paddingRight={2} paddingTop={1} paddingBottom={1}>
+            <For each={names()}>
+              {(name, index) => {
+                const preset = () => props.presets[name]
+                const isSelected = () => index() === selectedIndex()
+                return (
+                  <box flexDirection="row">
+                    <box width={3}>
+                      <text fg={isSelected() ? themeCtx.theme.primary : themeCtx.theme.textMuted}>
+                        {isSelected() ? "> " : "  "}
+                      </text>
+                    </box>
+                    <box flexDirection="column" flexGrow={1}>
+                      <text fg={isSelected() ? themeCtx.theme.primary : themeCtx.theme.text}>{name}</text>
+                      <text fg={themeCtx.theme.textMuted}>
+                        {describeCustomPreset(preset())}
+                      </text>
+                    </box>
+                  </box>
+                )
+              }}
+            </For>
+            <box flexDirection="row">
+              <box width={3}>
+                <text fg={selectedIndex() === names().length ? themeCtx.theme.primary : themeCtx.theme.textMuted}>
+                  {selectedIndex() === names().length ? "> " : "  "}
+                </text>
+              </box>
+              <text fg={selectedIndex() === names().length ? themeCtx.theme.primary : themeCtx.theme.text}>+ New preset</text>
+            </box>
+          </box>
+          <Show when={pendingDelete()}>
+            <box paddingLeft={2} paddingRight={2} paddingBottom={1}>
+              <text fg={themeCtx.theme.warning}>Press [d] again to delete "{pendingDelete()}"</text>
+            </box>
+          </Show>
+          <ModalFooter shortcuts="[Up/Down] Navigate  [Enter] Edit  [n] New  [d] Delete  [Esc] Back" />
+        </>
+      }
+    >
+      {(current) => (
+        <>
+          <box paddingLeft={2} paddingRight={2} paddingTop={1}>
+            <text fg={themeCtx.theme.textMuted}>{originalName() ? `Edit preset "${originalName()}":` : "New preset:"}</text>
+          </box>
+          <box flexDirection="column" paddingLeft={2} paddingRight={2} paddingTop={1} paddingBottom={1}>
+            <box flexDirection="row" height={1}>
+              <text fg={fieldColor(NAME_FIELD)}>{fieldMarker(NAME_FIELD)}{"Name:".padEnd(10)}</text>
+              <input
+                value={current().name}
+                placeholder="my-preset"
+                placeholderColor={themeCtx.theme.textMuted}
+                onInput={(value: string) => {
+                  updateDraft({ name: value })
+                  setError(null)
+                }}
+                focused={field() === NAME_FIELD}
+                flexGrow={1}
+                backgroundColor={themeCtx.theme.background}
+                focusedBackgroundColor={themeCtx.theme.background}
+                textColor={themeCtx.theme.text}
+                focusedTextColor={themeCtx.theme.text}
+                cursorColor={themeCtx.theme.primary}
+              />
+            </box>
+            <text fg={fieldColor(ENGINE_FIELD)}>
+              {fieldMarker(ENGINE_FIELD)}{"Engine:".padEnd(10)}{"< "}{current().engine}{" >"}
+            </text>
+            <For each={TIERS}>
+              {(tier, index) => (
+                <text fg={fieldColor(index() + 2)}>
+                  {fieldMarker(index() + 2)}{`${TIER_LABELS[tier]}:`.padEnd(10)}{"< "}{current().modelByTier[tier]}{" >"}
+                </text>
+              )}
+            </For>
+          </box>
+          <Show when={error()}>
+            <box paddingLeft={2} paddingRight={2} paddingBottom={1}>
+              <text fg={themeCtx.theme.error}>{error()}</text>
+            </box>
+          </Show>
+          <ModalFooter shortcuts="[Up/Down] Field  [Left/Right] Change  [Enter] Save  [Esc] Cancel" />
+        </>
+      )}
+    </Show>
+  )
+}
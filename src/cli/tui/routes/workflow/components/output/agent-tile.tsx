@@ -0,0 +1,86 @@
+/** @jsxImportSource @opentui/solid */
+/**
+ * Agent Tile Component
+ *
+ * One pane of the tiled output: streams an agent's log with its own
+ * status, telemetry and scroll state.
+ */
+
+import { Show, For } from "solid-js"
+import { useTheme } from "@tui/shared/context/theme"
+import { LogLine } from "../shared/log-line"
+import { useLogStream } from "../../hooks/useLogStream"
+import { formatNumber, formatTokens } from "../../state/formatters"
+import type { AgentState, SubAgentState } from "../../state/types"
+
+export interface AgentTileProps {
+  agent: AgentState | SubAgentState
+  width: number
+  /** Receives keyboard scrolling */
+  focused: boolean
+}
+
+export function AgentTile(props: AgentTileProps) {
+  const themeCtx = useTheme()
+  const logStream = useLogStream(() => props.agent.monitoringId)
+
+  const statusColor = () => {
+    const status = props.agent.status
+    if (status === "completed") return themeCtx.theme.success
+    if (status === "failed") return themeCtx.theme.error
+    if (status === "running") return themeCtx.theme.warning
+    return themeCtx.theme.textMuted
+  }
+
+  const telemetryText = () => {
+    const { tokensIn, tokensOut, cached } = props.agent.telemetry
+    const base = formatTokens(tokensIn - (cached ?? 0), tokensOut)
+    return cached ? `${base} (${formatNumber(cached)} cached)` : base
+  }
+
+  // Border (2) + padding (2)
+  const lineWidth = () => Math.max(10, props.width - 4)
+
+  return (
+    <box
+      flexDirection="column"
+      flexGrow={1}
+      width={props.width}
+      border
+      borderColor={props.focused ? themeCtx.theme.primary : themeCtx.theme.borderSubtle}
+      paddingLeft={1}
+      paddingRight={1}
+    >
+      <box flexDirection="row" justifyContent="space-between" height={1}>
+        <text fg={themeCtx.theme.text} attributes={1}>{props.agent.name}</text>
+        <text fg={statusColor()}>● {props.agent.status}</text>
+      </box>
+      <box flexDirection="row" gap={1} height={1}>
+        <text fg={themeCtx.theme.info}>{props.agent.engine}</text>
+        <Show when={props.agent.model}>
+          <text fg={themeCtx.theme.textMuted}>{props.agent.model}</text>
+        </Show>
+        <text fg={themeCtx.theme.textMuted}>{telemetryText()}</text>
+      </box>
+
+      <Show when={logStream.error}>
+        <text fg={themeCtx.theme.error}>Error loading logs: {logStream.error}</text>
+      </Show>
+      <Show when={!logStream.error && (logStream.isLoading || logStream.isConnecting || logStream.lines.length === 0)}>
+        <text fg={themeCtx.theme.textMuted}>Waiting for output...</text>
+      </Show>
+      <Show when={!logStream.error && !logStream.isLoading && !logStream.isConnecting && logStream.lines.length > 0}>
+        <scrollbox
+          flexGrow={1}
+          width="100%"
+          stickyScroll={true}
+          stickyStart="bottom"
+          viewportCulling={true}
+          focused={props.focused}
+        >
+          <For each={logStream.lines}>{(line) => <LogLine line={line} maxWidth={lineWidth()} />}</For>
+        </scrollbox>
+      </Show>
+    </box>
+  )
+}
@@ -0,0 +1,98 @@
+/** @jsxImportSource @opentui/solid */
+/**
+ * Artifact Panel Component
+ *
+ * Show the artifacts declared by workflow steps and whether they were produced
+ */
+
+import { For, Show } from "solid-js"
+import type { RGBA } from "@opentui/core"
+import { useTheme } from "@tui/shared/context/theme"
+import type { ArtifactRecord } from "../../state/types"
+import { truncate } from "../../state/formatters"
+
+/** Artifact rows shown before the list is cut off */
+export const ARTIFACT_PANEL_MAX_ROWS = 5
+
+export interface ArtifactPanelProps {
+  artifacts: ArtifactRecord[]
+  availableWidth: number
+}
+
+/**
+ * Rows the panel takes up (0 when there are no artifacts)
+ */
+export function getArtifactPanelHeight(artifactCount: number): number {
+  if (artifactCount === 0) return 0
+  const overflow = artifactCount > ARTIFACT_PANEL_MAX_ROWS ? 1 : 0
+  // Border and title take two rows
+  return Math.min(artifactCount, ARTIFACT_PANEL_MAX_ROWS) + overflow + 2
+}
+
+export function ArtifactPanel(props: ArtifactPanelProps) {
+  const themeCtx = useTheme()
+
+  // Problems first, so they are never cut off
+  const rank = (artifact: ArtifactRecord) =>
+    artifact.status === "invalid" || (artifact.status === "missing" && !artifact.optional) ? 0 : 1
+  const visible = () =>
+    [...props.artifacts].sort((a, b) => rank(a) - rank(b)).slice(0, ARTIFACT_PANEL_MAX_ROWS)
+  const hidden = () => props.artifacts.length - visible().length
+  const validCount = () => props.artifacts.filter((a) => a.status === "valid").length
+
+  const icon = (artifact: ArtifactRecord): string => {
+    switch (artifact.status) {
+      case "valid": return "●"
+      case "invalid": return "✗"
+      case "missing": return artifact.optional ? "○" : "✗"
+      default: return "○"
+    }
+  }
+
+  const color = (artifact: ArtifactRecord): RGBA => {
+    switch (artifact.status) {
+      case "valid": return themeCtx.theme.success
+      case "invalid": return themeCtx.theme.error
+      case "missing": return artifact.optional ? themeCtx.theme.textMuted : themeCtx.theme.error
+      default: return themeCtx.theme.textMuted
+    }
+  }
+
+  // Files once verified, the first problem when something is wrong
+  const detail = (artifact: ArtifactRecord): string => {
+    if (artifact.status === "valid") return artifact.files.join(", ")
+    if (artifact.status === "pending") return artifact.path
+    return artifact.errors?.[0] ?? artifact.path
+  }
+
+  const detailWidth = (artifact: ArtifactRecord) => Math.max(10, props.availableWidth - artifact.name.length - 8)
+
+  return (
+    <Show when={props.artifacts.length > 0}>
+      <box
+        flexDirection="column"
+        flexShrink={0}
+        paddingLeft={1}
+        paddingRight={1}
+        borderStyle="rounded"
+        borderColor={themeCtx.theme.border}
+        title={` Artifacts ${validCount()}/${props.artifacts.length} `}
+      >
+        <For each={visible()}>
+          {(artifact) => (
+            <box flexDirection="row">
+              <text fg={color(artifact)}>{icon(artifact)} </text>
+              <text fg={themeCtx.theme.text}>{artifact.name}</text>
+              <text fg={artifact.status === "valid" || artifact.status === "pending" ? themeCtx.theme.textMuted : color(artifact)}>
+                {" "}{truncate(detail(artifact), detailWidth(artifact))}
+              </text>
+            </box>
+          )}
+        </For>
+        <Show when={hidden() > 0}>
+          <text fg={themeCtx.theme.textMuted}>  +{hidden()} more</text>
+        </Show>
+      </box>
+    </Show>
+  )
+}
@@ -7,6 +7,9 @@
 
 export { ShimmerText, type ShimmerTextProps } from "./shimmer-text"
 export { TelemetryBar, type TelemetryBarProps } from "./telemetry-bar"
+export { ArtifactPanel, getArtifactPanelHeight, type ArtifactPanelProps } from "./artifact-panel"
 export { StatusFooter } from "./status-footer"
 export { OutputWindow, type OutputWindowProps } from "./output-window"
 export { PromptLine, type PromptLineProps, type PromptLineState } from "./prompt-line"
+export { TiledOutput, type TiledOutputProps } from "./tiled-output"
+export { AgentTile, type AgentTileProps } from "./agent-tile"
@@ -22,7 +22,7 @@ export function StatusFooter(props: StatusFooterProps) {
   return (
     <box paddingLeft={1} paddingRight={1}>
       <text fg={themeCtx.theme.textMuted}>
-        [↑↓] Navigate  [ENTER] Expand/View  [Tab] Toggle Panel  [H] History  [P] Pause  [Ctrl+S] Skip  [Esc] Stop
+        [↑↓] Navigate  [ENTER] Expand/View  [Tab] Toggle Panel  [T] Tile  [H] History  [P] Pause  [Ctrl+S] Skip  [Esc] Stop
       </text>
       <Show when={props.autonomousMode}>
         <text fg={themeCtx.theme.primary}>  [Shift+Tab] Disable Auto</text>
@@ -10,7 +10,7 @@ import { Show, createSignal, createEffect, onCleanup } from "solid-js"
 import { useTerminalDimensions } from "@opentui/solid"
 import { useTheme } from "@tui/shared/context/theme"
 import { formatTokens, formatNumber } from "../../state/formatters"
-import type { WorkflowStatus, RateLimitState } from "../../state/types"
+import type { WorkflowStatus, RateLimitState, EngineCircuitState } from "../../state/types"
 
 export interface TelemetryBarProps {
   workflowName: string
@@ -23,6 +23,7 @@ export interface TelemetryBarProps {
   }
   autonomousMode?: boolean
   rateLimitState?: RateLimitState | null
+  engineCircuits?: Record<string, EngineCircuitState>
 }
 
 /**
@@ -120,6 +121,18 @@ export function TelemetryBar(props: TelemetryBarProps) {
     }
   }
 
+  // Engines whose circuit breaker is not closed (open = skipped, half_open = probing)
+  const trippedCircuits = () =>
+    Object.entries(props.engineCircuits ?? {}).filter(([, state]) => state !== "closed")
+
+  const circuitText = () =>
+    trippedCircuits()
+      .map(([engineId, state]) => (state === "open" ? `${engineId} open` : `${engineId} recovering`))
+      .join(", ")
+
+  const circuitColor = () =>
+    trippedCircuits().some(([, state]) => state === "open") ? themeCtx.theme.error : themeCtx.theme.warning
+
   return (
     <box
       paddingLeft={1}
@@ -144,6 +157,10 @@ export function TelemetryBar(props: TelemetryBarProps) {
           <text fg={themeCtx.theme.text}> • </text>
           <text fg={themeCtx.theme.primary}>AUTO</text>
         </Show>
+        <Show when={trippedCircuits().length > 0}>
+          <text fg={themeCtx.theme.text}> • </text>
+          <text fg={circuitColor()}>{isCompact() ? `⚡${trippedCircuits().length}` : `Circuit: ${circuitText()}`}</text>
+        </Show>
       </box>
 
       {/* Right side: token counts */}
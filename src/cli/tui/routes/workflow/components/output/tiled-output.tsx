@@ -0,0 +1,68 @@
+/** @jsxImportSource @opentui/solid */
+/**
+ * Tiled Output Component
+ *
+ * Streams several agents' logs side by side in a grid of tiles.
+ */
+
+import { createMemo, For, Show } from "solid-js"
+import { useTheme } from "@tui/shared/context/theme"
+import { AgentTile } from "./agent-tile"
+import { getTileGrid } from "../../state/tiles"
+import type { AgentState, SubAgentState } from "../../state/types"
+
+export interface TiledOutputProps {
+  agents: Array<AgentState | SubAgentState>
+  availableWidth: number
+  /** Index of the tile receiving keyboard scrolling */
+  focusedIndex: number
+}
+
+export function TiledOutput(props: TiledOutputProps) {
+  const themeCtx = useTheme()
+
+  const grid = createMemo(() => getTileGrid(props.agents.length, props.availableWidth))
+  const tileWidth = () => Math.floor(props.availableWidth / grid().columns)
+
+  // Row-major rows of tile indexes; kept while the grid shape is unchanged so
+  // tiles (and their log streams and scroll state) survive agent updates
+  const rows = createMemo(
+    () => {
+      const { columns, rows: count } = grid()
+      return Array.from({ length: count }, (_, row) =>
+        Array.from({ length: Math.min(columns, props.agents.length - row * columns) }, (_, col) => row * columns + col),
+      )
+    },
+    [],
+    { equals: (prev, next) => prev.length === next.length && prev.every((row, i) => row.length === next[i].length) },
+  )
+
+  return (
+    <Show
+      when={props.agents.length > 0}
+      fallback={
+        <box flexGrow={1} justifyContent="center" alignItems="center">
+          <text fg={themeCtx.theme.textMuted}>No agent output to tile yet</text>
+        </box>
+      }
+    >
+      <box flexDirection="column" flexGrow={1}>
+        <For each={rows()}>
+          {(row) => (
+            <box flexDirection="row" flexGrow={1}>
+              <For each={row}>
+                {(index) => (
+                  <Show when={props.agents[index]}>
+                    {(agent) => (
+                      <AgentTile agent={agent()} width={tileWidth()} focused={index === props.focusedIndex} />
+                    )}
+                  </Show>
+                )}
+              </For>
+            </box>
+          )}
+        </For>
+      </box>
+    </Show>
+  )
+}
@@ -15,6 +15,7 @@ import { createMemo, Show, For } from "solid-js"
 import { TextAttributes } from "@opentui/core"
 import { useTerminalDimensions } from "@opentui/solid"
 import { useTheme } from "@tui/shared/context/theme"
+import { splitHighlight } from "@tui/shared/utils"
 import { useUIState } from "../../context/ui-state"
 import { parseMarker, type ParsedMarker } from "../../../../../../shared/formatters/outputMarkers.js"
 
@@ -75,6 +76,10 @@ function wordWrap(text: string, maxWidth: number): string[] {
 export interface LogLineProps {
   line: string
   maxWidth?: number
+  /** Search query to highlight */
+  highlight?: string
+  /** Line is the current search match */
+  isCurrentMatch?: boolean
 }
 
 /**
@@ -195,7 +200,17 @@ export function LogLine(props: LogLineProps) {
               bg={isUserInput() ? themeCtx.theme.backgroundElement : isControllerOutput() ? '#1a365d' : undefined}
               attributes={textAttrs()}
             >
-              {line}
+              <Show when={props.highlight} fallback={line}>
+                <For each={splitHighlight(line, props.highlight ?? "")}>
+                  {(segment) => (
+                    <Show when={segment.match} fallback={<span>{segment.text}</span>}>
+                      <span style={{ fg: themeCtx.theme.background, bg: props.isCurrentMatch ? themeCtx.theme.warning : themeCtx.theme.info }}>
+                        {segment.text}
+                      </span>
+                    </Show>
+                  )}
+                </For>
+              </Show>
             </text>
           </box>
         )}
@@ -4,7 +4,8 @@
  * Ported from: src/ui/components/AgentTimeline.tsx
  *
  * Container for all agent displays (main, sub, triggered)
- * Displays main agents in a timeline with expandable sub-agents using OpenTUI scrollbox
+ * Displays main agents in a timeline with expandable sub-agents using OpenTUI scrollbox.
+ * Agents inside parallel groups and branch paths are nested under a header node.
  */
 
 import { For, Show, createMemo } from "solid-js"
@@ -15,6 +16,7 @@ import { MainAgentNode } from "./main-agent-node"
 import { SubAgentSummary } from "./sub-agent-summary"
 import { SubAgentNode } from "./sub-agent-node"
 import { UIElementNode } from "./ui-element-node"
+import { GroupNode } from "./group-node"
 
 export interface AgentTimelineProps {
   state: WorkflowState
@@ -90,7 +92,7 @@ export function AgentTimeline(props: AgentTimelineProps) {
 
               // Main agent
               if (item.type === "main") {
-                return <MainAgentNode agent={item.agent} isSelected={isMainSelected(item.id)} isPaused={props.isPaused} availableWidth={props.availableWidth} />
+                return <MainAgentNode agent={item.agent} isSelected={isMainSelected(item.id)} isPaused={props.isPaused} availableWidth={props.availableWidth} depth={item.depth} />
               }
 
               // Sub-agent summary (collapsed)
@@ -114,6 +116,11 @@ export function AgentTimeline(props: AgentTimelineProps) {
                 return <UIElementNode uiElement={item.uiElement} />
               }
 
+              // Parallel group / branch path header
+              if (item.type === "group") {
+                return <GroupNode group={item.group} depth={item.depth} agents={item.agents} />
+              }
+
               // Sub-agent (expanded)
               if (item.type === "sub") {
                 return <SubAgentNode agent={item.agent} isSelected={isSubSelected(item.id)} isPaused={props.isPaused} />
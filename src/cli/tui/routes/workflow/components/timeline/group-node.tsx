@@ -0,0 +1,48 @@
+/** @jsxImportSource @opentui/solid */
+/**
+ * Group Node Component
+ *
+ * Header for a parallel group or branch path in the timeline.
+ * The agents inside it are rendered below, indented one level deeper.
+ */
+
+import { useTheme } from "@tui/shared/context/theme"
+import type { AgentState, StepGroup } from "../../state/types"
+import { truncate } from "../../state/formatters"
+
+export interface GroupNodeProps {
+  group: StepGroup
+  depth: number
+  agents: AgentState[]
+}
+
+// Maximum group label length before truncation
+const MAX_LABEL_LENGTH = 22
+
+export function GroupNode(props: GroupNodeProps) {
+  const themeCtx = useTheme()
+
+  const finished = () => props.agents.filter((agent) => agent.status === "completed").length
+
+  // A branch path whose agents were all skipped was not taken
+  const notTaken = () =>
+    props.group.kind === "branch" &&
+    props.agents.length > 0 &&
+    props.agents.every((agent) => agent.status === "skipped")
+
+  const label = () => {
+    const name = truncate(props.group.label, MAX_LABEL_LENGTH)
+    if (props.group.kind === "parallel") {
+      return `∥ ${name} (parallel ${finished()}/${props.agents.length})`
+    }
+    return `◇ ${name} → ${props.group.path}${notTaken() ? " (not taken)" : ""}`
+  }
+
+  return (
+    <box paddingLeft={1 + props.depth * 2} paddingRight={1}>
+      <text wrapMode="none" fg={notTaken() ? themeCtx.theme.textMuted : themeCtx.theme.info}>
+        {"  "}{label()}
+      </text>
+    </box>
+  )
+}
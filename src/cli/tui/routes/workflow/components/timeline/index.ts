@@ -10,4 +10,5 @@ export { MainAgentNode, type MainAgentNodeProps } from "./main-agent-node"
 export { SubAgentSummary, type SubAgentSummaryProps } from "./sub-agent-summary"
 export { SubAgentNode, type SubAgentNodeProps } from "./sub-agent-node"
 export { UIElementNode, type UIElementNodeProps } from "./ui-element-node"
+export { GroupNode, type GroupNodeProps } from "./group-node"
 export { getStatusIcon, getStatusColor } from "./status-utils"
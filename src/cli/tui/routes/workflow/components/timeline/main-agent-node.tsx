@@ -19,6 +19,8 @@ export interface MainAgentNodeProps {
   isSelected: boolean
   isPaused?: boolean
   availableWidth?: number
+  /** Nesting level inside parallel groups / branch paths */
+  depth?: number
 }
 
 // Maximum agent name length before truncation
@@ -91,7 +93,7 @@ export function MainAgentNode(props: MainAgentNodeProps) {
   const displayName = () => truncate(props.agent.name, MAX_NAME_LENGTH)
 
   return (
-    <box flexDirection="column" paddingLeft={1} paddingRight={1}>
+    <box flexDirection="column" paddingLeft={1 + (props.depth ?? 0) * 2} paddingRight={1}>
       {/* Main line - use wrapMode="none" and overflow="hidden" to prevent text wrapping */}
       <box flexDirection="row" overflow="hidden">
         <text wrapMode="none" fg={themeCtx.theme.text}>{selectionPrefix()}</text>
@@ -116,8 +118,8 @@ export function MainAgentNode(props: MainAgentNodeProps) {
         </Show>
       </box>
 
-      {/* Context line (goal, file, action) */}
-      <Show when={props.agent.goal || props.agent.currentFile || props.agent.currentAction}>
+      {/* Context line (goal, file, action, decision) */}
+      <Show when={props.agent.goal || props.agent.currentFile || props.agent.currentAction || props.agent.decision}>
         <box paddingLeft={4}>
           <text fg={themeCtx.theme.textMuted} wrapMode="none">
             {props.agent.goal && `Goal: ${truncate(props.agent.goal, 40)}`}
@@ -125,6 +127,8 @@ export function MainAgentNode(props: MainAgentNodeProps) {
             {props.agent.currentFile && `File: ${truncate(props.agent.currentFile, 30)}`}
             {props.agent.currentFile && props.agent.currentAction && " | "}
             {props.agent.currentAction && truncate(props.agent.currentAction, 40)}
+            {props.agent.decision && (props.agent.goal || props.agent.currentFile || props.agent.currentAction) && " | "}
+            {props.agent.decision && `Decision: ${truncate(props.agent.decision, 40)}`}
           </text>
         </box>
       </Show>
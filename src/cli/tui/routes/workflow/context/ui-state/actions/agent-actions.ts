@@ -121,6 +121,17 @@ export function createAgentActions(ctx: AgentActionsContext) {
     ctx.notify()
   }
 
+  function updateAgentDecision(agentId: string, decision: string): void {
+    const state = ctx.getState()
+    ctx.setState({
+      ...state,
+      agents: state.agents.map((agent) =>
+        agent.id === agentId ? { ...agent, decision } : agent,
+      ),
+    })
+    ctx.notify()
+  }
+
   return {
     addAgent,
     updateAgentStatus,
@@ -131,5 +142,6 @@ export function createAgentActions(ctx: AgentActionsContext) {
     updateAgentGoal,
     updateAgentCurrentFile,
     updateAgentCurrentAction,
+    updateAgentDecision,
   }
 }
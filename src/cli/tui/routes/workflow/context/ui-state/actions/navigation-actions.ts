@@ -101,12 +101,19 @@ export function createNavigationActions(ctx: NavigationActionsContext) {
     ctx.notify()
   }
 
+  function toggleTiledView(): void {
+    const state = ctx.getState()
+    ctx.setState({ ...state, tiledView: !state.tiledView })
+    ctx.notify()
+  }
+
   return {
     selectItem,
     navigateDown,
     navigateUp,
     toggleExpand,
     toggleTimeline,
+    toggleTiledView,
     setVisibleItemCount,
     setScrollOffset,
   }
@@ -4,7 +4,7 @@
  * Actions for managing workflow status and checkpoint state.
  */
 
-import type { WorkflowState, WorkflowStatus, LoopState, ChainedState, InputState, RateLimitState, TriggeredAgentState } from "../types"
+import type { WorkflowState, WorkflowStatus, LoopState, ChainedState, InputState, RateLimitState, EngineCircuitState, ArtifactRecord, TriggeredAgentState } from "../types"
 
 export type WorkflowActionsContext = {
   getState(): WorkflowState
@@ -132,6 +132,23 @@ export function createWorkflowActions(ctx: WorkflowActionsContext) {
     ctx.notify()
   }
 
+  function setEngineCircuitState(engineId: string, circuitState: EngineCircuitState): void {
+    const state = ctx.getState()
+    if (state.engineCircuits[engineId] === circuitState) return
+    ctx.setState({ ...state, engineCircuits: { ...state.engineCircuits, [engineId]: circuitState } })
+    ctx.notify()
+  }
+
+  function updateArtifact(artifact: ArtifactRecord): void {
+    const state = ctx.getState()
+    const index = state.artifacts.findIndex((a) => a.name === artifact.name)
+    const artifacts = index === -1
+      ? [...state.artifacts, artifact].sort((a, b) => a.stepIndex - b.stepIndex)
+      : state.artifacts.map((a, i) => (i === index ? artifact : a))
+    ctx.setState({ ...state, artifacts })
+    ctx.notify()
+  }
+
   function setAutonomousMode(enabled: boolean): void {
     const state = ctx.getState()
     if (state.autonomousMode === enabled) return
@@ -144,6 +161,8 @@ export function createWorkflowActions(ctx: WorkflowActionsContext) {
     setCheckpointState,
     setInputState,
     setRateLimitState,
+    setEngineCircuitState,
+    updateArtifact,
     setChainedState,
     setLoopState,
     clearLoopRound,
@@ -23,10 +23,13 @@ export function createInitialState(workflowName: string, totalSteps = 0): Workfl
     checkpointState: null,
     inputState: null,
     rateLimitState: null,
+    engineCircuits: {},
+    artifacts: [],
     chainedState: null,
     expandedNodes: new Set(),
     showTelemetryView: false,
     timelineCollapsed: false,
+    tiledView: false,
     selectedAgentId: null,
     selectedSubAgentId: null,
     selectedItemType: null,
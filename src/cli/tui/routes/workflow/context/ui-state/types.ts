@@ -9,6 +9,8 @@ import type {
   ChainedState,
   InputState,
   RateLimitState,
+  EngineCircuitState,
+  ArtifactRecord,
   SubAgentState,
   TriggeredAgentState,
   WorkflowStatus,
@@ -27,6 +29,7 @@ export type UIActions = {
   updateAgentGoal(agentId: string, goal: string): void
   updateAgentCurrentFile(agentId: string, currentFile: string): void
   updateAgentCurrentAction(agentId: string, currentAction: string): void
+  updateAgentDecision(agentId: string, decision: string): void
   setLoopState(loopState: LoopState | null): void
   clearLoopRound(agentId: string): void
   addSubAgent(parentId: string, subAgent: SubAgentState): void
@@ -38,12 +41,15 @@ export type UIActions = {
   selectItem(itemId: string, itemType: "main" | "summary" | "sub", visibleItemCount?: number, immediate?: boolean): void
   toggleExpand(agentId: string): void
   toggleTimeline(): void
+  toggleTiledView(): void
   setVisibleItemCount(count: number): void
   setScrollOffset(offset: number, visibleItemCount?: number): void
   setWorkflowStatus(status: WorkflowStatus): void
   setCheckpointState(checkpoint: { active: boolean; reason?: string } | null): void
   setInputState(inputState: InputState | null): void
   setRateLimitState(rateLimitState: RateLimitState | null): void
+  setEngineCircuitState(engineId: string, state: EngineCircuitState): void
+  updateArtifact(artifact: ArtifactRecord): void
   /** @deprecated Use setInputState instead */
   setChainedState(chainedState: ChainedState | null): void
   registerMonitoringId(uiAgentId: string, monitoringId: number): void
@@ -56,4 +62,4 @@ export type UIActions = {
   setFallbackEnabled(enabled: boolean): void
 }
 
-export type { WorkflowState, AgentStatus, LoopState, ChainedState, InputState, RateLimitState, SubAgentState, TriggeredAgentState, WorkflowStatus }
+export type { WorkflowState, AgentStatus, LoopState, ChainedState, InputState, RateLimitState, EngineCircuitState, ArtifactRecord, SubAgentState, TriggeredAgentState, WorkflowStatus }
@@ -19,6 +19,7 @@ export interface UseWorkflowKeyboardOptions {
     navigateDown: (visibleItemCount?: number) => void
     toggleExpand: (agentId: string) => void
     toggleTimeline: () => void
+    toggleTiledView: () => void
   }
   /** Calculate visible items for navigation */
   calculateVisibleItems: () => number
@@ -56,6 +57,8 @@ export interface UseWorkflowKeyboardOptions {
   toggleAutonomousMode?: () => void
   /** Open settings modal */
   openSettings?: () => void
+  /** Move keyboard focus to the next/previous tile of the tiled view */
+  cycleTileFocus?: (direction: 1 | -1) => void
 }
 
 /**
@@ -137,6 +140,20 @@ export function useWorkflowKeyboard(options: UseWorkflowKeyboardOptions) {
       return
     }
 
+    // T key - toggle tiled view of several agents' logs
+    if (evt.name === "t") {
+      evt.preventDefault()
+      options.actions.toggleTiledView()
+      return
+    }
+
+    // [ / ] - move focus between tiles
+    if ((evt.name === "[" || evt.name === "]") && options.getState().tiledView) {
+      evt.preventDefault()
+      options.cycleTileFocus?.(evt.name === "]" ? 1 : -1)
+      return
+    }
+
     // P key - pause workflow
     if (evt.name === "p") {
       evt.preventDefault()
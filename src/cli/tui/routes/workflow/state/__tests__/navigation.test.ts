@@ -0,0 +1,58 @@
+import { describe, it, expect } from "bun:test"
+import { getFlatNavigableList, getTimelineLayout } from "../navigation"
+import { createInitialState } from "../../context/ui-state/initial-state"
+import type { AgentState, StepGroup } from "../types"
+
+function agent(id: string, stepIndex: number, groups?: StepGroup[]): AgentState {
+  return {
+    id,
+    name: id,
+    engine: "claude",
+    status: "pending",
+    telemetry: { tokensIn: 0, tokensOut: 0 },
+    startTime: 0,
+    toolCount: 0,
+    thinkingCount: 0,
+    stepIndex,
+    groups,
+  }
+}
+
+describe("getTimelineLayout", () => {
+  const review: StepGroup = { kind: "branch", id: "review", label: "Review", path: "fix" }
+  const fixes: StepGroup = { kind: "parallel", id: "fixes", label: "Fixes" }
+
+  it("nests grouped agents under one header per group", () => {
+    const state = createInitialState("Composed")
+    state.agents = [
+      agent("plan", 0),
+      agent("api", 1, [review, fixes]),
+      agent("ui", 2, [review, fixes]),
+      agent("docs", 3, [review]),
+      agent("release", 4),
+    ]
+
+    const items = getTimelineLayout(state).map(({ item }) =>
+      item.type === "group" ? `group:${item.group.id}@${item.depth}` : `${item.type}:${item.id}@${item.type === "main" ? item.depth : "-"}`
+    )
+
+    expect(items).toEqual([
+      "main:plan@0",
+      "group:review@0",
+      "group:fixes@1",
+      "main:api@2",
+      "main:ui@2",
+      "main:docs@1",
+      "main:release@0",
+    ])
+  })
+
+  it("collects member agents on headers and keeps them out of navigation", () => {
+    const state = createInitialState("Composed")
+    state.agents = [agent("api", 0, [fixes]), agent("ui", 1, [fixes])]
+
+    const header = getTimelineLayout(state)[0]!.item
+    expect(header.type === "group" && header.agents.map((a) => a.id)).toEqual(["api", "ui"])
+    expect(getFlatNavigableList(state).map((item) => item.id)).toEqual(["api", "ui"])
+  })
+})
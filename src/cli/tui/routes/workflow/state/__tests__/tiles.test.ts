@@ -0,0 +1,52 @@
+import { describe, it, expect } from "bun:test"
+import { getTileGrid, selectTiledAgents } from "../tiles"
+import { createInitialState } from "../../context/ui-state/initial-state"
+import type { AgentState, AgentStatus, SubAgentState } from "../types"
+
+function agent(id: string, status: AgentStatus, startTime: number): AgentState {
+  return {
+    id,
+    name: id,
+    engine: "claude",
+    status,
+    telemetry: { tokensIn: 0, tokensOut: 0 },
+    startTime,
+    toolCount: 0,
+    thinkingCount: 0,
+    monitoringId: status === "pending" ? undefined : startTime,
+  }
+}
+
+function sub(parentId: string, id: string, status: AgentStatus, startTime: number): SubAgentState {
+  return { ...agent(id, status, startTime), parentId }
+}
+
+describe("selectTiledAgents", () => {
+  it("prefers active agents, then recent ones, in start order", () => {
+    const state = createInitialState("Tiles")
+    state.agents = [agent("plan", "completed", 1), agent("build", "running", 2), agent("queued", "pending", 9)]
+    state.subAgents.set("build", [
+      sub("build", "api", "running", 3),
+      sub("build", "ui", "completed", 4),
+      sub("build", "db", "running", 5),
+    ])
+
+    expect(selectTiledAgents(state).map((a) => a.id)).toEqual(["plan", "build", "api", "ui", "db"])
+    expect(selectTiledAgents(state, 3).map((a) => a.id)).toEqual(["build", "api", "db"])
+    expect(selectTiledAgents(state, 4).map((a) => a.id)).toEqual(["build", "api", "ui", "db"])
+  })
+})
+
+describe("getTileGrid", () => {
+  it("lays out up to three tiles in a row, then two rows", () => {
+    expect(getTileGrid(2, 200)).toEqual({ columns: 2, rows: 1 })
+    expect(getTileGrid(3, 200)).toEqual({ columns: 3, rows: 1 })
+    expect(getTileGrid(4, 200)).toEqual({ columns: 2, rows: 2 })
+    expect(getTileGrid(6, 200)).toEqual({ columns: 3, rows: 2 })
+  })
+
+  it("drops columns on narrow terminals", () => {
+    expect(getTileGrid(3, 90)).toEqual({ columns: 2, rows: 2 })
+    expect(getTileGrid(4, 30)).toEqual({ columns: 1, rows: 4 })
+  })
+})
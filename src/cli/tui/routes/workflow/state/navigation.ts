@@ -1,10 +1,11 @@
-import type { AgentState, SubAgentState, UIElement, WorkflowState } from "./types"
+import type { AgentState, StepGroup, SubAgentState, UIElement, WorkflowState } from "./types"
 
 export type NavigableItem =
-  | { type: "main"; id: string; agent: AgentState }
+  | { type: "main"; id: string; agent: AgentState; depth?: number }
   | { type: "summary"; id: string; parentId: string }
   | { type: "sub"; id: string; agent: SubAgentState }
   | { type: "ui"; id: string; uiElement: UIElement }
+  | { type: "group"; id: string; group: StepGroup; depth: number; agents: AgentState[] }
 
 export type SelectableItem =
   | { type: "main"; id: string; agent: AgentState }
@@ -29,6 +30,10 @@ export function getItemHeight(item: NavigableItem): number {
   return 1
 }
 
+function groupKey(group: StepGroup): string {
+  return `${group.kind}:${group.id}:${group.path ?? ""}`
+}
+
 function getFullItemsList(state: WorkflowState): NavigableItem[] {
   const items: NavigableItem[] = []
   type StepItem =
@@ -49,10 +54,35 @@ function getFullItemsList(state: WorkflowState): NavigableItem[] {
 
   stepItems.sort((a, b) => a.stepIndex - b.stepIndex)
 
+  // Headers of the parallel groups / branch paths the previous agent sat in, outermost first
+  let openHeaders: Extract<NavigableItem, { type: "group" }>[] = []
+
   for (const stepItem of stepItems) {
     if (stepItem.type === "agent") {
       const agent = stepItem.agent
-      items.push({ type: "main", id: agent.id, agent })
+      const groups = agent.groups ?? []
+
+      // Keep the headers this agent shares with the previous one, open new ones for the rest
+      let shared = 0
+      while (
+        shared < groups.length &&
+        shared < openHeaders.length &&
+        groupKey(openHeaders[shared]!.group) === groupKey(groups[shared]!)
+      ) {
+        shared++
+      }
+      openHeaders = openHeaders.slice(0, shared)
+      for (let depth = shared; depth < groups.length; depth++) {
+        const group = groups[depth]!
+        const header = { type: "group" as const, id: `${groupKey(group)}@${agent.id}`, group, depth, agents: [] }
+        openHeaders.push(header)
+        items.push(header)
+      }
+      for (const header of openHeaders) {
+        header.agents.push(agent)
+      }
+
+      items.push({ type: "main", id: agent.id, agent, depth: groups.length })
       const subAgents = state.subAgents.get(agent.id)
       if (subAgents && subAgents.length > 0) {
         items.push({ type: "summary", id: agent.id, parentId: agent.id })
@@ -63,6 +93,7 @@ function getFullItemsList(state: WorkflowState): NavigableItem[] {
         }
       }
     } else {
+      openHeaders = []
       items.push({ type: "ui", id: stepItem.uiElement.id, uiElement: stepItem.uiElement })
     }
   }
@@ -72,7 +103,7 @@ function getFullItemsList(state: WorkflowState): NavigableItem[] {
 
 export function getFlatNavigableList(state: WorkflowState): SelectableItem[] {
   const fullList = getFullItemsList(state)
-  return fullList.filter((item) => item.type !== "ui") as SelectableItem[]
+  return fullList.filter((item) => item.type !== "ui" && item.type !== "group") as SelectableItem[]
 }
 
 export function getTimelineLayout(state: WorkflowState): TimelineLayoutEntry[] {
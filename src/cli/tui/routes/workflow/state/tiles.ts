@@ -0,0 +1,43 @@
+import type { AgentState, SubAgentState, WorkflowState } from "./types"
+
+export const MAX_TILES = 6
+/** Narrowest tile that still shows a readable log */
+export const MIN_TILE_WIDTH = 40
+
+const ACTIVE_STATUSES = new Set(["running", "retrying", "checkpoint", "paused"])
+
+/**
+ * Agents shown in the tiled view: active agents first, then the most recently
+ * started ones, up to `max` agents that have a log (monitoring id).
+ * Returned in start order so tiles keep their position while agents finish.
+ */
+export function selectTiledAgents(state: WorkflowState, max: number = MAX_TILES): Array<AgentState | SubAgentState> {
+  const candidates: Array<AgentState | SubAgentState> = [...state.agents]
+  for (const subAgents of state.subAgents.values()) {
+    candidates.push(...subAgents)
+  }
+
+  const ranked = candidates
+    .filter((agent) => agent.monitoringId !== undefined)
+    .map((agent, order) => ({ agent, order }))
+    .sort((a, b) => {
+      const activeDiff = Number(ACTIVE_STATUSES.has(b.agent.status)) - Number(ACTIVE_STATUSES.has(a.agent.status))
+      return activeDiff || b.agent.startTime - a.agent.startTime || b.order - a.order
+    })
+    .slice(0, max)
+
+  return ranked
+    .sort((a, b) => a.agent.startTime - b.agent.startTime || a.order - b.order)
+    .map(({ agent }) => agent)
+}
+
+/**
+ * Grid for `count` tiles: one row up to three tiles, then two rows,
+ * with fewer columns when the width cannot fit them
+ */
+export function getTileGrid(count: number, width: number): { columns: number; rows: number } {
+  if (count <= 0) return { columns: 1, rows: 0 }
+  const preferred = count <= 3 ? count : Math.ceil(count / 2)
+  const columns = Math.max(1, Math.min(preferred, Math.floor(width / MIN_TILE_WIDTH)))
+  return { columns, rows: Math.ceil(count / columns) }
+}
@@ -11,7 +11,10 @@ import type {
   QueuedPrompt,
   InputState,
   ChainedState,
+  EngineCircuitState,
+  StepGroup,
 } from '../../../../../workflows/shared/types.js'
+import type { ArtifactRecord } from '../../../../../workflows/artifacts/types.js'
 
 // Re-export the shared types
 export type {
@@ -23,6 +26,9 @@ export type {
   QueuedPrompt,
   InputState,
   ChainedState,
+  EngineCircuitState,
+  StepGroup,
+  ArtifactRecord,
 }
 
 /**
@@ -49,6 +55,8 @@ export interface AgentState {
   goal?: string // Agent's current goal/task
   currentFile?: string // File being processed
   currentAction?: string // Current action description
+  decision?: string // Archived behavior.json decision of the completed step
+  groups?: StepGroup[] // Enclosing parallel groups / branch paths, outermost first
 }
 
 /**
@@ -123,11 +131,17 @@ export interface WorkflowState {
   checkpointState: CheckpointState | null
   inputState: InputState | null
   rateLimitState: RateLimitState | null
+  /** Circuit breaker state per engine (only engines whose circuit has changed) */
+  engineCircuits: Record<string, EngineCircuitState>
+  /** Artifacts declared by the workflow's steps, in step order */
+  artifacts: ArtifactRecord[]
   /** @deprecated Use inputState instead */
   chainedState: ChainedState | null
   expandedNodes: Set<string>
   showTelemetryView: boolean
   timelineCollapsed: boolean
+  /** Output shows several agents' logs side by side */
+  tiledView: boolean
   selectedAgentId: string | null
   selectedSubAgentId: string | null
   selectedItemType: "main" | "summary" | "sub" | null
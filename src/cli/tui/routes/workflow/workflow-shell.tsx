@@ -12,8 +12,9 @@ import { useTheme } from "@tui/shared/context/theme"
 import { useToast } from "@tui/shared/context/toast"
 import { useUIState } from "./context/ui-state"
 import { AgentTimeline } from "./components/timeline"
-import { OutputWindow, TelemetryBar, StatusFooter } from "./components/output"
+import { OutputWindow, TiledOutput, TelemetryBar, StatusFooter, ArtifactPanel, getArtifactPanelHeight } from "./components/output"
 import { formatRuntime } from "./state/formatters"
+import { selectTiledAgents } from "./state/tiles"
 import { CheckpointModal, LogViewer, HistoryView, StopModal, ErrorModal, SettingsModal } from "./components/modals"
 import { OpenTUIAdapter } from "./adapters/opentui"
 import { useLogStream } from "./hooks/useLogStream"
@@ -23,8 +24,9 @@ import { useWorkflowModals } from "./hooks/use-workflow-modals"
 import { useWorkflowKeyboard } from "./hooks/use-workflow-keyboard"
 import { calculateVisibleItems } from "./constants"
 import type { WorkflowEventBus } from "../../../../workflows/events/index.js"
-import { setAutonomousMode as persistAutonomousMode, loadControllerConfig } from "../../../../shared/workflows/index.js"
-import { setEngineSelectionContext, loadEngineConfig, saveEngineConfig } from "../../../../workflows/execution/engine-presets.js"
+import { setAutonomousMode as persistAutonomousMode, loadControllerConfig, getStepSnapshots, rollbackToStep } from "../../../../shared/workflows/index.js"
+import { setEngineSelectionContext, loadEngineConfig, saveEngineConfig, isBuiltInPreset, type EngineConfigFile } from "../../../../workflows/execution/engine-presets.js"
+import { setEngineConfigFile } from "../../../../workflows/execution/engine.js"
 import { getControlBus } from "../../../../workflows/control/index.js"
 import { debug } from "../../../../shared/logging/logger.js"
 import path from "path"
@@ -48,7 +50,9 @@ export function WorkflowShell(props: WorkflowShellProps) {
   const dimensions = useTerminalDimensions()
   const modals = useWorkflowModals()
 
-  const getVisibleItems = () => calculateVisibleItems(dimensions()?.height ?? 30)
+  // The artifact panel sits below the timeline and takes rows from it
+  const getVisibleItems = () =>
+    Math.max(5, calculateVisibleItems(dimensions()?.height ?? 30) - getArtifactPanelHeight(state().artifacts.length))
 
   // Show toast on workflow status change
   createEffect((prevStatus: string | undefined) => {
@@ -103,6 +107,9 @@ export function WorkflowShell(props: WorkflowShellProps) {
     ui.actions.setWorkflowStatus("stopped")
   }
 
+  // Engine config as last loaded/saved (custom presets and overrides for the settings modal)
+  const [savedEngineConfig, setSavedEngineConfig] = createSignal<EngineConfigFile | null>(null)
+
   // Error modal state
   const [errorMessage, setErrorMessage] = createSignal<string | null>(null)
   const isErrorModalActive = () => errorMessage() !== null
@@ -152,6 +159,7 @@ export function WorkflowShell(props: WorkflowShellProps) {
 
     // Load engine preset and fallback state
     const engineConfig = await loadEngineConfig(cmRoot)
+    setSavedEngineConfig(engineConfig)
     if (engineConfig?.preset) {
       debug('onMount - setting engine preset to: %s', engineConfig.preset)
       ui.actions.setEnginePreset(engineConfig.preset)
@@ -227,6 +235,22 @@ export function WorkflowShell(props: WorkflowShellProps) {
 
   const logStream = useLogStream(() => currentAgent()?.monitoringId)
 
+  // Tiled view (toggled with T): yields to the single output while input is
+  // requested, since the prompt line belongs to the output window
+  const tiledAgents = createMemo(() => selectTiledAgents(state()))
+  const showTiledView = () => state().tiledView && !isWaitingForInput()
+  const [focusedTile, setFocusedTile] = createSignal(0)
+  const cycleTileFocus = (direction: 1 | -1) => {
+    const count = tiledAgents().length
+    if (count > 0) setFocusedTile((prev) => (prev + direction + count) % count)
+  }
+
+  // Keep tile focus in range as agents come and go
+  createEffect(() => {
+    const count = tiledAgents().length
+    if (focusedTile() >= count) setFocusedTile(Math.max(0, count - 1))
+  })
+
   const runtime = createMemo(() => {
     tick()
     const effectiveEndTime = checkpointFreezeTime() ?? state().endTime
@@ -397,6 +421,78 @@ export function WorkflowShell(props: WorkflowShellProps) {
     modals.setShowSettings(false)
   }
 
+  // Roll back to the snapshot of a history entry (press R twice to confirm)
+  let pendingRollback: { monitoringId: number; timeout: NodeJS.Timeout } | null = null
+  onCleanup(() => { if (pendingRollback) clearTimeout(pendingRollback.timeout) })
+
+  const handleRollback = async (monitoringId: number) => {
+    const status = state().workflowStatus
+    if (status !== "completed" && status !== "stopped" && status !== "error") {
+      toast.show({ variant: "warning", message: "Stop the workflow before rolling back", duration: 3000 })
+      return
+    }
+
+    const cwd = resolvePath(props.currentDir)
+    const cmRoot = path.join(cwd, '.codemachine')
+    const snapshot = (await getStepSnapshots(cmRoot)).find((entry) => entry.monitoringId === monitoringId)
+    if (!snapshot) {
+      toast.show({ variant: "error", message: "No snapshot recorded for this step", duration: 3000 })
+      return
+    }
+
+    if (pendingRollback?.monitoringId !== monitoringId) {
+      if (pendingRollback) clearTimeout(pendingRollback.timeout)
+      pendingRollback = { monitoringId, timeout: setTimeout(() => { pendingRollback = null }, 4000) }
+      toast.show({ variant: "warning", message: `Press R again to roll back files to step ${snapshot.stepIndex}`, duration: 4000 })
+      return
+    }
+
+    clearTimeout(pendingRollback.timeout)
+    pendingRollback = null
+
+    try {
+      await rollbackToStep(cwd, cmRoot, snapshot.stepIndex)
+      debug('[ROLLBACK] Rolled back to step %d (%s)', snapshot.stepIndex, snapshot.commit)
+      toast.show({
+        variant: "success",
+        message: `Rolled back to step ${snapshot.stepIndex}; restart the workflow to continue from step ${snapshot.stepIndex + 1}`,
+        duration: 5000
+      })
+    } catch (err) {
+      debug('[ROLLBACK] Failed to roll back: %s', err)
+      toast.show({ variant: "error", message: `Rollback failed: ${err instanceof Error ? err.message : String(err)}`, duration: 5000 })
+    }
+  }
+
+  const handleEngineConfigSave = async (changes: Pick<EngineConfigFile, "presets" | "overrides">) => {
+    const cmRoot = path.join(resolvePath(props.currentDir), '.codemachine')
+
+    try {
+      const existingConfig = await loadEngineConfig(cmRoot)
+      const nextConfig: EngineConfigFile = { ...existingConfig, ...changes }
+
+      // Fall back to default engines when the active custom preset was deleted
+      const activePreset = state().selectedEnginePreset
+      if (activePreset && !isBuiltInPreset(activePreset) && !nextConfig.presets?.[activePreset]) {
+        nextConfig.preset = undefined
+        ui.actions.setEnginePreset(null)
+        setEngineSelectionContext({ fallbackEnabled: state().fallbackEnabled })
+      }
+
+      await saveEngineConfig(cmRoot, nextConfig)
+      setSavedEngineConfig(nextConfig)
+      // Custom presets are resolved from the cached config for the running workflow
+      setEngineConfigFile(nextConfig)
+      debug('[SETTINGS] Persisted engine config: presets=%d, overrides=%d',
+        Object.keys(nextConfig.presets ?? {}).length,
+        Object.keys(nextConfig.overrides ?? {}).length)
+      toast.show({ variant: "success", message: changes.presets ? "Custom presets saved" : "Agent overrides saved", duration: 3000 })
+    } catch (err) {
+      debug('[SETTINGS] Failed to persist engine config: %s', err)
+      toast.show({ variant: "error", message: "Failed to save engine config", duration: 3000 })
+    }
+  }
+
   // Handle fallback toggle
   const handleFallbackToggle = async (enabled: boolean) => {
     const cmRoot = path.join(resolvePath(props.currentDir), '.codemachine')
@@ -459,6 +555,7 @@ export function WorkflowShell(props: WorkflowShellProps) {
     isAutonomousMode: () => state().autonomousMode,
     toggleAutonomousMode,
     openSettings: () => modals.setShowSettings(true),
+    cycleTileFocus,
   })
 
   return (
@@ -471,31 +568,41 @@ export function WorkflowShell(props: WorkflowShellProps) {
         <Show when={!isTimelineCollapsed()}>
           <box flexDirection="column" width={showOutputPanel() ? "35%" : "100%"}>
             <AgentTimeline state={state()} onToggleExpand={(id) => ui.actions.toggleExpand(id)} availableHeight={state().visibleItemCount} availableWidth={Math.floor((dimensions()?.width ?? 80) * (showOutputPanel() ? 0.35 : 1))} isPaused={isWaitingForInput()} isPromptBoxFocused={isPromptBoxFocused()} />
+            <ArtifactPanel artifacts={state().artifacts} availableWidth={Math.floor((dimensions()?.width ?? 80) * (showOutputPanel() ? 0.35 : 1))} />
           </box>
         </Show>
         <Show when={showOutputPanel() || isTimelineCollapsed()}>
           <box flexDirection="column" width={isTimelineCollapsed() ? "100%" : "65%"}>
-            <OutputWindow
-              currentAgent={currentAgent()}
-              availableWidth={Math.floor((dimensions()?.width ?? 80) * (isTimelineCollapsed() ? 1 : 0.65))}
-              lines={logStream.lines}
-              isLoading={logStream.isLoading}
-              isConnecting={logStream.isConnecting}
-              error={logStream.error}
-              latestThinking={logStream.latestThinking}
-              inputState={isShowingRunningAgent() ? state().inputState : null}
-              workflowStatus={state().workflowStatus}
-              isPromptBoxFocused={isPromptBoxFocused()}
-              onPromptSubmit={handlePromptSubmit}
-              onSkip={handleSkip}
-              onPromptBoxFocusExit={() => setIsPromptBoxFocused(false)}
-            />
+            <Show when={showTiledView()}>
+              <TiledOutput
+                agents={tiledAgents()}
+                availableWidth={Math.floor((dimensions()?.width ?? 80) * (isTimelineCollapsed() ? 1 : 0.65))}
+                focusedIndex={focusedTile()}
+              />
+            </Show>
+            <Show when={!showTiledView()}>
+              <OutputWindow
+                currentAgent={currentAgent()}
+                availableWidth={Math.floor((dimensions()?.width ?? 80) * (isTimelineCollapsed() ? 1 : 0.65))}
+                lines={logStream.lines}
+                isLoading={logStream.isLoading}
+                isConnecting={logStream.isConnecting}
+                error={logStream.error}
+                latestThinking={logStream.latestThinking}
+                inputState={isShowingRunningAgent() ? state().inputState : null}
+                workflowStatus={state().workflowStatus}
+                isPromptBoxFocused={isPromptBoxFocused()}
+                onPromptSubmit={handlePromptSubmit}
+                onSkip={handleSkip}
+                onPromptBoxFocusExit={() => setIsPromptBoxFocused(false)}
+              />
+            </Show>
           </box>
         </Show>
       </box>
 
       <box flexShrink={0} flexDirection="column">
-        <TelemetryBar workflowName={state().workflowName} runtime={runtime()} status={state().workflowStatus} total={totalTelemetry()} autonomousMode={state().autonomousMode} rateLimitState={state().rateLimitState} />
+        <TelemetryBar workflowName={state().workflowName} runtime={runtime()} status={state().workflowStatus} total={totalTelemetry()} autonomousMode={state().autonomousMode} rateLimitState={state().rateLimitState} engineCircuits={state().engineCircuits} />
         <StatusFooter autonomousMode={state().autonomousMode} />
       </box>
 
@@ -513,7 +620,7 @@ export function WorkflowShell(props: WorkflowShellProps) {
 
       <Show when={modals.isHistoryActive()}>
         <box position="absolute" left={0} top={0} width="100%" height="100%" zIndex={1000} backgroundColor={themeCtx.theme.background}>
-          <HistoryView onClose={() => modals.setShowHistory(false)} onOpenLogViewer={(id) => { modals.setHistoryLogViewerMonitoringId(id); modals.setShowHistory(false) }} initialSelectedIndex={modals.historySelectedIndex()} onSelectedIndexChange={modals.setHistorySelectedIndex} />
+          <HistoryView onClose={() => modals.setShowHistory(false)} onOpenLogViewer={(id) => { modals.setHistoryLogViewerMonitoringId(id); modals.setShowHistory(false) }} initialSelectedIndex={modals.historySelectedIndex()} onSelectedIndexChange={modals.setHistorySelectedIndex} onRollback={handleRollback} />
         </box>
       </Show>
 
@@ -540,8 +647,12 @@ export function WorkflowShell(props: WorkflowShellProps) {
           <SettingsModal
             currentPreset={state().selectedEnginePreset}
             fallbackEnabled={state().fallbackEnabled}
+            customPresets={savedEngineConfig()?.presets ?? {}}
+            overrides={savedEngineConfig()?.overrides ?? {}}
             onSelect={handlePresetSelect}
             onFallbackToggle={handleFallbackToggle}
+            onPresetsSave={(presets) => handleEngineConfigSave({ presets })}
+            onOverridesSave={(overrides) => handleEngineConfigSave({ overrides })}
             onClose={() => modals.setShowSettings(false)}
           />
         </box>
@@ -3,5 +3,5 @@
  */
 
 export { formatBytes } from "./format-bytes"
-export { truncate, wrapText, repeatChar } from "./text"
+export { truncate, wrapText, repeatChar, isCaseSensitiveQuery, splitHighlight, type HighlightSegment } from "./text"
 export { copyToClipboard } from "./clipboard"
@@ -61,3 +61,39 @@ export function wrapText(text: string, width: number): string[] {
 export function repeatChar(char: string, count: number): string {
   return char.repeat(count)
 }
+
+/**
+ * Smart case: a query is case-sensitive only when it has uppercase letters
+ */
+export function isCaseSensitiveQuery(query: string): boolean {
+  return query !== query.toLowerCase()
+}
+
+export interface HighlightSegment {
+  text: string
+  match: boolean
+}
+
+/**
+ * Split text into matching and non-matching segments of a (smart case) query
+ */
+export function splitHighlight(text: string, query: string): HighlightSegment[] {
+  if (!query) return [{ text, match: false }]
+  const caseSensitive = isCaseSensitiveQuery(query)
+  const haystack = caseSensitive ? text : text.toLowerCase()
+  const needle = caseSensitive ? query : query.toLowerCase()
+
+  const segments: HighlightSegment[] = []
+  let start = 0
+  let index = haystack.indexOf(needle)
+  while (index !== -1) {
+    if (index > start) segments.push({ text: text.slice(start, index), match: false })
+    segments.push({ text: text.slice(index, index + needle.length), match: true })
+    start = index + needle.length
+    index = haystack.indexOf(needle, start)
+  }
+  if (start < text.length || segments.length === 0) {
+    segments.push({ text: text.slice(start), match: false })
+  }
+  return segments
+}
@@ -24,6 +24,8 @@ export interface EngineMetadata {
   defaultModel?: string;
   /** Default reasoning effort for models that support it (only applies to engines like Codex) */
   defaultModelReasoningEffort?: 'low' | 'medium' | 'high';
+  /** Context window of the default model, in tokens (used to budget prompts) */
+  contextWindow?: number;
   /** Display order in UI (lower = first) */
   order?: number;
   /** Whether this engine is experimental */
@@ -34,6 +36,33 @@ export interface EngineMetadata {
   supportsResume?: boolean;
 }
 
+/**
+ * Model prices in USD per million tokens
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  /** Cached input tokens read (default: input price) */
+  cachedInput?: number;
+  /** Input tokens written to the cache (default: input price) */
+  cacheWrite?: number;
+}
+
+/**
+ * Model catalog entry - a model an engine accepts
+ */
+export interface ModelInfo {
+  /** Model name passed to the engine (e.g., 'gpt-5-codex', 'claude-opus-4-1') */
+  id: string;
+  /** Other names the engine accepts for the model (e.g., 'opus') */
+  aliases?: string[];
+  /** Context window, in tokens */
+  contextWindow?: number;
+  /** Whether the model takes modelReasoningEffort */
+  reasoningEffort?: boolean;
+  pricing?: ModelPricing;
+}
+
 /**
  * Minimal engine metadata for lazy loading preview
  * Contains only the essential fields needed before full engine load
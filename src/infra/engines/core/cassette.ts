@@ -0,0 +1,314 @@
+/**
+ * Engine Cassettes
+ *
+ * A cassette records every engine run of a workflow: the run options, the
+ * streamed output, telemetry, session ids, the files the agent wrote and the
+ * result. The replay engine serves these recordings by prompt hash and writes
+ * the recorded files back, so templates and behaviors can be regression-tested
+ * offline.
+ *
+ * Recording is enabled with CODEMACHINE_RECORD_CASSETTE=<path>; replay with
+ * CODEMACHINE_REPLAY_CASSETTE=<path> (registers the 'replay' engine).
+ */
+
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+import { debug } from '../../../shared/logging/logger.js';
+import { freezeBuiltInTime } from '../../../shared/prompts/replacement/builtins.js';
+import type { EngineModule } from './base.js';
+import type { EngineRunOptions, EngineRunResult, ParsedTelemetry } from './types.js';
+
+export const CASSETTE_VERSION = 1;
+
+/**
+ * File an engine run created, changed or deleted in its working directory
+ */
+export interface CassetteFile {
+  /** Path relative to the working directory, with / separators */
+  path: string;
+  /** File content, base64-encoded when encoding is 'base64' */
+  content?: string;
+  encoding?: 'base64';
+  deleted?: boolean;
+}
+
+/**
+ * One recorded engine run
+ */
+export interface CassetteEntry {
+  /** Prompt hash the replay engine looks the entry up by */
+  key: string;
+  /** Engine that produced the recording */
+  engine: string;
+  model?: string;
+  modelReasoningEffort?: 'low' | 'medium' | 'high';
+  /** Prompt with the working directory replaced by <cwd> */
+  prompt: string;
+  resumePrompt?: string;
+  resumeSessionId?: string;
+  /** Output chunks in the order they were streamed */
+  chunks: string[];
+  errorChunks: string[];
+  telemetry: ParsedTelemetry[];
+  sessionId?: string;
+  result?: {
+    stdout: string;
+    stderr: string;
+    isRateLimitError?: boolean;
+    retryAfterSeconds?: number;
+  };
+  /** Message of the error the run threw */
+  error?: string;
+  /** Files the run wrote, written back when the run is replayed */
+  files?: CassetteFile[];
+  durationMs: number;
+}
+
+export interface Cassette {
+  version: number;
+  /** When recording started (epoch ms): {date}, {datetime} and {timestamp} render this time */
+  recordedAt?: number;
+  entries: CassetteEntry[];
+}
+
+const CWD_TOKEN = '<cwd>';
+
+function normalize(text: string, workingDir: string): string {
+  return workingDir ? text.split(workingDir).join(CWD_TOKEN) : text;
+}
+
+// Not the agent's writes: VCS data, dependencies and the workflow state the
+// runner itself updates while agents run
+const UNRECORDED_PATHS = new Set([
+  '.git',
+  'node_modules',
+  '.codemachine/logs',
+  '.codemachine/workflow',
+  '.codemachine/template.json',
+]);
+
+/** Modification stamp of every file in a working directory, by relative path */
+type FileStamps = Map<string, string>;
+
+function scanFiles(workingDir: string, skipFile: string): FileStamps {
+  const stamps: FileStamps = new Map();
+  const walk = (dir: string): void => {
+    let dirents: fs.Dirent[];
+    try {
+      dirents = fs.readdirSync(path.join(workingDir, dir), { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const dirent of dirents) {
+      const file = dir ? `${dir}/${dirent.name}` : dirent.name;
+      if (UNRECORDED_PATHS.has(file)) continue;
+      if (dirent.isDirectory()) {
+        walk(file);
+      } else if (dirent.isFile() && path.join(workingDir, file) !== skipFile) {
+        try {
+          const stat = fs.statSync(path.join(workingDir, file));
+          stamps.set(file, `${stat.mtimeMs}:${stat.size}`);
+        } catch {
+          // Removed while scanning
+        }
+      }
+    }
+  };
+  if (workingDir) walk('');
+  return stamps;
+}
+
+function changedFiles(workingDir: string, before: FileStamps, after: FileStamps): CassetteFile[] {
+  const files: CassetteFile[] = [];
+  for (const [file, stamp] of after) {
+    if (before.get(file) === stamp) continue;
+    try {
+      const content = fs.readFileSync(path.join(workingDir, file));
+      const text = content.toString('utf8');
+      files.push(Buffer.from(text, 'utf8').equals(content)
+        ? { path: file, content: text }
+        : { path: file, content: content.toString('base64'), encoding: 'base64' });
+    } catch (error) {
+      debug('[Cassette] Failed to read %s: %o', file, error);
+    }
+  }
+  for (const file of before.keys()) {
+    if (!after.has(file)) files.push({ path: file, deleted: true });
+  }
+  return files;
+}
+
+/**
+ * Write recorded files into a working directory (and remove deleted ones)
+ */
+export function writeCassetteFiles(workingDir: string, files: CassetteFile[]): void {
+  for (const file of files) {
+    const target = path.resolve(workingDir, ...file.path.split('/'));
+    const relative = path.relative(path.resolve(workingDir), target);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new Error(`Recorded file ${file.path} is outside the working directory`);
+    }
+    if (file.deleted) {
+      fs.rmSync(target, { force: true });
+      continue;
+    }
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, file.encoding === 'base64' ? Buffer.from(file.content ?? '', 'base64') : file.content ?? '');
+  }
+}
+
+/**
+ * Hash identifying a run: its prompt (and resume prompt) with the working
+ * directory normalized, so recordings replay in another checkout
+ */
+export function hashRunPrompt(options: Pick<EngineRunOptions, 'prompt' | 'resumePrompt' | 'workingDir'>): string {
+  const hash = createHash('sha256');
+  hash.update(normalize(options.prompt, options.workingDir));
+  if (options.resumePrompt) {
+    hash.update('\0');
+    hash.update(normalize(options.resumePrompt, options.workingDir));
+  }
+  return hash.digest('hex').slice(0, 16);
+}
+
+/**
+ * Read a cassette file (an empty cassette when the file does not exist)
+ */
+export function readCassette(file: string): Cassette {
+  if (!fs.existsSync(file)) {
+    return { version: CASSETTE_VERSION, entries: [] };
+  }
+  const cassette = JSON.parse(fs.readFileSync(file, 'utf8')) as Cassette;
+  if (cassette?.version !== CASSETTE_VERSION || !Array.isArray(cassette.entries)) {
+    throw new Error(`${file} is not a version ${CASSETTE_VERSION} engine cassette`);
+  }
+  return cassette;
+}
+
+/**
+ * Records engine runs into a cassette file
+ *
+ * Runs are appended to the entries already in the file. The file is written
+ * synchronously after every run, so nothing is lost when the CLI exits.
+ */
+export class CassetteRecorder {
+  readonly file: string;
+  private readonly cassette: Cassette;
+
+  constructor(file: string) {
+    this.file = path.resolve(file);
+    this.cassette = readCassette(this.file);
+    this.cassette.recordedAt ??= Date.now();
+  }
+
+  /**
+   * When recording into this cassette started (kept when appending)
+   */
+  get recordedAt(): number {
+    return this.cassette.recordedAt!;
+  }
+
+  /**
+   * Engine module whose runs are recorded
+   */
+  wrap(engine: EngineModule): EngineModule {
+    return { ...engine, run: (options) => this.record(engine, options) };
+  }
+
+  private async record(engine: EngineModule, options: EngineRunOptions): Promise<EngineRunResult> {
+    const startedAt = Date.now();
+    const entry: CassetteEntry = {
+      key: hashRunPrompt(options),
+      engine: engine.metadata.id,
+      model: options.model,
+      modelReasoningEffort: options.modelReasoningEffort,
+      prompt: normalize(options.prompt, options.workingDir),
+      resumePrompt: options.resumePrompt && normalize(options.resumePrompt, options.workingDir),
+      resumeSessionId: options.resumeSessionId,
+      chunks: [],
+      errorChunks: [],
+      telemetry: [],
+      durationMs: 0,
+    };
+    const before = scanFiles(options.workingDir, this.file);
+
+    try {
+      const result = await engine.run({
+        ...options,
+        onData: (chunk) => {
+          entry.chunks.push(chunk);
+          options.onData?.(chunk);
+        },
+        onErrorData: (chunk) => {
+          entry.errorChunks.push(chunk);
+          options.onErrorData?.(chunk);
+        },
+        onTelemetry: (telemetry) => {
+          entry.telemetry.push({ ...telemetry });
+          options.onTelemetry?.(telemetry);
+        },
+        onSessionId: (sessionId) => {
+          entry.sessionId = sessionId;
+          options.onSessionId?.(sessionId);
+        },
+      });
+      entry.result = {
+        stdout: result.stdout,
+        stderr: result.stderr,
+        isRateLimitError: result.isRateLimitError,
+        retryAfterSeconds: result.retryAfterSeconds,
+      };
+      return result;
+    } catch (error) {
+      entry.error = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      entry.durationMs = Date.now() - startedAt;
+      const files = changedFiles(options.workingDir, before, scanFiles(options.workingDir, this.file));
+      if (files.length) entry.files = files;
+      this.append(entry);
+    }
+  }
+
+  private append(entry: CassetteEntry): void {
+    this.cassette.entries.push(entry);
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      fs.writeFileSync(this.file, JSON.stringify(this.cassette, null, 2));
+    } catch (error) {
+      debug('[Cassette] Failed to write %s: %o', this.file, error);
+    }
+  }
+}
+
+let recorder: CassetteRecorder | null | undefined;
+
+/**
+ * Recorder for CODEMACHINE_RECORD_CASSETTE, or null when recording is off
+ */
+export function getCassetteRecorder(): CassetteRecorder | null {
+  if (recorder === undefined) {
+    const file = process.env.CODEMACHINE_RECORD_CASSETTE;
+    recorder = file ? new CassetteRecorder(file) : null;
+    if (recorder) debug('[Cassette] Recording engine runs to %s', recorder.file);
+  }
+  return recorder;
+}
+
+/**
+ * Freeze the time {date}, {datetime} and {timestamp} render to when the
+ * cassette was recorded, so prompts using them hash the same on replay.
+ * Runs when the engine registry initializes, before any prompt is rendered.
+ */
+export function freezeCassetteTime(): void {
+  const replayFile = process.env.CODEMACHINE_REPLAY_CASSETTE;
+  try {
+    const recordedAt = replayFile ? readCassette(replayFile).recordedAt : getCassetteRecorder()?.recordedAt;
+    if (recordedAt !== undefined) freezeBuiltInTime(recordedAt);
+  } catch (error) {
+    // The replay engine reports an unreadable cassette when it runs
+    debug('[Cassette] Failed to read the recording time: %o', error);
+  }
+}
@@ -191,6 +191,14 @@ export class CircuitBreaker {
     };
   }
 
+  /**
+   * When an open circuit will move to half-open (undefined unless open)
+   */
+  getResetAt(): Date | undefined {
+    if (this.getState() !== 'open' || !this.openedAt) return undefined;
+    return new Date(this.openedAt.getTime() + this.config.resetTimeout);
+  }
+
   /**
    * Check if a request is allowed
    */
@@ -254,8 +262,11 @@ export class CircuitBreaker {
 
   /**
    * Execute a function with circuit breaker protection
+   *
+   * @param isFailure - Decides whether a thrown error counts against the circuit
+   *   (defaults to every error). Errors it rejects are rethrown without being recorded.
    */
-  async execute<T>(fn: () => Promise<T>): Promise<T> {
+  async execute<T>(fn: () => Promise<T>, isFailure?: (error: unknown) => boolean): Promise<T> {
     if (!this.allowRequest()) {
       throw new CircuitOpenError(
         this.name,
@@ -269,7 +280,9 @@ export class CircuitBreaker {
       this.recordSuccess();
       return result;
     } catch (error) {
-      this.recordFailure(error instanceof Error ? error : new Error(String(error)));
+      if (!isFailure || isFailure(error)) {
+        this.recordFailure(error instanceof Error ? error : new Error(String(error)));
+      }
       throw error;
     }
   }
@@ -392,11 +405,17 @@ export class CircuitBreaker {
   }
 }
 
+/**
+ * Listener for state changes on any circuit in a registry
+ */
+export type CircuitStateListener = (name: string, from: CircuitState, to: CircuitState) => void;
+
 /**
  * Circuit breaker registry for managing multiple circuits
  */
 export class CircuitBreakerRegistry {
   private circuits = new Map<string, CircuitBreaker>();
+  private stateListeners: CircuitStateListener[] = [];
   private defaultConfig: CircuitBreakerConfig;
 
   constructor(defaultConfig: Partial<CircuitBreakerConfig> = {}) {
@@ -410,11 +429,30 @@ export class CircuitBreakerRegistry {
     let circuit = this.circuits.get(name);
     if (!circuit) {
       circuit = new CircuitBreaker(name, { ...this.defaultConfig, ...config });
+      circuit.on((event) => {
+        if (event.type !== 'state_change') return;
+        for (const listener of [...this.stateListeners]) {
+          listener(name, event.from, event.to);
+        }
+      });
       this.circuits.set(name, circuit);
     }
     return circuit;
   }
 
+  /**
+   * Listen for state changes on all circuits, including ones created later
+   */
+  onStateChange(listener: CircuitStateListener): () => void {
+    this.stateListeners.push(listener);
+    return () => {
+      const index = this.stateListeners.indexOf(listener);
+      if (index >= 0) {
+        this.stateListeners.splice(index, 1);
+      }
+    };
+  }
+
   /**
    * Get a circuit breaker for a specific engine
    */
@@ -514,6 +552,19 @@ export function isCircuitOpen(engineId: string): boolean {
   return circuit.getState() === 'open';
 }
 
+/**
+ * Listen for state changes on engine circuits in the global registry
+ */
+export function onEngineCircuitChange(
+  listener: (engineId: string, state: CircuitState) => void
+): () => void {
+  return circuitRegistry.onStateChange((name, _from, to) => {
+    if (name.startsWith('engine:')) {
+      listener(name.slice('engine:'.length), to);
+    }
+  });
+}
+
 /**
  * Get circuit stats for an engine
  */
@@ -423,6 +423,35 @@ const PROVIDER_ERROR_PATTERNS: Record<string, ErrorPattern[]> = {
     },
   ],
 
+  'openai-compatible': [
+    {
+      patterns: ['rate limit', '429', 'too many requests'],
+      category: 'rate_limit',
+      strategy: 'retry_backoff',
+      extractRetryAfter: extractRetryAfterSeconds,
+    },
+    {
+      patterns: ['invalid_api_key', 'unauthorized', '401'],
+      category: 'auth',
+      strategy: 'reauthenticate',
+    },
+    {
+      patterns: ['ECONNREFUSED', 'unable to connect', 'connection refused'],
+      category: 'network',
+      strategy: 'retry_backoff',
+    },
+    {
+      patterns: ['context_length_exceeded', 'context length', 'maximum context'],
+      category: 'context_length',
+      strategy: 'reduce_context',
+    },
+    {
+      patterns: ['model_not_found', 'model not found'],
+      category: 'model_not_found',
+      strategy: 'fallback_model',
+    },
+  ],
+
   // Default patterns for unknown providers
   default: [
     {
@@ -756,6 +785,8 @@ export async function withRecovery<T>(
     maxRetries?: number;
     onRetry?: (context: RecoveryContext, delay: number) => void;
     abortSignal?: AbortSignal;
+    /** Veto retries for specific errors (e.g. leave rate limits to engine fallback) */
+    isRetryable?: (error: EngineError) => boolean;
   }
 ): Promise<RecoveryResult<T>> {
   let context = createRecoveryContext(engineId, options?.maxRetries);
@@ -777,15 +808,27 @@ export async function withRecovery<T>(
       const engineError = toEngineError(error, engineId);
       context = updateRecoveryContext(context, engineError);
 
-      if (!shouldRetry(context)) {
+      if (!shouldRetry(context) || options?.isRetryable?.(engineError) === false) {
         return { success: false, error: engineError, context };
       }
 
       const delay = getRetryDelay(context);
       options?.onRetry?.(context, delay);
 
-      // Wait before retry
-      await new Promise((resolve) => setTimeout(resolve, delay));
+      // Wait before retry (cut short if aborted; the loop then reports the abort)
+      await new Promise<void>((resolve) => {
+        if (options?.abortSignal?.aborted) {
+          resolve();
+          return;
+        }
+        const timer = setTimeout(done, delay);
+        function done() {
+          clearTimeout(timer);
+          options?.abortSignal?.removeEventListener('abort', done);
+          resolve();
+        }
+        options?.abortSignal?.addEventListener('abort', done, { once: true });
+      });
     }
   }
 }
@@ -1,9 +1,15 @@
 import type { Engine, EngineType, EngineRunOptions, EngineRunResult } from './types.js';
 import type { EngineModule } from './base.js';
 import { registry } from './registry.js';
+import { runWithResilience } from './resilience.js';
 
 /**
  * Dynamic engine wrapper - wraps any EngineModule to conform to Engine interface
+ *
+ * Runs go through the engine's circuit breaker and category-aware retry. Only
+ * failures before the agent starts (before it streams output, telemetry or a
+ * session id) are retried: once it runs it may have edited files, so running
+ * the session again could apply those edits twice.
  */
 class DynamicEngine implements Engine {
   constructor(private engineModule: EngineModule) {}
@@ -13,7 +19,33 @@ class DynamicEngine implements Engine {
   }
 
   async run(options: EngineRunOptions): Promise<EngineRunResult> {
-    return await this.engineModule.run(options);
+    const engineId = this.engineModule.metadata.id;
+    let started = false;
+    const run = () => this.engineModule.run({
+      ...options,
+      onData: (chunk) => {
+        started = true;
+        options.onData?.(chunk);
+      },
+      onTelemetry: (telemetry) => {
+        started = true;
+        options.onTelemetry?.(telemetry);
+      },
+      onSessionId: (sessionId) => {
+        started = true;
+        options.onSessionId?.(sessionId);
+      },
+    });
+    return await runWithResilience(engineId, run, {
+      abortSignal: options.abortSignal,
+      canRetry: () => !started,
+      onRetry: (context, delay) => {
+        options.onErrorData?.(
+          `\n[RETRY] ${context.lastError?.message ?? 'Engine failed'} (${context.lastError?.category ?? 'unknown'}), ` +
+            `retrying in ${Math.ceil(delay / 1000)}s (attempt ${context.attempt}/${context.maxAttempts})\n`
+        );
+      },
+    });
   }
 }
 
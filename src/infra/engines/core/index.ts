@@ -14,11 +14,20 @@ export * from './factory.js';
 // Export registry
 export { registry } from './registry.js';
 
+// Export model catalog
+export * from './model-catalog.js';
+
 // Export error recovery
 export * from './error-recovery.js';
 
 // Export circuit breaker
 export * from './circuit-breaker.js';
 
+// Export engine resilience (circuit breaker + retry)
+export { runWithResilience, type ResilienceOptions } from './resilience.js';
+
+// Export engine cassettes (record/replay)
+export * from './cassette.js';
+
 // Export auth cache
 export { EngineAuthCache, engineAuthCache } from './auth-cache.js';
@@ -0,0 +1,118 @@
+/**
+ * Model Catalog
+ *
+ * Known models of each engine with their aliases, context window,
+ * reasoning-effort support and pricing. Engines without a catalog accept
+ * any model name (their models come from user config or another provider).
+ */
+
+import type { ModelInfo } from './base.js';
+import type { ParsedTelemetry } from './types.js';
+import { models as claudeModels } from '../providers/claude/models.js';
+import { models as codexModels } from '../providers/codex/models.js';
+import { models as geminiModels } from '../providers/gemini/models.js';
+
+/**
+ * Model catalogs by engine ID
+ */
+const MODEL_CATALOGS: Record<string, ModelInfo[]> = {
+  claude: claudeModels,
+  codex: codexModels,
+  gemini: geminiModels,
+};
+
+/**
+ * Check if an engine has a model catalog
+ */
+export function hasModelCatalog(engineId: string): boolean {
+  return engineId in MODEL_CATALOGS;
+}
+
+/**
+ * Get the catalog of an engine (empty when the engine has none)
+ */
+export function getEngineModels(engineId: string): ModelInfo[] {
+  return MODEL_CATALOGS[engineId] ?? [];
+}
+
+/**
+ * Find a model by ID or alias (case-insensitive)
+ */
+export function findModel(engineId: string, model: string): ModelInfo | undefined {
+  const name = model.trim().toLowerCase();
+  return getEngineModels(engineId).find(
+    (info) => info.id.toLowerCase() === name || info.aliases?.some((alias) => alias.toLowerCase() === name),
+  );
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Closest model name (ID or alias) of an engine, if close enough to be a typo
+ */
+export function suggestModel(engineId: string, model: string): string | undefined {
+  const name = model.trim().toLowerCase();
+  let best: { name: string; distance: number } | undefined;
+  for (const info of getEngineModels(engineId)) {
+    for (const candidate of [info.id, ...(info.aliases ?? [])]) {
+      const distance = editDistance(name, candidate.toLowerCase());
+      if (!best || distance < best.distance) {
+        best = { name: candidate, distance };
+      }
+    }
+  }
+  return best && best.distance <= Math.max(2, Math.floor(name.length / 3)) ? best.name : undefined;
+}
+
+/**
+ * Check a model against an engine's catalog
+ *
+ * @returns an error message, or null when the model is known or the engine has no catalog
+ */
+export function checkModel(engineId: string, model: string): string | null {
+  if (!hasModelCatalog(engineId) || findModel(engineId, model)) {
+    return null;
+  }
+
+  const suggestion = suggestModel(engineId, model);
+  const hint = suggestion
+    ? `did you mean '${suggestion}'?`
+    : `known models: ${getEngineModels(engineId).map((info) => info.id).join(', ')}`;
+  return `'${model}' is not a ${engineId} model (${hint})`;
+}
+
+/**
+ * Compute the cost of a run from its token usage and the model's pricing
+ *
+ * tokensIn includes `cached` input; cache read/creation tokens are counted
+ * on top of it.
+ *
+ * @returns undefined when the model or its pricing is unknown
+ */
+export function computeCost(engineId: string, model: string, telemetry: ParsedTelemetry): number | undefined {
+  const pricing = findModel(engineId, model)?.pricing;
+  if (!pricing) {
+    return undefined;
+  }
+
+  const cached = Math.min(telemetry.cached ?? 0, telemetry.tokensIn);
+  const cachedInput = pricing.cachedInput ?? pricing.input;
+  const cost =
+    (telemetry.tokensIn - cached) * pricing.input +
+    cached * cachedInput +
+    (telemetry.cacheReadTokens ?? 0) * cachedInput +
+    (telemetry.cacheCreationTokens ?? 0) * (pricing.cacheWrite ?? pricing.input) +
+    telemetry.tokensOut * pricing.output;
+  return cost / 1_000_000;
+}
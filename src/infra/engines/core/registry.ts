@@ -7,6 +7,7 @@
 
 import type { EngineModule, EngineMetadata, EnginePreviewMetadata } from './base.js';
 import { isEngineModule } from './base.js';
+import { freezeCassetteTime, getCassetteRecorder } from './cassette.js';
 
 /**
  * Engine loader function - returns a promise that resolves to an engine module
@@ -37,6 +38,7 @@ const ENGINE_METADATA: EnginePreviewMetadata[] = [
   { id: 'ccr', name: 'Claude Code Runner', order: 5, defaultModel: 'claude-sonnet-4-20250514', supportsResume: false },
   { id: 'opencode', name: 'OpenCode', order: 6, defaultModel: 'anthropic/claude-sonnet-4-20250514', supportsResume: true },
   { id: 'auggie', name: 'Auggie', order: 7, defaultModel: 'anthropic/claude-sonnet-4-20250514', supportsResume: false },
+  { id: 'openai-compatible', name: 'OpenAI-Compatible', order: 8, defaultModel: 'default', supportsResume: false },
 ];
 
 /**
@@ -51,7 +53,9 @@ const ENGINE_LOADERS: Record<string, EngineLoader> = {
   ccr: async () => (await import('../providers/ccr/index.js')).default,
   opencode: async () => (await import('../providers/opencode/index.js')).default,
   auggie: async () => (await import('../providers/auggie/index.js')).default,
+  'openai-compatible': async () => (await import('../providers/openai-compatible/index.js')).default,
   mock: async () => (await import('../providers/mock/index.js')).default,
+  replay: async () => (await import('../providers/replay/index.js')).default,
 };
 
 /**
@@ -91,6 +95,21 @@ class EngineRegistry {
       }
     }
 
+    // Replay engine only when a cassette is given; first in order so it is the default
+    if (process.env.CODEMACHINE_REPLAY_CASSETTE) {
+      const replayLoader = ENGINE_LOADERS['replay'];
+      if (replayLoader) {
+        const replayPreview: EnginePreviewMetadata = { id: 'replay', name: 'Replay', order: 0, supportsResume: true };
+        this.engines.set('replay', {
+          metadata: replayPreview,
+          loader: replayLoader,
+        });
+      }
+    }
+
+    // Date placeholders render the recording time while recording or replaying
+    freezeCassetteTime();
+
     this.initialized = true;
   }
 
@@ -118,12 +137,14 @@ class EngineRegistry {
 
       // Update metadata from actual module (in case it differs)
       entry.metadata = module.metadata;
-      entry.module = module;
+      // Record runs into the cassette when CODEMACHINE_RECORD_CASSETTE is set
+      const recorder = module.metadata.id === 'replay' ? null : getCassetteRecorder();
+      entry.module = recorder ? recorder.wrap(module) : module;
 
       // Call onRegister hook
       module.onRegister?.();
 
-      return module;
+      return entry.module;
     })();
 
     try {
@@ -0,0 +1,75 @@
+/**
+ * Engine Resilience
+ *
+ * Routes engine calls through the engine's circuit breaker and category-aware
+ * retry. Rate limits are neither retried nor counted against the circuit here;
+ * engines report them as results (or rate-limit errors) so fallback can move on.
+ *
+ * @module resilience
+ */
+
+import { circuitRegistry, CircuitOpenError } from './circuit-breaker.js';
+import { withRecovery, classifyError, type RecoveryContext } from './error-recovery.js';
+
+export interface ResilienceOptions {
+  /** Abort signal of the engine run; aborts are never retried or counted as failures */
+  abortSignal?: AbortSignal;
+  /** Override the provider's maximum retry count */
+  maxRetries?: number;
+  /** Whether a failed call may still be retried (default: always) */
+  canRetry?: () => boolean;
+  /** Called before each retry with the error context and delay */
+  onRetry?: (context: RecoveryContext, delay: number) => void;
+}
+
+function isAbort(error: unknown, abortSignal?: AbortSignal): boolean {
+  return abortSignal?.aborted === true || (error instanceof Error && error.name === 'AbortError');
+}
+
+/**
+ * Run an engine call with circuit breaker protection and automatic retry
+ *
+ * Throws the original error from the last attempt (or CircuitOpenError when
+ * the engine's circuit rejects the call) so callers keep their existing handling.
+ */
+export async function runWithResilience<T>(
+  engineId: string,
+  fn: () => Promise<T>,
+  options: ResilienceOptions = {}
+): Promise<T> {
+  const { abortSignal } = options;
+  const circuit = circuitRegistry.forEngine(engineId);
+
+  const countsAsFailure = (error: unknown): boolean => {
+    if (isAbort(error, abortSignal)) return false;
+    const err = error instanceof Error ? error : new Error(String(error));
+    return classifyError(err, engineId).category !== 'rate_limit';
+  };
+
+  const result = await withRecovery(
+    () => circuit.execute(fn, countsAsFailure),
+    engineId,
+    {
+      maxRetries: options.maxRetries,
+      onRetry: options.onRetry,
+      abortSignal,
+      isRetryable: (error) =>
+        error.category !== 'rate_limit' &&
+        !(error.cause instanceof CircuitOpenError) &&
+        !isAbort(error.cause, abortSignal) &&
+        (options.canRetry?.() ?? true),
+    }
+  );
+
+  if (result.success) {
+    return result.value as T;
+  }
+
+  const original = result.error?.cause ?? result.error;
+  if (abortSignal?.aborted && !isAbort(original)) {
+    const abortError = new Error('Operation aborted');
+    abortError.name = 'AbortError';
+    throw abortError;
+  }
+  throw original;
+}
@@ -21,6 +21,8 @@ export interface ParsedTelemetry {
 export interface EngineRunOptions {
   prompt: string;
   workingDir: string;
+  /** Agent the run is for (lets providers apply per-agent settings) */
+  agentId?: string;
   resumeSessionId?: string;
   resumePrompt?: string;
   model?: string;
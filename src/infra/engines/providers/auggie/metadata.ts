@@ -7,6 +7,7 @@ export const metadata: EngineMetadata = {
   cliCommand: 'auggie',
   cliBinary: 'auggie',
   installCommand: 'npm install -g @augmentcode/auggie',
+  contextWindow: 200_000,
   order: 5,
 };
 
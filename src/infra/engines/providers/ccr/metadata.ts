@@ -8,6 +8,7 @@ export const metadata: EngineMetadata = {
   cliBinary: 'ccr',
   installCommand: 'npm install -g @musistudio/claude-code-router',
   defaultModel: 'sonnet',
+  contextWindow: 200_000,
   order: 3,
   experimental: false,
 };
\ No newline at end of file
@@ -8,6 +8,7 @@ export const metadata: EngineMetadata = {
   cliBinary: 'claude',
   installCommand: 'npm install -g @anthropic-ai/claude-code',
   defaultModel: 'opus',
+  contextWindow: 200_000,
   order: 2,
   experimental: true,
 };
@@ -0,0 +1,32 @@
+import type { ModelInfo } from '../../core/base.js';
+
+/**
+ * Models accepted by the Claude Code CLI (prices in USD per 1M tokens)
+ * See: https://docs.anthropic.com/en/docs/about-claude/models
+ */
+export const models: ModelInfo[] = [
+  {
+    id: 'claude-opus-4-1',
+    aliases: ['opus', 'claude-opus-4-1-20250805'],
+    contextWindow: 200_000,
+    pricing: { input: 15, output: 75, cachedInput: 1.5, cacheWrite: 18.75 },
+  },
+  {
+    id: 'claude-sonnet-4-5',
+    aliases: ['sonnet', 'claude-sonnet-4-5-20250929'],
+    contextWindow: 200_000,
+    pricing: { input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75 },
+  },
+  {
+    id: 'claude-sonnet-4-20250514',
+    aliases: ['claude-sonnet-4-0'],
+    contextWindow: 200_000,
+    pricing: { input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75 },
+  },
+  {
+    id: 'claude-haiku-4-5',
+    aliases: ['haiku', 'claude-haiku-4-5-20251001'],
+    contextWindow: 200_000,
+    pricing: { input: 1, output: 5, cachedInput: 0.1, cacheWrite: 1.25 },
+  },
+];
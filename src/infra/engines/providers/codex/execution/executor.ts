@@ -1,8 +1,5 @@
-import * as path from 'node:path';
-
 import { runCodex } from './runner.js';
-import { MemoryAdapter } from '../../../../fs/memory-adapter.js';
-import { MemoryStore } from '../../../../../agents/index.js';
+import { createMemoryStore } from '../../../../../agents/index.js';
 
 export interface RunAgentOptions {
   abortSignal?: AbortSignal;
@@ -90,9 +87,7 @@ export async function runAgent(
 
   const stdout = buffered || result.stdout || '';
   try {
-    const memoryDir = path.resolve(cwd, '.codemachine', 'memory');
-    const adapter = new MemoryAdapter(memoryDir);
-    const store = new MemoryStore(adapter);
+    const store = createMemoryStore(cwd);
     if (stdout.trim()) {
       await store.append({ agentId, content: stdout, timestamp: new Date().toISOString() });
     }
@@ -9,6 +9,7 @@ export const metadata: EngineMetadata = {
   installCommand: 'npm install -g @openai/codex',
   defaultModel: 'gpt-5-codex',
   defaultModelReasoningEffort: 'medium',
+  contextWindow: 400_000,
   order: 3,
   supportsResume: true,
 };
@@ -0,0 +1,34 @@
+import type { ModelInfo } from '../../core/base.js';
+
+/**
+ * Models accepted by the Codex CLI (prices in USD per 1M tokens)
+ * See: https://platform.openai.com/docs/pricing
+ */
+export const models: ModelInfo[] = [
+  {
+    id: 'gpt-5-codex',
+    aliases: ['codex'],
+    contextWindow: 400_000,
+    reasoningEffort: true,
+    pricing: { input: 1.25, output: 10, cachedInput: 0.125 },
+  },
+  {
+    id: 'gpt-5',
+    contextWindow: 400_000,
+    reasoningEffort: true,
+    pricing: { input: 1.25, output: 10, cachedInput: 0.125 },
+  },
+  {
+    id: 'gpt-5-codex-mini',
+    aliases: ['codex-mini'],
+    contextWindow: 400_000,
+    reasoningEffort: true,
+    pricing: { input: 0.25, output: 2, cachedInput: 0.025 },
+  },
+  {
+    id: 'gpt-5-mini',
+    contextWindow: 400_000,
+    reasoningEffort: true,
+    pricing: { input: 0.25, output: 2, cachedInput: 0.025 },
+  },
+];
@@ -8,6 +8,7 @@ export const metadata: EngineMetadata = {
   cliBinary: 'cursor-agent',
   installCommand: 'curl https://cursor.com/install -fsS | bash',
   defaultModel: 'auto',
+  contextWindow: 200_000,
   order: 3,
   experimental: true,
 };
@@ -2,6 +2,7 @@ import * as path from 'node:path';
 import { homedir } from 'node:os';
 
 import { expandHomeDir } from '../../../../shared/utils/index.js';
+import { findModel } from '../../core/model-catalog.js';
 
 export interface GeminiConfigOptions {
   configDir?: string;
@@ -31,35 +32,16 @@ export function getApiKeyPath(configDir: string): string {
 }
 
 /**
- * Model pricing (USD per 1M tokens) - as of Jan 2025
- * See: https://ai.google.dev/pricing
+ * Fallback pricing (USD per 1M tokens) for models missing from the catalog
  */
-export const GEMINI_PRICING: Record<string, { inputPer1M: number; outputPer1M: number }> = {
-  // Gemini 2.0 Flash Thinking (experimental)
-  'gemini-2.0-flash-thinking-exp-01-21': { inputPer1M: 0, outputPer1M: 0 }, // Free during experimental
-  'gemini-2.0-flash-thinking-exp': { inputPer1M: 0, outputPer1M: 0 },
-
-  // Gemini 2.0 Flash
-  'gemini-2.0-flash-exp': { inputPer1M: 0, outputPer1M: 0 }, // Free during experimental
-  'gemini-2.0-flash': { inputPer1M: 0.075, outputPer1M: 0.30 },
-
-  // Gemini 1.5 Pro
-  'gemini-1.5-pro': { inputPer1M: 1.25, outputPer1M: 5.00 },
-  'gemini-1.5-pro-latest': { inputPer1M: 1.25, outputPer1M: 5.00 },
-
-  // Gemini 1.5 Flash
-  'gemini-1.5-flash': { inputPer1M: 0.075, outputPer1M: 0.30 },
-  'gemini-1.5-flash-latest': { inputPer1M: 0.075, outputPer1M: 0.30 },
-
-  // Default fallback pricing
-  'default': { inputPer1M: 0.50, outputPer1M: 1.50 },
-};
+const DEFAULT_PRICING = { inputPer1M: 0.50, outputPer1M: 1.50 };
 
 /**
- * Get pricing for a model
+ * Get pricing for a model from the Gemini model catalog
  */
 export function getModelPricing(model: string): { inputPer1M: number; outputPer1M: number } {
-  return GEMINI_PRICING[model] ?? GEMINI_PRICING['default'];
+  const pricing = findModel('gemini', model)?.pricing;
+  return pricing ? { inputPer1M: pricing.input, outputPer1M: pricing.output } : DEFAULT_PRICING;
 }
 
 /**
@@ -8,6 +8,7 @@ export const metadata: EngineMetadata = {
   cliBinary: '', // No external binary - uses direct API
   installCommand: '', // No install needed - uses @google/generative-ai
   defaultModel: 'gemini-3-pro',
+  contextWindow: 1_000_000,
   order: 1, // High priority - excellent for code generation
   experimental: false,
 };
@@ -0,0 +1,60 @@
+import type { ModelInfo } from '../../core/base.js';
+
+/**
+ * Models accepted by the Gemini API (prices in USD per 1M tokens, for
+ * prompts up to 200K tokens)
+ * See: https://ai.google.dev/pricing
+ */
+export const models: ModelInfo[] = [
+  {
+    id: 'gemini-3-pro-preview',
+    aliases: ['gemini-3-pro'],
+    contextWindow: 1_000_000,
+    pricing: { input: 2, output: 12, cachedInput: 0.2 },
+  },
+  {
+    id: 'gemini-2.5-pro',
+    contextWindow: 1_000_000,
+    pricing: { input: 1.25, output: 10, cachedInput: 0.125 },
+  },
+  {
+    id: 'gemini-2.5-flash',
+    contextWindow: 1_000_000,
+    pricing: { input: 0.3, output: 2.5, cachedInput: 0.03 },
+  },
+  {
+    id: 'gemini-2.5-flash-lite',
+    contextWindow: 1_000_000,
+    pricing: { input: 0.1, output: 0.4, cachedInput: 0.01 },
+  },
+  {
+    id: 'gemini-2.0-flash',
+    contextWindow: 1_000_000,
+    pricing: { input: 0.075, output: 0.3 },
+  },
+  // Experimental models are free
+  {
+    id: 'gemini-2.0-flash-thinking-exp',
+    aliases: ['gemini-2.0-flash-thinking-exp-01-21'],
+    contextWindow: 1_000_000,
+    pricing: { input: 0, output: 0 },
+  },
+  {
+    id: 'gemini-2.0-flash-exp',
+    contextWindow: 1_000_000,
+    pricing: { input: 0, output: 0 },
+  },
+  // Legacy models
+  {
+    id: 'gemini-1.5-pro',
+    aliases: ['gemini-1.5-pro-latest'],
+    contextWindow: 2_000_000,
+    pricing: { input: 1.25, output: 5 },
+  },
+  {
+    id: 'gemini-1.5-flash',
+    aliases: ['gemini-1.5-flash-latest'],
+    contextWindow: 1_000_000,
+    pricing: { input: 0.075, output: 0.3 },
+  },
+];
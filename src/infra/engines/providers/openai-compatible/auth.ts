@@ -0,0 +1,157 @@
+import { rm, mkdir, readFile, writeFile } from 'node:fs/promises';
+
+import {
+  resolveOpenAICompatibleConfigDir,
+  getApiKeyPath,
+  getConfigPath,
+  loadOpenAICompatibleConfig,
+  type OpenAICompatibleConfig,
+} from './config.js';
+import { metadata } from './metadata.js';
+import { writeSecureCredential, readSecureCredential } from '../../../../shared/utils/credentials.js';
+
+export interface OpenAICompatibleAuthOptions {
+  configDir?: string;
+}
+
+/**
+ * Get API key from environment or config file
+ */
+export async function getApiKey(options?: OpenAICompatibleAuthOptions): Promise<string | null> {
+  // Check environment variable first
+  if (process.env.OPENAI_COMPATIBLE_API_KEY) {
+    return process.env.OPENAI_COMPATIBLE_API_KEY;
+  }
+
+  // Check config file (encrypted)
+  const configDir = resolveOpenAICompatibleConfigDir(options);
+  const apiKeyPath = getApiKeyPath(configDir);
+
+  try {
+    const config = await readSecureCredential(apiKeyPath);
+    return (config?.apiKey as string) || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check if an endpoint is configured (local servers need no API key)
+ */
+export async function isAuthenticated(options?: OpenAICompatibleAuthOptions): Promise<boolean> {
+  const config = await loadOpenAICompatibleConfig(process.cwd(), options);
+  return Boolean(config.baseUrl);
+}
+
+/**
+ * Merge settings into the user config file
+ */
+async function saveUserConfig(settings: OpenAICompatibleConfig, options?: OpenAICompatibleAuthOptions): Promise<string> {
+  const configDir = resolveOpenAICompatibleConfigDir(options);
+  const configPath = getConfigPath(configDir);
+  let existing: OpenAICompatibleConfig = {};
+  try {
+    existing = JSON.parse(await readFile(configPath, 'utf8')) as OpenAICompatibleConfig;
+  } catch {
+    // No config yet
+  }
+
+  await mkdir(configDir, { recursive: true });
+  await writeFile(configPath, `${JSON.stringify({ ...existing, ...settings }, null, 2)}\n`);
+  return configPath;
+}
+
+/**
+ * Read one line from stdin with timeout
+ */
+async function promptLine(question: string): Promise<string> {
+  process.stdout.write(question);
+
+  const STDIN_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
+  return new Promise<string>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      process.stdin.removeAllListeners('data');
+      process.stdin.pause();
+      reject(new Error('Authentication timed out - no input received within 5 minutes.'));
+    }, STDIN_TIMEOUT_MS);
+
+    process.stdin.setEncoding('utf8');
+    process.stdin.once('data', (data) => {
+      clearTimeout(timeout);
+      process.stdin.pause();
+      resolve(data.toString().trim());
+    });
+    process.stdin.resume();
+  });
+}
+
+/**
+ * Ensure an OpenAI-compatible endpoint is configured
+ */
+export async function ensureAuth(options?: OpenAICompatibleAuthOptions): Promise<boolean> {
+  // Check if already configured
+  if (await isAuthenticated(options)) {
+    return true;
+  }
+
+  if (process.env.CODEMACHINE_SKIP_AUTH === '1') {
+    // Create a placeholder for testing/dry-run mode
+    await saveUserConfig({ baseUrl: 'http://localhost:8080/v1' }, options);
+    return true;
+  }
+
+  // Interactive setup - prompt for endpoint, model and optional key
+  console.log(`\n────────────────────────────────────────────────────────────`);
+  console.log(`  🔌 ${metadata.name} Endpoint Setup`);
+  console.log(`────────────────────────────────────────────────────────────`);
+  console.log(`\n${metadata.name} talks to any server with a /chat/completions endpoint,`);
+  console.log(`e.g. llama.cpp (http://localhost:8080/v1), Ollama (http://localhost:11434/v1)`);
+  console.log(`or vLLM (http://localhost:8000/v1).\n`);
+
+  const baseUrl = await promptLine('Base URL: ');
+  if (!baseUrl) {
+    console.error('\n❌ No base URL provided.\n');
+    throw new Error(`A base URL is required for ${metadata.name}.`);
+  }
+  if (!/^https?:\/\//.test(baseUrl)) {
+    console.error('\n❌ The base URL must start with http:// or https://.\n');
+    throw new Error(`Invalid ${metadata.name} base URL: ${baseUrl}`);
+  }
+
+  const model = await promptLine('Default model (as the server names it): ');
+  const apiKey = await promptLine('API key (leave empty for none): ');
+
+  const configPath = await saveUserConfig({ baseUrl, ...(model && { model }) }, options);
+  console.log(`\n✅ Endpoint saved to: ${configPath}`);
+
+  if (apiKey) {
+    // Save the key (encrypted)
+    const apiKeyPath = getApiKeyPath(resolveOpenAICompatibleConfigDir(options));
+    await writeSecureCredential(apiKeyPath, { apiKey });
+    console.log(`✅ API key saved securely to: ${apiKeyPath}`);
+  }
+  console.log(`────────────────────────────────────────────────────────────\n`);
+
+  return true;
+}
+
+/**
+ * Clear the saved endpoint and API key
+ */
+export async function clearAuth(options?: OpenAICompatibleAuthOptions): Promise<void> {
+  const configDir = resolveOpenAICompatibleConfigDir(options);
+
+  try {
+    await rm(getConfigPath(configDir), { force: true });
+    await rm(getApiKeyPath(configDir), { force: true });
+  } catch {
+    // Ignore removal errors
+  }
+}
+
+/**
+ * Returns the next auth menu action based on current auth state
+ */
+export async function nextAuthMenuAction(options?: OpenAICompatibleAuthOptions): Promise<'login' | 'logout'> {
+  return (await isAuthenticated(options)) ? 'logout' : 'login';
+}
@@ -0,0 +1,141 @@
+import * as path from 'node:path';
+import { homedir } from 'node:os';
+import { readFile } from 'node:fs/promises';
+
+import { expandHomeDir } from '../../../../shared/utils/index.js';
+import { metadata } from './metadata.js';
+
+export interface OpenAICompatibleConfigOptions {
+  configDir?: string;
+}
+
+/**
+ * Connection settings of an OpenAI-compatible endpoint
+ */
+export interface OpenAICompatibleEndpoint {
+  /** Base URL up to the API version, e.g. http://localhost:8080/v1 */
+  baseUrl?: string;
+  model?: string;
+  /** Sent as a Bearer token (local servers usually need none) */
+  apiKey?: string;
+  /** Extra request headers */
+  headers?: Record<string, string>;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+/**
+ * Engine config: default endpoint plus per-agent endpoints
+ */
+export interface OpenAICompatibleConfig extends OpenAICompatibleEndpoint {
+  /** Endpoint settings by agent id, merged over the defaults */
+  agents?: Record<string, OpenAICompatibleEndpoint>;
+}
+
+/**
+ * Endpoint a run talks to
+ */
+export interface ResolvedEndpoint extends OpenAICompatibleEndpoint {
+  baseUrl: string;
+  model: string;
+}
+
+/** Project config, merged over the user config */
+export const PROJECT_CONFIG_FILE = path.join('.codemachine', 'openai-compatible.json');
+
+/**
+ * Resolves the OpenAI-compatible config directory
+ */
+export function resolveOpenAICompatibleConfigDir(options?: OpenAICompatibleConfigOptions): string {
+  if (options?.configDir) {
+    return expandHomeDir(options.configDir);
+  }
+
+  if (process.env.OPENAI_COMPATIBLE_CONFIG_DIR) {
+    return expandHomeDir(process.env.OPENAI_COMPATIBLE_CONFIG_DIR);
+  }
+
+  // Default config location
+  return path.join(homedir(), '.codemachine', 'openai-compatible');
+}
+
+/**
+ * Gets the path to the user config file
+ */
+export function getConfigPath(configDir: string): string {
+  return path.join(configDir, 'config.json');
+}
+
+/**
+ * Gets the path to the API key file
+ */
+export function getApiKeyPath(configDir: string): string {
+  return path.join(configDir, 'api-key.json');
+}
+
+async function readConfigFile(file: string): Promise<OpenAICompatibleConfig> {
+  try {
+    const parsed = JSON.parse(await readFile(file, 'utf8')) as unknown;
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as OpenAICompatibleConfig) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Load the engine config: user config, then the project config of the working
+ * directory, then OPENAI_COMPATIBLE_BASE_URL / _MODEL from the environment
+ */
+export async function loadOpenAICompatibleConfig(
+  workingDir?: string,
+  options?: OpenAICompatibleConfigOptions,
+): Promise<OpenAICompatibleConfig> {
+  const user = await readConfigFile(getConfigPath(resolveOpenAICompatibleConfigDir(options)));
+  const project = workingDir ? await readConfigFile(path.join(workingDir, PROJECT_CONFIG_FILE)) : {};
+
+  const agents: Record<string, OpenAICompatibleEndpoint> = { ...user.agents };
+  for (const [agentId, endpoint] of Object.entries(project.agents ?? {})) {
+    agents[agentId] = { ...agents[agentId], ...endpoint };
+  }
+
+  return {
+    ...user,
+    ...project,
+    ...(process.env.OPENAI_COMPATIBLE_BASE_URL && { baseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL }),
+    ...(process.env.OPENAI_COMPATIBLE_MODEL && { model: process.env.OPENAI_COMPATIBLE_MODEL }),
+    headers: { ...user.headers, ...project.headers },
+    agents,
+  };
+}
+
+/**
+ * Endpoint for a run, or an error message when no base URL or model is configured
+ *
+ * Model priority: the agent's endpoint model, then the model requested for the
+ * run (unless it is this engine's 'default' placeholder), then the config model.
+ */
+export function resolveEndpoint(
+  config: OpenAICompatibleConfig,
+  agentId?: string,
+  requestedModel?: string,
+): ResolvedEndpoint | string {
+  const agent = agentId ? config.agents?.[agentId] : undefined;
+  const baseUrl = agent?.baseUrl ?? config.baseUrl;
+  const model = agent?.model ?? (requestedModel && requestedModel !== metadata.defaultModel ? requestedModel : undefined) ?? config.model;
+
+  if (!baseUrl) {
+    return `${metadata.name} has no base URL. Set OPENAI_COMPATIBLE_BASE_URL or run 'codemachine auth login'.`;
+  }
+  if (!model) {
+    return `${metadata.name} has no model for ${agentId ?? 'this run'}. Set "model" in ${PROJECT_CONFIG_FILE} or OPENAI_COMPATIBLE_MODEL.`;
+  }
+
+  return {
+    baseUrl: baseUrl.replace(/\/+$/, ''),
+    model,
+    apiKey: agent?.apiKey ?? config.apiKey,
+    headers: { ...config.headers, ...agent?.headers },
+    maxTokens: agent?.maxTokens ?? config.maxTokens,
+    temperature: agent?.temperature ?? config.temperature,
+  };
+}
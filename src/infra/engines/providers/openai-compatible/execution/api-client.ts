@@ -0,0 +1,198 @@
+/**
+ * OpenAI-Compatible API Client
+ *
+ * Streams chat completions from any OpenAI-compatible server using native fetch.
+ */
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  stream: true;
+  stream_options?: { include_usage: boolean };
+  max_tokens?: number;
+  temperature?: number;
+}
+
+export interface ChatCompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens?: number;
+  prompt_tokens_details?: {
+    cached_tokens?: number;
+  };
+}
+
+export interface ChatCompletionChunk {
+  id?: string;
+  model?: string;
+  choices?: Array<{
+    index?: number;
+    delta?: {
+      role?: string;
+      content?: string | null;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: ChatCompletionUsage | null;
+}
+
+export interface ChatCompletionErrorResponse {
+  error?: {
+    message?: string;
+    type?: string;
+    code?: string | number | null;
+  };
+}
+
+/**
+ * Parse the Retry-After header (seconds or HTTP date)
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number.parseInt(header, 10);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds);
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+  }
+
+  return undefined;
+}
+
+export interface StreamChatCompletionOptions {
+  baseUrl: string;
+  model: string;
+  prompt: string;
+  apiKey?: string | null;
+  headers?: Record<string, string>;
+  maxTokens?: number;
+  temperature?: number;
+  onChunk: (text: string) => void;
+  onUsage?: (usage: ChatCompletionUsage) => void;
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * Stream a chat completion from an OpenAI-compatible endpoint
+ */
+export async function streamChatCompletion(
+  options: StreamChatCompletionOptions
+): Promise<{
+  output: string;
+  usage?: ChatCompletionUsage;
+  isRateLimitError?: boolean;
+  retryAfterSeconds?: number;
+}> {
+  const { baseUrl, model, prompt, apiKey, headers, maxTokens, temperature, onChunk, onUsage, abortSignal } = options;
+
+  const request: ChatCompletionRequest = {
+    model,
+    messages: [{ role: 'user', content: prompt }],
+    stream: true,
+    // Ask for a final usage chunk (servers without support simply omit it)
+    stream_options: { include_usage: true },
+    ...(maxTokens !== undefined && { max_tokens: maxTokens }),
+    ...(temperature !== undefined && { temperature }),
+  };
+
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+      ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      ...headers,
+    },
+    body: JSON.stringify(request),
+    signal: abortSignal,
+  });
+
+  // Handle error responses
+  if (!response.ok) {
+    if (response.status === 429) {
+      return {
+        output: '',
+        isRateLimitError: true,
+        retryAfterSeconds: parseRetryAfter(response.headers.get('retry-after')) ?? 60,
+      };
+    }
+
+    const errorBody = await response.text();
+    let message = errorBody || response.statusText;
+    try {
+      const errorData = JSON.parse(errorBody) as ChatCompletionErrorResponse;
+      message = errorData.error?.message ?? message;
+    } catch {
+      // Plain-text error body
+    }
+
+    throw new Error(`OpenAI-compatible API error (${response.status}): ${message}`);
+  }
+
+  // Process streaming response
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('No response body');
+  }
+
+  const decoder = new TextDecoder();
+  let fullOutput = '';
+  let lastUsage: ChatCompletionUsage | undefined;
+  let buffer = '';
+
+  const processLine = (line: string) => {
+    if (!line.startsWith('data:')) return;
+    const jsonStr = line.slice(5).trim();
+    if (!jsonStr || jsonStr === '[DONE]') return;
+
+    try {
+      const chunk: ChatCompletionChunk = JSON.parse(jsonStr);
+
+      // Extract text from the first choice
+      const text = chunk.choices?.[0]?.delta?.content;
+      if (text) {
+        fullOutput += text;
+        onChunk(text);
+      }
+
+      // Track usage (sent with the last chunk)
+      if (chunk.usage) {
+        lastUsage = chunk.usage;
+        onUsage?.(chunk.usage);
+      }
+    } catch {
+      // Ignore parse errors for incomplete JSON
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Process SSE events
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? ''; // Keep incomplete line in buffer
+      lines.forEach(processLine);
+    }
+    processLine(buffer);
+  } finally {
+    reader.releaseLock();
+  }
+
+  return {
+    output: fullOutput,
+    usage: lastUsage,
+  };
+}
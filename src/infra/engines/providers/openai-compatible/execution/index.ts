@@ -0,0 +1,3 @@
+export * from './runner.js';
+export * from './api-client.js';
+export * from './telemetry.js';
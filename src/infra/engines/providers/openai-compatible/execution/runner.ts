@@ -0,0 +1,105 @@
+/**
+ * OpenAI-Compatible Engine Runner
+ *
+ * Resolves the endpoint for the agent, streams the completion and reports
+ * telemetry and rate limits. Rate limits are returned as a result; any other
+ * failure (including an abort) is thrown, as with the CLI engines.
+ */
+
+import type { EngineRunOptions, EngineRunResult } from '../../../core/types.js';
+import { getApiKey } from '../auth.js';
+import { loadOpenAICompatibleConfig, resolveEndpoint } from '../config.js';
+import { streamChatCompletion } from './api-client.js';
+import { toTelemetry, formatTelemetry } from './telemetry.js';
+
+export interface RunOpenAICompatibleResult extends EngineRunResult {
+  isRateLimitError?: boolean;
+  rateLimitResetsAt?: Date;
+  retryAfterSeconds?: number;
+}
+
+/**
+ * Run the OpenAI-compatible engine with the given prompt
+ */
+export async function runOpenAICompatible(options: EngineRunOptions): Promise<RunOpenAICompatibleResult> {
+  const {
+    prompt,
+    workingDir,
+    agentId,
+    model,
+    onData,
+    onErrorData,
+    onTelemetry,
+    abortSignal,
+  } = options;
+
+  // Resolve the endpoint for this agent
+  const config = await loadOpenAICompatibleConfig(workingDir);
+  const endpoint = resolveEndpoint(config, agentId, model);
+  if (typeof endpoint === 'string') {
+    onErrorData?.(`\n[ERROR] ${endpoint}\n`);
+    throw new Error(endpoint);
+  }
+
+  const apiKey = endpoint.apiKey ?? (await getApiKey());
+  const startTime = Date.now();
+
+  try {
+    const result = await streamChatCompletion({
+      baseUrl: endpoint.baseUrl,
+      model: endpoint.model,
+      prompt,
+      apiKey,
+      headers: endpoint.headers,
+      maxTokens: endpoint.maxTokens,
+      temperature: endpoint.temperature,
+      onChunk: (text) => {
+        onData?.(text);
+      },
+      abortSignal,
+    });
+
+    // Check for rate limit error
+    if (result.isRateLimitError) {
+      const retryAfterSeconds = result.retryAfterSeconds ?? 60;
+      const rateLimitResetsAt = new Date(Date.now() + retryAfterSeconds * 1000);
+
+      onErrorData?.(`Rate limit exceeded. Retry after ${retryAfterSeconds} seconds.`);
+
+      return {
+        stdout: '',
+        stderr: `Rate limit exceeded. Retry after ${retryAfterSeconds} seconds.`,
+        isRateLimitError: true,
+        rateLimitResetsAt,
+        retryAfterSeconds,
+      };
+    }
+
+    // Final telemetry (usage arrives with the last chunk)
+    if (result.usage && onTelemetry) {
+      const telemetry = toTelemetry(result.usage, Date.now() - startTime);
+      onTelemetry(telemetry);
+
+      // Log telemetry line for parsing
+      const telemetryLine = `\n[TELEMETRY] ${formatTelemetry(telemetry)}`;
+      onData?.(telemetryLine);
+    }
+
+    return {
+      stdout: result.output,
+      stderr: '',
+    };
+  } catch (error) {
+    // Aborts (pause, skip, stop) must reach the runner as AbortError
+    if (abortSignal?.aborted) {
+      if (error instanceof Error && error.name === 'AbortError') throw error;
+      const abortError = new Error('Operation aborted');
+      abortError.name = 'AbortError';
+      throw abortError;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    onErrorData?.(`\n[ERROR] ${errorMessage}\n`);
+    throw error;
+  }
+}
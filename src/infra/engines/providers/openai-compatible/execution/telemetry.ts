@@ -0,0 +1,45 @@
+/**
+ * OpenAI-Compatible Telemetry
+ *
+ * Token counting from the usage fields of chat completion streams.
+ * No cost is computed: prices depend on the server behind the endpoint.
+ */
+
+import type { ParsedTelemetry } from '../../../core/types.js';
+import type { ChatCompletionUsage } from './api-client.js';
+
+/**
+ * Convert chat completion usage to parsed telemetry format
+ */
+export function toTelemetry(usage: ChatCompletionUsage, durationMs?: number): ParsedTelemetry {
+  const cached = usage.prompt_tokens_details?.cached_tokens;
+
+  return {
+    tokensIn: usage.prompt_tokens,
+    tokensOut: usage.completion_tokens,
+    ...(cached ? { cached, cacheReadTokens: cached } : {}),
+    duration: durationMs,
+  };
+}
+
+/**
+ * Format telemetry as a display string (matching Claude/Codex format)
+ */
+export function formatTelemetry(telemetry: ParsedTelemetry): string {
+  const parts: string[] = [];
+
+  if (telemetry.tokensIn !== undefined) {
+    parts.push(`tokens_in=${telemetry.tokensIn}`);
+  }
+  if (telemetry.tokensOut !== undefined) {
+    parts.push(`tokens_out=${telemetry.tokensOut}`);
+  }
+  if (telemetry.cached !== undefined) {
+    parts.push(`cached=${telemetry.cached}`);
+  }
+  if (telemetry.duration !== undefined) {
+    parts.push(`duration=${(telemetry.duration / 1000).toFixed(1)}s`);
+  }
+
+  return parts.join(' ');
+}
@@ -0,0 +1,25 @@
+/**
+ * OpenAI-Compatible Engine
+ *
+ * Talks to any server exposing an OpenAI-compatible /chat/completions
+ * endpoint (local llama.cpp, vLLM, Ollama, hosted gateways).
+ * Supports streaming, telemetry from usage fields, and per-agent endpoints.
+ */
+
+import type { EngineModule } from '../../core/base.js';
+import { metadata } from './metadata.js';
+import * as auth from './auth.js';
+import { runOpenAICompatible } from './execution/index.js';
+
+// Export all sub-modules
+export * from './auth.js';
+export * from './config.js';
+export * from './execution/index.js';
+export { metadata };
+
+// Export as EngineModule for auto-discovery
+export default {
+  metadata,
+  auth,
+  run: runOpenAICompatible,
+} satisfies EngineModule;
@@ -0,0 +1,14 @@
+import type { EngineMetadata } from '../../core/base.js';
+
+export const metadata: EngineMetadata = {
+  id: 'openai-compatible',
+  name: 'OpenAI-Compatible',
+  description: 'Any OpenAI-compatible /chat/completions endpoint (llama.cpp, vLLM, Ollama, ...)',
+  cliCommand: 'openai-compatible',
+  cliBinary: '', // No external binary - uses direct API
+  installCommand: '', // No install needed - talks HTTP to the configured server
+  defaultModel: 'default', // Use the model from the endpoint config
+  order: 8,
+  experimental: true,
+  supportsResume: false,
+};
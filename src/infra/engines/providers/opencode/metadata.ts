@@ -8,6 +8,7 @@ export const metadata: EngineMetadata = {
   cliBinary: 'opencode',
   installCommand: 'npm i -g opencode-ai@latest',
   defaultModel: 'opencode/big-pickle',
+  contextWindow: 200_000,
   order: 1,
   supportsResume: true,
 };
@@ -0,0 +1 @@
+export * from './runner.js';
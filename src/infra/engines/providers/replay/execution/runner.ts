@@ -0,0 +1,102 @@
+/**
+ * Replay Engine Runner
+ *
+ * Serves recorded runs by prompt hash and writes the files they recorded into
+ * the working directory. Identical prompts (loop iterations, repeated steps)
+ * get their recordings in the order they were recorded; once those run out,
+ * the last one is served again.
+ */
+
+import { debug } from '../../../../../shared/logging/logger.js';
+import { hashRunPrompt, readCassette, writeCassetteFiles, type CassetteEntry } from '../../../core/cassette.js';
+import type { EngineRunOptions, EngineRunResult } from '../../../core/types.js';
+
+interface ReplayState {
+  file: string;
+  entries: Map<string, CassetteEntry[]>;
+  served: Map<string, number>;
+}
+
+let state: ReplayState | null = null;
+
+/**
+ * Replay from the given cassette (defaults to CODEMACHINE_REPLAY_CASSETTE)
+ */
+export function loadReplayCassette(file: string): void {
+  const entries = new Map<string, CassetteEntry[]>();
+  for (const entry of readCassette(file).entries) {
+    entries.set(entry.key, [...(entries.get(entry.key) ?? []), entry]);
+  }
+  state = { file, entries, served: new Map() };
+  debug('[Replay] Loaded %d recorded prompts from %s', entries.size, file);
+}
+
+/**
+ * Forget the loaded cassette and served counts
+ */
+export function resetReplayState(): void {
+  state = null;
+}
+
+function getState(): ReplayState {
+  if (!state) {
+    const file = process.env.CODEMACHINE_REPLAY_CASSETTE;
+    if (!file) {
+      throw new Error('Replay engine has no cassette. Set CODEMACHINE_REPLAY_CASSETTE to a recorded cassette file.');
+    }
+    loadReplayCassette(file);
+  }
+  return state!;
+}
+
+function takeEntry(options: EngineRunOptions): CassetteEntry {
+  const replay = getState();
+  const key = hashRunPrompt(options);
+  const recorded = replay.entries.get(key);
+  if (!recorded?.length) {
+    const preview = options.prompt.replace(/\s+/g, ' ').trim().slice(0, 80);
+    throw new Error(
+      `No recording in ${replay.file} for prompt ${key} ("${preview}..."). ` +
+      'Record the workflow again with CODEMACHINE_RECORD_CASSETTE.',
+    );
+  }
+
+  const served = replay.served.get(key) ?? 0;
+  replay.served.set(key, served + 1);
+  if (served >= recorded.length) {
+    debug('[Replay] Prompt %s served %d times, %d recorded; repeating the last recording', key, served + 1, recorded.length);
+  }
+  return recorded[Math.min(served, recorded.length - 1)];
+}
+
+/**
+ * Run the replay engine
+ */
+export async function runReplay(options: EngineRunOptions): Promise<EngineRunResult> {
+  const entry = takeEntry(options);
+
+  if (entry.sessionId) options.onSessionId?.(entry.sessionId);
+  for (const chunk of entry.chunks) options.onData?.(chunk);
+  for (const chunk of entry.errorChunks) options.onErrorData?.(chunk);
+  for (const telemetry of entry.telemetry) options.onTelemetry?.(telemetry);
+  if (entry.files) writeCassetteFiles(options.workingDir, entry.files);
+
+  if (entry.error !== undefined) {
+    throw new Error(entry.error);
+  }
+
+  const result = entry.result ?? { stdout: entry.chunks.join(''), stderr: entry.errorChunks.join('') };
+  return {
+    stdout: result.stdout,
+    stderr: result.stderr,
+    ...(result.isRateLimitError
+      ? {
+          isRateLimitError: true,
+          retryAfterSeconds: result.retryAfterSeconds,
+          rateLimitResetsAt: result.retryAfterSeconds !== undefined
+            ? new Date(Date.now() + result.retryAfterSeconds * 1000)
+            : undefined,
+        }
+      : {}),
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * Replay Engine
+ *
+ * Serves engine runs recorded in a cassette, looked up by prompt hash.
+ * Only registered when CODEMACHINE_REPLAY_CASSETTE is set.
+ */
+
+import type { EngineModule } from '../../core/base.js';
+import { metadata } from './metadata.js';
+// Replaying needs no credentials, like the mock engine
+import * as auth from '../mock/auth.js';
+import { runReplay } from './execution/index.js';
+
+// Export all sub-modules
+export * from './execution/index.js';
+export { metadata };
+
+// Export as EngineModule for auto-discovery
+export default {
+  metadata,
+  auth,
+  run: runReplay,
+} satisfies EngineModule;
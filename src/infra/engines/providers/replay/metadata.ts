@@ -0,0 +1,14 @@
+import type { EngineMetadata } from '../../core/base.js';
+
+export const metadata: EngineMetadata = {
+  id: 'replay',
+  name: 'Replay',
+  description: 'Replays engine runs recorded in a cassette (CODEMACHINE_REPLAY_CASSETTE)',
+  cliCommand: 'replay',
+  cliBinary: '',
+  installCommand: '',
+  defaultModel: 'replay',
+  order: 0, // Default engine while replaying
+  experimental: true,
+  supportsResume: true,
+};
@@ -0,0 +1,278 @@
+import { Database } from 'bun:sqlite';
+import { existsSync, mkdirSync, readdirSync, readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+
+import type { MemoryEntry, MemoryRetentionPolicy, MemorySearchQuery, MemorySearchResult } from '../../agents/index.js';
+import type { MemoryAnalyticsHooks } from './memory-adapter.js';
+import { withDatabaseRetrySync } from '../../shared/utils/retry.js';
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS memory_entries (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  agent_id TEXT NOT NULL,
+  content TEXT NOT NULL,
+  timestamp TEXT NOT NULL,
+  metadata TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_agent ON memory_entries(agent_id, timestamp);
+
+CREATE TABLE IF NOT EXISTS memory_tags (
+  entry_id INTEGER NOT NULL REFERENCES memory_entries(id) ON DELETE CASCADE,
+  tag TEXT NOT NULL,
+  PRIMARY KEY (entry_id, tag)
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_tag ON memory_tags(tag);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS memory_fts USING fts5(content, content='memory_entries', content_rowid='id');
+
+CREATE TRIGGER IF NOT EXISTS memory_entries_ai AFTER INSERT ON memory_entries BEGIN
+  INSERT INTO memory_fts(rowid, content) VALUES (new.id, new.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS memory_entries_ad AFTER DELETE ON memory_entries BEGIN
+  INSERT INTO memory_fts(memory_fts, rowid, content) VALUES ('delete', old.id, old.content);
+END;
+
+CREATE TABLE IF NOT EXISTS memory_meta (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+`;
+
+/** JSON files in the memory directory that are not agent memory */
+const NON_MEMORY_FILES = new Set(['behavior.json', 'behavior-history.json']);
+
+type EntryRow = {
+  id: number;
+  agent_id: string;
+  content: string;
+  timestamp: string;
+  metadata: string | null;
+  rank?: number;
+};
+
+const connections = new Map<string, Database>();
+
+function openDatabase(dbPath: string): Database {
+  const existing = connections.get(dbPath);
+  if (existing) return existing;
+
+  const dir = dirname(dbPath);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  const db = new Database(dbPath);
+  db.exec('PRAGMA journal_mode = WAL');
+  db.exec('PRAGMA synchronous = NORMAL');
+  db.exec('PRAGMA foreign_keys = ON');
+  db.exec('PRAGMA busy_timeout = 5000');
+  db.exec(SCHEMA);
+  importJsonMemory(db, dir);
+
+  connections.set(dbPath, db);
+  return db;
+}
+
+/**
+ * Close all open memory databases (tests and shutdown)
+ */
+export function closeMemoryDatabases(): void {
+  for (const db of connections.values()) {
+    db.close();
+  }
+  connections.clear();
+}
+
+function isMemoryEntry(value: unknown): value is MemoryEntry {
+  const entry = value as MemoryEntry;
+  return Boolean(entry) && typeof entry.agentId === 'string' && typeof entry.content === 'string' && typeof entry.timestamp === 'string';
+}
+
+/**
+ * One-time import of the per-agent JSON files written by MemoryAdapter
+ * (the files are left in place)
+ */
+function importJsonMemory(db: Database, dir: string): void {
+  if (db.prepare(`SELECT 1 FROM memory_meta WHERE key = 'json_imported'`).get()) return;
+
+  const files = readdirSync(dir).filter((file) => file.endsWith('.json') && !NON_MEMORY_FILES.has(file));
+  const entries: MemoryEntry[] = [];
+  for (const file of files) {
+    try {
+      const parsed: unknown = JSON.parse(readFileSync(join(dir, file), 'utf-8'));
+      if (Array.isArray(parsed)) entries.push(...parsed.filter(isMemoryEntry));
+    } catch {
+      // Skip unreadable files, like MemoryAdapter does
+    }
+  }
+
+  db.transaction(() => {
+    for (const entry of entries) insertEntry(db, entry);
+    db.prepare(`INSERT INTO memory_meta (key, value) VALUES ('json_imported', ?)`).run(new Date().toISOString());
+  })();
+}
+
+function getTags(entry: MemoryEntry): string[] {
+  const tags = entry.metadata?.tags;
+  return Array.isArray(tags) ? [...new Set(tags.filter((tag): tag is string => typeof tag === 'string'))] : [];
+}
+
+function insertEntry(db: Database, entry: MemoryEntry): void {
+  const row = db.prepare(`
+    INSERT INTO memory_entries (agent_id, content, timestamp, metadata)
+    VALUES (?, ?, ?, ?)
+    RETURNING id
+  `).get(entry.agentId, entry.content, entry.timestamp, entry.metadata ? JSON.stringify(entry.metadata) : null) as { id: number };
+
+  const insertTag = db.prepare('INSERT INTO memory_tags (entry_id, tag) VALUES (?, ?)');
+  for (const tag of getTags(entry)) {
+    insertTag.run(row.id, tag);
+  }
+}
+
+function toEntry(row: EntryRow): MemoryEntry {
+  const entry: MemoryEntry = { agentId: row.agent_id, content: row.content, timestamp: row.timestamp };
+  if (row.metadata) {
+    entry.metadata = JSON.parse(row.metadata) as Record<string, unknown>;
+  }
+  return entry;
+}
+
+/**
+ * Turn free text into an FTS5 query: every word (or word prefix) may match
+ */
+function toFtsQuery(text: string): string | null {
+  const words = text.match(/[\p{L}\p{N}_]+/gu);
+  return words ? words.map((word) => `"${word}"*`).join(' OR ') : null;
+}
+
+/**
+ * Agent memory in a SQLite database with full-text search
+ *
+ * Drop-in replacement for MemoryAdapter; entries written by MemoryAdapter to
+ * the same directory are imported the first time the database is opened.
+ */
+export class SqliteMemoryAdapter {
+  public readonly dbPath: string;
+  public readonly analytics?: MemoryAnalyticsHooks;
+  private readonly retention?: MemoryRetentionPolicy;
+
+  constructor(dbPath: string, options: { hooks?: MemoryAnalyticsHooks; retention?: MemoryRetentionPolicy } = {}) {
+    this.dbPath = dbPath;
+    this.analytics = options.hooks;
+    this.retention = options.retention;
+  }
+
+  /**
+   * Files that change when entries are written (for cache invalidation)
+   */
+  get files(): string[] {
+    return [this.dbPath, `${this.dbPath}-wal`];
+  }
+
+  async append(entry: MemoryEntry): Promise<void> {
+    const db = openDatabase(this.dbPath);
+    withDatabaseRetrySync(() => db.transaction(() => insertEntry(db, entry))());
+    if (this.retention) {
+      await this.prune(this.retention);
+    }
+    this.analytics?.onAppend?.({ agentId: entry.agentId, entry, source: 'adapter' });
+  }
+
+  async read(agentId: string): Promise<MemoryEntry[]> {
+    const db = openDatabase(this.dbPath);
+    const rows = db
+      .prepare('SELECT * FROM memory_entries WHERE agent_id = ? ORDER BY timestamp, id')
+      .all(agentId) as EntryRow[];
+    const entries = rows.map(toEntry);
+    this.analytics?.onRead?.({ agentId, entries, source: 'adapter' });
+    return entries;
+  }
+
+  async readAll(): Promise<Record<string, MemoryEntry[]>> {
+    const db = openDatabase(this.dbPath);
+    const rows = db.prepare('SELECT * FROM memory_entries ORDER BY agent_id, timestamp, id').all() as EntryRow[];
+
+    const result: Record<string, MemoryEntry[]> = {};
+    for (const row of rows) {
+      (result[row.agent_id] ??= []).push(toEntry(row));
+    }
+    for (const [agentId, entries] of Object.entries(result)) {
+      this.analytics?.onRead?.({ agentId, entries, source: 'adapter' });
+    }
+    return result;
+  }
+
+  /**
+   * Find entries by full-text relevance (or newest first without text),
+   * optionally limited to one agent and to entries carrying all given tags
+   */
+  async search(query: MemorySearchQuery): Promise<MemorySearchResult[]> {
+    const db = openDatabase(this.dbPath);
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    let ftsQuery: string | null = null;
+    if (query.text?.trim()) {
+      ftsQuery = toFtsQuery(query.text);
+      if (!ftsQuery) return [];
+      conditions.push('memory_fts MATCH ?');
+      params.push(ftsQuery);
+    }
+    if (query.agentId) {
+      conditions.push('e.agent_id = ?');
+      params.push(query.agentId);
+    }
+    if (query.tags && query.tags.length > 0) {
+      conditions.push(`e.id IN (
+        SELECT entry_id FROM memory_tags WHERE tag IN (${query.tags.map(() => '?').join(', ')})
+        GROUP BY entry_id HAVING COUNT(*) = ?
+      )`);
+      params.push(...query.tags, query.tags.length);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const sql = ftsQuery
+      ? `SELECT e.*, bm25(memory_fts) AS rank FROM memory_fts JOIN memory_entries e ON e.id = memory_fts.rowid ${where} ORDER BY rank LIMIT ?`
+      : `SELECT e.* FROM memory_entries e ${where} ORDER BY e.timestamp DESC, e.id DESC LIMIT ?`;
+    params.push(query.limit ?? 10);
+
+    const rows = db.prepare(sql).all(...params) as EntryRow[];
+    // bm25() is lower for better matches
+    return rows.map((row) => ({ ...toEntry(row), score: row.rank === undefined ? 0 : -row.rank }));
+  }
+
+  /**
+   * Delete entries older than the policy's age and beyond its per-agent count
+   *
+   * @returns Number of entries deleted
+   */
+  async prune(policy: MemoryRetentionPolicy): Promise<number> {
+    const db = openDatabase(this.dbPath);
+    return withDatabaseRetrySync(() =>
+      db.transaction(() => {
+        // Count rows rather than summing .changes, which includes the FTS trigger writes
+        const count = () => (db.prepare('SELECT COUNT(*) AS total FROM memory_entries').get() as { total: number }).total;
+        const before = count();
+        if (policy.maxAgeDays !== undefined) {
+          const cutoff = new Date(Date.now() - policy.maxAgeDays * 24 * 60 * 60 * 1000).toISOString();
+          db.prepare('DELETE FROM memory_entries WHERE timestamp < ?').run(cutoff);
+        }
+        if (policy.maxEntriesPerAgent !== undefined) {
+          db.prepare(`
+            DELETE FROM memory_entries WHERE id IN (
+              SELECT id FROM (
+                SELECT id, ROW_NUMBER() OVER (PARTITION BY agent_id ORDER BY timestamp DESC, id DESC) AS position
+                FROM memory_entries
+              ) WHERE position > ?
+            )
+          `).run(policy.maxEntriesPerAgent);
+        }
+        return before - count();
+      })(),
+    );
+  }
+}
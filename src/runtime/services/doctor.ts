@@ -0,0 +1,233 @@
+/**
+ * Doctor Service
+ *
+ * Combines health checks and configuration validation into a single report,
+ * and detects workspace problems that can be repaired automatically.
+ */
+
+import { stat, readdir, mkdir, rm, chmod } from 'node:fs/promises';
+import * as path from 'node:path';
+import { homedir } from 'node:os';
+import { getCodemachinePaths } from '../../shared/config/paths.js';
+import { hasSecurePermissions } from '../../shared/utils/credentials.js';
+import { expandHomeDir } from '../../shared/utils/index.js';
+import { debug } from '../../shared/logging/logger.js';
+import { runHealthChecks, type HealthStatus, type SystemHealthReport } from './health-check.js';
+import { validateConfiguration, type ConfigValidationReport } from './config-validator.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type DoctorIssueKind = 'missing-directory' | 'stale-lock' | 'insecure-permissions';
+
+export interface DoctorIssue {
+  kind: DoctorIssueKind;
+  path: string;
+  message: string;
+}
+
+export interface DoctorFixResult {
+  issue: DoctorIssue;
+  fixed: boolean;
+  error?: string;
+}
+
+export interface DoctorReport {
+  overall: HealthStatus;
+  health: SystemHealthReport;
+  config: ConfigValidationReport;
+  issues: DoctorIssue[];
+}
+
+export interface DoctorOptions {
+  /** Skip specific health checks */
+  skipChecks?: string[];
+  /** Credential files to check for 0600 permissions (defaults to engine credential files) */
+  credentialFiles?: string[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Subdirectories created by workspace bootstrap */
+const WORKSPACE_DIRS = ['agents', 'inputs', 'memory', 'artifacts', 'prompts', 'logs', 'summaries'];
+
+/** Matches the stale timeout used by LogLockService */
+const LOCK_STALE_MS = 30000;
+
+// =============================================================================
+// Issue Detection
+// =============================================================================
+
+async function exists(target: string): Promise<boolean> {
+  try {
+    await stat(target);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find workspace directories that bootstrap would normally create
+ */
+async function findMissingDirectories(cwd: string): Promise<DoctorIssue[]> {
+  const root = getCodemachinePaths(cwd).root;
+  const issues: DoctorIssue[] = [];
+
+  for (const dir of [root, ...WORKSPACE_DIRS.map((name) => path.join(root, name))]) {
+    if (!(await exists(dir))) {
+      issues.push({
+        kind: 'missing-directory',
+        path: dir,
+        message: `Missing directory ${path.relative(cwd, dir) || dir}`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Find proper-lockfile lock directories in the logs folder that are past the stale timeout
+ * (SQLite databases need no cleanup: their locks end with the process holding them)
+ */
+async function findStaleLocks(cwd: string, now: number = Date.now()): Promise<DoctorIssue[]> {
+  const logsDir = getCodemachinePaths(cwd).logs;
+  const issues: DoctorIssue[] = [];
+
+  let entries: string[];
+  try {
+    entries = await readdir(logsDir);
+  } catch {
+    return issues;
+  }
+
+  for (const entry of entries) {
+    if (!entry.endsWith('.lock')) continue;
+
+    const lockPath = path.join(logsDir, entry);
+    try {
+      const stats = await stat(lockPath);
+      if (now - stats.mtimeMs > LOCK_STALE_MS) {
+        issues.push({
+          kind: 'stale-lock',
+          path: lockPath,
+          message: `Stale lock ${entry} (last updated ${new Date(stats.mtimeMs).toISOString()})`,
+        });
+      }
+    } catch {
+      // Lock released while scanning
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Default engine credential files that should only be readable by the owner
+ */
+export async function getDefaultCredentialFiles(): Promise<string[]> {
+  const { resolveGeminiConfigDir, getApiKeyPath } = await import('../../infra/engines/providers/gemini/config.js');
+  const { resolveClaudeConfigDir, getCredentialsPath } = await import('../../infra/engines/providers/claude/auth.js');
+
+  const codexHome = expandHomeDir(process.env.CODEX_HOME ?? path.join(homedir(), '.codemachine', 'codex'));
+
+  return [
+    getApiKeyPath(resolveGeminiConfigDir()),
+    getCredentialsPath(resolveClaudeConfigDir()),
+    path.join(codexHome, 'auth.json'),
+  ];
+}
+
+/**
+ * Find existing credential files without 0600 permissions
+ */
+async function findInsecureCredentials(files: string[]): Promise<DoctorIssue[]> {
+  const issues: DoctorIssue[] = [];
+  if (process.platform === 'win32') return issues;
+
+  for (const file of files) {
+    if (!(await exists(file))) continue;
+    if (!(await hasSecurePermissions(file))) {
+      issues.push({
+        kind: 'insecure-permissions',
+        path: file,
+        message: `Credential file ${file} is readable by other users (expected 0600)`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+// =============================================================================
+// Main Entry Points
+// =============================================================================
+
+/**
+ * Run health checks, configuration validation and fixable issue detection
+ */
+export async function runDoctor(
+  cwd: string = process.cwd(),
+  options: DoctorOptions = {}
+): Promise<DoctorReport> {
+  const credentialFiles = options.credentialFiles ?? (await getDefaultCredentialFiles());
+
+  const [health, config, missingDirs, staleLocks, insecureCredentials] = await Promise.all([
+    runHealthChecks(cwd, { skip: options.skipChecks }),
+    validateConfiguration(cwd),
+    findMissingDirectories(cwd),
+    findStaleLocks(cwd),
+    findInsecureCredentials(credentialFiles),
+  ]);
+
+  const issues = [...missingDirs, ...staleLocks, ...insecureCredentials];
+
+  let overall: HealthStatus = health.overall;
+  if (!config.valid || insecureCredentials.length > 0) {
+    overall = 'unhealthy';
+  } else if (overall === 'healthy' && (issues.length > 0 || config.warnings.length > 0)) {
+    overall = 'degraded';
+  }
+
+  return { overall, health, config, issues };
+}
+
+/**
+ * Apply automatic fixes for detected issues
+ */
+export async function applyDoctorFixes(issues: DoctorIssue[]): Promise<DoctorFixResult[]> {
+  const results: DoctorFixResult[] = [];
+
+  // Create parent directories before children
+  const ordered = [...issues].sort((a, b) => a.path.length - b.path.length);
+
+  for (const issue of ordered) {
+    try {
+      switch (issue.kind) {
+        case 'missing-directory':
+          await mkdir(issue.path, { recursive: true });
+          break;
+        case 'stale-lock':
+          await rm(issue.path, { recursive: true, force: true });
+          break;
+        case 'insecure-permissions':
+          await chmod(issue.path, 0o600);
+          break;
+      }
+      debug(`[Doctor] Fixed ${issue.kind}: ${issue.path}`);
+      results.push({ issue, fixed: true });
+    } catch (err) {
+      results.push({
+        issue,
+        fixed: false,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  return results;
+}
@@ -19,6 +19,7 @@ export type AgentDefinition = {
   engine?: string; // Engine to use for this agent (dynamically determined from registry)
   chainedPromptsPath?: ChainedPathEntry | ChainedPathEntry[]; // Path(s) to folder(s) containing chained prompt .md files
   role?: 'controller'; // Agent role - 'controller' agents can drive autonomous mode
+  tier?: 1 | 2 | 3; // Complexity tier selecting the preset model (1=complex, 2=standard, 3=simple)
   [key: string]: unknown;
 };
 
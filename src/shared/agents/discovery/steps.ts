@@ -1,7 +1,7 @@
 import { existsSync, readdirSync } from 'node:fs';
 import * as path from 'node:path';
 
-import { loadWorkflowModule, isWorkflowTemplate } from '../../../workflows/index.js';
+import { loadWorkflowModule, isWorkflowTemplate, collectModuleSteps } from '../../../workflows/index.js';
 
 export type WorkflowAgentDefinition = {
   id: string;
@@ -39,10 +39,8 @@ export async function collectAgentsFromWorkflows(roots: string[]): Promise<Workf
           continue;
         }
 
-        for (const step of template.steps ?? []) {
-          if (!step || step.type !== 'module') {
-            continue;
-          }
+        // Includes are skipped here: included workflows are discovered as files of their own
+        for (const step of collectModuleSteps(template.steps ?? [])) {
 
           const id = typeof step.agentId === 'string' ? step.agentId.trim() : '';
           if (!id) {
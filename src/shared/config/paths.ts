@@ -48,8 +48,14 @@ export const CODEMACHINE_FILES = {
   CONTROLLER_STATE: 'controller-state.json',
   /** Behavior control file */
   BEHAVIOR: 'behavior.json',
+  /** Archive of behavior decisions per step */
+  BEHAVIOR_HISTORY: 'behavior-history.json',
+  /** Registry of artifacts produced by workflow steps */
+  ARTIFACTS: 'artifacts.json',
   /** SQLite database for monitoring */
   REGISTRY_DB: 'registry.db',
+  /** SQLite database for agent memory */
+  MEMORY_DB: 'memory.db',
   /** Debug log file */
   DEBUG_LOG: 'workflow-debug.log',
   /** Workflow summary */
@@ -94,7 +100,10 @@ export function getCodemachineFiles(cwd: string) {
     tracking: path.join(paths.workflow, CODEMACHINE_FILES.TRACKING),
     controllerState: path.join(paths.workflow, CODEMACHINE_FILES.CONTROLLER_STATE),
     behavior: path.join(paths.memory, CODEMACHINE_FILES.BEHAVIOR),
+    behaviorHistory: path.join(paths.memory, CODEMACHINE_FILES.BEHAVIOR_HISTORY),
+    artifacts: path.join(paths.workflow, CODEMACHINE_FILES.ARTIFACTS),
     registryDb: path.join(paths.logs, CODEMACHINE_FILES.REGISTRY_DB),
+    memoryDb: path.join(paths.memory, CODEMACHINE_FILES.MEMORY_DB),
     debugLog: path.join(paths.logs, CODEMACHINE_FILES.DEBUG_LOG),
     workflowSummary: path.join(paths.summaries, CODEMACHINE_FILES.WORKFLOW_SUMMARY),
   };
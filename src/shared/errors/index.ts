@@ -37,6 +37,7 @@
  *   │   ├── FallbackAgentError
  *   │   ├── CoordinationError
  *   │   ├── InvalidCommandSyntaxError
+ *   │   ├── CoordinationSyntaxError
  *   │   ├── WorkflowAbortedError
  *   │   └── PromptLoadError
  *   └── ValidationError
@@ -93,6 +94,7 @@ export {
   FallbackAgentError,
   CoordinationError,
   InvalidCommandSyntaxError,
+  CoordinationSyntaxError,
   WorkflowAbortedError,
   PromptLoadError,
 } from './workflow.js';
@@ -16,6 +16,7 @@ export type WorkflowErrorCode =
   | 'FALLBACK_AGENT_ERROR'
   | 'COORDINATION_ERROR'
   | 'INVALID_COMMAND_SYNTAX'
+  | 'COORDINATION_SYNTAX_ERROR'
   | 'WORKFLOW_ABORTED'
   | 'PROMPT_LOAD_FAILED';
 
@@ -102,7 +103,7 @@ export class FallbackAgentError extends WorkflowError {
 /**
  * Coordination error codes
  */
-export type CoordinationErrorCode = 'COORDINATION_ERROR' | 'INVALID_COMMAND_SYNTAX';
+export type CoordinationErrorCode = 'COORDINATION_ERROR' | 'INVALID_COMMAND_SYNTAX' | 'COORDINATION_SYNTAX_ERROR';
 
 /**
  * Coordination script error
@@ -133,6 +134,27 @@ export class InvalidCommandSyntaxError extends CoordinationError {
   }
 }
 
+/**
+ * Coordination script failed to parse at a specific location
+ */
+export class CoordinationSyntaxError extends CoordinationError {
+  declare readonly code: 'COORDINATION_SYNTAX_ERROR';
+  readonly script: string;
+  /** Offset in the script (0-based) */
+  readonly position: number;
+  /** Column in the script (1-based) */
+  readonly column: number;
+
+  constructor(reason: string, script: string, position: number, options?: { cause?: Error }) {
+    const column = Math.min(Math.max(position, 0), script.length) + 1;
+    super(`${reason} at column ${column}\n  ${script}\n  ${' '.repeat(column - 1)}^`, options);
+    (this as { code: 'COORDINATION_SYNTAX_ERROR' }).code = 'COORDINATION_SYNTAX_ERROR';
+    this.script = script;
+    this.position = position;
+    this.column = column;
+  }
+}
+
 /**
  * Workflow was aborted
  */
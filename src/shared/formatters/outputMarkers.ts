@@ -655,3 +655,37 @@ export function wrap(text: string, width: number): string[] {
 
   return lines
 }
+
+// ============================================================================
+// Line Classification
+// ============================================================================
+
+/**
+ * Kind of a formatted log line, as produced by the semantic formatters
+ */
+export type LineKind = 'thinking' | 'tool' | 'error'
+
+// Prefixes of formatCommand (all states) and formatResult lines
+const TOOL_PREFIXES = [`${SYMBOL_BULLET} Command:`, `${SYMBOL_SPINNER} `, `${SYMBOL_CHECK} `, `${SYMBOL_CROSS} `, SYMBOL_PIPE]
+
+/**
+ * Classify a log line by its marker and formatter prefix
+ * A line can have several kinds (a failed command is a tool line and an error)
+ */
+export function classifyLine(line: string): LineKind[] {
+  const { color, text } = parseMarker(line)
+  const content = text.trimStart()
+  const kinds: LineKind[] = []
+
+  if (content.startsWith(`${SYMBOL_AI} Thinking:`)) {
+    kinds.push('thinking')
+  }
+  if (text.startsWith(INDENT) && TOOL_PREFIXES.some((prefix) => content.startsWith(prefix))) {
+    kinds.push('tool')
+  }
+  if (color === 'red') {
+    kinds.push('error')
+  }
+
+  return kinds
+}
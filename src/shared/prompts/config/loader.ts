@@ -41,8 +41,8 @@ export function loadPlaceholdersConfig(): PlaceholdersConfig {
 
     const config = require(configPath);
 
-    // Support both old format (flat) and new format (userDir/packageDir)
-    if (config.userDir || config.packageDir) {
+    // Support both old format (flat) and new format (userDir/packageDir/sources)
+    if (config.userDir || config.packageDir || config.sources) {
       return config as PlaceholdersConfig;
     } else {
       // Backwards compatibility: treat flat config as userDir
@@ -8,8 +8,33 @@
 export type PlaceholdersConfig = {
   userDir?: Record<string, string>;
   packageDir?: Record<string, string>;
+  /** Placeholders filled by a source other than a file (command output, env var, ...) */
+  sources?: Record<string, PlaceholderSourceConfig>;
 };
 
+/**
+ * A placeholder source from the `sources` section of config/placeholders.js
+ * (e.g., `{ type: 'command', command: 'git diff --stat' }`)
+ */
+export interface PlaceholderSourceConfig {
+  /** Source type: command, env, json, step, or a type added with registerPlaceholderSource */
+  type: string;
+  /** Seconds the content is reused (default depends on the source type) */
+  cacheSeconds?: number;
+  /** Options of the source type */
+  [option: string]: unknown;
+}
+
+/**
+ * A filter applied to placeholder content (e.g., `head:200` in "{plan|head:200}")
+ */
+export interface PlaceholderFilter {
+  /** Filter name (e.g., "head") */
+  name: string;
+  /** Argument after the colon, unquoted (e.g., "200") */
+  arg?: string;
+}
+
 /**
  * Represents a parsed placeholder from the prompt
  */
@@ -20,6 +45,8 @@ export interface PlaceholderMatch {
   isOptional: boolean;
   /** The placeholder name without prefix or braces (e.g., "plan_fallback") */
   name: string;
+  /** Filters to apply to the content, in order */
+  filters: PlaceholderFilter[];
 }
 
 /**
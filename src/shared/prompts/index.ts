@@ -1 +1,4 @@
-export { processPrompt, processPromptString } from './replacement/processor.js';
+export { processPrompt, processPromptString, assemblePrompt } from './replacement/processor.js';
+export * from './trimming/index.js';
+export { registerPlaceholderSource, clearPlaceholderSourceCache } from './sources/index.js';
+export type { PlaceholderSourceLoader, PlaceholderSourceContext, PlaceholderSourceResult } from './sources/index.js';
@@ -10,13 +10,26 @@ import * as path from 'node:path';
 const CM_FOLDER = '.codemachine';
 const TEMPLATE_FILE = 'template.json';
 
+// Time the date placeholders render, when frozen (see freezeBuiltInTime)
+let frozenTime: number | null = null;
+
+const now = (): number => frozenTime ?? Date.now();
+
 // Static placeholders (no context needed)
 const STATIC_PLACEHOLDERS: Record<string, () => string> = {
-  date: () => new Date().toISOString().split('T')[0], // YYYY-MM-DD
-  datetime: () => new Date().toISOString(),
-  timestamp: () => Date.now().toString(),
+  date: () => new Date(now()).toISOString().split('T')[0], // YYYY-MM-DD
+  datetime: () => new Date(now()).toISOString(),
+  timestamp: () => now().toString(),
 };
 
+/**
+ * Makes date, datetime and timestamp render the given time (epoch ms) instead
+ * of the current one; null unfreezes them.
+ */
+export function freezeBuiltInTime(time: number | null): void {
+  frozenTime = time;
+}
+
 // Context-dependent placeholders (loaded from template.json)
 const CONTEXT_PLACEHOLDERS = ['project_name'] as const;
 
@@ -30,6 +30,38 @@ Expected file: ${filePath}`;
   return new PlaceholderError(message, placeholderName, filePath);
 }
 
+/**
+ * Creates an error for a placeholder filter that cannot be applied
+ *
+ * @param placeholderName - The name of the placeholder
+ * @param filterName - The filter that failed (e.g., "jq")
+ * @param reason - Why the filter failed
+ * @returns A formatted error object
+ */
+export function createFilterError(
+  placeholderName: string,
+  filterName: string,
+  reason: string,
+): PlaceholderError {
+  return new PlaceholderError(`Filter "${filterName}" failed in {${placeholderName}}: ${reason}`, placeholderName, '');
+}
+
+/**
+ * Creates an error for a placeholder source (command, env, json, step, ...) that cannot be loaded
+ *
+ * @param placeholderName - The name of the placeholder (e.g., "step:plan-agent.output")
+ * @param sourceType - The source type (e.g., "command")
+ * @param reason - Why the source failed
+ * @returns A formatted error object
+ */
+export function createSourceError(
+  placeholderName: string,
+  sourceType: string,
+  reason: string,
+): PlaceholderError {
+  return new PlaceholderError(`Placeholder {${placeholderName}} could not be loaded from its ${sourceType} source: ${reason}`, placeholderName, '');
+}
+
 /**
  * Creates a warning message for an optional placeholder that couldn't be loaded
  * This is logged but doesn't throw an error
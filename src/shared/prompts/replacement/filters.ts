@@ -0,0 +1,127 @@
+/**
+ * Placeholder filters
+ *
+ * Filters transform placeholder content before it is injected:
+ * {plan|head:200}, {architecture|section:"Data Model"|default:"None yet"}
+ * Filters run left to right; quoted arguments may contain `|` and `}`.
+ */
+
+import { spawnProcess } from '../../../infra/process/spawn.js';
+import type { PlaceholderFilter } from '../config/types.js';
+import { createFilterError } from './errors.js';
+
+type FilterFn = (content: string, arg: string | undefined, placeholderName: string) => string | Promise<string>;
+
+const JQ_TIMEOUT_MS = 10_000;
+
+function requireArg(filter: string, arg: string | undefined, placeholderName: string): string {
+  if (arg === undefined) {
+    throw createFilterError(placeholderName, filter, 'an argument is required');
+  }
+  return arg;
+}
+
+function lineCount(filter: string, arg: string | undefined, placeholderName: string): number {
+  const count = Number(requireArg(filter, arg, placeholderName));
+  if (!Number.isInteger(count) || count < 0) {
+    throw createFilterError(placeholderName, filter, `expected a line count, got "${arg}"`);
+  }
+  return count;
+}
+
+/**
+ * Extract a markdown section: the heading line and everything up to the next
+ * heading of the same or a higher level. Returns '' when the heading is absent.
+ */
+function extractSection(content: string, heading: string): string {
+  const lines = content.split('\n');
+  const wanted = heading.trim().toLowerCase();
+  let start = -1;
+  let level = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (!match) continue;
+
+    if (start === -1) {
+      if (match[2].toLowerCase() === wanted) {
+        start = i;
+        level = match[1].length;
+      }
+    } else if (match[1].length <= level) {
+      return lines.slice(start, i).join('\n').trimEnd();
+    }
+  }
+
+  return start === -1 ? '' : lines.slice(start).join('\n').trimEnd();
+}
+
+async function runJq(content: string, expression: string, placeholderName: string): Promise<string> {
+  let result;
+  try {
+    result = await spawnProcess({
+      command: 'jq',
+      args: ['-r', expression],
+      stdinInput: content,
+      timeout: JQ_TIMEOUT_MS,
+    });
+  } catch (error) {
+    throw createFilterError(placeholderName, 'jq', `cannot run jq (is it installed?): ${(error as Error).message}`);
+  }
+
+  if (result.exitCode !== 0) {
+    throw createFilterError(placeholderName, 'jq', result.stderr.trim() || `exit code ${result.exitCode}`);
+  }
+  return result.stdout.trimEnd();
+}
+
+const FILTERS: Record<string, FilterFn> = {
+  default: (content, arg, name) => (content.trim() === '' ? requireArg('default', arg, name) : content),
+  head: (content, arg, name) => content.split('\n').slice(0, lineCount('head', arg, name)).join('\n'),
+  tail: (content, arg, name) => {
+    const count = lineCount('tail', arg, name);
+    return count === 0 ? '' : content.split('\n').slice(-count).join('\n');
+  },
+  section: (content, arg, name) => extractSection(content, requireArg('section', arg, name)),
+  jq: (content, arg, name) => runJq(content, requireArg('jq', arg, name), name),
+  upper: (content) => content.toUpperCase(),
+  lower: (content) => content.toLowerCase(),
+  trim: (content) => content.trim(),
+};
+
+/**
+ * Names of all supported filters
+ */
+export const PLACEHOLDER_FILTER_NAMES = Object.keys(FILTERS);
+
+/**
+ * Whether the filters give a placeholder a fallback, so a missing file is not an error
+ */
+export function hasDefaultFilter(filters: PlaceholderFilter[]): boolean {
+  return filters.some((filter) => filter.name === 'default');
+}
+
+/**
+ * Apply a placeholder's filters to its content, in order
+ *
+ * @throws PlaceholderError for unknown filters or invalid arguments
+ */
+export async function applyPlaceholderFilters(
+  content: string,
+  filters: PlaceholderFilter[],
+  placeholderName: string,
+): Promise<string> {
+  let result = content;
+  for (const filter of filters) {
+    const fn = FILTERS[filter.name];
+    if (!fn) {
+      throw createFilterError(
+        placeholderName,
+        filter.name,
+        `unknown filter (available: ${PLACEHOLDER_FILTER_NAMES.join(', ')})`,
+      );
+    }
+    result = await fn(result, filter.arg, placeholderName);
+  }
+  return result;
+}
@@ -4,5 +4,6 @@
 
 export * from './builtins.js';
 export * from './errors.js';
+export * from './filters.js';
 export * from './parser.js';
 export * from './processor.js';
\ No newline at end of file
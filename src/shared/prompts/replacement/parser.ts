@@ -1,11 +1,37 @@
-import type { PlaceholderMatch } from '../config/types.js';
+import type { PlaceholderFilter, PlaceholderMatch } from '../config/types.js';
 
 /**
  * Regular expression to match placeholders in the format:
  * - {placeholder_name} - Required placeholder
  * - {!placeholder_name} - Optional placeholder (won't throw error if missing)
+ * - {placeholder_name|filter|filter:arg|filter:"quoted arg"} - Filtered placeholder
+ * - {step:agent-id.output}, {env:NAME}, {memory:agent-id?q=words&limit=5} - Inline sources (see ../sources/registry.ts)
  */
-export const PLACEHOLDER_PATTERN = /\{(!)?([a-zA-Z_][a-zA-Z0-9_]*)\}/g;
+export const PLACEHOLDER_PATTERN =
+  /\{(!)?((?:step|env):[a-zA-Z0-9_.-]+|memory:[a-zA-Z0-9_.*-]+(?:\?[a-zA-Z0-9_.,+%=&-]*)?|[a-zA-Z_][a-zA-Z0-9_]*)((?:\|[a-zA-Z_][a-zA-Z0-9_]*(?::(?:"(?:[^"\\]|\\.)*"|[^|"}\s]+))?)*)\}/g;
+
+/**
+ * Matches one filter in the filter chain of a placeholder
+ */
+const FILTER_PATTERN = /\|([a-zA-Z_][a-zA-Z0-9_]*)(?::("(?:[^"\\]|\\.)*"|[^|"}\s]+))?/g;
+
+/**
+ * Parses a filter chain (e.g., `|head:200|default:"None"`) into filters
+ *
+ * @param chain - The filter chain including leading pipes
+ * @returns Filters in the order they apply
+ */
+export function parseFilters(chain: string): PlaceholderFilter[] {
+  return Array.from(chain.matchAll(FILTER_PATTERN)).map((match) => {
+    const rawArg = match[2];
+    if (rawArg === undefined) {
+      return { name: match[1] };
+    }
+    // Quoted arguments support \" and \\ escapes
+    const arg = rawArg.startsWith('"') ? rawArg.slice(1, -1).replace(/\\(.)/g, '$1') : rawArg;
+    return { name: match[1], arg };
+  });
+}
 
 /**
  * Parses a placeholder match into structured data
@@ -14,14 +40,16 @@ export const PLACEHOLDER_PATTERN = /\{(!)?([a-zA-Z_][a-zA-Z0-9_]*)\}/g;
  * @returns Parsed placeholder information
  */
 export function parsePlaceholder(match: RegExpMatchArray): PlaceholderMatch {
-  const fullMatch = match[0]; // e.g., "{!plan_fallback}" or "{architecture}"
+  const fullMatch = match[0]; // e.g., "{!plan_fallback}" or "{architecture|section:\"Data Model\"}"
   const optionalPrefix = match[1]; // "!" if present, undefined otherwise
-  const name = match[2]; // e.g., "plan_fallback" or "architecture"
+  const name = match[2]; // e.g., "plan_fallback", "architecture" or "step:plan-agent.output"
+  const filterChain = match[3] ?? ''; // e.g., "|section:\"Data Model\""
 
   return {
     fullMatch,
     isOptional: optionalPrefix === '!',
     name,
+    filters: parseFilters(filterChain),
   };
 }
 
@@ -1,9 +1,15 @@
+import * as path from 'node:path';
 import { readFile, stat } from 'node:fs/promises';
 import { loadPlaceholdersConfig, resolvePlaceholderPath } from '../config/loader.js';
 import { loadPlaceholderContent } from '../content/loader.js';
+import { isGlobPattern, matchGlobPattern } from '../content/glob.js';
 import { findPlaceholders, getUniquePlaceholderNames } from './parser.js';
 import { handlePlaceholderLoadError } from './errors.js';
 import { getBuiltInContent } from './builtins.js';
+import { applyPlaceholderFilters, hasDefaultFilter } from './filters.js';
+import { loadSourceContent, resolvePlaceholderSource } from '../sources/registry.js';
+import { estimateTokens, fitToBudget, type TrimEntry } from '../trimming/trimmer.js';
+import type { AssembledPrompt, PlaceholderSource, PromptBudget } from '../trimming/types.js';
 
 /**
  * Simple cache for placeholder content with file modification time tracking
@@ -101,25 +107,39 @@ async function loadPlaceholderContentCached(
   return content;
 }
 
+/**
+ * Content of a placeholder and where it came from
+ */
+interface LoadedPlaceholder {
+  placeholderName: string;
+  content: string;
+  source: PlaceholderSource;
+}
+
 /**
  * Replaces all placeholders in the prompt with their corresponding content
  *
- * Supports two types of placeholders:
+ * Supports these types of placeholders:
  * - {placeholder_name} - Required placeholder (throws error if file not found)
  * - {!placeholder_name} - Optional placeholder (skips if file not found)
+ * - {placeholder_name|filter:arg} - Filtered placeholder (a `default` filter also skips if file not found)
+ * - {step:agent-id.output}, {env:NAME} - Inline sources; config sources fill plain names too
  *
  * Uses caching to avoid re-reading files on repeated calls
  * Loads all placeholders in parallel for 3-4x faster execution
+ * With a budget, placeholder content is trimmed so the prompt fits it
  *
  * @param prompt - The prompt string containing placeholders
  * @param cwd - Current working directory for resolving user-level placeholders
- * @returns The prompt with all placeholders replaced
- * @throws PlaceholderError if a required placeholder cannot be loaded
+ * @param budget - Optional token budget for the assembled prompt
+ * @returns The prompt with all placeholders replaced, and its token accounting
+ * @throws PlaceholderError if a required placeholder cannot be loaded, or a source or filter fails
  */
 async function replacePlaceholders(
   prompt: string,
   cwd: string,
-): Promise<string> {
+  budget?: PromptBudget,
+): Promise<AssembledPrompt> {
   const config = loadPlaceholdersConfig();
   let processedPrompt = prompt;
 
@@ -131,25 +151,37 @@ async function replacePlaceholders(
   const placeholderNamesArray = Array.from(uniquePlaceholderNames);
 
   // Load all placeholders in parallel
-  const loadTasks = placeholderNamesArray.map(async (placeholderName) => {
+  const loadTasks = placeholderNamesArray.map(async (placeholderName): Promise<LoadedPlaceholder> => {
     // Check if it's a built-in dynamic placeholder first
     const builtInContent = await getBuiltInContent(placeholderName, cwd);
     if (builtInContent !== null) {
-      return { placeholderName, content: builtInContent, isOptional: false };
+      return { placeholderName, content: builtInContent, source: { kind: 'built-in' } };
     }
 
-    // Find if this placeholder is optional by checking the first occurrence
-    const firstOccurrence = placeholders.find((p) => p.name === placeholderName);
-    const isOptional = firstOccurrence?.isOptional || false;
+    // Missing content is only an error for occurrences that are required and have no default
+    const occurrences = placeholders.filter((p) => p.name === placeholderName);
+    const isOptional = occurrences.every((p) => p.isOptional || hasDefaultFilter(p.filters));
+
+    // Sources (inline like {step:plan-agent.output}, or from the config) take precedence over files
+    const sourceConfig = resolvePlaceholderSource(placeholderName, config);
+    if (sourceConfig) {
+      try {
+        const { content, description, files } = await loadSourceContent(sourceConfig, { placeholderName, cwd });
+        return { placeholderName, content, source: { kind: sourceConfig.type, pattern: description, files } };
+      } catch (error) {
+        if (!isOptional) throw error;
+        return { placeholderName, content: '', source: { kind: sourceConfig.type, missing: true } };
+      }
+    }
 
     // Resolve placeholder path from config
     const resolved = resolvePlaceholderPath(placeholderName, cwd, config);
 
     if (!resolved) {
       console.warn(
-        `Warning: Placeholder {${isOptional ? '!' : ''}${placeholderName}} found in prompt but not defined in config/placeholders.js`
+        `Warning: Placeholder {${occurrences[0]?.isOptional ? '!' : ''}${placeholderName}} found in prompt but not defined in config/placeholders.js`
       );
-      return { placeholderName, content: '', isOptional };
+      return { placeholderName, content: '', source: { kind: 'undefined' } };
     }
 
     const { filePath, baseDir } = resolved;
@@ -157,7 +189,10 @@ async function replacePlaceholders(
     try {
       // Load the placeholder content (with caching)
       const content = await loadPlaceholderContentCached(baseDir, filePath);
-      return { placeholderName, content, isOptional };
+      const files = isGlobPattern(filePath)
+        ? await matchGlobPattern(baseDir, filePath)
+        : [path.isAbsolute(filePath) ? filePath : path.resolve(baseDir, filePath)];
+      return { placeholderName, content, source: { kind: 'file', pattern: filePath, files } };
     } catch (error) {
       // Handle error based on whether placeholder is optional
       const fallbackContent = handlePlaceholderLoadError(
@@ -166,24 +201,67 @@ async function replacePlaceholders(
         isOptional,
         error as Error,
       );
-      return { placeholderName, content: fallbackContent, isOptional };
+      return {
+        placeholderName,
+        content: fallbackContent,
+        source: { kind: 'file', pattern: filePath, files: [], missing: true },
+      };
     }
   });
 
   // Wait for all placeholders to load in parallel
   const loadedPlaceholders = await Promise.all(loadTasks);
+  const contentByName = new Map(loadedPlaceholders.map(({ placeholderName, content }) => [placeholderName, content]));
+  const sourceByName = new Map(loadedPlaceholders.map(({ placeholderName, source }) => [placeholderName, source]));
+
+  // Filter the content of every distinct placeholder expression (e.g., {plan} and {plan|head:20})
+  const entries: TrimEntry[] = [];
+  let templateText = prompt;
+  for (const placeholder of placeholders) {
+    if (entries.some((entry) => entry.expression === placeholder.fullMatch)) continue;
+
+    const parts = templateText.split(placeholder.fullMatch);
+    templateText = parts.join('');
+    entries.push({
+      expression: placeholder.fullMatch,
+      name: placeholder.name,
+      optional: placeholder.isOptional,
+      occurrences: parts.length - 1,
+      content: await applyPlaceholderFilters(
+        contentByName.get(placeholder.name) ?? '',
+        placeholder.filters,
+        placeholder.name,
+      ),
+    });
+  }
 
-  // Replace all placeholders with their loaded content
-  for (const { placeholderName, content } of loadedPlaceholders) {
-    // Replace ALL occurrences of this placeholder (with and without !)
-    const withOptionalRegex = new RegExp(`\\{!${placeholderName}\\}`, 'g');
-    const withoutOptionalRegex = new RegExp(`\\{${placeholderName}\\}`, 'g');
+  const templateTokens = estimateTokens(templateText);
+  const fitted = budget ? await fitToBudget(entries, templateTokens, budget) : undefined;
 
-    processedPrompt = processedPrompt.replace(withOptionalRegex, content);
-    processedPrompt = processedPrompt.replace(withoutOptionalRegex, content);
+  for (const entry of entries) {
+    // split/join replaces all occurrences without interpreting $ patterns in the content
+    const content = fitted?.contents.get(entry.expression) ?? entry.content;
+    processedPrompt = processedPrompt.split(entry.expression).join(content);
   }
 
-  return processedPrompt;
+  const estimatedTokens = estimateTokens(processedPrompt);
+  return {
+    prompt: processedPrompt,
+    report: {
+      maxTokens: budget?.maxTokens,
+      templateTokens,
+      estimatedTokens,
+      placeholders: (
+        fitted?.placeholders ??
+        entries.map(({ expression, name, optional, occurrences, content }) => {
+          const tokens = estimateTokens(content) * occurrences;
+          return { expression, name, optional, occurrences, tokens, finalTokens: tokens, action: 'kept' as const };
+        })
+      ).map((placeholder) => ({ ...placeholder, source: sourceByName.get(placeholder.name) })),
+      trimmed: fitted?.placeholders.some((placeholder) => placeholder.action !== 'kept') ?? false,
+      overBudget: budget !== undefined && estimatedTokens > budget.maxTokens,
+    },
+  };
 }
 
 /**
@@ -210,7 +288,7 @@ export async function processPrompt(
   }
 
   // Replace all placeholders (placeholders themselves are also cached)
-  return replacePlaceholders(prompt, cwd);
+  return (await replacePlaceholders(prompt, cwd)).prompt;
 }
 
 /**
@@ -218,11 +296,30 @@ export async function processPrompt(
  *
  * @param prompt - The prompt string containing placeholders
  * @param cwd - Current working directory
+ * @param budget - Optional token budget the prompt is trimmed to fit
  * @returns The processed prompt with placeholders replaced
  */
 export async function processPromptString(
   prompt: string,
   cwd: string,
+  budget?: PromptBudget,
 ): Promise<string> {
-  return replacePlaceholders(prompt, cwd);
+  return (await replacePlaceholders(prompt, cwd, budget)).prompt;
+}
+
+/**
+ * Processes a prompt string like processPromptString and reports the
+ * estimated tokens each placeholder contributes
+ *
+ * @param prompt - The prompt string containing placeholders
+ * @param cwd - Current working directory
+ * @param budget - Optional token budget the prompt is trimmed to fit
+ * @returns The processed prompt and its token accounting
+ */
+export async function assemblePrompt(
+  prompt: string,
+  cwd: string,
+  budget?: PromptBudget,
+): Promise<AssembledPrompt> {
+  return replacePlaceholders(prompt, cwd, budget);
 }
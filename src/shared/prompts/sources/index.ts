@@ -0,0 +1,7 @@
+/**
+ * Placeholder sources other than files
+ */
+
+export * from './json-path.js';
+export * from './registry.js';
+export * from './types.js';
@@ -0,0 +1,76 @@
+/**
+ * Minimal JSON path queries for placeholder sources
+ *
+ * Supports `$`, `.key`, `[index]` and `[*]`, e.g. `tasks[*].title` or `$.plan.iterations[0]`
+ */
+
+type PathSegment = { key: string } | { index: number } | { wildcard: true };
+
+const SEGMENT_PATTERN = /\.?([^.[\]]+)|\[(\d+|\*)\]/g;
+
+/**
+ * Split a JSON path into segments
+ *
+ * @throws Error if the path has text that is not a segment
+ */
+export function parseJsonPath(jsonPath: string): PathSegment[] {
+  const body = jsonPath.trim().replace(/^\$/, '');
+  const segments: PathSegment[] = [];
+  let consumed = 0;
+
+  for (const match of body.matchAll(SEGMENT_PATTERN)) {
+    if (match.index !== consumed) break;
+    consumed += match[0].length;
+    if (match[1] !== undefined) {
+      segments.push({ key: match[1] });
+    } else if (match[2] === '*') {
+      segments.push({ wildcard: true });
+    } else {
+      segments.push({ index: Number(match[2]) });
+    }
+  }
+
+  if (consumed !== body.length) {
+    throw new Error(`invalid JSON path "${jsonPath}" at "${body.slice(consumed)}"`);
+  }
+  return segments;
+}
+
+/**
+ * Select values from parsed JSON
+ *
+ * @returns The selected value, an array of values after a `[*]`, or undefined when nothing matches
+ */
+export function queryJsonPath(value: unknown, jsonPath: string): unknown {
+  let current: unknown[] = [value];
+  let multiple = false;
+
+  for (const segment of parseJsonPath(jsonPath)) {
+    const next: unknown[] = [];
+    for (const item of current) {
+      if ('wildcard' in segment) {
+        if (Array.isArray(item)) next.push(...item);
+        else if (item && typeof item === 'object') next.push(...Object.values(item));
+      } else if ('index' in segment) {
+        if (Array.isArray(item) && segment.index < item.length) next.push(item[segment.index]);
+      } else if (item && typeof item === 'object' && Object.hasOwn(item, segment.key)) {
+        next.push((item as Record<string, unknown>)[segment.key]);
+      }
+    }
+    multiple ||= 'wildcard' in segment;
+    current = next;
+  }
+
+  if (multiple) return current.length > 0 ? current : undefined;
+  return current[0];
+}
+
+/**
+ * Format a selected JSON value for a prompt: strings as-is, lists of strings
+ * one per line, anything else as indented JSON
+ */
+export function formatJsonValue(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value) && value.every((item) => typeof item === 'string')) return value.join('\n');
+  return JSON.stringify(value, null, 2);
+}
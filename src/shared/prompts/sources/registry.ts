@@ -0,0 +1,266 @@
+/**
+ * Placeholder sources
+ *
+ * Besides files, placeholders can be filled from:
+ * - command: output of a shell command (`sources` in config/placeholders.js only)
+ * - env: an environment variable, inline as {env:NAME}
+ * - json: a JSON path extract from a file
+ * - step: the recorded output of a previous step, inline as {step:plan-agent.output}
+ * - memory: agent memory entries relevant to a query, inline as {memory:code-generation?q=auth&limit=5}
+ *
+ * Further types can be added with registerPlaceholderSource().
+ */
+
+import * as path from 'node:path';
+import { readFile, stat } from 'node:fs/promises';
+import { spawnProcess } from '../../../infra/process/spawn.js';
+import { SqliteMemoryAdapter } from '../../../infra/fs/sqlite-memory-adapter.js';
+import { MemoryStore } from '../../../agents/memory/memory-store.js';
+import { getCodemachineFiles } from '../../config/paths.js';
+import type { PlaceholderSourceConfig, PlaceholdersConfig } from '../config/types.js';
+import { createSourceError, PlaceholderError } from '../replacement/errors.js';
+import { formatJsonValue, queryJsonPath } from './json-path.js';
+import type {
+  PlaceholderSourceContext,
+  PlaceholderSourceDefinition,
+  PlaceholderSourceLoader,
+  PlaceholderSourceResult,
+} from './types.js';
+
+const COMMAND_TIMEOUT_MS = 30_000;
+
+function requireOption(options: PlaceholderSourceConfig, key: string): string {
+  const value = options[key];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new Error(`"${key}" must be a non-empty string`);
+  }
+  return value;
+}
+
+const loadCommand: PlaceholderSourceLoader = async (options, { cwd }) => {
+  const command = requireOption(options, 'command');
+  const timeout = typeof options.timeoutMs === 'number' ? options.timeoutMs : COMMAND_TIMEOUT_MS;
+  const shell = process.platform === 'win32' ? { command: 'cmd', args: ['/c', command] } : { command: 'sh', args: ['-c', command] };
+
+  const result = await spawnProcess({ ...shell, cwd, timeout });
+  if (result.exitCode !== 0) {
+    throw new Error(`"${command}" exited with code ${result.exitCode}${result.stderr.trim() ? `: ${result.stderr.trim()}` : ''}`);
+  }
+  return { content: result.stdout.trimEnd(), description: command };
+};
+
+const loadEnv: PlaceholderSourceLoader = async (options) => {
+  const name = requireOption(options, 'name');
+  const value = process.env[name];
+  if (value === undefined) {
+    throw new Error(`environment variable ${name} is not set`);
+  }
+  return { content: value, description: name };
+};
+
+const loadJson: PlaceholderSourceLoader = async (options, { cwd }) => {
+  const file = requireOption(options, 'file');
+  const jsonPath = requireOption(options, 'path');
+  const absolutePath = path.isAbsolute(file) ? file : path.resolve(cwd, file);
+
+  let data: unknown;
+  try {
+    data = JSON.parse(await readFile(absolutePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`cannot read JSON from ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const value = queryJsonPath(data, jsonPath);
+  if (value === undefined) {
+    throw new Error(`"${jsonPath}" matched nothing in ${file}`);
+  }
+  return { content: formatJsonValue(value), description: `${file} ${jsonPath}`, files: [absolutePath] };
+};
+
+const loadStep: PlaceholderSourceLoader = async (options, { cwd }) => {
+  const agentId = requireOption(options, 'agentId');
+  const adapter = new SqliteMemoryAdapter(getCodemachineFiles(cwd).memoryDb);
+  const latest = await new MemoryStore(adapter).latest(agentId);
+  if (!latest) {
+    throw new Error(`no output recorded for agent ${agentId} yet`);
+  }
+  return { content: latest.content, description: agentId, files: adapter.files };
+};
+
+const loadMemory: PlaceholderSourceLoader = async (options, { cwd }) => {
+  const agentId = typeof options.agentId === 'string' && options.agentId !== '*' ? options.agentId : undefined;
+  const text = typeof options.query === 'string' ? options.query : undefined;
+  const tags = typeof options.tags === 'string' ? options.tags.split(',').filter(Boolean) : (options.tags as string[] | undefined);
+  const limit = options.limit === undefined ? 5 : Number(options.limit);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(`"limit" must be a positive integer, got "${options.limit}"`);
+  }
+
+  const adapter = new SqliteMemoryAdapter(getCodemachineFiles(cwd).memoryDb);
+  const results = await new MemoryStore(adapter).search({ text, agentId, tags, limit });
+  const description = [agentId ?? 'all agents', text && `"${text}"`, tags?.length && `tags ${tags.join(',')}`]
+    .filter(Boolean)
+    .join(' ');
+
+  // No matches is not an error: later agents just get no prior notes
+  const content = results
+    .map((entry) => `<!-- Memory: ${entry.agentId} at ${entry.timestamp} -->\n\n${entry.content}`)
+    .join('\n\n---\n\n');
+  return { content, description, files: adapter.files };
+};
+
+const SOURCES = new Map<string, PlaceholderSourceDefinition>([
+  ['command', { load: loadCommand, cacheSeconds: 30 }],
+  ['env', { load: loadEnv, cacheSeconds: 0 }],
+  ['json', { load: loadJson, cacheSeconds: Infinity }],
+  ['step', { load: loadStep, cacheSeconds: Infinity }],
+  ['memory', { load: loadMemory, cacheSeconds: Infinity }],
+]);
+
+/**
+ * Add a placeholder source type, usable as `{ type }` in the `sources`
+ * section of config/placeholders.js
+ *
+ * @param type - Source type name
+ * @param loader - Loads the content for a source config
+ * @param cacheSeconds - Default seconds content is reused (Infinity = until its files change)
+ */
+export function registerPlaceholderSource(type: string, loader: PlaceholderSourceLoader, cacheSeconds = 0): void {
+  SOURCES.set(type, { load: loader, cacheSeconds });
+}
+
+/**
+ * Names of all registered source types
+ */
+export function getPlaceholderSourceTypes(): string[] {
+  return Array.from(SOURCES.keys());
+}
+
+/**
+ * Source config of a placeholder: inline ({step:plan-agent.output}, {env:HOME}, {memory:*?q=auth})
+ * or from the `sources` section of config/placeholders.js
+ *
+ * @returns null if the placeholder has no source
+ * @throws PlaceholderError for an inline placeholder that cannot be parsed
+ */
+export function resolvePlaceholderSource(
+  placeholderName: string,
+  config: PlaceholdersConfig,
+): PlaceholderSourceConfig | null {
+  const separator = placeholderName.indexOf(':');
+  if (separator === -1) {
+    return config.sources?.[placeholderName] ?? null;
+  }
+
+  const type = placeholderName.slice(0, separator);
+  const reference = placeholderName.slice(separator + 1);
+  if (type === 'env') {
+    return { type, name: reference };
+  }
+  if (type === 'step') {
+    const fieldAt = reference.lastIndexOf('.');
+    const field = fieldAt === -1 ? '' : reference.slice(fieldAt + 1);
+    if (field !== 'output') {
+      throw createSourceError(placeholderName, type, 'expected {step:<agent-id>.output}');
+    }
+    return { type, agentId: reference.slice(0, fieldAt) };
+  }
+  if (type === 'memory') {
+    const queryAt = reference.indexOf('?');
+    const agentId = queryAt === -1 ? reference : reference.slice(0, queryAt);
+    const params = new URLSearchParams(queryAt === -1 ? '' : reference.slice(queryAt + 1));
+    const unknown = [...params.keys()].filter((key) => !['q', 'limit', 'tags'].includes(key));
+    if (!agentId || unknown.length > 0) {
+      throw createSourceError(placeholderName, type, 'expected {memory:<agent-id or *>?q=<words>&limit=<n>&tags=<a,b>}');
+    }
+    return {
+      type,
+      agentId,
+      query: params.get('q') ?? undefined,
+      limit: params.get('limit') ?? undefined,
+      tags: params.get('tags') ?? undefined,
+    };
+  }
+  throw createSourceError(placeholderName, type, 'unknown inline source');
+}
+
+/**
+ * Cached source content, reused until it expires or one of its files changes
+ */
+class SourceCache {
+  private cache: Map<string, { result: PlaceholderSourceResult; expiresAt: number; mtimes: number[] }> = new Map();
+  private maxSize = 100;
+
+  async get(key: string): Promise<PlaceholderSourceResult | null> {
+    const cached = this.cache.get(key);
+    if (!cached) return null;
+
+    if (Date.now() < cached.expiresAt && (await this.readMtimes(cached.result.files)).every((mtime, i) => mtime === cached.mtimes[i])) {
+      return cached.result;
+    }
+    this.cache.delete(key);
+    return null;
+  }
+
+  async set(key: string, result: PlaceholderSourceResult, seconds: number): Promise<void> {
+    if (seconds <= 0) return;
+
+    // Evict oldest entry if cache is full
+    if (this.cache.size >= this.maxSize) {
+      const firstKey = this.cache.keys().next().value;
+      if (firstKey) this.cache.delete(firstKey);
+    }
+    this.cache.set(key, { result, expiresAt: Date.now() + seconds * 1000, mtimes: await this.readMtimes(result.files) });
+  }
+
+  clear(): void {
+    this.cache.clear();
+  }
+
+  private readMtimes(files: string[] = []): Promise<number[]> {
+    return Promise.all(files.map((file) => stat(file).then((stats) => stats.mtimeMs, () => -1)));
+  }
+}
+
+const sourceCache = new SourceCache();
+
+/**
+ * Forget all cached source content (e.g., after the project changed outside a workflow)
+ */
+export function clearPlaceholderSourceCache(): void {
+  sourceCache.clear();
+}
+
+/**
+ * Load the content of a placeholder source, from the cache when possible
+ *
+ * @throws PlaceholderError if the source type is unknown or the source fails
+ */
+export async function loadSourceContent(
+  options: PlaceholderSourceConfig,
+  context: PlaceholderSourceContext,
+): Promise<PlaceholderSourceResult> {
+  const definition = SOURCES.get(options.type);
+  if (!definition) {
+    throw createSourceError(
+      context.placeholderName,
+      String(options.type),
+      `unknown source type (available: ${getPlaceholderSourceTypes().join(', ')})`,
+    );
+  }
+
+  const key = JSON.stringify([context.cwd, options]);
+  const cached = await sourceCache.get(key);
+  if (cached) return cached;
+
+  let result: PlaceholderSourceResult;
+  try {
+    result = await definition.load(options, context);
+  } catch (error) {
+    if (error instanceof PlaceholderError) throw error;
+    throw createSourceError(context.placeholderName, options.type, error instanceof Error ? error.message : String(error));
+  }
+
+  await sourceCache.set(key, result, options.cacheSeconds ?? definition.cacheSeconds);
+  return result;
+}
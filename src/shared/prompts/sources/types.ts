@@ -0,0 +1,45 @@
+/**
+ * Types for placeholder sources other than files
+ */
+
+import type { PlaceholderSourceConfig } from '../config/types.js';
+
+/**
+ * What a source loader is called with
+ */
+export interface PlaceholderSourceContext {
+  /** Placeholder being filled (e.g., "git_changes" or "step:plan-agent.output") */
+  placeholderName: string;
+  /** Project directory */
+  cwd: string;
+}
+
+/**
+ * Content loaded by a source
+ */
+export interface PlaceholderSourceResult {
+  content: string;
+  /** Shown in provenance reports: the command, variable, JSON path or agent id */
+  description: string;
+  /** Absolute paths of files the content was read from; cached content is reused only while they are unchanged */
+  files?: string[];
+}
+
+/**
+ * Loads the content of one placeholder source type
+ *
+ * @throws Error with a reason (turned into a PlaceholderError) when the content cannot be loaded
+ */
+export type PlaceholderSourceLoader = (
+  options: PlaceholderSourceConfig,
+  context: PlaceholderSourceContext,
+) => Promise<PlaceholderSourceResult>;
+
+/**
+ * A registered placeholder source type
+ */
+export interface PlaceholderSourceDefinition {
+  load: PlaceholderSourceLoader;
+  /** Seconds content is reused when the config sets no cacheSeconds (Infinity = until its files change) */
+  cacheSeconds: number;
+}
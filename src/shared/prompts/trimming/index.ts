@@ -0,0 +1,6 @@
+/**
+ * Prompt token budgeting
+ */
+
+export * from './trimmer.js';
+export * from './types.js';
@@ -0,0 +1,135 @@
+import { debug } from '../../logging/logger.js';
+import type { PlaceholderContribution, PromptAssemblyReport, PromptBudget } from './types.js';
+
+/**
+ * Rough characters per token, good enough for budgeting across models
+ */
+export const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimate the number of tokens of a text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Placeholder content to fit into a budget
+ */
+export interface TrimEntry {
+  expression: string;
+  name: string;
+  optional: boolean;
+  occurrences: number;
+  content: string;
+}
+
+/**
+ * Cut content to about maxTokens, preferring a line boundary, and mark the cut
+ */
+export function truncateToTokens(content: string, maxTokens: number): string {
+  if (estimateTokens(content) <= maxTokens) return content;
+
+  const removed = estimateTokens(content) - maxTokens;
+  const marker = `\n[... ${removed} tokens truncated to fit the prompt budget]`;
+  const keepChars = maxTokens * CHARS_PER_TOKEN - marker.length;
+  if (keepChars <= 0) return '';
+
+  const cut = content.slice(0, keepChars);
+  const lineEnd = cut.lastIndexOf('\n');
+  return (lineEnd > keepChars / 2 ? cut.slice(0, lineEnd) : cut).trimEnd() + marker;
+}
+
+/**
+ * Fit placeholder contents into a prompt budget
+ *
+ * The text outside placeholders is never changed. With 'drop-optional',
+ * optional placeholders are dropped (largest first) until the prompt fits;
+ * what is still over budget is then shared out evenly: placeholders smaller
+ * than their share are kept and the rest are summarized or truncated to it.
+ *
+ * @returns Final content per expression and the contribution of each one
+ */
+export async function fitToBudget(
+  entries: TrimEntry[],
+  templateTokens: number,
+  budget: PromptBudget,
+): Promise<{ contents: Map<string, string>; placeholders: PlaceholderContribution[] }> {
+  const strategy = budget.strategy ?? 'drop-optional';
+  const states = entries.map((entry) => ({
+    entry,
+    content: entry.content,
+    action: 'kept' as PlaceholderContribution['action'],
+  }));
+  const totalOf = (state: (typeof states)[number]) => estimateTokens(state.content) * state.entry.occurrences;
+  const total = () => templateTokens + states.reduce((sum, state) => sum + totalOf(state), 0);
+
+  if (total() > budget.maxTokens && strategy === 'drop-optional') {
+    const optional = states.filter((state) => state.entry.optional).sort((a, b) => totalOf(b) - totalOf(a));
+    for (const state of optional) {
+      if (total() <= budget.maxTokens) break;
+      state.content = '';
+      state.action = 'dropped';
+    }
+  }
+
+  if (total() > budget.maxTokens) {
+    const candidates = states
+      .filter((state) => state.action === 'kept' && state.content !== '')
+      .sort((a, b) => totalOf(a) - totalOf(b));
+    let remaining = Math.max(0, budget.maxTokens - templateTokens);
+
+    for (let i = 0; i < candidates.length; i++) {
+      const state = candidates[i];
+      const share = Math.floor(remaining / (candidates.length - i));
+      if (totalOf(state) <= share) {
+        remaining -= totalOf(state);
+        continue;
+      }
+
+      const target = Math.floor(share / state.entry.occurrences);
+      if (strategy === 'summarize' && budget.summarize && target > 0) {
+        try {
+          state.content = truncateToTokens(await budget.summarize(state.content, target), target);
+          state.action = 'summarized';
+        } catch (error) {
+          debug('[Prompt] Summarizing {%s} failed, truncating instead: %o', state.entry.name, error);
+        }
+      }
+      if (state.action !== 'summarized') {
+        state.content = truncateToTokens(state.content, target);
+        state.action = state.content === '' ? 'dropped' : 'truncated';
+      }
+      remaining -= totalOf(state);
+    }
+  }
+
+  return {
+    contents: new Map(states.map((state) => [state.entry.expression, state.content])),
+    placeholders: states.map((state) => ({
+      expression: state.entry.expression,
+      name: state.entry.name,
+      optional: state.entry.optional,
+      occurrences: state.entry.occurrences,
+      tokens: estimateTokens(state.entry.content) * state.entry.occurrences,
+      finalTokens: totalOf(state),
+      action: state.action,
+    })),
+  };
+}
+
+/**
+ * One-line description of what trimming did, for logs
+ */
+export function formatTrimSummary(report: PromptAssemblyReport): string {
+  const changes = report.placeholders
+    .filter((placeholder) => placeholder.action !== 'kept')
+    .map((placeholder) =>
+      placeholder.action === 'dropped'
+        ? `${placeholder.expression} dropped (${placeholder.tokens} tokens)`
+        : `${placeholder.expression} ${placeholder.action} ${placeholder.tokens} → ${placeholder.finalTokens} tokens`,
+    );
+  const budget = report.maxTokens !== undefined ? ` of ${report.maxTokens}` : '';
+  const status = report.overBudget ? ' Still over budget: the prompt text alone is too large.' : '';
+  return `Prompt ~${report.estimatedTokens}${budget} tokens. ${changes.length > 0 ? `Trimmed: ${changes.join(', ')}.` : 'Nothing trimmed.'}${status}`;
+}
@@ -0,0 +1,93 @@
+/**
+ * Types for fitting assembled prompts into a token budget
+ */
+
+/**
+ * How placeholder content is reduced when a prompt is over budget
+ * - truncate: cut the largest placeholders down to their share of the budget
+ * - summarize: summarize the largest placeholders (falls back to truncating)
+ * - drop-optional: drop optional {!...} placeholders first, largest first, then truncate
+ */
+export type PromptTrimStrategy = 'truncate' | 'summarize' | 'drop-optional';
+
+export const PROMPT_TRIM_STRATEGIES: PromptTrimStrategy[] = ['truncate', 'summarize', 'drop-optional'];
+
+/**
+ * Summarizes content to roughly the given number of tokens
+ */
+export type PromptSummarizer = (content: string, maxTokens: number) => Promise<string>;
+
+/**
+ * Token budget for an assembled prompt
+ */
+export interface PromptBudget {
+  /** Maximum estimated tokens of the assembled prompt */
+  maxTokens: number;
+  /** Default: 'drop-optional' */
+  strategy?: PromptTrimStrategy;
+  /** Required by the 'summarize' strategy */
+  summarize?: PromptSummarizer;
+}
+
+/**
+ * Where the content of a placeholder came from
+ */
+export interface PlaceholderSource {
+  /**
+   * built-in: date, project_name, ...; file: userDir/packageDir in config/placeholders.js;
+   * undefined: not in the config; otherwise the source type (command, env, json, step, ...)
+   */
+  kind: string;
+  /** Configured path or glob pattern, or the command, variable, JSON path or agent id of a source */
+  pattern?: string;
+  /** Absolute paths of the files read */
+  files?: string[];
+  /** The file(s) or source could not be read, so the content is empty */
+  missing?: boolean;
+}
+
+/**
+ * What one placeholder expression (e.g., "{plan|head:200}") adds to the prompt
+ */
+export interface PlaceholderContribution {
+  /** The placeholder expression as written in the prompt */
+  expression: string;
+  /** Placeholder name */
+  name: string;
+  /** Whether the placeholder is optional ({!name}) */
+  optional: boolean;
+  /** Times the expression appears in the prompt */
+  occurrences: number;
+  /** Estimated tokens of all occurrences before trimming */
+  tokens: number;
+  /** Estimated tokens of all occurrences after trimming */
+  finalTokens: number;
+  action: 'kept' | 'truncated' | 'summarized' | 'dropped';
+  /** Where the content came from (set by prompt assembly) */
+  source?: PlaceholderSource;
+}
+
+/**
+ * Token accounting of an assembled prompt
+ */
+export interface PromptAssemblyReport {
+  /** Budget the prompt was fitted into (undefined = no budget) */
+  maxTokens?: number;
+  /** Estimated tokens of the prompt text outside placeholders */
+  templateTokens: number;
+  /** Estimated tokens of the final prompt */
+  estimatedTokens: number;
+  placeholders: PlaceholderContribution[];
+  /** Whether any placeholder was truncated, summarized or dropped */
+  trimmed: boolean;
+  /** Whether the prompt is still over budget (the text outside placeholders alone is too large) */
+  overBudget: boolean;
+}
+
+/**
+ * A prompt with its placeholders replaced, and its token accounting
+ */
+export interface AssembledPrompt {
+  prompt: string;
+  report: PromptAssemblyReport;
+}
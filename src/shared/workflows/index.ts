@@ -40,8 +40,23 @@ export {
   markStepCompleted,
   getChainResumeInfo,
   clearCompletedSteps,
+  getBranchDecisions,
+  recordBranchDecision,
+  recordStepSnapshot,
+  resetStepsAfter,
   getNotCompletedSteps,
   removeFromNotCompleted,
   clearNotCompletedSteps,
   getResumeStartIndex,
 } from './steps.js';
+
+// Git snapshot functions
+export {
+  SnapshotError,
+  isGitWorkTree,
+  createStepSnapshot,
+  restoreSnapshot,
+  getStepSnapshots,
+  rollbackToStep,
+} from './snapshots.js';
+export type { StepSnapshot } from './snapshots.js';
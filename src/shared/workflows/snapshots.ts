@@ -0,0 +1,176 @@
+import { mkdtemp, rm, unlink } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { spawnProcess } from '../../infra/process/spawn.js';
+import { debug } from '../logging/logger.js';
+import { getCompletedSteps, getStepData, resetStepsAfter } from './steps.js';
+
+/**
+ * Git snapshots of the working tree, taken as workflow steps complete.
+ *
+ * A snapshot is a commit built from a temporary index, so the user's index,
+ * HEAD and branches are never touched. Each one is kept alive by a shadow ref
+ * (refs/codemachine/snapshots/step-N). `.codemachine/` is left out so that
+ * restoring files never rewinds workflow state; tracking is reset separately.
+ */
+
+const SNAPSHOT_REF_PREFIX = 'refs/codemachine/snapshots';
+
+// Snapshot commits use a fixed identity so they work without git user config
+const SNAPSHOT_IDENTITY = {
+  GIT_AUTHOR_NAME: 'CodeMachine',
+  GIT_AUTHOR_EMAIL: 'snapshots@codemachine.local',
+  GIT_COMMITTER_NAME: 'CodeMachine',
+  GIT_COMMITTER_EMAIL: 'snapshots@codemachine.local',
+};
+
+const WORKTREE_PATHSPEC = ['.', ':(exclude).codemachine'];
+
+/**
+ * A completed step with a recorded snapshot
+ */
+export interface StepSnapshot {
+  stepIndex: number;
+  monitoringId: number;
+  commit: string;
+  completedAt?: string;
+}
+
+export class SnapshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SnapshotError';
+  }
+}
+
+async function git(cwd: string, args: string[], env?: NodeJS.ProcessEnv): Promise<string> {
+  const result = await spawnProcess({ command: 'git', args, cwd, env });
+  if (result.exitCode !== 0) {
+    throw new SnapshotError(`git ${args[0]} failed: ${result.stderr.trim() || `exit code ${result.exitCode}`}`);
+  }
+  return result.stdout.trim();
+}
+
+/**
+ * Check whether a directory is inside a git work tree
+ */
+export async function isGitWorkTree(cwd: string): Promise<boolean> {
+  try {
+    return (await git(cwd, ['rev-parse', '--is-inside-work-tree'])) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+async function resolveHead(cwd: string): Promise<string | null> {
+  try {
+    return await git(cwd, ['rev-parse', '--verify', '--quiet', 'HEAD']);
+  } catch {
+    return null; // No commits yet
+  }
+}
+
+/**
+ * Write the current working tree (tracked and untracked, honoring .gitignore) to a tree object
+ */
+async function writeWorktreeTree(cwd: string, head: string | null): Promise<string> {
+  const tempDir = await mkdtemp(path.join(tmpdir(), 'codemachine-snapshot-'));
+  const env = { GIT_INDEX_FILE: path.join(tempDir, 'index') };
+
+  try {
+    if (head) {
+      await git(cwd, ['read-tree', head], env);
+    }
+    await git(cwd, ['add', '-A', '--', ...WORKTREE_PATHSPEC], env);
+    return await git(cwd, ['write-tree'], env);
+  } finally {
+    await rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Snapshot the working tree for a completed step
+ *
+ * @returns The snapshot commit, or null when cwd is not a git work tree
+ */
+export async function createStepSnapshot(cwd: string, stepIndex: number, label: string): Promise<string | null> {
+  if (!(await isGitWorkTree(cwd))) {
+    debug('[Snapshots] %s is not a git work tree, skipping snapshot', cwd);
+    return null;
+  }
+
+  const head = await resolveHead(cwd);
+  const tree = await writeWorktreeTree(cwd, head);
+  const commit = await git(
+    cwd,
+    ['commit-tree', tree, ...(head ? ['-p', head] : []), '-m', `codemachine snapshot: step ${stepIndex} (${label})`],
+    SNAPSHOT_IDENTITY,
+  );
+  await git(cwd, ['update-ref', `${SNAPSHOT_REF_PREFIX}/step-${stepIndex}`, commit]);
+
+  debug('[Snapshots] Step %d snapshot %s', stepIndex, commit);
+  return commit;
+}
+
+/**
+ * Restore the working tree under cwd to a snapshot
+ *
+ * Files changed since the snapshot are rewritten and files created since are
+ * deleted. The user's index is left as it was.
+ */
+export async function restoreSnapshot(cwd: string, commit: string): Promise<void> {
+  const currentTree = await writeWorktreeTree(cwd, await resolveHead(cwd));
+
+  const added = await git(cwd, [
+    'diff-tree', '-r', '--relative', '--name-only', '--diff-filter=A', '-z', commit, currentTree,
+  ]);
+  for (const file of added.split('\0').filter(Boolean)) {
+    await unlink(path.join(cwd, file)).catch(() => {});
+  }
+
+  await git(cwd, ['restore', `--source=${commit}`, '--worktree', '--', ...WORKTREE_PATHSPEC]);
+}
+
+/**
+ * List completed steps that have a snapshot, in step order
+ */
+export async function getStepSnapshots(cmRoot: string): Promise<StepSnapshot[]> {
+  const snapshots: StepSnapshot[] = [];
+  for (const stepIndex of await getCompletedSteps(cmRoot)) {
+    const stepData = await getStepData(cmRoot, stepIndex);
+    if (stepData?.snapshot) {
+      snapshots.push({
+        stepIndex,
+        monitoringId: stepData.monitoringId,
+        commit: stepData.snapshot,
+        completedAt: stepData.completedAt,
+      });
+    }
+  }
+  return snapshots;
+}
+
+/**
+ * Roll the workflow back to the state right after a step completed
+ *
+ * Restores the step's snapshot, forgets later steps in template.json and
+ * removes their snapshot refs, so the next run resumes at stepIndex + 1.
+ */
+export async function rollbackToStep(cwd: string, cmRoot: string, stepIndex: number): Promise<{ commit: string; removedSteps: number[] }> {
+  const stepData = await getStepData(cmRoot, stepIndex);
+  if (!stepData?.completedAt) {
+    throw new SnapshotError(`Step ${stepIndex} has not completed`);
+  }
+  if (!stepData.snapshot) {
+    throw new SnapshotError(`Step ${stepIndex} has no snapshot (snapshots were not enabled when it completed, or it is not the last step of a parallel group)`);
+  }
+
+  await restoreSnapshot(cwd, stepData.snapshot);
+  const removedSteps = await resetStepsAfter(cmRoot, stepIndex);
+
+  for (const index of removedSteps) {
+    await git(cwd, ['update-ref', '-d', `${SNAPSHOT_REF_PREFIX}/step-${index}`]).catch(() => {});
+  }
+
+  return { commit: stepData.snapshot, removedSteps };
+}
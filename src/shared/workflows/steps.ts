@@ -11,6 +11,8 @@ interface TemplateTracking {
   completedSteps?: Record<string, StepData> | number[]; // Support both old and new formats
   notCompletedSteps?: number[];
   resumeFromLastStep?: boolean;
+  branchDecisions?: Record<string, string | null>; // Branch id -> chosen path (null = no path taken)
+  branchDecisionSteps?: Record<string, number>; // Branch id -> step index it was decided at
 }
 
 /**
@@ -262,9 +264,79 @@ export async function getChainResumeInfo(cmRoot: string): Promise<{
 export async function clearCompletedSteps(cmRoot: string): Promise<void> {
   const { data, trackingPath } = await readTrackingData(cmRoot);
   data.completedSteps = {};
+  delete data.branchDecisions;
+  delete data.branchDecisionSteps;
   await writeTrackingData(trackingPath, data);
 }
 
+/**
+ * Gets the paths chosen so far for branch steps, keyed by branch id.
+ */
+export async function getBranchDecisions(cmRoot: string): Promise<Record<string, string | null>> {
+  const { data } = await readTrackingData(cmRoot);
+  return data.branchDecisions ?? {};
+}
+
+/**
+ * Records the path chosen for a branch step so resumed runs take the same path.
+ * The step index lets a rollback forget decisions made after the rollback point.
+ */
+export async function recordBranchDecision(
+  cmRoot: string,
+  branchId: string,
+  branchPath: string | null,
+  stepIndex?: number
+): Promise<void> {
+  const { data, trackingPath } = await readTrackingData(cmRoot);
+  data.branchDecisions = { ...data.branchDecisions, [branchId]: branchPath };
+  if (stepIndex !== undefined) {
+    data.branchDecisionSteps = { ...data.branchDecisionSteps, [branchId]: stepIndex };
+  }
+  await writeTrackingData(trackingPath, data);
+}
+
+/**
+ * Records the git snapshot taken when a step completed.
+ */
+export async function recordStepSnapshot(cmRoot: string, stepIndex: number, commit: string): Promise<void> {
+  const { data, trackingPath } = await readTrackingData(cmRoot);
+  const completedSteps = data.completedSteps as Record<string, StepData>;
+  const existing = completedSteps[String(stepIndex)];
+
+  if (existing) {
+    existing.snapshot = commit;
+    await writeTrackingData(trackingPath, data);
+  }
+}
+
+/**
+ * Resets tracking so the workflow resumes right after the given step.
+ * Forgets later steps, in-progress steps and branch decisions made after it.
+ */
+export async function resetStepsAfter(cmRoot: string, stepIndex: number): Promise<number[]> {
+  const { data, trackingPath } = await readTrackingData(cmRoot);
+  const completedSteps = data.completedSteps as Record<string, StepData>;
+
+  const removed = Object.keys(completedSteps)
+    .map((key) => parseInt(key, 10))
+    .filter((index) => index > stepIndex)
+    .sort((a, b) => a - b);
+  for (const index of removed) {
+    delete completedSteps[String(index)];
+  }
+  data.notCompletedSteps = [];
+
+  for (const [branchId, decidedAt] of Object.entries(data.branchDecisionSteps ?? {})) {
+    if (decidedAt > stepIndex) {
+      delete data.branchDecisions?.[branchId];
+      delete data.branchDecisionSteps?.[branchId];
+    }
+  }
+
+  await writeTrackingData(trackingPath, data);
+  return removed;
+}
+
 /**
  * Gets the list of steps that started but have not completed yet.
  */
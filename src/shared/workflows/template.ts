@@ -21,6 +21,8 @@ export interface StepData {
   completedChains?: number[];
   /** ISO timestamp when step fully completed (presence indicates step is done) */
   completedAt?: string;
+  /** Git snapshot commit of the working tree when the step completed (see snapshots.ts) */
+  snapshot?: string;
 }
 
 /**
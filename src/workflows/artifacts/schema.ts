@@ -0,0 +1,95 @@
+/**
+ * Minimal JSON Schema validation for JSON artifacts
+ *
+ * Supports type, properties, required, additionalProperties, items,
+ * minItems/maxItems, enum, minLength, pattern and minimum/maximum.
+ */
+
+import type { JsonSchema, JsonSchemaType } from './types.js';
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  // Every integer is also a number
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function childPath(parent: string, key: string | number): string {
+  return typeof key === 'number' ? `${parent}[${key}]` : `${parent}.${key}`;
+}
+
+/**
+ * Validate a parsed JSON value against a schema
+ *
+ * @returns One message per violation, prefixed with the JSON path (`$.tasks[0].title must be a string`)
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, at = '$'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push(`${at} must be ${types.map((type) => (type === 'array' || type === 'object' ? `an ${type}` : `a ${type}`)).join(' or ')} (got ${typeOf(value)})`);
+      return errors;
+    }
+  }
+
+  if (schema.enum !== undefined && !schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${at} must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${at} must be at least ${schema.minLength} characters long`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${at} must match ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${at} must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${at} must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${at} must have at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${at} must have at most ${schema.maxItems} item${schema.maxItems === 1 ? '' : 's'}`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateJsonSchema(item, schema.items!, childPath(at, index))));
+    }
+  } else if (value && typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!Object.hasOwn(obj, key)) {
+        errors.push(`${childPath(at, key)} is required`);
+      }
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...validateJsonSchema(child, propertySchema, childPath(at, key)));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${childPath(at, key)} is not allowed`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJsonSchema(child, schema.additionalProperties, childPath(at, key)));
+      }
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,211 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { getCodemachineFiles } from '../../shared/config/paths.js';
+import { isGlobPattern, matchGlobPattern } from '../../shared/prompts/content/glob.js';
+import { debug } from '../../shared/logging/logger.js';
+import type { ModuleStep } from '../templates/types.js';
+import { validateJsonSchema } from './schema.js';
+import type { ArtifactRecord, ArtifactSpec, JsonSchema } from './types.js';
+
+/**
+ * Outcome of checking the artifacts a step declares
+ */
+export interface ArtifactVerification {
+  records: ArtifactRecord[];
+  /** Artifacts that fail the step: invalid ones, and missing ones that are not optional */
+  failures: ArtifactRecord[];
+}
+
+/**
+ * Prompt asking an agent to fix the artifacts its step failed to produce
+ */
+export function formatArtifactCorrection(failures: ArtifactRecord[]): string {
+  return [
+    'Your step did not produce the artifacts it declares:',
+    ...failures.flatMap((record) => [
+      `- ${record.name} (${record.format}, ${record.path}):`,
+      ...(record.errors ?? []).map((error) => `  - ${error}`),
+    ]),
+    '',
+    'Write or fix these files, then finish your work.',
+  ].join('\n');
+}
+
+function isFailure(record: ArtifactRecord): boolean {
+  return record.status === 'invalid' || (record.status === 'missing' && !record.optional);
+}
+
+function pendingRecord(spec: ArtifactSpec, step: ModuleStep, stepIndex: number): ArtifactRecord {
+  return {
+    name: spec.name,
+    path: spec.path,
+    format: spec.format ?? 'text',
+    producer: step.agentId,
+    stepIndex,
+    status: 'pending',
+    optional: spec.optional,
+    files: [],
+  };
+}
+
+/**
+ * Registry of the artifacts workflow steps declare in `produces`
+ *
+ * After a step completes the runner checks its artifacts here: the files must
+ * exist, be non-empty and, for JSON artifacts, parse and match their schema.
+ * Results are kept in `.codemachine/workflow/artifacts.json` so steps that
+ * `consume` an artifact (and resumed runs) can see what is available.
+ */
+export class ArtifactRegistry {
+  private readonly cwd: string;
+  private readonly registryFile: string;
+  // Parallel steps verify concurrently; registry writes go through a queue
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(cwd: string) {
+    this.cwd = cwd;
+    this.registryFile = getCodemachineFiles(cwd).artifacts;
+  }
+
+  /**
+   * All recorded artifacts by name
+   */
+  async getAll(): Promise<Record<string, ArtifactRecord>> {
+    try {
+      const content = await fs.promises.readFile(this.registryFile, 'utf8');
+      const records = JSON.parse(content) as unknown;
+      return records && typeof records === 'object' && !Array.isArray(records)
+        ? (records as Record<string, ArtifactRecord>)
+        : {};
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Current record of every artifact the steps declare, pending when not verified yet
+   */
+  async list(steps: ModuleStep[]): Promise<ArtifactRecord[]> {
+    const recorded = await this.getAll();
+    return steps.flatMap((step, stepIndex) =>
+      (step.produces ?? []).map((spec) => {
+        const record = recorded[spec.name];
+        return record?.stepIndex === stepIndex ? record : pendingRecord(spec, step, stepIndex);
+      }),
+    );
+  }
+
+  /**
+   * Names of consumed artifacts that are not available (never verified, missing or invalid)
+   */
+  async findUnavailable(names: string[]): Promise<string[]> {
+    const recorded = await this.getAll();
+    return names.filter((name) => recorded[name]?.status !== 'valid');
+  }
+
+  /**
+   * Check the declared artifacts of a completed step and record the results
+   */
+  async verify(step: ModuleStep, stepIndex: number): Promise<ArtifactVerification> {
+    const records: ArtifactRecord[] = [];
+    for (const spec of step.produces ?? []) {
+      records.push(await this.check(spec, step, stepIndex));
+    }
+    if (records.length > 0) {
+      await this.update((all) => {
+        for (const record of records) all[record.name] = record;
+      });
+    }
+    return { records, failures: records.filter(isFailure) };
+  }
+
+  /**
+   * Drop records of steps from the given index on (they will run again)
+   */
+  async truncate(fromStepIndex: number): Promise<void> {
+    await this.update((all) => {
+      for (const [name, record] of Object.entries(all)) {
+        if (record.stepIndex >= fromStepIndex) delete all[name];
+      }
+    });
+  }
+
+  private async check(spec: ArtifactSpec, step: ModuleStep, stepIndex: number): Promise<ArtifactRecord> {
+    const record = pendingRecord(spec, step, stepIndex);
+    record.updatedAt = new Date().toISOString();
+
+    const absolutePath = path.resolve(this.cwd, spec.path);
+    const files = isGlobPattern(spec.path)
+      ? await matchGlobPattern(this.cwd, spec.path)
+      : fs.existsSync(absolutePath) ? [absolutePath] : [];
+    record.files = files.map((file) => path.relative(this.cwd, file));
+
+    if (files.length === 0) {
+      record.status = 'missing';
+      record.errors = [`no file matches ${spec.path}`];
+      return record;
+    }
+
+    const errors: string[] = [];
+    const schema = record.format === 'json' && spec.schema ? await this.loadSchema(spec.schema, errors) : undefined;
+    for (const [index, file] of files.entries()) {
+      errors.push(...(await this.checkFile(file, record.files[index], record.format, schema)));
+    }
+
+    record.status = errors.length > 0 ? 'invalid' : 'valid';
+    if (errors.length > 0) record.errors = errors;
+    return record;
+  }
+
+  private async checkFile(file: string, label: string, format: ArtifactRecord['format'], schema?: JsonSchema): Promise<string[]> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(file, 'utf8');
+    } catch (error) {
+      return [`cannot read ${label}: ${(error as Error).message}`];
+    }
+    if (content.trim() === '') {
+      return [`${label} is empty`];
+    }
+    if (format !== 'json') {
+      return [];
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      return [`${label} is not valid JSON: ${(error as Error).message}`];
+    }
+    return schema ? validateJsonSchema(parsed, schema).map((error) => `${label}: ${error}`) : [];
+  }
+
+  private async loadSchema(schema: JsonSchema | string, errors: string[]): Promise<JsonSchema | undefined> {
+    if (typeof schema !== 'string') return schema;
+    try {
+      return JSON.parse(await fs.promises.readFile(path.resolve(this.cwd, schema), 'utf8')) as JsonSchema;
+    } catch (error) {
+      errors.push(`cannot load schema ${schema}: ${(error as Error).message}`);
+      return undefined;
+    }
+  }
+
+  private update(change: (all: Record<string, ArtifactRecord>) => void): Promise<void> {
+    this.writes = this.writes
+      .then(async () => {
+        const all = await this.getAll();
+        change(all);
+        await fs.promises.mkdir(path.dirname(this.registryFile), { recursive: true });
+        await fs.promises.writeFile(this.registryFile, JSON.stringify(all, null, 2));
+      })
+      .catch((error) => debug('[Artifacts] Failed to write %s: %o', this.registryFile, error));
+    return this.writes;
+  }
+}
+
+/**
+ * Factory function to create an ArtifactRegistry for a working directory
+ */
+export function createArtifactRegistry(cwd: string): ArtifactRegistry {
+  return new ArtifactRegistry(cwd);
+}
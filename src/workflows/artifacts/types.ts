@@ -0,0 +1,63 @@
+/**
+ * Artifact file formats the runner knows how to check
+ */
+export type ArtifactFormat = 'markdown' | 'json' | 'text';
+
+export const ARTIFACT_FORMATS: ArtifactFormat[] = ['markdown', 'json', 'text'];
+
+/**
+ * Subset of JSON Schema supported for JSON artifacts
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  enum?: unknown[];
+  minLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+}
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+/**
+ * An output a module step declares in `produces`
+ */
+export interface ArtifactSpec {
+  name: string; // Unique name other steps refer to in `consumes`
+  path: string; // Relative to the project; the file name may be a glob (e.g. tasks_*.json)
+  format?: ArtifactFormat; // Default: 'text'
+  schema?: JsonSchema | string; // JSON artifacts: inline schema or path to a schema file
+  optional?: boolean; // A missing optional artifact does not fail the step
+  description?: string;
+}
+
+/**
+ * Verification state of an artifact
+ * - pending: its step has not completed yet
+ * - valid: all files exist and pass the format/schema checks
+ * - invalid: a file failed a check
+ * - missing: no file matched the path
+ */
+export type ArtifactStatus = 'pending' | 'valid' | 'invalid' | 'missing';
+
+/**
+ * Registry entry of an artifact, persisted in `.codemachine/workflow/artifacts.json`
+ */
+export interface ArtifactRecord {
+  name: string;
+  path: string;
+  format: ArtifactFormat;
+  producer: string; // Agent ID of the producing step
+  stepIndex: number;
+  status: ArtifactStatus;
+  optional?: boolean;
+  files: string[]; // Matched files, relative to the project
+  errors?: string[];
+  updatedAt?: string; // When the artifact was last verified
+}
@@ -0,0 +1,42 @@
+import type { BehaviorAction } from '../types.js';
+import { createBehaviorDecisionService } from '../service.js';
+
+export interface BranchEvaluationOptions {
+  cwd: string;
+  paths: string[];
+  defaultPath?: string;
+  /** Decision to use instead of reading behavior.json (e.g. from the decision history) */
+  decision?: BehaviorAction | null;
+}
+
+export interface BranchEvaluationResult {
+  path: string | null;
+  source: 'behavior' | 'default' | 'none';
+  reason?: string;
+}
+
+export async function evaluateBranchBehavior(options: BranchEvaluationOptions): Promise<BranchEvaluationResult> {
+  const { cwd, paths, defaultPath } = options;
+  const fallback: BranchEvaluationResult = defaultPath && paths.includes(defaultPath)
+    ? { path: defaultPath, source: 'default' }
+    : { path: null, source: 'none' };
+
+  // Use the given decision, or read behavior.json (missing or invalid = no decision)
+  const behaviorAction = options.decision !== undefined
+    ? options.decision
+    : await createBehaviorDecisionService(cwd).readDecision();
+  if (!behaviorAction) {
+    return fallback;
+  }
+
+  // Only a path this branch knows about counts as a decision
+  if (typeof behaviorAction.path === 'string' && paths.includes(behaviorAction.path)) {
+    return {
+      path: behaviorAction.path,
+      source: 'behavior',
+      reason: behaviorAction.reason,
+    };
+  }
+
+  return fallback;
+}
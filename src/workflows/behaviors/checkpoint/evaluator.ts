@@ -1,7 +1,5 @@
-import * as fs from 'node:fs';
-import * as path from 'node:path';
 import type { ModuleBehavior } from '../../templates/index.js';
-import type { BehaviorAction } from '../types.js';
+import { createBehaviorDecisionService } from '../service.js';
 
 export interface CheckpointEvaluationOptions {
   behavior?: ModuleBehavior;
@@ -20,20 +18,9 @@ export async function evaluateCheckpointBehavior(options: CheckpointEvaluationOp
   // Checkpoint is universal - any agent can write checkpoint to behavior.json
   // No need to check if step has checkpoint behavior configured
 
-  // Check for behavior file
-  const behaviorFile = path.join(cwd, '.codemachine', 'memory', 'behavior.json');
-
-  // Read and parse behavior action
-  let behaviorAction: BehaviorAction;
-  try {
-    const content = await fs.promises.readFile(behaviorFile, 'utf8');
-    behaviorAction = JSON.parse(content);
-  } catch (error) {
-    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-      // No file = no special behavior, continue normally
-      return null;
-    }
-    console.error(`Failed to parse behavior file: ${error instanceof Error ? error.message : String(error)}`);
+  // Missing or invalid behavior.json = no special behavior, continue normally
+  const behaviorAction = await createBehaviorDecisionService(cwd).readDecision();
+  if (!behaviorAction) {
     return null;
   }
 
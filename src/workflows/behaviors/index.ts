@@ -1,4 +1,5 @@
 export * from './types.js';
+export * from './service.js';
 export * from './skip.js';
 export * from './loop/controller.js';
 export * from './loop/evaluator.js';
@@ -6,3 +7,4 @@ export * from './trigger/controller.js';
 export * from './trigger/evaluator.js';
 export * from './checkpoint/controller.js';
 export * from './checkpoint/evaluator.js';
+export * from './branch/evaluator.js';
@@ -0,0 +1,201 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { getCodemachineFiles } from '../../shared/config/paths.js';
+import { debug } from '../../shared/logging/logger.js';
+import {
+  validateEnum,
+  validateNonEmptyString,
+  validateObject,
+  ValidationError,
+  type ValidationResult,
+  validResult,
+  invalidResult,
+} from '../../shared/validation/index.js';
+import type { BehaviorAction, BehaviorDecisionRecord, BehaviorReadResult } from './types.js';
+
+/**
+ * Current version of the behavior.json schema
+ */
+export const BEHAVIOR_SCHEMA_VERSION = 1;
+
+export const BEHAVIOR_ACTIONS: BehaviorAction['action'][] = ['continue', 'loop', 'stop', 'checkpoint', 'trigger', 'error'];
+
+/**
+ * Validate a parsed behavior.json against the current schema
+ */
+export function validateBehaviorAction(value: unknown): ValidationResult<BehaviorAction> {
+  const objResult = validateObject(value, 'behavior');
+  if (!objResult.valid) return objResult as unknown as ValidationResult<BehaviorAction>;
+
+  const obj = objResult.value!;
+  const errors: ValidationError[] = [];
+
+  if (obj.version !== undefined && obj.version !== BEHAVIOR_SCHEMA_VERSION) {
+    errors.push(ValidationError.invalidValue('version', obj.version, `must be ${BEHAVIOR_SCHEMA_VERSION}`));
+  }
+
+  if (obj.action === undefined) {
+    errors.push(ValidationError.required('action'));
+  } else {
+    const actionResult = validateEnum(obj.action, 'action', BEHAVIOR_ACTIONS);
+    if (!actionResult.valid) errors.push(...actionResult.errors);
+  }
+
+  for (const field of ['reason', 'triggerAgentId', 'path'] as const) {
+    if (obj[field] !== undefined) {
+      const fieldResult = validateNonEmptyString(obj[field], field);
+      if (!fieldResult.valid) errors.push(...fieldResult.errors);
+    }
+  }
+
+  if (errors.length > 0) {
+    return invalidResult(errors);
+  }
+  return validResult(obj as unknown as BehaviorAction);
+}
+
+/**
+ * Prompt asking an agent to rewrite an invalid behavior.json
+ */
+export function formatBehaviorCorrection(errors: string[]): string {
+  return [
+    'Your `.codemachine/memory/behavior.json` is not valid:',
+    ...errors.map((error) => `- ${error}`),
+    '',
+    `Rewrite it as a JSON object with \`"action"\` set to one of: ${BEHAVIOR_ACTIONS.join(', ')}.`,
+    'Optional string fields: `reason`, `triggerAgentId` (for trigger) and `path` (to choose a branch path).',
+    `Example: {"version": ${BEHAVIOR_SCHEMA_VERSION}, "action": "continue", "reason": "All tasks are done"}`,
+  ].join('\n');
+}
+
+/**
+ * Single access point for behavior.json decisions and their history
+ *
+ * Agents write their decision to `.codemachine/memory/behavior.json`. The
+ * workflow reads and validates it here, and archives one record per completed
+ * step in `behavior-history.json` for the UI and for resumed runs.
+ */
+export class BehaviorDecisionService {
+  private readonly behaviorFile: string;
+  private readonly historyFile: string;
+
+  constructor(cwd: string) {
+    const files = getCodemachineFiles(cwd);
+    this.behaviorFile = files.behavior;
+    this.historyFile = files.behaviorHistory;
+  }
+
+  /**
+   * Read and validate the current decision
+   */
+  async read(): Promise<BehaviorReadResult> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.behaviorFile, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { status: 'missing' };
+      }
+      return { status: 'invalid', errors: [`Cannot read behavior.json: ${(error as Error).message}`] };
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      return { status: 'invalid', errors: [`Invalid JSON: ${(error as Error).message}`] };
+    }
+
+    const result = validateBehaviorAction(parsed);
+    if (!result.valid) {
+      const errors = result.errors.map((error) => error.message);
+      debug('[Behavior] Invalid behavior.json: %s', errors.join('; '));
+      return { status: 'invalid', errors };
+    }
+    return { status: 'valid', decision: result.value! };
+  }
+
+  /**
+   * Read the current decision, or null when there is none or it is invalid
+   */
+  async readDecision(): Promise<BehaviorAction | null> {
+    const result = await this.read();
+    return result.status === 'valid' ? result.decision : null;
+  }
+
+  /**
+   * Reset behavior.json to the default decision before a step runs
+   */
+  async reset(): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.behaviorFile), { recursive: true });
+    const decision: BehaviorAction = { version: BEHAVIOR_SCHEMA_VERSION, action: 'continue' };
+    await fs.promises.writeFile(this.behaviorFile, JSON.stringify(decision, null, 2));
+  }
+
+  /**
+   * Archive the decision of a completed step (a missing behavior.json is not archived)
+   */
+  async archive(stepIndex: number, agentId: string, result: BehaviorReadResult): Promise<BehaviorDecisionRecord | null> {
+    if (result.status === 'missing') return null;
+
+    const record: BehaviorDecisionRecord = {
+      stepIndex,
+      agentId,
+      timestamp: new Date().toISOString(),
+      ...(result.status === 'valid' ? { decision: result.decision } : { errors: result.errors }),
+    };
+    const history = await this.getHistory();
+    history.push(record);
+    await this.writeHistory(history);
+    return record;
+  }
+
+  /**
+   * All archived decisions, oldest first
+   */
+  async getHistory(): Promise<BehaviorDecisionRecord[]> {
+    try {
+      const content = await fs.promises.readFile(this.historyFile, 'utf8');
+      const history = JSON.parse(content) as unknown;
+      return Array.isArray(history) ? (history as BehaviorDecisionRecord[]) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Valid decision archived by the given step (its latest run), if any
+   */
+  async getDecision(stepIndex: number): Promise<BehaviorAction | null> {
+    const history = await this.getHistory();
+    for (let i = history.length - 1; i >= 0; i--) {
+      if (history[i].stepIndex === stepIndex) {
+        return history[i].decision ?? null;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Drop records of steps from the given index on (they will run again)
+   */
+  async truncateHistory(fromStepIndex: number): Promise<void> {
+    const history = await this.getHistory();
+    const kept = history.filter((record) => record.stepIndex < fromStepIndex);
+    if (kept.length !== history.length) {
+      await this.writeHistory(kept);
+    }
+  }
+
+  private async writeHistory(history: BehaviorDecisionRecord[]): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.historyFile), { recursive: true });
+    await fs.promises.writeFile(this.historyFile, JSON.stringify(history, null, 2));
+  }
+}
+
+/**
+ * Factory function to create a BehaviorDecisionService for a working directory
+ */
+export function createBehaviorDecisionService(cwd: string): BehaviorDecisionService {
+  return new BehaviorDecisionService(cwd);
+}
@@ -32,12 +32,15 @@ export function shouldSkipStep(
   }
 
   // Condition-based filtering: skip if step has conditions and not ALL are met
+  // ('!name' is met when name is NOT selected, as in isStepSelected)
   if (step.conditions?.length) {
     const userConditions = selectedConditions ?? [];
-    const missingConditions = step.conditions.filter(c => !userConditions.includes(c));
-    if (missingConditions.length > 0) {
+    const unmetConditions = step.conditions.filter(c =>
+      c.startsWith('!') ? userConditions.includes(c.slice(1)) : !userConditions.includes(c)
+    );
+    if (unmetConditions.length > 0) {
       emitter?.updateAgentStatus(agentId, 'skipped');
-      return { skip: true, reason: `${step.agentName} skipped (missing conditions: ${missingConditions.join(', ')}).` };
+      return { skip: true, reason: `${step.agentName} skipped (unmet conditions: ${unmetConditions.join(', ')}).` };
     }
   }
 
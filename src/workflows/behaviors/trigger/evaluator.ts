@@ -1,7 +1,6 @@
-import * as fs from 'node:fs';
-import * as path from 'node:path';
 import type { ModuleBehavior } from '../../templates/index.js';
-import type { BehaviorAction } from '../types.js';
+import { createBehaviorDecisionService } from '../service.js';
+import { warn } from '../../../shared/logging/logger.js';
 
 export interface TriggerEvaluationOptions {
   behavior?: ModuleBehavior;
@@ -22,20 +21,9 @@ export async function evaluateTriggerBehavior(options: TriggerEvaluationOptions)
     return null;
   }
 
-  // Check for behavior file
-  const behaviorFile = path.join(cwd, '.codemachine', 'memory', 'behavior.json');
-
-  // Read and parse behavior action
-  let behaviorAction: BehaviorAction;
-  try {
-    const content = await fs.promises.readFile(behaviorFile, 'utf8');
-    behaviorAction = JSON.parse(content);
-  } catch (error) {
-    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-      // No file = no special behavior, continue normally
-      return null;
-    }
-    console.error(`Failed to parse behavior file: ${error instanceof Error ? error.message : String(error)}`);
+  // Missing or invalid behavior.json = no special behavior, continue normally
+  const behaviorAction = await createBehaviorDecisionService(cwd).readDecision();
+  if (!behaviorAction) {
     return null;
   }
 
@@ -44,7 +32,7 @@ export async function evaluateTriggerBehavior(options: TriggerEvaluationOptions)
     const targetAgentId = behaviorAction.triggerAgentId || behavior.triggerAgentId;
 
     if (!targetAgentId) {
-      console.error('Trigger action requires triggerAgentId in behavior.json or module configuration');
+      warn('Trigger action requires triggerAgentId in behavior.json or module configuration');
       return null;
     }
 
@@ -1,5 +1,28 @@
 export interface BehaviorAction {
+  version?: number; // Schema version (BEHAVIOR_SCHEMA_VERSION); missing means the current version
   action: 'loop' | 'checkpoint' | 'continue' | 'trigger' | 'stop' | 'error';
   reason?: string;
   triggerAgentId?: string; // Required when action is 'trigger'
+  path?: string; // Path for the next branch step to take
+}
+
+/**
+ * Outcome of reading behavior.json
+ */
+export type BehaviorReadResult =
+  | { status: 'missing' }
+  | { status: 'valid'; decision: BehaviorAction }
+  | { status: 'invalid'; errors: string[] };
+
+/**
+ * A decision archived when its step completed
+ */
+export interface BehaviorDecisionRecord {
+  stepIndex: number;
+  agentId: string;
+  timestamp: string;
+  /** The decision, or undefined when the agent never wrote a valid one */
+  decision?: BehaviorAction;
+  /** Validation errors of the last invalid behavior.json */
+  errors?: string[];
 }
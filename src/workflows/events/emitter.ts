@@ -16,6 +16,8 @@ import type {
   UIElementInfo,
   WorkflowEvent,
 } from './types.js';
+import type { BehaviorDecisionRecord } from '../behaviors/types.js';
+import type { ArtifactRecord } from '../artifacts/types.js';
 import type {
   AgentStatus,
   AgentTelemetry,
@@ -26,6 +28,8 @@ import type {
   WorkflowStatus,
   SubAgentState,
   TriggeredAgentState,
+  EngineCircuitState,
+  StepGroup,
 } from '../../cli/tui/routes/workflow/state/types.js';
 
 /**
@@ -110,7 +114,8 @@ export class WorkflowEventEmitter {
     stepIndex: number,
     totalSteps: number,
     status: AgentStatus = 'pending',
-    model?: string
+    model?: string,
+    groups?: StepGroup[]
   ): void {
     debug('[Emitter] agent:added id=%s name=%s engine=%s step=%d/%d status=%s',
       agentId, name, engine, stepIndex, totalSteps, status);
@@ -126,6 +131,7 @@ export class WorkflowEventEmitter {
       stepIndex,
       totalSteps,
       status,
+      groups,
     };
 
     this.bus.emit({
@@ -229,6 +235,29 @@ export class WorkflowEventEmitter {
     });
   }
 
+  /**
+   * Emit the archived behavior decision of a completed step
+   */
+  recordBehaviorDecision(agentId: string, record: BehaviorDecisionRecord): void {
+    debug('[Emitter] behavior:decision id=%s step=%d', agentId, record.stepIndex);
+    this.bus.emit({
+      type: 'behavior:decision',
+      agentId,
+      record,
+    });
+  }
+
+  /**
+   * Emit the current state of a declared artifact
+   */
+  updateArtifact(artifact: ArtifactRecord): void {
+    debug('[Emitter] artifact:update name=%s status=%s', artifact.name, artifact.status);
+    this.bus.emit({
+      type: 'artifact:update',
+      artifact,
+    });
+  }
+
   // ─────────────────────────────────────────────────────────────────
   // Sub-Agents
   // ─────────────────────────────────────────────────────────────────
@@ -474,6 +503,18 @@ export class WorkflowEventEmitter {
       reason,
     });
   }
+
+  /**
+   * Emit engine circuit breaker state change
+   */
+  engineCircuitChanged(engineId: string, state: EngineCircuitState): void {
+    debug('[Emitter] engine:circuit engineId=%s state=%s', engineId, state);
+    this.bus.emit({
+      type: 'engine:circuit',
+      engineId,
+      state,
+    });
+  }
 }
 
 /**
@@ -15,7 +15,11 @@ import type {
   WorkflowStatus,
   SubAgentState,
   TriggeredAgentState,
+  EngineCircuitState,
+  StepGroup,
 } from '../shared/types.js';
+import type { BehaviorDecisionRecord } from '../behaviors/types.js';
+import type { ArtifactRecord } from '../artifacts/types.js';
 
 /**
  * Agent information for adding to UI
@@ -28,6 +32,7 @@ export interface AgentInfo {
   stepIndex: number;
   totalSteps: number;
   status: AgentStatus;
+  groups?: StepGroup[];
 }
 
 /**
@@ -53,6 +58,10 @@ export type WorkflowEvent =
   | { type: 'agent:goal'; agentId: string; goal: string }
   | { type: 'agent:current-file'; agentId: string; file: string }
   | { type: 'agent:current-action'; agentId: string; action: string }
+  | { type: 'behavior:decision'; agentId: string; record: BehaviorDecisionRecord }
+
+  // Artifact registry events (declared at start, then after each verification)
+  | { type: 'artifact:update'; artifact: ArtifactRecord }
 
   // Sub-agent events
   | { type: 'subagent:added'; parentId: string; subAgent: SubAgentState }
@@ -94,7 +103,8 @@ export type WorkflowEvent =
   // Engine rate limit events
   | { type: 'engine:rate-limited'; engineId: string; resetsAt?: Date; retryAfterSeconds?: number }
   | { type: 'engine:available'; engineId: string }
-  | { type: 'engine:fallback'; fromEngine: string; toEngine: string; reason: string };
+  | { type: 'engine:fallback'; fromEngine: string; toEngine: string; reason: string }
+  | { type: 'engine:circuit'; engineId: string; state: EngineCircuitState };
 
 /**
  * Extract event type from WorkflowEvent union
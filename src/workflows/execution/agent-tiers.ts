@@ -0,0 +1,119 @@
+/**
+ * Agent Tiers
+ *
+ * Collects the complexity tiers declared for agents (agent definitions and
+ * workflow templates) and estimates tiers of undeclared agents from their
+ * token usage history, for tier-based model selection in engine presets.
+ */
+
+import { collectAgentDefinitions, type AgentDefinition } from '../../shared/agents/index.js';
+import { AgentMonitorService, type AgentUsageRecord } from '../../agents/monitoring/index.js';
+import { debug } from '../../shared/logging/logger.js';
+import { collectModuleSteps } from '../templates/index.js';
+import type { WorkflowTemplate } from '../templates/types.js';
+import {
+  isAgentTier,
+  type AgentTier,
+  type AgentTierConfig,
+  type EngineConfigFile,
+  type TierEstimationConfig,
+} from './engine-presets.js';
+
+export const DEFAULT_TIER_ESTIMATION: Required<TierEstimationConfig> = {
+  complexTokens: 150_000,
+  simpleTokens: 20_000,
+  minRuns: 3,
+};
+
+/**
+ * Tiers declared on agent definitions (invalid values are ignored)
+ */
+export function collectDefinitionTiers(agents: AgentDefinition[]): Record<string, AgentTier> {
+  const tiers: Record<string, AgentTier> = {};
+  for (const agent of agents) {
+    if (agent.tier === undefined) continue;
+    if (isAgentTier(agent.tier)) {
+      tiers[agent.id] = agent.tier;
+    } else {
+      debug('[AgentTiers] Ignoring invalid tier %s of agent %s', String(agent.tier), agent.id);
+    }
+  }
+  return tiers;
+}
+
+/**
+ * Tiers declared in a workflow template: its `tiers` map, overridden by
+ * the `tier` of each step
+ */
+export function collectWorkflowTiers(template: WorkflowTemplate): Record<string, AgentTier> {
+  const tiers: Record<string, AgentTier> = { ...template.tiers };
+  for (const step of collectModuleSteps(template.steps)) {
+    if (step.tier) tiers[step.agentId] = step.tier;
+  }
+  return tiers;
+}
+
+/**
+ * Estimate tiers from completed runs: agents averaging at least
+ * `complexTokens` per run are complex, those under `simpleTokens` simple,
+ * the rest standard. Agents with fewer than `minRuns` runs are left out.
+ */
+export function estimateAgentTiers(
+  records: AgentUsageRecord[],
+  config: TierEstimationConfig = {},
+): Record<string, AgentTier> {
+  const { complexTokens, simpleTokens, minRuns } = { ...DEFAULT_TIER_ESTIMATION, ...config };
+
+  const usage = new Map<string, { runs: number; tokens: number }>();
+  for (const record of records) {
+    if (record.status !== 'completed') continue;
+    // tokensIn excludes cached input, which still counts towards the size of the task
+    const tokens = record.tokensIn + record.tokensOut + (record.cacheReadTokens ?? 0) + (record.cacheCreationTokens ?? 0);
+    const entry = usage.get(record.name) ?? { runs: 0, tokens: 0 };
+    entry.runs += 1;
+    entry.tokens += tokens;
+    usage.set(record.name, entry);
+  }
+
+  const tiers: Record<string, AgentTier> = {};
+  for (const [agentId, { runs, tokens }] of usage) {
+    if (runs < minRuns) continue;
+    const average = tokens / runs;
+    tiers[agentId] = average >= complexTokens ? 1 : average < simpleTokens ? 3 : 2;
+  }
+  return tiers;
+}
+
+/**
+ * Load the tier config for a workflow: tiers declared on agent definitions
+ * and in the template, plus estimates when engine-config.json enables
+ * `tierEstimation`
+ */
+export async function loadAgentTierConfig(
+  cwd: string,
+  engineConfig: EngineConfigFile | null,
+  template?: WorkflowTemplate,
+): Promise<AgentTierConfig> {
+  const config: AgentTierConfig = {
+    workflow: template ? collectWorkflowTiers(template) : {},
+    agents: {},
+  };
+
+  try {
+    config.agents = collectDefinitionTiers(await collectAgentDefinitions(cwd));
+  } catch (error) {
+    debug('[AgentTiers] Failed to load agent definitions: %s', error instanceof Error ? error.message : String(error));
+  }
+
+  const estimation = engineConfig?.tierEstimation;
+  if (estimation) {
+    try {
+      const records = AgentMonitorService.getInstance().getUsage();
+      config.estimated = estimateAgentTiers(records, estimation === true ? {} : estimation);
+    } catch (error) {
+      debug('[AgentTiers] Failed to estimate tiers: %s', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  return config;
+}
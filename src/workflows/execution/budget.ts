@@ -0,0 +1,244 @@
+/**
+ * Token and Cost Budgets
+ *
+ * Tracks token and cost usage per workflow, step (agent) and engine against
+ * budgets declared in the workflow template or .codemachine/budgets.json,
+ * reporting each warning threshold and limit once as it is crossed. Limits
+ * already exceeded are reported again by `exceeded()` whenever a run starts.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { debug } from '../../shared/logging/logger.js';
+import { validateBudgetConfig } from '../templates/validator.js';
+import type { AgentTelemetry } from '../shared/types.js';
+
+/**
+ * Limits for a single budget (either or both may be set)
+ */
+export interface BudgetLimit {
+  /** Maximum input + output tokens */
+  maxTokens?: number;
+  /** Maximum cost in USD */
+  maxCost?: number;
+}
+
+/**
+ * What the runner does when a budget is exceeded
+ */
+export type BudgetExceededAction = 'pause' | 'switch-engine';
+
+/**
+ * Budget configuration (template `budgets` field or .codemachine/budgets.json)
+ */
+export interface BudgetConfig {
+  /** Budget for the whole workflow run */
+  workflow?: BudgetLimit;
+  /** Budgets per step, keyed by agent ID */
+  steps?: Record<string, BudgetLimit>;
+  /** Budgets per engine, keyed by engine ID */
+  engines?: Record<string, BudgetLimit>;
+  /** Fractions of a limit that log a warning (default: [0.8]) */
+  warnAt?: number[];
+  /** Action once a limit is reached (default: 'pause') */
+  onExceeded?: BudgetExceededAction;
+  /** Preset used to pick a cheaper engine for 'switch-engine' */
+  switchPreset?: string;
+}
+
+export type BudgetScope = 'workflow' | 'step' | 'engine';
+export type BudgetMetric = 'tokens' | 'cost';
+
+/**
+ * A crossed warning threshold or limit
+ */
+export interface BudgetAlert {
+  level: 'warning' | 'exceeded';
+  scope: BudgetScope;
+  /** Agent ID or engine ID (empty for the workflow scope) */
+  key: string;
+  metric: BudgetMetric;
+  used: number;
+  limit: number;
+}
+
+/**
+ * Where a piece of usage was spent
+ */
+export interface UsageSource {
+  /** Agent ID of the step, if the usage belongs to a workflow step */
+  agentId?: string;
+  /** Engine that produced the usage, if known */
+  engine?: string;
+}
+
+/** Default warning threshold */
+export const DEFAULT_BUDGET_WARN_AT = [0.8];
+
+const BUDGET_CONFIG_FILE = 'budgets.json';
+
+interface Usage {
+  tokens: number;
+  cost: number;
+}
+
+/**
+ * Accumulates usage and reports budget alerts
+ */
+export class BudgetTracker {
+  private usage = new Map<string, Usage>();
+  private reported = new Set<string>();
+  private warnAt: number[];
+
+  constructor(private config: BudgetConfig) {
+    this.warnAt = (config.warnAt ?? DEFAULT_BUDGET_WARN_AT).filter((fraction) => fraction > 0 && fraction < 1);
+  }
+
+  /**
+   * Add a telemetry delta and return any thresholds crossed by it
+   */
+  record(source: UsageSource, telemetry: Partial<AgentTelemetry>): BudgetAlert[] {
+    const tokens = (telemetry.tokensIn ?? 0) + (telemetry.tokensOut ?? 0);
+    const cost = telemetry.cost ?? 0;
+    if (tokens === 0 && cost === 0) return [];
+
+    const alerts: BudgetAlert[] = [];
+    for (const { scope, key, limit } of this.scopes(source)) {
+      const id = `${scope}:${key}`;
+      const usage = this.usage.get(id) ?? { tokens: 0, cost: 0 };
+      usage.tokens += tokens;
+      usage.cost += cost;
+      this.usage.set(id, usage);
+
+      if (!limit) continue;
+      if (limit.maxTokens !== undefined) {
+        alerts.push(...this.check(scope, key, 'tokens', usage.tokens, limit.maxTokens));
+      }
+      if (limit.maxCost !== undefined) {
+        alerts.push(...this.check(scope, key, 'cost', usage.cost, limit.maxCost));
+      }
+    }
+    return alerts;
+  }
+
+  /**
+   * Limits already reached by the scopes a run for the source would spend in,
+   * whether or not they were reported before
+   */
+  exceeded(source: UsageSource): BudgetAlert[] {
+    const alerts: BudgetAlert[] = [];
+    for (const { scope, key, limit } of this.scopes(source)) {
+      const usage = this.getUsage(scope, key);
+      if (limit?.maxTokens !== undefined && usage.tokens >= limit.maxTokens) {
+        alerts.push({ level: 'exceeded', scope, key, metric: 'tokens', used: usage.tokens, limit: limit.maxTokens });
+      }
+      if (limit?.maxCost !== undefined && usage.cost >= limit.maxCost) {
+        alerts.push({ level: 'exceeded', scope, key, metric: 'cost', used: usage.cost, limit: limit.maxCost });
+      }
+    }
+    return alerts;
+  }
+
+  /**
+   * Usage so far for a scope
+   */
+  getUsage(scope: BudgetScope, key = ''): Usage {
+    return { ...(this.usage.get(`${scope}:${key}`) ?? { tokens: 0, cost: 0 }) };
+  }
+
+  private scopes(source: UsageSource): { scope: BudgetScope; key: string; limit?: BudgetLimit }[] {
+    const scopes: { scope: BudgetScope; key: string; limit?: BudgetLimit }[] = [
+      { scope: 'workflow', key: '', limit: this.config.workflow },
+    ];
+    if (source.agentId) {
+      scopes.push({ scope: 'step', key: source.agentId, limit: this.config.steps?.[source.agentId] });
+    }
+    if (source.engine) {
+      scopes.push({ scope: 'engine', key: source.engine, limit: this.config.engines?.[source.engine] });
+    }
+    return scopes;
+  }
+
+  private check(scope: BudgetScope, key: string, metric: BudgetMetric, used: number, limit: number): BudgetAlert[] {
+    const id = `${scope}:${key}:${metric}`;
+    if (used >= limit) {
+      if (this.reported.has(`${id}:exceeded`)) return [];
+      // Reaching the limit also covers any warning not yet reported
+      for (const fraction of this.warnAt) this.reported.add(`${id}:${fraction}`);
+      this.reported.add(`${id}:exceeded`);
+      return [{ level: 'exceeded', scope, key, metric, used, limit }];
+    }
+
+    const crossed = this.warnAt.filter((fraction) => used >= limit * fraction && !this.reported.has(`${id}:${fraction}`));
+    if (crossed.length === 0) return [];
+    for (const fraction of crossed) this.reported.add(`${id}:${fraction}`);
+    return [{ level: 'warning', scope, key, metric, used, limit }];
+  }
+}
+
+/**
+ * Describe an alert for the agent log
+ */
+export function formatBudgetAlert(alert: BudgetAlert): string {
+  const name = alert.scope === 'workflow' ? 'Workflow' : `${alert.scope === 'step' ? 'Step' : 'Engine'} '${alert.key}'`;
+  const amount = (value: number) =>
+    alert.metric === 'cost' ? `$${value.toFixed(2)}` : `${Math.round(value).toLocaleString('en-US')} tokens`;
+  const percent = Math.round((alert.used / alert.limit) * 100);
+
+  return alert.level === 'exceeded'
+    ? `${name} exceeded its budget: ${amount(alert.used)} of ${amount(alert.limit)}`
+    : `${name} has used ${percent}% of its budget: ${amount(alert.used)} of ${amount(alert.limit)}`;
+}
+
+/**
+ * Combine budgets from .codemachine config and the template (template wins per key)
+ */
+export function mergeBudgetConfigs(
+  base: BudgetConfig | null | undefined,
+  override: BudgetConfig | null | undefined,
+): BudgetConfig | undefined {
+  if (!base) return override ?? undefined;
+  if (!override) return base;
+
+  return {
+    ...base,
+    ...override,
+    workflow: override.workflow ?? base.workflow,
+    steps: { ...base.steps, ...override.steps },
+    engines: { ...base.engines, ...override.engines },
+  };
+}
+
+/**
+ * Load budgets from .codemachine/budgets.json
+ *
+ * Budgets are checked with the rules applied to template budgets; a file
+ * that is not valid JSON or breaks them throws.
+ */
+export async function loadBudgetConfig(cmRoot: string): Promise<BudgetConfig | null> {
+  const configPath = path.join(cmRoot, BUDGET_CONFIG_FILE);
+
+  let content: string;
+  try {
+    content = await fs.readFile(configPath, 'utf-8');
+  } catch (_error) {
+    // File doesn't exist
+    debug('[Budget] No budget config found at %s', configPath);
+    return null;
+  }
+
+  let config: unknown;
+  try {
+    config = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid budgets in .codemachine/${BUDGET_CONFIG_FILE}: ${(error as Error).message}`);
+  }
+
+  const errors = validateBudgetConfig(config, BUDGET_CONFIG_FILE);
+  if (errors.length > 0) {
+    throw new Error(`Invalid budgets in .codemachine/${BUDGET_CONFIG_FILE}:\n- ${errors.join('\n- ')}`);
+  }
+
+  debug('[Budget] Loaded config from %s', configPath);
+  return config as BudgetConfig;
+}
@@ -0,0 +1,342 @@
+/**
+ * Workflow Dry Run
+ *
+ * Builds the execution plan of a workflow without running any agent: the
+ * steps in order with the engine and model each would use, the size of its
+ * rendered prompt, and the loop and trigger edges between steps.
+ */
+
+import * as path from 'node:path';
+
+import { registry } from '../../infra/engines/index.js';
+import { assemblePrompt } from '../../shared/prompts/index.js';
+import {
+  getCompletedSteps,
+  getResumeStartIndex,
+  getSelectedConditions,
+  getSelectedTrack,
+  getTemplatePathFromTracking,
+} from '../../shared/workflows/index.js';
+import { flattenWorkflowSteps, loadTemplateWithPath } from '../templates/index.js';
+import { isModuleStep, type ModuleStep, type StepGroup } from '../templates/types.js';
+import { shouldSkipStep } from '../behaviors/skip.js';
+import {
+  loadEngineConfig,
+  resolveEngineAndModelForAgent,
+  resolveEngineForAgent,
+  setAgentTierConfig,
+  assertEngineConfigModels,
+  type EngineConfigFile,
+  type EngineSelectionContext,
+} from './engine-presets.js';
+import { loadAgentTierConfig } from './agent-tiers.js';
+import { resolvePromptBudget, type PromptBudgetConfig } from './prompt-budget.js';
+import { readStepPrompt } from './step.js';
+
+/**
+ * Where the engine of a planned step comes from
+ * - 'preset': --engine/--preset or engine-config.json
+ * - 'step': the step's `engine` in the template
+ * - 'default': registry default (at runtime, the first authenticated engine)
+ */
+export type PlannedEngineSource = 'preset' | 'step' | 'default';
+
+export interface PlannedStep {
+  /** Index the runner uses for the step (undefined when filtered out by track or conditions) */
+  index?: number;
+  agentId: string;
+  agentName: string;
+  engine: string;
+  engineSource: PlannedEngineSource;
+  model?: string;
+  /** Why the step will not run (track, conditions, already completed) */
+  skipped?: string;
+  /** Step lies before the resume point and is not run again */
+  resumed?: boolean;
+  /** Estimated tokens of the rendered prompt */
+  promptTokens?: number;
+  /** Prompt budget of the step */
+  promptBudget?: number;
+  /** Placeholders were cut to fit the budget */
+  promptTrimmed?: boolean;
+  /** The prompt is over budget even after trimming */
+  promptOverBudget?: boolean;
+  /** The prompt could not be rendered */
+  promptError?: string;
+  groups?: StepGroup[];
+}
+
+export interface PlannedEdge {
+  kind: 'loop' | 'trigger';
+  /** Index of the step whose behavior creates the edge */
+  from: number;
+  /** Loop: index the runner rewinds to */
+  to?: number;
+  /** Trigger: agent that is called */
+  agentId?: string;
+  maxIterations?: number;
+}
+
+export interface ExecutionPlan {
+  workflow: string;
+  templatePath: string;
+  track: string | null;
+  conditions: string[];
+  /** Index the next `codemachine start` resumes at */
+  startIndex: number;
+  steps: PlannedStep[];
+  edges: PlannedEdge[];
+  totals: {
+    steps: number;
+    runnable: number;
+    promptTokens: number;
+    promptErrors: number;
+  };
+}
+
+export interface ExecutionPlanOptions {
+  cwd: string;
+  templatePath?: string;
+  engineOverride?: string;
+  enginePreset?: string;
+}
+
+/**
+ * Build the execution plan of the active workflow template
+ *
+ * Follows what `codemachine start` would do: the same template, track and
+ * conditions, engine selection (without authentication checks) and prompt
+ * assembly. Prompts that cannot be rendered are reported on their step.
+ */
+export async function buildExecutionPlan(options: ExecutionPlanOptions): Promise<ExecutionPlan> {
+  const cwd = path.resolve(options.cwd);
+  const cmRoot = path.join(cwd, '.codemachine');
+  const templatePath = options.templatePath || (await getTemplatePathFromTracking(cmRoot));
+  const { template, resolvedPath } = await loadTemplateWithPath(cwd, templatePath);
+
+  const track = await getSelectedTrack(cmRoot);
+  const conditions = await getSelectedConditions(cmRoot);
+  const completedSteps = await getCompletedSteps(cmRoot);
+  const startIndex = await getResumeStartIndex(cmRoot);
+
+  const engineConfig = await loadEngineConfig(cmRoot);
+  assertEngineConfigModels(engineConfig);
+  // Tier models of presets follow the same tiers as a run
+  setAgentTierConfig(await loadAgentTierConfig(cwd, engineConfig, template));
+  const selectionContext: EngineSelectionContext | null =
+    options.engineOverride || options.enginePreset
+      ? { globalEngine: options.engineOverride, preset: options.enginePreset }
+      : null;
+  const defaultEngine = await registry.getDefaultAsync();
+
+  const steps: PlannedStep[] = [];
+  const edges: PlannedEdge[] = [];
+
+  // Flatten without a selection so filtered steps still show up in the plan.
+  // The runner indexes module steps only, so UI steps take no index.
+  let index = 0;
+  for (const step of flattenWorkflowSteps(template.steps, null)) {
+    if (!isModuleStep(step)) continue;
+
+    const planned = await planEngine(step, selectionContext, engineConfig, defaultEngine?.metadata.id);
+    steps.push(planned);
+    const filtered = shouldSkipStep(step, index, [], null, undefined, undefined, track, conditions);
+    if (filtered.skip) {
+      planned.skipped = filtered.reason;
+      continue;
+    }
+
+    planned.index = index;
+    await renderPrompt(planned, step, template.promptBudget, cwd);
+    const completed = shouldSkipStep(step, index, completedSteps, null, undefined, undefined, track, conditions);
+    if (completed.skip) planned.skipped = completed.reason;
+    if (index < startIndex) planned.resumed = true;
+
+    const behavior = step.module?.behavior;
+    if (behavior?.type === 'loop') {
+      edges.push({ kind: 'loop', from: index, to: Math.max(0, index - behavior.steps), maxIterations: behavior.maxIterations });
+    } else if (behavior?.type === 'trigger') {
+      edges.push({ kind: 'trigger', from: index, agentId: behavior.triggerAgentId });
+    }
+    index += 1;
+  }
+
+  const runnable = steps.filter((s) => !s.skipped && !s.resumed);
+  return {
+    workflow: template.name,
+    templatePath: resolvedPath,
+    track,
+    conditions,
+    startIndex,
+    steps,
+    edges,
+    totals: {
+      steps: steps.length,
+      runnable: runnable.length,
+      promptTokens: runnable.reduce((sum, s) => sum + (s.promptTokens ?? 0), 0),
+      promptErrors: steps.filter((s) => s.promptError).length,
+    },
+  };
+}
+
+/**
+ * Engine and model of a step, in the order selectEngine and the runner use
+ */
+async function planEngine(
+  step: ModuleStep,
+  selectionContext: EngineSelectionContext | null,
+  engineConfig: EngineConfigFile | null,
+  defaultEngineId: string | undefined,
+): Promise<PlannedStep> {
+  const presetEngine = resolveEngineForAgent(step.agentId, selectionContext, engineConfig);
+  const engine = presetEngine ?? step.engine ?? defaultEngineId ?? 'unknown';
+  const model =
+    resolveEngineAndModelForAgent(step.agentId, selectionContext, engineConfig)?.model ??
+    step.model ??
+    (await registry.getAsync(engine))?.metadata.defaultModel;
+
+  return {
+    agentId: step.agentId,
+    agentName: step.agentName,
+    engine,
+    engineSource: presetEngine ? 'preset' : step.engine ? 'step' : 'default',
+    model,
+    groups: step.groups,
+  };
+}
+
+async function renderPrompt(
+  planned: PlannedStep,
+  step: ModuleStep,
+  templateBudget: PromptBudgetConfig | undefined,
+  cwd: string,
+): Promise<void> {
+  try {
+    const rawPrompt = await readStepPrompt(step, cwd);
+    // No engine is called: a 'summarize' budget falls back to truncating
+    const budget = await resolvePromptBudget({ ...step, engine: planned.engine, model: planned.model }, templateBudget, cwd);
+    const { report } = await assemblePrompt(rawPrompt, cwd, budget && { ...budget, summarize: undefined });
+    planned.promptTokens = report.estimatedTokens;
+    planned.promptBudget = report.maxTokens;
+    planned.promptTrimmed = report.trimmed;
+    planned.promptOverBudget = report.overBudget;
+  } catch (error) {
+    planned.promptError = error instanceof Error ? error.message : String(error);
+  }
+}
+
+function groupKey(group: StepGroup): string {
+  return group.kind === 'branch' ? `${group.id}/${group.path}` : group.id;
+}
+
+function groupLabel(group: StepGroup): string {
+  return group.kind === 'branch' ? `${group.label}: ${group.path}` : `${group.label} (parallel)`;
+}
+
+/**
+ * Label of a planned step: name, engine and model, prompt size
+ */
+export function describePlannedStep(step: PlannedStep): string {
+  const engine = step.model ? `${step.engine} · ${step.model}` : step.engine;
+  const prompt = step.promptError
+    ? 'prompt error'
+    : step.promptTokens !== undefined
+      ? `~${step.promptTokens} tokens${step.promptTrimmed ? ' (trimmed)' : ''}`
+      : '';
+  return [engine, prompt].filter(Boolean).join(' · ');
+}
+
+/**
+ * Render the plan as a Mermaid flowchart
+ *
+ * Parallel groups and branch paths become subgraphs; members of a parallel
+ * group fan out from the previous step, branch paths are alternatives.
+ * Loop and trigger edges are dotted. Steps filtered out by track or
+ * conditions are left out; skipped and resumed steps are drawn dashed.
+ */
+export function formatPlanMermaid(plan: ExecutionPlan): string {
+  const escape = (text: string) => text.replace(/"/g, '#quot;');
+  const nodes = plan.steps.filter((step): step is PlannedStep & { index: number } => step.index !== undefined);
+  const lines = ['flowchart TD'];
+  const edges: string[] = [];
+  let subgraphCount = 0;
+
+  // Emit nodes at one group depth and return the nodes a run starts and ends with
+  const build = (items: typeof nodes, depth: number, indent: string): { entries: string[]; exits: string[] } => {
+    let previous: string[] = [];
+    let first: string[] | null = null;
+
+    for (let start = 0; start < items.length;) {
+      const group = items[start].groups?.[depth];
+      let end = start + 1;
+      while (group && end < items.length && items[end].groups?.[depth]?.id === group.id) end += 1;
+      const run = items.slice(start, end);
+      start = end;
+
+      let entries: string[];
+      let exits: string[];
+      if (!group) {
+        const step = run[0];
+        const id = `s${step.index}`;
+        lines.push(`${indent}${id}["${escape(`${step.index}. ${step.agentName}`)}<br/>${escape(describePlannedStep(step))}"]`);
+        entries = exits = [id];
+      } else {
+        // Branch paths each get their own subgraph, parallel groups one
+        const parts = new Map<string, typeof nodes>();
+        for (const step of run) {
+          const key = groupKey(step.groups![depth]);
+          parts.set(key, [...(parts.get(key) ?? []), step]);
+        }
+        entries = [];
+        exits = [];
+        for (const part of parts.values()) {
+          subgraphCount += 1;
+          lines.push(`${indent}subgraph g${subgraphCount}["${escape(groupLabel(part[0].groups![depth]))}"]`);
+          if (group.kind === 'parallel') {
+            for (const step of part) {
+              const inner = build([step], depth + 1, `${indent}  `);
+              entries.push(...inner.entries);
+              exits.push(...inner.exits);
+            }
+          } else {
+            const inner = build(part, depth + 1, `${indent}  `);
+            entries.push(...inner.entries);
+            exits.push(...inner.exits);
+          }
+          lines.push(`${indent}end`);
+        }
+      }
+
+      for (const from of previous) {
+        for (const to of entries) edges.push(`  ${from} --> ${to}`);
+      }
+      first ??= entries;
+      previous = exits;
+    }
+
+    return { entries: first ?? [], exits: previous };
+  };
+
+  build(nodes, 0, '  ');
+  lines.push(...edges);
+
+  for (const edge of plan.edges) {
+    if (edge.kind === 'loop') {
+      const target = nodes.find((step) => step.index >= (edge.to ?? 0));
+      if (!target) continue;
+      const label = edge.maxIterations !== undefined ? `loop ≤${edge.maxIterations}` : 'loop';
+      lines.push(`  s${edge.from} -. "${label}" .-> s${target.index}`);
+    } else if (edge.agentId) {
+      const id = `t_${edge.agentId.replace(/[^A-Za-z0-9_]/g, '_')}`;
+      lines.push(`  s${edge.from} -. trigger .-> ${id}(["${escape(edge.agentId)}"])`);
+    }
+  }
+
+  const dashed = nodes.filter((step) => step.skipped || step.resumed);
+  if (dashed.length > 0) {
+    lines.push('  classDef skipped stroke-dasharray: 5 5,color:#888');
+    lines.push(`  class ${dashed.map((step) => `s${step.index}`).join(',')} skipped`);
+  }
+
+  return lines.join('\n');
+}
@@ -8,7 +8,7 @@
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 import { debug } from '../../shared/logging/logger.js';
-import { registry } from '../../infra/engines/index.js';
+import { checkModel, findModel, getEngineModels, registry } from '../../infra/engines/index.js';
 
 /**
  * Built-in preset names
@@ -48,11 +48,99 @@ const AGENT_TIERS: Record<string, AgentTier> = {
 /** Default tier for unknown agents */
 const DEFAULT_TIER: AgentTier = 2;
 
+const TIER_NAMES: Record<AgentTier, string> = {
+  1: 'complex',
+  2: 'standard',
+  3: 'simple',
+};
+
+/**
+ * Where an agent's tier comes from
+ * - 'workflow': the template's `tiers` map or the step's `tier`
+ * - 'agent': the agent definition's `tier`
+ * - 'built-in': the built-in tier of a CodeMachine agent
+ * - 'estimated': estimated from the agent's token usage history
+ * - 'default': none of the above (standard tier)
+ */
+export type AgentTierSource = 'workflow' | 'agent' | 'built-in' | 'estimated' | 'default';
+
+/**
+ * Tiers configured for the current workflow, by agent ID
+ */
+export interface AgentTierConfig {
+  workflow?: Record<string, AgentTier>;
+  agents?: Record<string, AgentTier>;
+  estimated?: Record<string, AgentTier>;
+}
+
+/**
+ * Thresholds for estimating tiers from token usage history
+ */
+export interface TierEstimationConfig {
+  /** Average tokens per run at or above which an agent is complex (default: 150000) */
+  complexTokens?: number;
+  /** Average tokens per run below which an agent is simple (default: 20000) */
+  simpleTokens?: number;
+  /** Completed runs needed before an agent is estimated (default: 3) */
+  minRuns?: number;
+}
+
+// Module-level tier config (set at workflow start)
+let currentTierConfig: AgentTierConfig | null = null;
+
+/**
+ * Check if a value is a valid agent tier
+ */
+export function isAgentTier(value: unknown): value is AgentTier {
+  return value === 1 || value === 2 || value === 3;
+}
+
+/**
+ * Set the agent tier config for the current workflow
+ */
+export function setAgentTierConfig(config: AgentTierConfig | null): void {
+  currentTierConfig = config;
+  if (config) {
+    debug('[EnginePresets] Tier config set: workflow=%d, agents=%d, estimated=%d',
+      Object.keys(config.workflow ?? {}).length,
+      Object.keys(config.agents ?? {}).length,
+      Object.keys(config.estimated ?? {}).length
+    );
+  } else {
+    debug('[EnginePresets] Tier config cleared');
+  }
+}
+
+/**
+ * Resolve an agent's tier and where it comes from
+ *
+ * Priority order (highest to lowest):
+ * 1. Workflow template (`tiers` map or step `tier`)
+ * 2. Agent definition `tier`
+ * 3. Built-in tier of CodeMachine agents
+ * 4. Estimate from token usage history (when enabled)
+ * 5. Default (standard)
+ */
+export function resolveAgentTier(agentId: string): { tier: AgentTier; source: AgentTierSource } {
+  const workflowTier = currentTierConfig?.workflow?.[agentId];
+  if (workflowTier) return { tier: workflowTier, source: 'workflow' };
+
+  const agentTier = currentTierConfig?.agents?.[agentId];
+  if (agentTier) return { tier: agentTier, source: 'agent' };
+
+  if (AGENT_TIERS[agentId]) return { tier: AGENT_TIERS[agentId], source: 'built-in' };
+
+  const estimatedTier = currentTierConfig?.estimated?.[agentId];
+  if (estimatedTier) return { tier: estimatedTier, source: 'estimated' };
+
+  return { tier: DEFAULT_TIER, source: 'default' };
+}
+
 /**
  * Get the tier for an agent
  */
 export function getAgentTier(agentId: string): AgentTier {
-  return AGENT_TIERS[agentId] ?? DEFAULT_TIER;
+  return resolveAgentTier(agentId).tier;
 }
 
 /**
@@ -79,6 +167,8 @@ export interface EngineConfigFile {
   overrides?: Record<string, string>;
   /** Whether to enable fallback to other engines on rate limit (default: true) */
   fallbackEnabled?: boolean;
+  /** Estimate tiers of agents without a declared tier from their token usage history */
+  tierEstimation?: boolean | TierEstimationConfig;
 }
 
 /**
@@ -96,17 +186,17 @@ const BUILT_IN_PRESETS: Record<BuiltInPreset, EnginePresetConfig> = {
   'all-gemini': {
     defaultEngine: 'gemini',
     modelByTier: {
-      1: 'gemini-1.5-pro',
-      2: 'gemini-1.5-pro',
-      3: 'gemini-1.5-flash',
+      1: 'gemini-2.5-pro',
+      2: 'gemini-2.5-pro',
+      3: 'gemini-2.5-flash',
     },
   },
   'all-codex': {
     defaultEngine: 'codex',
     modelByTier: {
-      1: 'gpt-4o',
-      2: 'gpt-4o',
-      3: 'gpt-4o-mini',
+      1: 'gpt-5-codex',
+      2: 'gpt-5-codex',
+      3: 'gpt-5-codex-mini',
     },
   },
   'all-cursor': {
@@ -195,6 +285,77 @@ export function getAvailableEngineIds(): string[] {
   return registry.getAllIds();
 }
 
+/**
+ * Get the IDs of agents with a known tier assignment: built-in agents, then
+ * agents with a tier in the current tier config
+ */
+export function getTieredAgentIds(): string[] {
+  return [...new Set([
+    ...Object.keys(AGENT_TIERS),
+    ...Object.keys(currentTierConfig?.workflow ?? {}),
+    ...Object.keys(currentTierConfig?.agents ?? {}),
+    ...Object.keys(currentTierConfig?.estimated ?? {}),
+  ])];
+}
+
+/**
+ * Get model choices for an engine: the tier models of its built-in preset,
+ * the rest of its model catalog, then the engine's default model from the
+ * registry when the catalog does not list it
+ */
+export function getEngineModelOptions(engineId: string): string[] {
+  const models: string[] = [];
+  for (const config of Object.values(BUILT_IN_PRESETS)) {
+    if (config.defaultEngine === engineId && config.modelByTier) {
+      models.push(...Object.values(config.modelByTier));
+    }
+  }
+
+  // Catalog models already offered under an alias are skipped
+  for (const info of getEngineModels(engineId)) {
+    if (!models.some((model) => findModel(engineId, model) === info)) {
+      models.push(info.id);
+    }
+  }
+
+  const defaultModel = registry.getAllMetadata().find((metadata) => metadata.id === engineId)?.defaultModel;
+  if (defaultModel && !findModel(engineId, defaultModel)) {
+    models.push(defaultModel);
+  }
+
+  return [...new Set(models)];
+}
+
+/**
+ * Check the tier models of custom presets against the model catalog of
+ * their engine
+ *
+ * @returns one message per unknown model
+ */
+export function validateEngineConfigModels(configFile: EngineConfigFile | null): string[] {
+  const errors: string[] = [];
+  for (const [name, preset] of Object.entries(configFile?.presets ?? {})) {
+    if (!preset.defaultEngine || !preset.modelByTier) continue;
+    for (const [tier, model] of Object.entries(preset.modelByTier)) {
+      const modelError = checkModel(preset.defaultEngine, model);
+      if (modelError) {
+        errors.push(`Preset '${name}' tier ${tier}: ${modelError}`);
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Throw when custom presets use models unknown to their engine
+ */
+export function assertEngineConfigModels(configFile: EngineConfigFile | null): void {
+  const errors = validateEngineConfigModels(configFile);
+  if (errors.length > 0) {
+    throw new Error(`Invalid models in .codemachine/engine-config.json:\n- ${errors.join('\n- ')}`);
+  }
+}
+
 /**
  * Validate that an engine ID exists in the registry
  */
@@ -392,9 +553,13 @@ function resolvePresetConfig(
 }
 
 /**
- * Get a human-readable description of available presets
+ * Get a human-readable description of available presets and the effective
+ * tier of each agent (defaults to the agents with a known tier)
  */
-export function describeAvailablePresets(configFile: EngineConfigFile | null): string {
+export function describeAvailablePresets(
+  configFile: EngineConfigFile | null,
+  agentIds: string[] = getTieredAgentIds()
+): string {
   const lines: string[] = ['Available presets:'];
 
   // Built-in presets
@@ -414,6 +579,15 @@ export function describeAvailablePresets(configFile: EngineConfigFile | null): s
     }
   }
 
+  // Effective tiers select the tier model of a preset
+  if (agentIds.length > 0) {
+    lines.push('  Agent tiers:');
+    for (const agentId of agentIds) {
+      const { tier, source } = resolveAgentTier(agentId);
+      lines.push(`    ${agentId}: ${tier} (${TIER_NAMES[tier]}, ${source})`);
+    }
+  }
+
   return lines.join('\n');
 }
 
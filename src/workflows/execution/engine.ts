@@ -1,4 +1,4 @@
-import { registry, engineAuthCache } from '../../infra/engines/index.js';
+import { registry, engineAuthCache, isCircuitOpen } from '../../infra/engines/index.js';
 import { debug } from '../../shared/logging/logger.js';
 import type { WorkflowEventEmitter } from '../events/index.js';
 import {
@@ -7,6 +7,7 @@ import {
   resolveEngineAndModelForAgent,
   isFallbackEnabled,
   type EngineConfigFile,
+  type EngineSelectionContext,
 } from './engine-presets.js';
 
 // Re-export for backwards compatibility (deprecated - use engineAuthCache from infra/engines instead)
@@ -181,7 +182,7 @@ export async function selectEngine(
       const presetName = selectionContext?.preset ?? selectionContext?.globalEngine ?? 'config';
       emitter.logMessage(uniqueAgentId, `Using ${presetEngineModule?.metadata.name ?? presetEngine} (${presetName})`);
       debug(`[DEBUG workflow] Engine determined from preset: ${presetEngine}`);
-      return presetEngine;
+      return avoidOpenCircuit(presetEngine, emitter, uniqueAgentId, isFallbackEnabled(selectionContext, cachedConfig));
     } else {
       const pretty = presetEngineModule?.metadata.name ?? presetEngine;
       emitter.logMessage(uniqueAgentId, `${pretty} from preset is not authenticated; falling back to step/default engine`);
@@ -281,9 +282,54 @@ export async function selectEngine(
   }
 
   debug(`[DEBUG workflow] Engine determined: ${engineType}`);
+  return avoidOpenCircuit(engineType, emitter, uniqueAgentId, fallbackAllowed);
+}
+
+/**
+ * Engine fallback for step runs: swap an engine whose circuit breaker is open
+ * for the first authenticated engine with a working circuit. Keeps the engine
+ * if fallback is disabled or no other engine is usable (the run then fails
+ * fast with CircuitOpenError).
+ */
+async function avoidOpenCircuit(
+  engineType: string,
+  emitter: WorkflowEventEmitter,
+  uniqueAgentId: string,
+  fallbackAllowed: boolean
+): Promise<string> {
+  if (!fallbackAllowed || !isCircuitOpen(engineType)) {
+    return engineType;
+  }
+
+  const engines = await registry.getAllAsync();
+  for (const engine of engines) {
+    const engineId = engine.metadata.id;
+    if (engineId === engineType || isCircuitOpen(engineId)) continue;
+
+    const isAuth = await engineAuthCache.isAuthenticated(engineId, () => engine.auth.isAuthenticated());
+    if (isAuth) {
+      emitter.logMessage(uniqueAgentId, `${engineType} is failing repeatedly (circuit open); using ${engine.metadata.name} (${engineId})`);
+      return engineId;
+    }
+  }
+
+  debug(`[DEBUG workflow] ${engineType} circuit is open and no other engine is available`);
   return engineType;
 }
 
+/**
+ * Resolve the engine (and tier model, if the preset maps one) that a preset
+ * assigns to an agent, used to move agents to a cheaper engine once a budget
+ * is exceeded
+ */
+export function resolvePresetEngine(agentId: string, preset: string): { engine: string; model?: string } | undefined {
+  const context: EngineSelectionContext = { preset };
+  const engine = resolveEngineForAgent(agentId, context, getCachedConfigFile());
+  if (!engine) return undefined;
+  const resolution = resolveEngineAndModelForAgent(agentId, context, getCachedConfigFile());
+  return { engine, model: resolution?.engine === engine ? resolution.model : undefined };
+}
+
 /**
  * Get the model from preset configuration for an agent
  *
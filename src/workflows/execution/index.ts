@@ -4,3 +4,4 @@ export * from './step.js';
 export * from '../behaviors/index.js';
 export * from './rate-limit-manager.js';
 export * from './engine-fallback.js';
+export * from './dry-run.js';
@@ -0,0 +1,108 @@
+/**
+ * Prompt Budgets
+ *
+ * Resolves the token budget a step's assembled prompt must fit in, from the
+ * template or step `promptBudget` and the engine's context window, and
+ * provides the engine-backed summarizer used by the 'summarize' strategy.
+ */
+
+import { findModel, getEngine, registry } from '../../infra/engines/index.js';
+import type { PromptBudget, PromptSummarizer, PromptTrimStrategy } from '../../shared/prompts/index.js';
+import { debug } from '../../shared/logging/logger.js';
+import type { ModuleStep } from '../templates/types.js';
+
+/**
+ * Share of the model's context window a prompt may use by default,
+ * leaving the rest for the agent's own work
+ */
+export const DEFAULT_PROMPT_SHARE = 0.5;
+
+const SUMMARIZE_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Prompt budget configuration (template or step `promptBudget` field)
+ */
+export interface PromptBudgetConfig {
+  /** Maximum prompt tokens (default: `share` of the model's context window) */
+  maxTokens?: number;
+  /** Share of the context window used when maxTokens is not set (default: 0.5) */
+  share?: number;
+  /** How to trim an oversized prompt (default: 'drop-optional') */
+  strategy?: PromptTrimStrategy;
+  /** Context windows of models the model catalog does not describe, keyed by model */
+  contextWindows?: Record<string, number>;
+  /** Engine used to summarize for the 'summarize' strategy (default: the step's engine) */
+  summarizeEngine?: string;
+  /** Model used to summarize (default: the summarize engine's default model) */
+  summarizeModel?: string;
+}
+
+/**
+ * Resolve the prompt budget of a step
+ *
+ * @returns undefined when no limit is known (no maxTokens and no context window)
+ */
+export async function resolvePromptBudget(
+  step: ModuleStep,
+  config: PromptBudgetConfig | undefined,
+  cwd: string,
+  abortSignal?: AbortSignal,
+): Promise<PromptBudget | undefined> {
+  const merged: PromptBudgetConfig = { ...config, ...step.promptBudget };
+  const engineModule = step.engine ? await registry.getAsync(step.engine) : await registry.getDefaultAsync();
+  const metadata = engineModule?.metadata;
+
+  // contextWindows first, then the model catalog, then the engine's window for its default model
+  const model = step.model ?? metadata?.defaultModel;
+  const contextWindow =
+    (model ? merged.contextWindows?.[model] : undefined) ??
+    (model && metadata ? findModel(metadata.id, model)?.contextWindow : undefined) ??
+    (!step.model || step.model === metadata?.defaultModel ? metadata?.contextWindow : undefined);
+
+  const maxTokens = merged.maxTokens ?? (contextWindow ? Math.floor(contextWindow * (merged.share ?? DEFAULT_PROMPT_SHARE)) : undefined);
+  if (!maxTokens) {
+    return undefined;
+  }
+
+  const strategy = merged.strategy ?? 'drop-optional';
+  const summarizeEngine = merged.summarizeEngine ?? metadata?.id;
+  return {
+    maxTokens,
+    strategy,
+    summarize:
+      strategy === 'summarize' && summarizeEngine
+        ? createEngineSummarizer(summarizeEngine, merged.summarizeModel, cwd, abortSignal)
+        : undefined,
+  };
+}
+
+/**
+ * Summarizer that asks an engine to condense placeholder content
+ */
+export function createEngineSummarizer(
+  engineId: string,
+  model: string | undefined,
+  cwd: string,
+  abortSignal?: AbortSignal,
+): PromptSummarizer {
+  return async (content: string, maxTokens: number): Promise<string> => {
+    debug('[PromptBudget] Summarizing %d chars to ~%d tokens with %s', content.length, maxTokens, engineId);
+    const engine = await getEngine(engineId);
+    const result = await engine.run({
+      prompt: [
+        `Summarize the following content in at most ${maxTokens} tokens.`,
+        'Keep names, decisions, requirements, interfaces and open items; drop examples and repetition.',
+        'Reply with the summary only.',
+        '',
+        '<content>',
+        content,
+        '</content>',
+      ].join('\n'),
+      workingDir: cwd,
+      model,
+      abortSignal,
+      timeout: SUMMARIZE_TIMEOUT_MS,
+    });
+    return result.stdout.trim();
+  };
+}
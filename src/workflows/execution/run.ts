@@ -10,7 +10,7 @@
 import * as path from 'node:path';
 
 import type { RunWorkflowOptions, WorkflowStep, WorkflowTemplate } from '../templates/types.js';
-import { loadTemplateWithPath } from '../templates/index.js';
+import { loadTemplateWithPath, flattenWorkflowSteps, collectModuleSteps } from '../templates/index.js';
 import { debug, setDebugLogFile } from '../../shared/logging/logger.js';
 import {
   getTemplatePathFromTracking,
@@ -18,7 +18,7 @@ import {
   getSelectedTrack,
   getSelectedConditions,
 } from '../../shared/workflows/index.js';
-import { registry } from '../../infra/engines/index.js';
+import { registry, onEngineCircuitChange } from '../../infra/engines/index.js';
 import { MonitoringCleanup } from '../../agents/monitoring/index.js';
 import { WorkflowEventBus, WorkflowEventEmitter } from '../events/index.js';
 import { getControlBus } from '../control/index.js';
@@ -28,9 +28,13 @@ import {
   setEngineSelectionContext,
   clearEngineSelectionContext,
   loadEngineConfig,
+  setAgentTierConfig,
+  assertEngineConfigModels,
   type EngineSelectionContext,
 } from './engine-presets.js';
 import { setEngineConfigFile, clearEngineConfigFile } from './engine.js';
+import { loadAgentTierConfig } from './agent-tiers.js';
+import { loadBudgetConfig, mergeBudgetConfigs } from './budget.js';
 
 export { validateSpecification, ValidationError } from '../../runtime/services/index.js';
 export type { WorkflowStep, WorkflowTemplate };
@@ -46,7 +50,7 @@ export async function runWorkflow(options: RunWorkflowOptions = {}): Promise<voi
   await validateSpecification(specificationPath);
 
   // Clear screen for TUI
-  if (process.stdout.isTTY) {
+  if (!options.headless && process.stdout.isTTY) {
     process.stdout.write('\x1b[2J\x1b[H');
   }
 
@@ -69,7 +73,10 @@ export async function runWorkflow(options: RunWorkflowOptions = {}): Promise<voi
 
   // Set up engine selection context from CLI options
   const engineConfig = await loadEngineConfig(cmRoot);
+  assertEngineConfigModels(engineConfig);
   setEngineConfigFile(engineConfig);
+  setAgentTierConfig(await loadAgentTierConfig(cwd, engineConfig, template));
+  const budgetConfig = await loadBudgetConfig(cmRoot);
 
   if (options.engineOverride || options.enginePreset || options.engineOverrides) {
     const selectionContext: EngineSelectionContext = {
@@ -86,8 +93,7 @@ export async function runWorkflow(options: RunWorkflowOptions = {}): Promise<voi
 
   // Sync agent configurations
   const workflowAgents = Array.from(
-    template.steps
-      .filter((step) => step.type === 'module')
+    collectModuleSteps(template.steps)
       .reduce((acc, step) => {
         const id = step.agentId?.trim();
         if (!id) return acc;
@@ -112,8 +118,10 @@ export async function runWorkflow(options: RunWorkflowOptions = {}): Promise<voi
   }
 
   // Get event bus
-  // @ts-expect-error - global export from app.tsx
-  const eventBus: WorkflowEventBus = globalThis.__workflowEventBus ?? new WorkflowEventBus();
+  const eventBus: WorkflowEventBus = options.eventBus
+    // @ts-expect-error - global export from app.tsx
+    ?? globalThis.__workflowEventBus
+    ?? new WorkflowEventBus();
   const emitter = new WorkflowEventEmitter(eventBus);
 
   // @ts-expect-error - global export
@@ -129,25 +137,10 @@ export async function runWorkflow(options: RunWorkflowOptions = {}): Promise<voi
   const selectedTrack = await getSelectedTrack(cmRoot);
   const selectedConditions = await getSelectedConditions(cmRoot);
 
-  // Filter steps by track and conditions
-  // Supports inverse conditions with ! prefix (e.g., '!simple_mode' means "run if simple_mode is NOT selected")
-  const visibleSteps = template.steps.filter(step => {
-    if (step.type !== 'module') return true;
-    if (step.tracks?.length && selectedTrack && !step.tracks.includes(selectedTrack)) return false;
-    if (step.conditions?.length) {
-      const selected = selectedConditions ?? [];
-      for (const cond of step.conditions) {
-        if (cond.startsWith('!')) {
-          // Inverse condition: step runs only if this condition is NOT selected
-          const inverseCond = cond.slice(1);
-          if (selected.includes(inverseCond)) return false;
-        } else {
-          // Normal condition: step runs only if this condition IS selected
-          if (!selected.includes(cond)) return false;
-        }
-      }
-    }
-    return true;
+  // Flatten branch and parallel steps, filtering module steps by track and conditions
+  const visibleSteps = flattenWorkflowSteps(template.steps, {
+    track: selectedTrack,
+    conditions: selectedConditions,
   });
 
   // Count module steps for total
@@ -171,7 +164,8 @@ export async function runWorkflow(options: RunWorkflowOptions = {}): Promise<voi
         moduleIndex,
         moduleSteps.length,
         moduleIndex < startIndex ? 'completed' : 'pending',
-        step.model
+        step.model,
+        step.groups
       );
       moduleIndex++;
     } else if (step.type === 'ui') {
@@ -186,6 +180,19 @@ export async function runWorkflow(options: RunWorkflowOptions = {}): Promise<voi
     template: { ...template, steps: visibleSteps },
     emitter,
     startIndex,
+    maxParallel: options.maxParallel ?? template.maxParallel,
+    budgets: mergeBudgetConfigs(budgetConfig, template.budgets),
+    snapshots: options.snapshots ?? template.snapshots,
+  });
+
+  // Check every telemetry update against the budgets
+  const stopBudgetTracking = eventBus.on('agent:telemetry', (event) => {
+    runner.recordTelemetry(event.agentId, event.telemetry);
+  });
+
+  // Surface engine circuit breaker changes to the UI
+  const stopCircuitUpdates = onEngineCircuitChange((engineId, state) => {
+    emitter.engineCircuitChanged(engineId, state);
   });
 
   try {
@@ -199,13 +206,17 @@ export async function runWorkflow(options: RunWorkflowOptions = {}): Promise<voi
     });
     throw error;
   } finally {
+    stopCircuitUpdates();
+    stopBudgetTracking();
+
     // Clean up engine selection context
     clearEngineSelectionContext();
     clearEngineConfigFile();
+    setAgentTierConfig(null);
   }
 
   // Keep process alive for TUI
-  if (eventBus.hasSubscribers()) {
+  if (!options.headless && eventBus.hasSubscribers()) {
     await new Promise(() => {
       // Never resolves - Ctrl+C exits
     });
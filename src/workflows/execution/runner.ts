@@ -8,13 +8,13 @@
  */
 
 import * as path from 'node:path';
-import * as fs from 'node:fs';
 
 import { debug } from '../../shared/logging/logger.js';
 import { formatUserInput } from '../../shared/formatters/outputMarkers.js';
 import { AgentLoggerService, AgentMonitorService } from '../../agents/monitoring/index.js';
-import type { ModuleStep, WorkflowTemplate } from '../templates/types.js';
+import type { ModuleStep, StepGroup, WorkflowTemplate } from '../templates/types.js';
 import type { WorkflowEventEmitter } from '../events/index.js';
+import type { AgentTelemetry } from '../shared/types.js';
 import {
   createWorkflowMachine,
   type StateMachine,
@@ -29,8 +29,16 @@ import {
   type InputContext,
 } from '../input/index.js';
 import { getControlBus } from '../control/index.js';
-import { executeStep } from './step.js';
-import { selectEngine, getPresetModel, startWorkflowContext, endWorkflowContext } from './engine.js';
+import { executeStep, type StepOutput as ExecutedStepOutput } from './step.js';
+import { scheduleTasks, type ScheduledTask } from './scheduler.js';
+import {
+  selectEngine,
+  getPresetModel,
+  resolvePresetEngine,
+  startWorkflowContext,
+  endWorkflowContext,
+} from './engine.js';
+import { BudgetTracker, formatBudgetAlert, type BudgetAlert, type BudgetConfig } from './budget.js';
 import { loadControllerConfig } from '../../shared/workflows/controller.js';
 import { registry } from '../../infra/engines/index.js';
 import {
@@ -39,7 +47,23 @@ import {
   markChainCompleted,
   markStepCompleted,
   getStepData,
+  getBranchDecisions,
+  recordBranchDecision,
+  recordStepSnapshot,
 } from '../../shared/workflows/steps.js';
+import { createStepSnapshot } from '../../shared/workflows/snapshots.js';
+import { evaluateBranchBehavior } from '../behaviors/branch/evaluator.js';
+import {
+  createBehaviorDecisionService,
+  formatBehaviorCorrection,
+  type BehaviorDecisionService,
+} from '../behaviors/service.js';
+import {
+  createArtifactRegistry,
+  formatArtifactCorrection,
+  type ArtifactRecord,
+  type ArtifactRegistry,
+} from '../artifacts/index.js';
 import { generateStepSummary, generateWorkflowSummary } from './summary-generator.js';
 import { setupControlBusListeners, setupModeChangeListener } from './runner-listeners.js';
 
@@ -52,8 +76,29 @@ export interface WorkflowRunnerOptions {
   template: WorkflowTemplate;
   emitter: WorkflowEventEmitter;
   startIndex?: number;
+  /** Maximum steps of a parallel group running at once */
+  maxParallel?: number;
+  /** Token and cost budgets checked on every telemetry update */
+  budgets?: BudgetConfig;
+  /** Record a git snapshot of the working tree as each step completes */
+  snapshots?: boolean;
 }
 
+/**
+ * Default number of parallel group steps running at once
+ */
+export const DEFAULT_MAX_PARALLEL = 4;
+
+/**
+ * Times an agent is asked to fix an invalid behavior.json before the step moves on
+ */
+export const MAX_BEHAVIOR_CORRECTIONS = 2;
+
+/**
+ * Times an agent is asked to fix missing or invalid artifacts before the step fails
+ */
+export const MAX_ARTIFACT_CORRECTIONS = 2;
+
 /**
  * Workflow runner class
  */
@@ -74,11 +119,38 @@ export class WorkflowRunner {
   private abortController: AbortController | null = null;
   private pauseRequested = false;
 
+  private maxParallel: number;
+  private snapshots: boolean;
+
+  // Branch id -> chosen path (null = no path taken)
+  private branchDecisions = new Map<string, string | null>();
+
+  private behaviors: BehaviorDecisionService;
+  // Step index -> correction prompts sent for an invalid behavior.json (cleared when the step runs again)
+  private behaviorCorrections = new Map<number, number>();
+
+  private artifacts: ArtifactRegistry;
+  // Step index -> correction prompts sent for missing or invalid artifacts
+  private artifactCorrections = new Map<number, number>();
+
+  private budgets: BudgetConfig | undefined;
+  private budgetTracker: BudgetTracker | null;
+  // UI agent id -> engine it runs on, for per-engine budgets
+  private agentEngines = new Map<string, string>();
+  // Scopes whose exceeded budget moves later steps to a cheaper engine
+  private budgetSwitches = { workflow: false, steps: new Set<string>(), engines: new Set<string>() };
+
   constructor(options: WorkflowRunnerOptions) {
     this.cwd = options.cwd;
     this.cmRoot = options.cmRoot;
     this.template = options.template;
     this.emitter = options.emitter;
+    this.maxParallel = Math.max(1, options.maxParallel ?? DEFAULT_MAX_PARALLEL);
+    this.budgets = options.budgets;
+    this.snapshots = options.snapshots ?? false;
+    this.budgetTracker = options.budgets ? new BudgetTracker(options.budgets) : null;
+    this.behaviors = createBehaviorDecisionService(this.cwd);
+    this.artifacts = createArtifactRegistry(this.cwd);
 
     // Filter to only module steps
     this.moduleSteps = options.template.steps.filter(
@@ -169,6 +241,22 @@ export class WorkflowRunner {
     const workflowContextKey = startWorkflowContext();
 
     try {
+      // Restore branch decisions so a resumed run keeps the same paths
+      for (const [branchId, branchPath] of Object.entries(await getBranchDecisions(this.cmRoot))) {
+        this.branchDecisions.set(branchId, branchPath);
+      }
+
+      // Decisions of steps that will run again are no longer part of the history
+      await this.behaviors.truncateHistory(this.machine.context.currentStepIndex);
+
+      // Same for artifacts; show every declared artifact in the UI
+      await this.artifacts.truncate(this.machine.context.currentStepIndex);
+      for (const record of await this.artifacts.list(this.moduleSteps)) {
+        this.emitter.updateArtifact(record);
+      }
+
+      await this.seedBudgetUsage();
+
       // Load initial auto mode state
       const controllerState = await loadControllerConfig(this.cmRoot);
       if (controllerState?.autonomousMode && controllerState.controllerConfig) {
@@ -248,6 +336,25 @@ export class WorkflowRunner {
     const step = this.moduleSteps[ctx.currentStepIndex];
     const uniqueAgentId = `${step.agentId}-step-${ctx.currentStepIndex}`;
 
+    // Steps on a branch path that was not taken are skipped without running
+    if (!(await this.isOnChosenPath(step, uniqueAgentId))) {
+      debug('[Runner] Step %d is on a branch path that was not taken', ctx.currentStepIndex);
+      this.emitter.updateAgentStatus(uniqueAgentId, 'skipped');
+      await markStepCompleted(this.cmRoot, ctx.currentStepIndex);
+      // The decision of the last step that ran carries over to the steps a branch skips
+      await this.archiveBehaviorDecision(ctx.currentStepIndex, step, uniqueAgentId);
+      await this.snapshotStep(ctx.currentStepIndex, step, uniqueAgentId);
+      this.machine.send({ type: 'SKIP' });
+      return;
+    }
+
+    // Members of a parallel group run together
+    const parallelGroup = this.getParallelGroup(step);
+    if (parallelGroup) {
+      await this.executeParallelGroup(parallelGroup);
+      return;
+    }
+
     debug('[Runner] Executing step %d: %s', ctx.currentStepIndex, step.agentName);
 
     // Check for resume data (existing session from previous run)
@@ -284,6 +391,8 @@ export class WorkflowRunner {
 
     // Track step start for resume
     await markStepStarted(this.cmRoot, ctx.currentStepIndex);
+    // A step re-entered by a loop gets its behavior.json corrections again
+    this.behaviorCorrections.delete(ctx.currentStepIndex);
 
     // Reset pause flag
     this.pauseRequested = false;
@@ -296,29 +405,17 @@ export class WorkflowRunner {
     this.emitter.logMessage(uniqueAgentId, '═'.repeat(80));
     this.emitter.logMessage(uniqueAgentId, `${step.agentName} ${isResuming ? 'resumed work.' : 'started to work.'}`);
 
-    // Reset behavior file (async to avoid blocking hot path)
-    const behaviorFile = path.join(this.cwd, '.codemachine/memory/behavior.json');
-    const behaviorDir = path.dirname(behaviorFile);
-    fs.promises.mkdir(behaviorDir, { recursive: true })
-      .then(() => fs.promises.writeFile(behaviorFile, JSON.stringify({ action: 'continue' }, null, 2)))
-      .catch(() => {}); // Fire-and-forget, non-critical
-
-    // Determine engine
-    const engineType = await selectEngine(step, this.emitter, uniqueAgentId);
-    step.engine = engineType;
-    this.emitter.updateAgentEngine(uniqueAgentId, engineType);
-
-    // Resolve model: preset > step.model > engine default
-    const engineModule = await registry.getAsync(engineType);
-    const presetModel = getPresetModel(step.agentId);
-    const resolvedModel = presetModel ?? step.model ?? engineModule?.metadata.defaultModel;
-    if (resolvedModel) {
-      this.emitter.updateAgentModel(uniqueAgentId, resolvedModel);
-      // Update step.model so it's passed to execution
-      step.model = resolvedModel;
-    }
+    this.resetBehaviorFile();
+    await this.warnUnavailableArtifacts(step, uniqueAgentId);
+    await this.resolveStepEngine(step, uniqueAgentId);
 
     try {
+      // A budget exceeded before the step starts pauses it before it spends more
+      if (this.budgetPausesRun(step, uniqueAgentId)) {
+        this.pause();
+        this.abortController.signal.throwIfAborted();
+      }
+
       // Execute the step (with resume data if available)
       const output = await executeStep(step, this.cwd, {
         logger: () => {},
@@ -329,6 +426,7 @@ export class WorkflowRunner {
         resumeMonitoringId: isResuming ? stepData.monitoringId : undefined,
         resumeSessionId: isResuming ? stepData.sessionId : undefined,
         resumePrompt: isResuming ? 'Continue from where you left off.' : undefined,
+        promptBudget: this.template.promptBudget,
       });
 
       // Check if paused
@@ -401,6 +499,8 @@ export class WorkflowRunner {
           this.emitter.logMessage(uniqueAgentId, `${step.agentName} was skipped.`);
           // Track step completion for resume
           await markStepCompleted(this.cmRoot, ctx.currentStepIndex);
+          await this.archiveBehaviorDecision(ctx.currentStepIndex, step, uniqueAgentId);
+          await this.snapshotStep(ctx.currentStepIndex, step, uniqueAgentId);
           this.machine.send({ type: 'SKIP' });
         }
         return;
@@ -415,6 +515,565 @@ export class WorkflowRunner {
     }
   }
 
+  /**
+   * Reset behavior file (async to avoid blocking hot path)
+   */
+  private resetBehaviorFile(): void {
+    this.behaviors.reset().catch(() => {}); // Fire-and-forget, non-critical
+  }
+
+  /**
+   * Send the agent a correction prompt when its behavior.json is invalid
+   *
+   * @returns true when the agent was resumed with the correction
+   */
+  private async requestBehaviorCorrection(step: ModuleStep, uniqueAgentId: string): Promise<boolean> {
+    const ctx = this.machine.context;
+    const result = await this.behaviors.read();
+    if (result.status !== 'invalid') return false;
+
+    const attempts = this.behaviorCorrections.get(ctx.currentStepIndex) ?? 0;
+    if (attempts >= MAX_BEHAVIOR_CORRECTIONS) {
+      this.emitter.logMessage(uniqueAgentId, `behavior.json is still invalid, continuing without a decision.`);
+      return false;
+    }
+    this.behaviorCorrections.set(ctx.currentStepIndex, attempts + 1);
+
+    this.emitter.logMessage(uniqueAgentId, `behavior.json is invalid: ${result.errors.join('; ')}. Asking ${step.agentName} to fix it.`);
+    await this.resumeWithInput(formatBehaviorCorrection(result.errors), ctx.currentMonitoringId, 'controller');
+    return true;
+  }
+
+  /**
+   * Log consumed artifacts that no earlier step has produced (the step still runs)
+   */
+  private async warnUnavailableArtifacts(step: ModuleStep, uniqueAgentId: string): Promise<void> {
+    if (!step.consumes?.length) return;
+    const unavailable = await this.artifacts.findUnavailable(step.consumes);
+    if (unavailable.length > 0) {
+      this.emitter.logMessage(uniqueAgentId, `Artifacts not available yet: ${unavailable.join(', ')}.`);
+    }
+  }
+
+  /**
+   * Check the artifacts a step declares and show the results in the UI
+   *
+   * @returns The artifacts that fail the step
+   */
+  private async verifyArtifacts(step: ModuleStep, stepIndex: number, uniqueAgentId: string): Promise<ArtifactRecord[]> {
+    if (!step.produces?.length) return [];
+
+    const { records, failures } = await this.artifacts.verify(step, stepIndex);
+    for (const record of records) {
+      this.emitter.updateArtifact(record);
+    }
+    for (const failure of failures) {
+      this.emitter.logMessage(uniqueAgentId, `Artifact ${failure.name} is ${failure.status}: ${failure.errors?.join('; ')}`);
+    }
+    return failures;
+  }
+
+  /**
+   * Count a correction attempt for a step's artifacts
+   *
+   * @returns false when the step fails instead (onInvalidArtifacts: 'fail' or attempts used up)
+   */
+  private takeArtifactCorrection(step: ModuleStep, stepIndex: number): boolean {
+    const attempts = this.artifactCorrections.get(stepIndex) ?? 0;
+    if (step.onInvalidArtifacts === 'fail' || attempts >= MAX_ARTIFACT_CORRECTIONS) return false;
+    this.artifactCorrections.set(stepIndex, attempts + 1);
+    return true;
+  }
+
+  private artifactError(step: ModuleStep, failures: ArtifactRecord[]): Error {
+    const details = failures.map((failure) => `${failure.name} (${failure.errors?.join('; ')})`).join(', ');
+    return new Error(`${step.agentName} did not produce valid artifacts: ${details}`);
+  }
+
+  /**
+   * Check the current step's artifacts before it completes, asking the agent
+   * to fix them or failing the step when they are missing or invalid
+   *
+   * @returns true when the step may complete
+   */
+  private async completeArtifacts(step: ModuleStep, uniqueAgentId: string): Promise<boolean> {
+    const ctx = this.machine.context;
+    const failures = await this.verifyArtifacts(step, ctx.currentStepIndex, uniqueAgentId);
+    if (failures.length === 0) return true;
+
+    if (this.takeArtifactCorrection(step, ctx.currentStepIndex)) {
+      this.emitter.logMessage(uniqueAgentId, `Asking ${step.agentName} to fix its artifacts.`);
+      // Logged like user input: only controller input is already in the log
+      await this.resumeWithInput(formatArtifactCorrection(failures), ctx.currentMonitoringId, 'user');
+      return false;
+    }
+
+    this.emitter.updateAgentStatus(uniqueAgentId, 'failed');
+    this.machine.send({ type: 'ARTIFACTS_FAILED', error: this.artifactError(step, failures) });
+    return false;
+  }
+
+  /**
+   * Archive the decision of a completed step and show it in the UI
+   */
+  private async archiveBehaviorDecision(stepIndex: number, step: ModuleStep, uniqueAgentId: string): Promise<void> {
+    try {
+      const record = await this.behaviors.archive(stepIndex, step.agentId, await this.behaviors.read());
+      if (record) {
+        this.emitter.recordBehaviorDecision(uniqueAgentId, record);
+      }
+    } catch (error) {
+      debug('[Runner] Failed to archive behavior decision of step %d: %o', stepIndex, error);
+    }
+  }
+
+  /**
+   * Record a git snapshot for a completed step (failures are logged, not fatal)
+   */
+  private async snapshotStep(stepIndex: number, step: ModuleStep, uniqueAgentId: string): Promise<void> {
+    if (!this.snapshots) return;
+
+    try {
+      const commit = await createStepSnapshot(this.cwd, stepIndex, step.agentName);
+      if (commit) {
+        await recordStepSnapshot(this.cmRoot, stepIndex, commit);
+      }
+    } catch (error) {
+      debug('[Runner] Failed to snapshot step %d: %o', stepIndex, error);
+      this.emitter.logMessage(uniqueAgentId, `Snapshot failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Record one snapshot for a settled parallel group, on its last member
+   *
+   * Members share the working tree, so a snapshot taken as one member finishes
+   * would hold its siblings' half-finished work. Only the group as a whole can
+   * be rolled back to.
+   */
+  private async snapshotGroup(lastIndex: number): Promise<void> {
+    const step = this.moduleSteps[lastIndex];
+    await this.snapshotStep(lastIndex, step, `${step.agentId}-step-${lastIndex}`);
+  }
+
+  /**
+   * Determine engine and model for a step and show them in the UI
+   */
+  private async resolveStepEngine(step: ModuleStep, uniqueAgentId: string): Promise<void> {
+    // Determine engine, moving to a cheaper one if a budget says so
+    const selectedEngine = await selectEngine(step, this.emitter, uniqueAgentId);
+    const budgetChoice = this.getBudgetEngine(step, selectedEngine, uniqueAgentId);
+    const engineType = budgetChoice?.engine ?? selectedEngine;
+    step.engine = engineType;
+    this.agentEngines.set(uniqueAgentId, engineType);
+    this.emitter.updateAgentEngine(uniqueAgentId, engineType);
+
+    // Resolve model: budget preset > preset > step.model > engine default
+    const engineModule = await registry.getAsync(engineType);
+    const resolvedModel = budgetChoice
+      ? budgetChoice.model ?? engineModule?.metadata.defaultModel
+      : getPresetModel(step.agentId) ?? step.model ?? engineModule?.metadata.defaultModel;
+    if (resolvedModel) {
+      this.emitter.updateAgentModel(uniqueAgentId, resolvedModel);
+      // Update step.model so it's passed to execution
+      step.model = resolvedModel;
+    }
+  }
+
+  /**
+   * Check a telemetry update against the budgets
+   *
+   * Warnings are logged to the agent; an exceeded budget either pauses the
+   * workflow (into the waiting state) or, with `onExceeded: 'switch-engine'`,
+   * moves steps started afterwards to the engine picked by `switchPreset`.
+   */
+  recordTelemetry(uniqueAgentId: string, telemetry: Partial<AgentTelemetry>): void {
+    if (!this.budgetTracker) return;
+
+    const stepMatch = /-step-(\d+)$/.exec(uniqueAgentId);
+    const step = stepMatch ? this.moduleSteps[Number(stepMatch[1])] : undefined;
+    const alerts = this.budgetTracker.record(
+      { agentId: step?.agentId, engine: this.agentEngines.get(uniqueAgentId) },
+      telemetry,
+    );
+
+    for (const alert of alerts) {
+      this.handleBudgetAlert(alert, uniqueAgentId);
+    }
+  }
+
+  private handleBudgetAlert(alert: BudgetAlert, uniqueAgentId: string): void {
+    const message = formatBudgetAlert(alert);
+    debug('[Runner] Budget %s: %s', alert.level, message);
+    this.emitter.logMessage(uniqueAgentId, message);
+    if (alert.level === 'warning') return;
+
+    if (this.budgets?.onExceeded === 'switch-engine' && this.budgets.switchPreset) {
+      this.addBudgetSwitch(alert);
+      this.emitter.logMessage(
+        uniqueAgentId,
+        `Later steps will use engines from preset '${this.budgets.switchPreset}'.`,
+      );
+      return;
+    }
+
+    this.emitter.logMessage(uniqueAgentId, 'Pausing workflow: budget exceeded.');
+    this.pauseRequested = true;
+    this.abortController?.abort();
+  }
+
+  private addBudgetSwitch(alert: BudgetAlert): void {
+    if (alert.scope === 'workflow') this.budgetSwitches.workflow = true;
+    if (alert.scope === 'step') this.budgetSwitches.steps.add(alert.key);
+    if (alert.scope === 'engine') this.budgetSwitches.engines.add(alert.key);
+  }
+
+  /**
+   * Report budgets already exceeded when a step starts or resumes
+   *
+   * An exceeded limit is reported once as it is crossed, so without this check
+   * a run continued after a budget pause would spend without limit.
+   *
+   * @returns true when the run must pause (`onExceeded: 'pause'`)
+   */
+  private budgetPausesRun(step: ModuleStep, uniqueAgentId: string): boolean {
+    if (!this.budgetTracker) return false;
+
+    const alerts = this.budgetTracker.exceeded({
+      agentId: step.agentId,
+      engine: this.agentEngines.get(uniqueAgentId) ?? step.engine,
+    });
+    if (alerts.length === 0) return false;
+
+    for (const alert of alerts) {
+      this.emitter.logMessage(uniqueAgentId, formatBudgetAlert(alert));
+    }
+    if (this.budgets?.onExceeded === 'switch-engine' && this.budgets.switchPreset) return false;
+
+    this.emitter.logMessage(uniqueAgentId, 'Pausing workflow: budget exceeded.');
+    return true;
+  }
+
+  /**
+   * Count the usage of steps run before a resume against the budgets
+   *
+   * Usage is read from the monitoring records of the steps up to the one the
+   * workflow resumes at. Limits it exceeds are reported once a run starts;
+   * engine switches they call for apply right away.
+   */
+  private async seedBudgetUsage(): Promise<void> {
+    const startIndex = this.machine.context.currentStepIndex;
+    if (!this.budgetTracker || startIndex === 0) return;
+
+    const monitor = AgentMonitorService.getInstance();
+    for (let index = 0; index <= startIndex && index < this.moduleSteps.length; index++) {
+      const monitoringId = (await getStepData(this.cmRoot, index))?.monitoringId;
+      const agent = monitoringId !== undefined ? monitor.getAgent(monitoringId) : undefined;
+      if (!agent?.telemetry) continue;
+
+      const alerts = this.budgetTracker.record(
+        { agentId: this.moduleSteps[index].agentId, engine: agent.engine },
+        agent.telemetry,
+      );
+      if (this.budgets?.onExceeded === 'switch-engine' && this.budgets.switchPreset) {
+        alerts.filter((alert) => alert.level === 'exceeded').forEach((alert) => this.addBudgetSwitch(alert));
+      }
+    }
+    debug('[Runner] Seeded budget usage of steps 0-%d: %o', startIndex, this.budgetTracker.getUsage('workflow'));
+  }
+
+  /**
+   * Cheaper engine for a step whose workflow, step or engine budget is exceeded
+   */
+  private getBudgetEngine(
+    step: ModuleStep,
+    engine: string,
+    uniqueAgentId: string,
+  ): { engine: string; model?: string } | undefined {
+    const preset = this.budgets?.switchPreset;
+    const switches = this.budgetSwitches;
+    if (!preset || !(switches.workflow || switches.steps.has(step.agentId) || switches.engines.has(engine))) {
+      return undefined;
+    }
+
+    const choice = resolvePresetEngine(step.agentId, preset);
+    if (!choice || choice.engine === engine) return undefined;
+
+    this.emitter.logMessage(uniqueAgentId, `Budget exceeded: using ${choice.engine} instead of ${engine}.`);
+    return choice;
+  }
+
+  /**
+   * Check every enclosing branch of a step, deciding branches on first reach
+   *
+   * A branch is decided from the behavior.json written by the step that ran
+   * before it, and the decision is persisted so resumed runs take the same path.
+   */
+  private async isOnChosenPath(step: ModuleStep, uniqueAgentId: string): Promise<boolean> {
+    for (const group of step.groups ?? []) {
+      if (group.kind !== 'branch') continue;
+
+      if (!this.branchDecisions.has(group.id)) {
+        // Only the step right before the branch decides it; its archived decision
+        // survives restarts, behavior.json may not. Without one the default path is taken.
+        const decision = await evaluateBranchBehavior({
+          cwd: this.cwd,
+          paths: group.paths ?? [],
+          defaultPath: group.defaultPath,
+          decision: await this.behaviors.getDecision(this.machine.context.currentStepIndex - 1),
+        });
+        debug('[Runner] Branch %s decided: path=%s source=%s', group.id, decision.path ?? 'none', decision.source);
+        this.branchDecisions.set(group.id, decision.path);
+        await recordBranchDecision(this.cmRoot, group.id, decision.path, this.machine.context.currentStepIndex);
+
+        const summary = decision.path
+          ? `Branch ${group.label}: taking path '${decision.path}'${decision.source === 'default' ? ' (default)' : ''}.`
+          : `Branch ${group.label}: no path chosen, skipping all paths.`;
+        this.emitter.logMessage(uniqueAgentId, summary);
+      }
+
+      if (this.branchDecisions.get(group.id) !== group.path) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Parallel group a step belongs to directly (parallel groups only hold module steps)
+   */
+  private getParallelGroup(step: ModuleStep | undefined): StepGroup | undefined {
+    const group = step?.groups?.at(-1);
+    return group?.kind === 'parallel' ? group : undefined;
+  }
+
+  /**
+   * Run the members of the parallel group containing the current step
+   *
+   * Members start once the members they depend on have finished, with at most
+   * `maxParallel` running at once. Each member is recorded in template.json as
+   * it finishes, along with its behavior.json decision, which is then cleared
+   * for the members still running. Members finished by an earlier (paused or
+   * crashed) run are not run again. Once all members finish the group
+   * checkpoints on its last member, so input at that checkpoint continues the last agent of the group.
+   */
+  private async executeParallelGroup(group: StepGroup): Promise<void> {
+    const ctx = this.machine.context;
+
+    // A resumed run may start mid-group; earlier unfinished members still need to run
+    let firstIndex = ctx.currentStepIndex;
+    while (firstIndex > 0 && this.getParallelGroup(this.moduleSteps[firstIndex - 1])?.id === group.id) {
+      firstIndex--;
+    }
+    const indices: number[] = [];
+    for (let i = firstIndex; this.getParallelGroup(this.moduleSteps[i])?.id === group.id; i++) {
+      indices.push(i);
+    }
+    const lastIndex = indices[indices.length - 1];
+
+    debug('[Runner] Executing parallel group %s: steps %d-%d (max %d at once)',
+      group.id, firstIndex, lastIndex, this.maxParallel);
+
+    // Tracking writes are read-modify-write on one file, so they go through a queue
+    let tracking = Promise.resolve();
+    const track = (write: () => Promise<void>): void => {
+      tracking = tracking
+        .then(write)
+        .catch((error) => debug('[Runner] Failed to track parallel step: %o', error));
+    };
+
+    const pending: number[] = [];
+    for (const index of indices) {
+      const stepData = await getStepData(this.cmRoot, index);
+      if (stepData?.completedAt) {
+        // Re-record the artifacts of members finished by an earlier run
+        const step = this.moduleSteps[index];
+        await this.verifyArtifacts(step, index, `${step.agentId}-step-${index}`);
+        continue;
+      }
+      await markStepStarted(this.cmRoot, index);
+      pending.push(index);
+    }
+
+    this.pauseRequested = false;
+    this.abortController = new AbortController();
+    const abortSignal = this.abortController.signal;
+    this.resetBehaviorFile();
+
+    const outputs: { index: number; output: ExecutedStepOutput }[] = [];
+    let failure: Error | null = null;
+    let aborted = false;
+
+    // Dependencies on steps outside the group (or finished earlier) are already satisfied
+    const tasks: ScheduledTask<ExecutedStepOutput>[] = pending.map((index) => {
+      const step = this.moduleSteps[index];
+      const uniqueAgentId = `${step.agentId}-step-${index}`;
+      return {
+        id: index,
+        dependsOn: (step.dependsOn ?? []).flatMap((agentId) =>
+          pending.filter((i) => i !== index && this.moduleSteps[i].agentId === agentId)
+        ),
+        run: async () => {
+          this.emitter.updateAgentStatus(uniqueAgentId, 'running');
+          this.emitter.logMessage(uniqueAgentId, '═'.repeat(80));
+          this.emitter.logMessage(uniqueAgentId, `${step.agentName} started to work.`);
+
+          await this.warnUnavailableArtifacts(step, uniqueAgentId);
+          await this.resolveStepEngine(step, uniqueAgentId);
+          if (this.budgetPausesRun(step, uniqueAgentId)) {
+            this.pause();
+            abortSignal.throwIfAborted();
+          }
+          let output = await executeStep(step, this.cwd, {
+            logger: () => {},
+            stderrLogger: () => {},
+            emitter: this.emitter,
+            abortSignal,
+            uniqueAgentId,
+            promptBudget: this.template.promptBudget,
+          });
+
+          // Members have no checkpoint, so artifact corrections resume the agent right away
+          let failures = await this.verifyArtifacts(step, index, uniqueAgentId);
+          while (failures.length > 0 && this.takeArtifactCorrection(step, index)) {
+            this.emitter.logMessage(uniqueAgentId, `Asking ${step.agentName} to fix its artifacts.`);
+            const monitoringId = output.monitoringId;
+            const correction = formatArtifactCorrection(failures);
+            const formatted = formatUserInput(correction);
+            this.emitter.logMessage(uniqueAgentId, formatted);
+            if (monitoringId !== undefined) {
+              AgentLoggerService.getInstance().write(monitoringId, `\n${formatted}\n`);
+            }
+            output = await executeStep(step, this.cwd, {
+              logger: () => {},
+              stderrLogger: () => {},
+              emitter: this.emitter,
+              abortSignal,
+              uniqueAgentId,
+              resumeMonitoringId: monitoringId,
+              resumeSessionId: monitoringId !== undefined
+                ? AgentMonitorService.getInstance().getAgent(monitoringId)?.sessionId
+                : undefined,
+              resumePrompt: correction,
+              promptBudget: this.template.promptBudget,
+            });
+            failures = await this.verifyArtifacts(step, index, uniqueAgentId);
+          }
+          if (failures.length > 0) {
+            throw this.artifactError(step, failures);
+          }
+          return output;
+        },
+      };
+    });
+
+    const { notStarted } = await scheduleTasks(tasks, {
+      maxParallel: this.maxParallel,
+      // Nothing new starts after a failure, skip or pause
+      shouldContinue: () => !failure && !aborted,
+      onSettled: (outcome) => {
+        const index = outcome.id;
+        const step = this.moduleSteps[index];
+        const uniqueAgentId = `${step.agentId}-step-${index}`;
+
+        if (outcome.ok) {
+          const output = outcome.value;
+          outputs.push({ index, output });
+          this.emitter.updateAgentStatus(uniqueAgentId, 'completed');
+          if (output.chainedPrompts?.length) {
+            debug('[Runner] Ignoring %d chained prompts of parallel step %d', output.chainedPrompts.length, index);
+          }
+
+          // Record the member right away so a resumed run does not repeat it
+          track(async () => {
+            if (output.monitoringId !== undefined) {
+              const sessionId = AgentMonitorService.getInstance().getAgent(output.monitoringId)?.sessionId ?? '';
+              await initStepSession(this.cmRoot, index, sessionId, output.monitoringId);
+            }
+            await markStepCompleted(this.cmRoot, index);
+            // Members share behavior.json: take this member's decision and clear it for the others
+            await this.archiveBehaviorDecision(index, step, uniqueAgentId);
+            await this.behaviors.reset();
+          });
+        } else if (outcome.error.name === 'AbortError') {
+          aborted = true;
+          this.emitter.updateAgentStatus(uniqueAgentId, this.pauseRequested ? 'paused' : 'skipped');
+        } else {
+          failure ??= outcome.error;
+          this.emitter.updateAgentStatus(uniqueAgentId, 'failed');
+        }
+      },
+    });
+
+    this.abortController = null;
+    await tracking;
+
+    if (aborted && this.pauseRequested) {
+      debug('[Runner] Parallel group %s paused', group.id);
+      this.machine.send({ type: 'PAUSE' });
+      return;
+    }
+
+    if (aborted) {
+      debug('[Runner] Parallel group %s skipped', group.id);
+      const finished = new Set(outputs.map(({ index }) => index));
+      for (const index of pending.filter((i) => !finished.has(i))) {
+        const step = this.moduleSteps[index];
+        const uniqueAgentId = `${step.agentId}-step-${index}`;
+        await markStepCompleted(this.cmRoot, index);
+        if (notStarted.includes(index)) {
+          this.emitter.updateAgentStatus(uniqueAgentId, 'skipped');
+        } else {
+          await this.archiveBehaviorDecision(index, step, uniqueAgentId);
+        }
+      }
+      await this.snapshotGroup(lastIndex);
+      ctx.currentStepIndex = lastIndex;
+      this.machine.send({ type: 'SKIP' });
+      return;
+    }
+
+    if (!failure && notStarted.length > 0) {
+      const names = notStarted.map((index) => this.moduleSteps[index].agentName).join(', ');
+      failure = new Error(`Parallel group '${group.label}' cannot finish: ${names} depend on steps that never complete`);
+    }
+
+    if (failure) {
+      debug('[Runner] Parallel group %s failed: %s', group.id, failure.message);
+      this.machine.send({ type: 'STEP_ERROR', error: failure });
+      return;
+    }
+
+    outputs.sort((a, b) => a.index - b.index);
+    const last = outputs[outputs.length - 1]?.output;
+    const stepOutput: StepOutput = {
+      output: outputs.map(({ output }) => output.output).join('\n\n'),
+      monitoringId: last?.monitoringId,
+    };
+
+    await this.snapshotGroup(lastIndex);
+    ctx.currentStepIndex = lastIndex;
+    ctx.promptQueue = [];
+    ctx.promptQueueIndex = 0;
+    this.machine.send({ type: 'STEP_COMPLETE', output: stepOutput });
+
+    // Generate step summaries (failures don't fail the workflow)
+    for (const { index, output } of outputs) {
+      try {
+        const summaryPath = path.join(this.cmRoot, 'summaries', `step-${index}.md`);
+        await generateStepSummary({
+          step: this.moduleSteps[index],
+          output: { output: output.output, monitoringId: output.monitoringId },
+          stepIndex: index,
+          savePath: summaryPath,
+        });
+      } catch (summaryError) {
+        // Don't fail workflow if summary generation fails
+        debug('[Runner] Failed to generate step summary: %o', summaryError);
+      }
+    }
+  }
+
   /**
    * Handle waiting state - get input from provider
    */
@@ -462,6 +1121,16 @@ export class WorkflowRunner {
     switch (result.type) {
       case 'input':
         if (result.value === '') {
+          // An invalid behavior.json goes back to the agent before the step can complete
+          if (await this.requestBehaviorCorrection(step, uniqueAgentId)) {
+            break;
+          }
+
+          // Declared artifacts must exist and validate before the step can complete
+          if (!(await this.completeArtifacts(step, uniqueAgentId))) {
+            break;
+          }
+
           // Empty input = advance to next step
           debug('[Runner] Empty input, marking agent completed and advancing');
           this.emitter.updateAgentStatus(uniqueAgentId, 'completed');
@@ -469,6 +1138,8 @@ export class WorkflowRunner {
           this.emitter.logMessage(uniqueAgentId, '\n' + '═'.repeat(80) + '\n');
           // Track step completion for resume
           await markStepCompleted(this.cmRoot, ctx.currentStepIndex);
+          await this.archiveBehaviorDecision(ctx.currentStepIndex, step, uniqueAgentId);
+          await this.snapshotStep(ctx.currentStepIndex, step, uniqueAgentId);
           this.machine.send({ type: 'INPUT_RECEIVED', input: '' });
         } else {
           // Has input = resume current step with input, then wait again
@@ -483,6 +1154,8 @@ export class WorkflowRunner {
         this.emitter.logMessage(uniqueAgentId, '\n' + '═'.repeat(80) + '\n');
         // Track step completion for resume
         await markStepCompleted(this.cmRoot, ctx.currentStepIndex);
+        await this.archiveBehaviorDecision(ctx.currentStepIndex, step, uniqueAgentId);
+        await this.snapshotStep(ctx.currentStepIndex, step, uniqueAgentId);
         this.machine.send({ type: 'SKIP' });
         break;
 
@@ -541,6 +1214,13 @@ export class WorkflowRunner {
     );
 
     try {
+      if (this.budgetPausesRun(step, uniqueAgentId)) {
+        // Waiting ignores PAUSE, so leave autonomous mode here or the controller would resume again
+        await this.setAutoMode(false);
+        this.pause();
+        this.abortController.signal.throwIfAborted();
+      }
+
       const output = await executeStep(step, this.cwd, {
         logger: () => {},
         stderrLogger: () => {},
@@ -550,6 +1230,7 @@ export class WorkflowRunner {
         resumeMonitoringId: monitoringId,
         resumeSessionId: sessionId,
         resumePrompt: input,
+        promptBudget: this.template.promptBudget,
       });
 
       // Update context with new output
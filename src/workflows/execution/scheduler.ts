@@ -0,0 +1,82 @@
+/**
+ * Step Scheduler
+ *
+ * Runs a set of tasks concurrently, starting each task once the tasks it
+ * depends on have succeeded and never running more than a given number at once.
+ */
+
+export interface ScheduledTask<T> {
+  id: number;
+  /** Ids of tasks that must succeed before this one starts (unknown ids are ignored) */
+  dependsOn: number[];
+  run: () => Promise<T>;
+}
+
+export type TaskOutcome<T> =
+  | { id: number; ok: true; value: T }
+  | { id: number; ok: false; error: Error };
+
+export interface ScheduleOptions<T> {
+  maxParallel: number;
+  /** Called as each task settles, in completion order */
+  onSettled?: (outcome: TaskOutcome<T>) => void;
+  /** Checked before starting more tasks; once false, running tasks finish but nothing new starts */
+  shouldContinue?: () => boolean;
+}
+
+export interface ScheduleResult<T> {
+  outcomes: TaskOutcome<T>[];
+  /** Tasks never started: stopped early, or waiting on a task that failed or can never run */
+  notStarted: number[];
+}
+
+/**
+ * Run tasks respecting their dependencies and the concurrency limit
+ */
+export async function scheduleTasks<T>(
+  tasks: ScheduledTask<T>[],
+  options: ScheduleOptions<T>,
+): Promise<ScheduleResult<T>> {
+  const maxParallel = Math.max(1, options.maxParallel);
+  const known = new Set(tasks.map((task) => task.id));
+  const succeeded = new Set<number>();
+  const started = new Set<number>();
+  const running = new Map<number, Promise<TaskOutcome<T>>>();
+  const outcomes: TaskOutcome<T>[] = [];
+
+  const isReady = (task: ScheduledTask<T>) =>
+    task.dependsOn.every((dep) => !known.has(dep) || succeeded.has(dep));
+
+  const start = (task: ScheduledTask<T>): void => {
+    started.add(task.id);
+    running.set(task.id, task.run().then(
+      (value): TaskOutcome<T> => ({ id: task.id, ok: true, value }),
+      (error: unknown): TaskOutcome<T> => ({
+        id: task.id,
+        ok: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      }),
+    ));
+  };
+
+  for (;;) {
+    if (options.shouldContinue?.() ?? true) {
+      for (const task of tasks) {
+        if (running.size >= maxParallel) break;
+        if (!started.has(task.id) && isReady(task)) start(task);
+      }
+    }
+    if (running.size === 0) break;
+
+    const outcome = await Promise.race(running.values());
+    running.delete(outcome.id);
+    if (outcome.ok) succeeded.add(outcome.id);
+    outcomes.push(outcome);
+    options.onSettled?.(outcome);
+  }
+
+  return {
+    outcomes,
+    notStarted: tasks.filter((task) => !started.has(task.id)).map((task) => task.id),
+  };
+}
@@ -1,12 +1,13 @@
 import * as path from 'node:path';
 import { readFile, mkdir } from 'node:fs/promises';
 import type { WorkflowStep } from '../templates/index.js';
-import { isModuleStep } from '../templates/types.js';
+import { isModuleStep, type ModuleStep } from '../templates/types.js';
 import type { EngineType } from '../../infra/engines/index.js';
-import { processPromptString } from '../../shared/prompts/index.js';
+import { assemblePrompt, formatTrimSummary } from '../../shared/prompts/index.js';
 import { executeAgent, type ChainedPrompt } from '../../agents/runner/runner.js';
 import type { WorkflowEventEmitter } from '../events/emitter.js';
 import { debug } from '../../shared/logging/logger.js';
+import { resolvePromptBudget, type PromptBudgetConfig } from './prompt-budget.js';
 
 export type { ChainedPrompt } from '../../agents/runner/runner.js';
 
@@ -39,6 +40,8 @@ export interface StepExecutorOptions {
   resumeSessionId?: string;
   /** Selected conditions for filtering conditional chained prompt paths */
   selectedConditions?: string[];
+  /** Template-level prompt budget (the step's own promptBudget is merged over it) */
+  promptBudget?: PromptBudgetConfig;
 }
 
 async function ensureProjectScaffold(cwd: string): Promise<void> {
@@ -52,6 +55,60 @@ async function runAgentsBuilderStep(cwd: string): Promise<void> {
   await ensureProjectScaffold(cwd);
 }
 
+/**
+ * Read the prompt file(s) of a module step, joined with blank lines
+ *
+ * Files that cannot be read are skipped (logged to debug) as long as one can be read.
+ *
+ * @throws Error when the step has no prompt path or no file can be read
+ */
+export async function readStepPrompt(step: ModuleStep, cwd: string): Promise<string> {
+  const promptSources = Array.isArray(step.promptPath) ? step.promptPath : [step.promptPath];
+  debug(`[DEBUG step] Loading prompt from ${promptSources.join(', ')}`);
+  if (promptSources.length === 0) {
+    throw new Error(`Agent ${step.agentId} has no promptPath configured`);
+  }
+  const resolvedPromptPaths = promptSources.map(p =>
+    path.isAbsolute(p) ? p : path.resolve(cwd, p),
+  );
+  debug(`[DEBUG step] Resolved promptPath(s): ${resolvedPromptPaths.join(', ')}`);
+
+  const results = await Promise.allSettled(
+    resolvedPromptPaths.map(async promptPath => {
+      const content = await readFile(promptPath, 'utf8');
+      debug(`[DEBUG step] Prompt loaded from ${promptPath}, length=${content.length}`);
+      return content;
+    }),
+  );
+
+  // Separate successful and failed results
+  const successfulParts: string[] = [];
+  const failedPaths: string[] = [];
+
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      successfulParts.push(result.value);
+    } else {
+      failedPaths.push(resolvedPromptPaths[index]);
+      debug(`[DEBUG step] Failed to read prompt file ${resolvedPromptPaths[index]}: ${result.reason}`);
+    }
+  });
+
+  // If all files failed, throw error
+  if (successfulParts.length === 0) {
+    throw new Error(`Failed to read any prompt files: ${failedPaths.join(', ')}`);
+  }
+
+  // Log warning if some files failed
+  if (failedPaths.length > 0) {
+    debug(`[DEBUG step] WARNING: ${failedPaths.length} prompt file(s) could not be read: ${failedPaths.join(', ')}`);
+  }
+
+  const rawPrompt = successfulParts.join('\n\n');
+  debug(`[DEBUG step] Combined prompt length=${rawPrompt.length}`);
+  return rawPrompt;
+}
+
 /**
  * Executes a workflow step (main agent)
  *
@@ -71,59 +128,18 @@ export async function executeStep(
     throw new Error('Only module steps can be executed');
   }
 
-  const promptSources = Array.isArray(step.promptPath) ? step.promptPath : [step.promptPath];
-  debug(`[DEBUG step] Loading prompt from ${promptSources.join(', ')}`);
-  if (promptSources.length === 0) {
-    throw new Error(`Agent ${step.agentId} has no promptPath configured`);
-  }
-  // Load and process the prompt template(s)
-  const resolvedPromptPaths = promptSources.map(p =>
-    path.isAbsolute(p) ? p : path.resolve(cwd, p),
-  );
-  debug(`[DEBUG step] Resolved promptPath(s): ${resolvedPromptPaths.join(', ')}`);
-
-  let rawPrompt: string;
-  try {
-    const results = await Promise.allSettled(
-      resolvedPromptPaths.map(async promptPath => {
-        const content = await readFile(promptPath, 'utf8');
-        debug(`[DEBUG step] Prompt loaded from ${promptPath}, length=${content.length}`);
-        return content;
-      }),
-    );
-
-    // Separate successful and failed results
-    const successfulParts: string[] = [];
-    const failedPaths: string[] = [];
-
-    results.forEach((result, index) => {
-      if (result.status === 'fulfilled') {
-        successfulParts.push(result.value);
-      } else {
-        failedPaths.push(resolvedPromptPaths[index]);
-        debug(`[DEBUG step] Failed to read prompt file ${resolvedPromptPaths[index]}: ${result.reason}`);
-      }
-    });
-
-    // If all files failed, throw error
-    if (successfulParts.length === 0) {
-      throw new Error(`Failed to read any prompt files: ${failedPaths.join(', ')}`);
-    }
-
-    // Log warning if some files failed
-    if (failedPaths.length > 0) {
-      debug(`[DEBUG step] WARNING: ${failedPaths.length} prompt file(s) could not be read: ${failedPaths.join(', ')}`);
-    }
+  const rawPrompt = await readStepPrompt(step, cwd);
 
-    rawPrompt = successfulParts.join('\n\n');
-    debug(`[DEBUG step] Combined prompt length=${rawPrompt.length}`);
-  } catch (fileError) {
-    debug(`[DEBUG step] ERROR reading prompt file: ${fileError instanceof Error ? fileError.message : String(fileError)}`);
-    throw fileError;
+  let budget = await resolvePromptBudget(step, options.promptBudget, cwd, options.abortSignal);
+  if (budget && (options.resumeMonitoringId !== undefined || options.resumeSessionId)) {
+    // A resumed session rarely needs the full prompt again, so don't spend engine calls summarizing it
+    budget = { ...budget, summarize: undefined };
+  }
+  const { prompt, report } = await assemblePrompt(rawPrompt, cwd, budget);
+  debug(`[DEBUG step] Prompt processed, length=${prompt.length} tokens~${report.estimatedTokens} budget=${budget?.maxTokens ?? 'none'}`);
+  if ((report.trimmed || report.overBudget) && options.uniqueAgentId) {
+    options.emitter?.logMessage(options.uniqueAgentId, formatTrimSummary(report));
   }
-
-  const prompt = await processPromptString(rawPrompt, cwd);
-  debug(`[DEBUG step] Prompt processed, length=${prompt.length}`);
 
   // Use environment variable or default to 30 minutes (1800000ms)
   const timeout =
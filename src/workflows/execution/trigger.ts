@@ -1,9 +1,7 @@
-import * as path from 'node:path';
 import type { EngineType } from '../../infra/engines/index.js';
 import { getEngine, registry } from '../../infra/engines/index.js';
 import { loadAgentConfig, loadAgentTemplate } from '../../agents/runner/index.js';
-import { MemoryAdapter } from '../../infra/fs/memory-adapter.js';
-import { MemoryStore } from '../../agents/index.js';
+import { createMemoryStore } from '../../agents/index.js';
 import { processPromptString } from '../../shared/prompts/index.js';
 import type { WorkflowEventEmitter } from '../events/index.js';
 import { AgentMonitorService, AgentLoggerService } from '../../agents/monitoring/index.js';
@@ -100,9 +98,7 @@ export async function executeTriggerAgent(options: TriggerExecutionOptions): Pro
     }
 
     // Build prompt for triggered agent (memory write-only, no read)
-    const memoryDir = path.resolve(cwd, '.codemachine', 'memory');
-    const adapter = new MemoryAdapter(memoryDir);
-    const store = new MemoryStore(adapter);
+    const store = createMemoryStore(cwd);
     const compositePrompt = triggeredAgentTemplate;
 
     // Execute triggered agent
@@ -110,6 +106,7 @@ export async function executeTriggerAgent(options: TriggerExecutionOptions): Pro
     const triggeredResult = await engine.run({
       prompt: compositePrompt,
       workingDir: cwd,
+      agentId: triggerAgentId,
       model: triggeredModel,
       modelReasoningEffort: triggeredReasoning,
       onData: (chunk) => {
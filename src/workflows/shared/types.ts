@@ -42,6 +42,26 @@ export type WorkflowStatus =
   | 'error'
   | 'rate_limit_waiting';
 
+/**
+ * Engine circuit breaker state (mirrors infra CircuitState)
+ */
+export type EngineCircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Template control-flow group a step belongs to (parallel group or branch path)
+ */
+export interface StepGroup {
+  kind: 'parallel' | 'branch';
+  id: string;
+  label: string;
+  /** Branch path this step sits on (branch groups only) */
+  path?: string;
+  /** All paths of the branch (branch groups only) */
+  paths?: string[];
+  /** Path taken when behavior.json names no known path (branch groups only) */
+  defaultPath?: string;
+}
+
 /**
  * Loop execution state
  */
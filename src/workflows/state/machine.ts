@@ -329,6 +329,16 @@ export function createWorkflowMachine(initialContext: Partial<WorkflowContext> =
           STOP: {
             target: 'stopped',
           },
+          // A step cannot complete without valid artifacts
+          ARTIFACTS_FAILED: {
+            target: 'error',
+            action: (ctx, event) => {
+              if (event.type === 'ARTIFACTS_FAILED') {
+                ctx.lastError = event.error;
+                debug('[FSM] Step artifacts failed: %s', event.error.message);
+              }
+            },
+          },
         },
       },
 
@@ -26,6 +26,7 @@ export type WorkflowEvent =
   | { type: 'START' }
   | { type: 'STEP_COMPLETE'; output: StepOutput }
   | { type: 'STEP_ERROR'; error: Error }
+  | { type: 'ARTIFACTS_FAILED'; error: Error }
   | { type: 'INPUT_RECEIVED'; input: string }
   | { type: 'SKIP' }
   | { type: 'PAUSE' }
@@ -0,0 +1,178 @@
+/**
+ * Template Composition
+ *
+ * Resolves included sub-workflows and flattens branch and parallel steps into
+ * the linear step list the runner executes. Flattened module steps keep their
+ * enclosing groups so the runner can gate branch paths and run parallel groups
+ * together, and the timeline can render them as nested nodes.
+ */
+
+import type {
+  FlatWorkflowStep,
+  ModuleStep,
+  StepGroup,
+  WorkflowStep,
+  WorkflowTemplate,
+} from './types.js';
+
+/**
+ * Track and condition selections used to filter module steps
+ */
+export interface StepSelection {
+  track?: string | null;
+  conditions?: string[] | null;
+}
+
+/**
+ * Loads an included workflow template by name
+ */
+export type WorkflowIncludeLoader = (name: string) => Promise<WorkflowTemplate>;
+
+/**
+ * Check whether a module step runs for the selected track and conditions
+ *
+ * Supports inverse conditions with ! prefix (e.g., '!simple_mode' means "run if simple_mode is NOT selected")
+ */
+export function isStepSelected(step: ModuleStep, selection: StepSelection = {}): boolean {
+  const { track } = selection;
+  if (step.tracks?.length && track && !step.tracks.includes(track)) return false;
+  if (step.conditions?.length) {
+    const selected = selection.conditions ?? [];
+    for (const cond of step.conditions) {
+      if (cond.startsWith('!')) {
+        // Inverse condition: step runs only if this condition is NOT selected
+        if (selected.includes(cond.slice(1))) return false;
+      } else {
+        // Normal condition: step runs only if this condition IS selected
+        if (!selected.includes(cond)) return false;
+      }
+    }
+  }
+  return true;
+}
+
+/**
+ * Replace include steps (at any depth) with the steps of the named workflows
+ *
+ * @param chain - Names of the workflows currently being expanded, used to detect cycles
+ */
+export async function resolveIncludes(
+  steps: WorkflowStep[],
+  loadWorkflow: WorkflowIncludeLoader,
+  chain: string[] = [],
+): Promise<WorkflowStep[]> {
+  const resolved: WorkflowStep[] = [];
+
+  for (const step of steps) {
+    if (step.type === 'include') {
+      if (chain.includes(step.workflow)) {
+        throw new Error(`Workflow include cycle: ${[...chain, step.workflow].join(' -> ')}`);
+      }
+      const included = await loadWorkflow(step.workflow);
+      resolved.push(...(await resolveIncludes(included.steps, loadWorkflow, [...chain, step.workflow])));
+    } else if (step.type === 'branch') {
+      const paths: Record<string, WorkflowStep[]> = {};
+      for (const [name, pathSteps] of Object.entries(step.paths)) {
+        paths[name] = await resolveIncludes(pathSteps, loadWorkflow, chain);
+      }
+      resolved.push({ ...step, paths });
+    } else {
+      resolved.push(step);
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Flatten parallel and branch steps into module and UI steps
+ *
+ * Every path of a branch is kept; the runner skips the paths that were not
+ * chosen. Module steps with a `parallelGroup` get a parallel group named after
+ * it, so consecutive steps sharing the name run together. Group ids of parallel
+ * and branch steps that occur more than once (e.g. a sub-workflow included
+ * twice) get a `#n` suffix so each occurrence is scheduled on its own.
+ * Include steps must be resolved first. A null selection keeps every module step.
+ */
+export function flattenWorkflowSteps(steps: WorkflowStep[], selection: StepSelection | null = {}): FlatWorkflowStep[] {
+  const selected = (step: ModuleStep): boolean => selection === null || isStepSelected(step, selection);
+
+  const occurrences = new Map<string, number>();
+  const groupId = (id: string): string => {
+    const count = (occurrences.get(id) ?? 0) + 1;
+    occurrences.set(id, count);
+    return count === 1 ? id : `${id}#${count}`;
+  };
+
+  const withGroups = (step: ModuleStep, groups: StepGroup[]): ModuleStep =>
+    groups.length > 0 ? { ...step, groups } : { ...step };
+
+  // A parallelGroup name groups consecutive module steps like a parallel step does
+  const inParallelGroup = (step: ModuleStep, groups: StepGroup[]): StepGroup[] =>
+    step.parallelGroup
+      ? [...groups, { kind: 'parallel', id: step.parallelGroup, label: step.parallelGroup }]
+      : groups;
+
+  const flatten = (list: WorkflowStep[], groups: StepGroup[]): FlatWorkflowStep[] => {
+    const flat: FlatWorkflowStep[] = [];
+
+    for (const step of list) {
+      switch (step.type) {
+        case 'module':
+          if (selected(step)) flat.push(withGroups(step, inParallelGroup(step, groups)));
+          break;
+        case 'ui':
+          flat.push(step);
+          break;
+        case 'parallel': {
+          const group: StepGroup = { kind: 'parallel', id: groupId(step.id), label: step.label ?? step.id };
+          for (const child of step.steps) {
+            if (selected(child)) flat.push(withGroups(child, [...groups, group]));
+          }
+          break;
+        }
+        case 'branch': {
+          const id = groupId(step.id);
+          const paths = Object.keys(step.paths);
+          for (const [pathName, pathSteps] of Object.entries(step.paths)) {
+            const group: StepGroup = {
+              kind: 'branch',
+              id,
+              label: step.label ?? step.id,
+              path: pathName,
+              paths,
+              defaultPath: step.default,
+            };
+            flat.push(...flatten(pathSteps, [...groups, group]));
+          }
+          break;
+        }
+        case 'include':
+          throw new Error(`Include of workflow '${step.workflow}' must be resolved before flattening`);
+      }
+    }
+
+    return flat;
+  };
+
+  return flatten(steps, []);
+}
+
+/**
+ * Collect module steps at any depth (parallel groups and branch paths included)
+ */
+export function collectModuleSteps(steps: WorkflowStep[]): ModuleStep[] {
+  const modules: ModuleStep[] = [];
+  for (const step of steps) {
+    if (step.type === 'module') {
+      modules.push(step);
+    } else if (step.type === 'parallel') {
+      modules.push(...step.steps);
+    } else if (step.type === 'branch') {
+      for (const pathSteps of Object.values(step.paths)) {
+        modules.push(...collectModuleSteps(pathSteps));
+      }
+    }
+  }
+  return modules;
+}
@@ -1,12 +1,30 @@
-import { resolveFolder, resolveModule, resolveStep, resolveUI } from '../utils/index.js';
+import {
+  resolveBranch,
+  resolveFolder,
+  resolveModule,
+  resolveParallel,
+  resolveStep,
+  resolveUI,
+  resolveWorkflow,
+} from '../utils/index.js';
 
-type TemplateGlobalProvider = typeof resolveStep | typeof resolveFolder | typeof resolveModule | typeof resolveUI;
+type TemplateGlobalProvider =
+  | typeof resolveStep
+  | typeof resolveFolder
+  | typeof resolveModule
+  | typeof resolveUI
+  | typeof resolveParallel
+  | typeof resolveBranch
+  | typeof resolveWorkflow;
 
 const templateGlobals = {
   resolveStep,
   resolveFolder,
   resolveModule,
   resolveUI,
+  resolveParallel,
+  resolveBranch,
+  resolveWorkflow,
 } satisfies Record<string, TemplateGlobalProvider>;
 
 export function ensureTemplateGlobals(): void {
@@ -1,4 +1,5 @@
 export * from './loader.js';
 export * from './validator.js';
+export * from './composition.js';
 export * from './globals.js';
 export * from './types.js';
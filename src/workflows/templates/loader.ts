@@ -1,8 +1,10 @@
 import * as path from 'node:path';
+import { existsSync } from 'node:fs';
 import { createRequire } from 'node:module';
 import { pathToFileURL } from 'node:url';
 import type { WorkflowTemplate } from './types.js';
 import { validateWorkflowTemplate } from './validator.js';
+import { resolveIncludes } from './composition.js';
 import { ensureTemplateGlobals } from './globals.js';
 import { resolvePackageRoot } from '../../shared/runtime/root.js';
 
@@ -32,6 +34,46 @@ export async function loadWorkflowModule(modPath: string): Promise<unknown> {
   return mod?.default ?? mod;
 }
 
+// Sub-workflow includes
+const WORKFLOW_EXTENSION = '.workflow.js';
+
+function workflowName(modPath: string): string {
+  return path.basename(modPath, WORKFLOW_EXTENSION);
+}
+
+/**
+ * Load a workflow template by name, looking next to the including template first
+ */
+export async function loadTemplateByName(name: string, fromDir?: string): Promise<{ template: WorkflowTemplate; resolvedPath: string }> {
+  const candidates = [fromDir, templatesDir]
+    .filter((dir): dir is string => Boolean(dir))
+    .map((dir) => path.resolve(dir, `${name}${WORKFLOW_EXTENSION}`));
+  const modPath = candidates.find((candidate) => existsSync(candidate));
+  if (!modPath) {
+    throw new Error(`Included workflow '${name}' not found. Looked for: ${candidates.join(', ')}`);
+  }
+
+  const tpl = (await loadWorkflowModule(modPath)) as unknown;
+  const result = validateWorkflowTemplate(tpl);
+  if (!result.valid) {
+    throw new Error(`Included workflow '${name}' is invalid: ${result.errors.join('; ')}`);
+  }
+  return { template: tpl as WorkflowTemplate, resolvedPath: modPath };
+}
+
+/**
+ * Replace include steps with the steps of the named workflows (recursively)
+ */
+async function withIncludesResolved(template: WorkflowTemplate, modPath: string): Promise<WorkflowTemplate> {
+  const fromDir = path.dirname(modPath);
+  const steps = await resolveIncludes(
+    template.steps,
+    async (name) => (await loadTemplateByName(name, fromDir)).template,
+    [workflowName(modPath)],
+  );
+  return { ...template, steps };
+}
+
 // Template loading
 export async function loadTemplate(cwd: string, templatePath?: string): Promise<WorkflowTemplate> {
   const resolvedTemplateOverride = templatePath
@@ -47,7 +89,7 @@ export async function loadTemplate(cwd: string, templatePath?: string): Promise<
     try {
       const tpl = (await loadWorkflowModule(modPath)) as unknown;
       const result = validateWorkflowTemplate(tpl);
-      if (result.valid) return tpl as WorkflowTemplate;
+      if (result.valid) return await withIncludesResolved(tpl as WorkflowTemplate, modPath);
       const rel = path.relative(cwd, modPath);
       errors.push(`${rel}: ${result.errors.join('; ')}`);
     } catch (e) {
@@ -74,7 +116,9 @@ export async function loadTemplateWithPath(cwd: string, templatePath?: string):
     try {
       const tpl = (await loadWorkflowModule(modPath)) as unknown;
       const result = validateWorkflowTemplate(tpl);
-      if (result.valid) return { template: tpl as WorkflowTemplate, resolvedPath: modPath };
+      if (result.valid) {
+        return { template: await withIncludesResolved(tpl as WorkflowTemplate, modPath), resolvedPath: modPath };
+      }
       const rel = path.relative(cwd, modPath);
       errors.push(`${rel}: ${result.errors.join('; ')}`);
     } catch (e) {
@@ -1,3 +1,12 @@
+import type { WorkflowEventBus } from '../events/event-bus.js';
+import type { StepGroup } from '../shared/types.js';
+import type { BudgetConfig } from '../execution/budget.js';
+import type { PromptBudgetConfig } from '../execution/prompt-budget.js';
+import type { AgentTier } from '../execution/engine-presets.js';
+import type { ArtifactSpec } from '../artifacts/types.js';
+
+export type { StepGroup };
+
 export type UnknownRecord = Record<string, unknown>;
 
 export interface LoopModuleBehavior {
@@ -35,12 +44,20 @@ export interface ModuleStep {
   model?: string;
   modelReasoningEffort?: 'low' | 'medium' | 'high';
   engine?: string; // Dynamic engine type from registry
+  tier?: AgentTier; // Complexity tier selecting the preset model (overrides the agent's tier)
   fallbackChain?: string[]; // Ordered list of fallback engine IDs (e.g., ['claude', 'gemini', 'codex'])
   module?: ModuleMetadata;
   executeOnce?: boolean;
   notCompletedFallback?: string; // Agent ID to run if step is in notCompletedSteps
   tracks?: string[]; // Track names this step belongs to (e.g., ['bmad', 'enterprise'])
   conditions?: string[]; // Conditions required for this step (e.g., ['has_ui', 'has_api'])
+  parallelGroup?: string; // Consecutive steps sharing this name run concurrently
+  dependsOn?: string[]; // Agent IDs in the same parallel group that must finish before this step starts
+  promptBudget?: PromptBudgetConfig; // Prompt token budget (merged over the template's promptBudget)
+  produces?: ArtifactSpec[]; // Artifacts checked after the step completes
+  consumes?: string[]; // Names of artifacts produced by earlier steps
+  onInvalidArtifacts?: 'retry' | 'fail'; // Ask the agent to fix invalid artifacts (default) or fail the step
+  groups?: StepGroup[]; // Enclosing parallel groups and branch paths, outermost first (set when steps are flattened)
 }
 
 export interface UIStep {
@@ -48,7 +65,41 @@ export interface UIStep {
   text: string;
 }
 
-export type WorkflowStep = ModuleStep | UIStep;
+/**
+ * Runs several module steps concurrently; the workflow continues once all of them finish
+ */
+export interface ParallelStep {
+  type: 'parallel';
+  id: string;
+  label?: string;
+  steps: ModuleStep[];
+}
+
+/**
+ * Takes one of several paths, chosen by the `path` the preceding agent wrote to behavior.json
+ */
+export interface BranchStep {
+  type: 'branch';
+  id: string;
+  label?: string;
+  paths: Record<string, WorkflowStep[]>;
+  default?: string; // Path to take when behavior.json names no known path
+}
+
+/**
+ * Includes the steps of another workflow template by name
+ */
+export interface IncludeStep {
+  type: 'include';
+  workflow: string; // Template name, resolved as templates/workflows/<name>.workflow.js
+}
+
+export type WorkflowStep = ModuleStep | UIStep | ParallelStep | BranchStep | IncludeStep;
+
+/**
+ * Steps left after includes are resolved and control flow is flattened
+ */
+export type FlatWorkflowStep = ModuleStep | UIStep;
 
 /**
  * Type guard to check if a step is a ModuleStep
@@ -74,6 +125,11 @@ export interface WorkflowTemplate {
   tracks?: Record<string, TrackConfig>;
   conditions?: Record<string, ConditionConfig>;
   controller?: boolean; // Enables autonomous mode with controller agent selection
+  maxParallel?: number; // Maximum steps of a parallel group running at once
+  budgets?: BudgetConfig; // Token and cost budgets (merged over .codemachine/budgets.json)
+  snapshots?: boolean; // Record a git snapshot as each step completes (enables rollback)
+  promptBudget?: PromptBudgetConfig; // Token budget assembled prompts are trimmed to fit
+  tiers?: Record<string, AgentTier>; // Complexity tier per agent ID, for agents without a step `tier` (e.g. sub-agents)
 }
 
 export type ModuleName = ModuleStep['agentId'];
@@ -88,6 +144,14 @@ export interface RunWorkflowOptions {
   engineOverride?: string;
   /** Per-agent engine overrides (agentId -> engineId) */
   engineOverrides?: Record<string, string>;
+  /** Maximum steps of a parallel group running at once (overrides the template's maxParallel) */
+  maxParallel?: number;
+  /** Record a git snapshot as each step completes (overrides the template's snapshots) */
+  snapshots?: boolean;
+  /** Run without the TUI: no screen clearing, return as soon as the runner finishes */
+  headless?: boolean;
+  /** Event bus to emit on (defaults to the TUI's global bus or a fresh one) */
+  eventBus?: WorkflowEventBus;
 }
 
 export interface TaskManagerOptions {
@@ -1,4 +1,7 @@
 import type { WorkflowTemplate } from './types.js';
+import { PROMPT_TRIM_STRATEGIES } from '../../shared/prompts/trimming/types.js';
+import { ARTIFACT_FORMATS } from '../artifacts/types.js';
+import { checkModel, findModel } from '../../infra/engines/core/model-catalog.js';
 
 export interface ValidationResult {
   valid: boolean;
@@ -17,116 +20,539 @@ function isValidPromptPath(value: unknown): boolean {
   return false;
 }
 
-export function validateWorkflowTemplate(value: unknown): ValidationResult {
-  const errors: string[] = [];
-  if (!value || typeof value !== 'object') {
-    return { valid: false, errors: ['Template is not an object'] };
+const STEP_TYPES = ['module', 'ui', 'parallel', 'branch', 'include'];
+
+function isTier(value: unknown): boolean {
+  return value === 1 || value === 2 || value === 3;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function validateSteps(steps: unknown[], prefix: string, errors: string[], groupNames: Map<string, 'step' | 'parallelGroup'>): void {
+  steps.forEach((step, index) => {
+    validateStep(step, `${prefix}[${index}]`, errors, groupNames);
+  });
+
+  // Dependencies are checked per parallel group: parallel steps, and
+  // consecutive module steps with the same parallelGroup
+  let group: { name: string; members: { step: unknown; label: string }[] } | null = null;
+  const closeGroup = () => {
+    if (group) {
+      validateGroupDependencies(group.members, `Parallel group '${group.name}' (${group.members[0].label})`, errors);
+    }
+    group = null;
+  };
+  steps.forEach((step, index) => {
+    const label = `${prefix}[${index}]`;
+    const { type, parallelGroup, dependsOn, steps: children } = (step ?? {}) as {
+      type?: unknown;
+      parallelGroup?: unknown;
+      dependsOn?: unknown;
+      steps?: unknown;
+    };
+    const name = type === 'module' && isNonEmptyString(parallelGroup) ? parallelGroup : undefined;
+    if (group && group.name !== name) closeGroup();
+
+    if (type === 'parallel' && Array.isArray(children)) {
+      validateGroupDependencies(
+        children.map((child, childIndex) => ({ step: child, label: `${label}.steps[${childIndex}]` })),
+        label,
+        errors,
+      );
+    } else if (name) {
+      group ??= { name, members: [] };
+      group.members.push({ step, label });
+    } else if (type === 'module' && dependsOn !== undefined) {
+      errors.push(`${label}.dependsOn can only be used in a parallel group`);
+    }
+  });
+  closeGroup();
+}
+
+/**
+ * dependsOn may only name other members of the same parallel group, without cycles
+ */
+function validateGroupDependencies(members: { step: unknown; label: string }[], groupLabel: string, errors: string[]): void {
+  const agentIds = new Set(
+    members.map(({ step }) => (step as { agentId?: unknown } | null)?.agentId).filter(isNonEmptyString),
+  );
+
+  const graph = new Map<string, string[]>();
+  for (const { step, label } of members) {
+    const { agentId, dependsOn } = (step ?? {}) as { agentId?: unknown; dependsOn?: unknown };
+    // Malformed lists are reported by validateStep
+    if (!Array.isArray(dependsOn) || !dependsOn.every(isNonEmptyString)) continue;
+
+    for (const target of dependsOn) {
+      if (target === agentId || !agentIds.has(target)) {
+        errors.push(`${label}.dependsOn '${target}' is not another step of its parallel group`);
+      } else if (isNonEmptyString(agentId)) {
+        graph.set(agentId, [...(graph.get(agentId) ?? []), target]);
+      }
+    }
   }
 
-  const obj = value as { name?: unknown; steps?: unknown };
-  if (typeof obj.name !== 'string' || obj.name.trim().length === 0) {
-    errors.push('Template.name must be a non-empty string');
+  const visited = new Map<string, 'visiting' | 'done'>();
+  const findCycle = (agentId: string, trail: string[]): string[] | null => {
+    if (visited.get(agentId) === 'done') return null;
+    if (visited.get(agentId) === 'visiting') return [...trail.slice(trail.indexOf(agentId)), agentId];
+    visited.set(agentId, 'visiting');
+    for (const target of graph.get(agentId) ?? []) {
+      const cycle = findCycle(target, [...trail, agentId]);
+      if (cycle) return cycle;
+    }
+    visited.set(agentId, 'done');
+    return null;
+  };
+  for (const agentId of graph.keys()) {
+    const cycle = findCycle(agentId, []);
+    if (cycle) {
+      errors.push(`${groupLabel} has a dependsOn cycle: ${cycle.join(' -> ')}`);
+      return;
+    }
   }
-  if (!Array.isArray(obj.steps)) {
-    errors.push('Template.steps must be an array');
-  } else {
-    obj.steps.forEach((step, index) => {
-      if (!step || typeof step !== 'object') {
-        errors.push(`Step[${index}] must be an object`);
+}
+
+function validateStep(step: unknown, label: string, errors: string[], groupNames: Map<string, 'step' | 'parallelGroup'>): void {
+  if (!step || typeof step !== 'object') {
+    errors.push(`${label} must be an object`);
+    return;
+  }
+  const candidate = step as {
+    type?: unknown;
+    agentId?: unknown;
+    agentName?: unknown;
+    promptPath?: unknown;
+    model?: unknown;
+    modelReasoningEffort?: unknown;
+    module?: unknown;
+    executeOnce?: unknown;
+    text?: unknown;
+    id?: unknown;
+    steps?: unknown;
+    paths?: unknown;
+    default?: unknown;
+    workflow?: unknown;
+    parallelGroup?: unknown;
+    dependsOn?: unknown;
+  };
+
+  // Validate step type
+  if (typeof candidate.type !== 'string' || !STEP_TYPES.includes(candidate.type)) {
+    errors.push(`${label}.type must be one of ${STEP_TYPES.map((t) => `'${t}'`).join(', ')}`);
+    return;
+  }
+
+  // Validate UI step
+  if (candidate.type === 'ui') {
+    if (typeof candidate.text !== 'string' || (candidate.text as string).trim().length === 0) {
+      errors.push(`${label}.text must be a non-empty string`);
+    }
+    // UI steps don't need other validation
+    return;
+  }
+
+  // Validate include step
+  if (candidate.type === 'include') {
+    if (!isNonEmptyString(candidate.workflow)) {
+      errors.push(`${label}.workflow must be a non-empty string`);
+    }
+    return;
+  }
+
+  // Parallel groups and branches need an id that is unique within the template
+  if (candidate.type === 'parallel' || candidate.type === 'branch') {
+    if (!isNonEmptyString(candidate.id)) {
+      errors.push(`${label}.id must be a non-empty string`);
+    } else if (groupNames.has(candidate.id)) {
+      errors.push(`${label}.id '${candidate.id}' is already used by another parallel or branch step`);
+    } else {
+      groupNames.set(candidate.id, 'step');
+    }
+  }
+
+  // Validate parallel step
+  if (candidate.type === 'parallel') {
+    if (!Array.isArray(candidate.steps) || candidate.steps.length === 0) {
+      errors.push(`${label}.steps must be a non-empty array`);
+      return;
+    }
+    candidate.steps.forEach((child, index) => {
+      const childLabel = `${label}.steps[${index}]`;
+      if (child && typeof child === 'object' && (child as { type?: unknown }).type !== 'module') {
+        errors.push(`${childLabel}.type must be 'module' inside a parallel step`);
         return;
       }
-      const candidate = step as {
-        type?: unknown;
-        agentId?: unknown;
-        agentName?: unknown;
-        promptPath?: unknown;
-        model?: unknown;
-        modelReasoningEffort?: unknown;
-        module?: unknown;
-        executeOnce?: unknown;
-        text?: unknown;
-      };
-
-      // Validate step type
-      if (candidate.type !== 'module' && candidate.type !== 'ui') {
-        errors.push(`Step[${index}].type must be 'module' or 'ui'`);
+      if (child && typeof child === 'object' && (child as { parallelGroup?: unknown }).parallelGroup !== undefined) {
+        errors.push(`${childLabel}.parallelGroup cannot be used inside a parallel step`);
       }
+      validateStep(child, childLabel, errors, groupNames);
+    });
+    return;
+  }
 
-      // Validate UI step
-      if (candidate.type === 'ui') {
-        if (typeof candidate.text !== 'string' || (candidate.text as string).trim().length === 0) {
-          errors.push(`Step[${index}].text must be a non-empty string`);
-        }
-        // UI steps don't need other validation
-        return;
+  // Validate branch step
+  if (candidate.type === 'branch') {
+    const paths = candidate.paths;
+    if (!paths || typeof paths !== 'object' || Array.isArray(paths) || Object.keys(paths).length === 0) {
+      errors.push(`${label}.paths must be an object with at least one path`);
+      return;
+    }
+    for (const [name, pathSteps] of Object.entries(paths as Record<string, unknown>)) {
+      if (!Array.isArray(pathSteps)) {
+        errors.push(`${label}.paths.${name} must be an array of steps`);
+        continue;
       }
+      validateSteps(pathSteps, `${label}.paths.${name}`, errors, groupNames);
+    }
+    if (candidate.default !== undefined && (typeof candidate.default !== 'string' || !(candidate.default in paths))) {
+      errors.push(`${label}.default must name one of the branch paths`);
+    }
+    return;
+  }
 
-      // Validate module step
-      if (candidate.type === 'module') {
-        if (typeof candidate.agentId !== 'string') {
-          errors.push(`Step[${index}].agentId must be a string`);
-        }
-        if (typeof candidate.agentName !== 'string') {
-          errors.push(`Step[${index}].agentName must be a string`);
-        }
-        if (!isValidPromptPath(candidate.promptPath)) {
-          errors.push(`Step[${index}].promptPath must be a non-empty string or array of non-empty strings`);
-        }
+  validateModuleStep(candidate, label, errors);
 
-        if (candidate.model !== undefined && typeof candidate.model !== 'string') {
-          errors.push(`Step[${index}].model must be a string`);
-        }
+  // Consecutive module steps may share a parallel group name
+  if (candidate.parallelGroup !== undefined) {
+    if (!isNonEmptyString(candidate.parallelGroup)) {
+      errors.push(`${label}.parallelGroup must be a non-empty string`);
+    } else if (groupNames.get(candidate.parallelGroup) === 'step') {
+      errors.push(`${label}.parallelGroup '${candidate.parallelGroup}' is already used by a parallel or branch step`);
+    } else {
+      groupNames.set(candidate.parallelGroup, 'parallelGroup');
+    }
+  }
+  if (
+    candidate.dependsOn !== undefined &&
+    (!Array.isArray(candidate.dependsOn) || !candidate.dependsOn.every(isNonEmptyString))
+  ) {
+    errors.push(`${label}.dependsOn must be an array of agent IDs`);
+  }
+}
+
+function validateModuleStep(
+  candidate: {
+    agentId?: unknown;
+    agentName?: unknown;
+    promptPath?: unknown;
+    engine?: unknown;
+    model?: unknown;
+    modelReasoningEffort?: unknown;
+    module?: unknown;
+    executeOnce?: unknown;
+    tier?: unknown;
+    promptBudget?: unknown;
+    produces?: unknown;
+    consumes?: unknown;
+    onInvalidArtifacts?: unknown;
+  },
+  label: string,
+  errors: string[],
+): void {
+  if (candidate.promptBudget !== undefined) {
+    validatePromptBudget(candidate.promptBudget, `${label}.promptBudget`, errors);
+  }
+  if (candidate.produces !== undefined) {
+    validateProduces(candidate.produces, `${label}.produces`, errors);
+  }
+  if (
+    candidate.consumes !== undefined &&
+    (!Array.isArray(candidate.consumes) || !candidate.consumes.every(isNonEmptyString))
+  ) {
+    errors.push(`${label}.consumes must be an array of artifact names`);
+  }
+  if (
+    candidate.onInvalidArtifacts !== undefined &&
+    candidate.onInvalidArtifacts !== 'retry' &&
+    candidate.onInvalidArtifacts !== 'fail'
+  ) {
+    errors.push(`${label}.onInvalidArtifacts must be one of 'retry'|'fail'`);
+  }
+  if (typeof candidate.agentId !== 'string') {
+    errors.push(`${label}.agentId must be a string`);
+  }
+  if (typeof candidate.agentName !== 'string') {
+    errors.push(`${label}.agentName must be a string`);
+  }
+  if (!isValidPromptPath(candidate.promptPath)) {
+    errors.push(`${label}.promptPath must be a non-empty string or array of non-empty strings`);
+  }
 
-        if (candidate.modelReasoningEffort !== undefined) {
-          const mre = candidate.modelReasoningEffort;
-          if (mre !== 'low' && mre !== 'medium' && mre !== 'high') {
-            errors.push(
-              `Step[${index}].modelReasoningEffort must be one of 'low'|'medium'|'high' (got '${String(mre)}')`,
-            );
+  if (candidate.model !== undefined && typeof candidate.model !== 'string') {
+    errors.push(`${label}.model must be a string`);
+  }
+
+  // Models of steps pinned to an engine must be in the engine's model catalog
+  if (typeof candidate.engine === 'string' && typeof candidate.model === 'string') {
+    const modelError = checkModel(candidate.engine, candidate.model);
+    if (modelError) {
+      errors.push(`${label}.model ${modelError}`);
+    } else if (candidate.modelReasoningEffort !== undefined) {
+      const info = findModel(candidate.engine, candidate.model);
+      if (info && !info.reasoningEffort) {
+        errors.push(`${label}.modelReasoningEffort is not supported by ${candidate.engine} model '${candidate.model}'`);
+      }
+    }
+  }
+
+  if (candidate.modelReasoningEffort !== undefined) {
+    const mre = candidate.modelReasoningEffort;
+    if (mre !== 'low' && mre !== 'medium' && mre !== 'high') {
+      errors.push(
+        `${label}.modelReasoningEffort must be one of 'low'|'medium'|'high' (got '${String(mre)}')`,
+      );
+    }
+  }
+
+  if (candidate.executeOnce !== undefined && typeof candidate.executeOnce !== 'boolean') {
+    errors.push(`${label}.executeOnce must be a boolean`);
+  }
+
+  if (candidate.tier !== undefined && !isTier(candidate.tier)) {
+    errors.push(`${label}.tier must be one of 1|2|3`);
+  }
+
+  if (candidate.module !== undefined) {
+    if (!candidate.module || typeof candidate.module !== 'object') {
+      errors.push(`${label}.module must be an object`);
+    } else {
+      const moduleMeta = candidate.module as { id?: unknown; behavior?: unknown };
+      if (typeof moduleMeta.id !== 'string') {
+        errors.push(`${label}.module.id must be a string`);
+      }
+      if (moduleMeta.behavior !== undefined) {
+        if (!moduleMeta.behavior || typeof moduleMeta.behavior !== 'object') {
+          errors.push(`${label}.module.behavior must be an object`);
+        } else {
+          const behavior = moduleMeta.behavior as {
+            type?: unknown;
+            action?: unknown;
+            steps?: unknown;
+            trigger?: unknown;
+            maxIterations?: unknown;
+          };
+          if (behavior.type !== 'loop' || behavior.action !== 'stepBack') {
+            errors.push(`${label}.module.behavior must be { type: 'loop', action: 'stepBack', ... }`);
+          }
+          if (typeof behavior.steps !== 'number' || behavior.steps <= 0) {
+            errors.push(`${label}.module.behavior.steps must be a positive number`);
+          }
+          if (behavior.trigger !== undefined && typeof behavior.trigger !== 'string') {
+            errors.push(`${label}.module.behavior.trigger must be a string if provided`);
+          }
+          if (behavior.maxIterations !== undefined && typeof behavior.maxIterations !== 'number') {
+            errors.push(`${label}.module.behavior.maxIterations must be a number`);
           }
         }
+      }
+    }
+  }
+}
 
-        if (candidate.executeOnce !== undefined && typeof candidate.executeOnce !== 'boolean') {
-          errors.push(`Step[${index}].executeOnce must be a boolean`);
-        }
+function validateProduces(value: unknown, label: string, errors: string[]): void {
+  if (!Array.isArray(value)) {
+    errors.push(`${label} must be an array of artifacts`);
+    return;
+  }
+  const names = new Set<string>();
+  value.forEach((artifact, index) => {
+    const artifactLabel = `${label}[${index}]`;
+    if (!artifact || typeof artifact !== 'object' || Array.isArray(artifact)) {
+      errors.push(`${artifactLabel} must be an object`);
+      return;
+    }
+    const spec = artifact as {
+      name?: unknown;
+      path?: unknown;
+      format?: unknown;
+      schema?: unknown;
+      optional?: unknown;
+      description?: unknown;
+    };
 
-        if (candidate.module !== undefined) {
-          if (!candidate.module || typeof candidate.module !== 'object') {
-            errors.push(`Step[${index}].module must be an object`);
-          } else {
-            const moduleMeta = candidate.module as { id?: unknown; behavior?: unknown };
-            if (typeof moduleMeta.id !== 'string') {
-              errors.push(`Step[${index}].module.id must be a string`);
-            }
-            if (moduleMeta.behavior !== undefined) {
-              if (!moduleMeta.behavior || typeof moduleMeta.behavior !== 'object') {
-                errors.push(`Step[${index}].module.behavior must be an object`);
-              } else {
-                const behavior = moduleMeta.behavior as {
-                  type?: unknown;
-                  action?: unknown;
-                  steps?: unknown;
-                  trigger?: unknown;
-                  maxIterations?: unknown;
-                };
-                if (behavior.type !== 'loop' || behavior.action !== 'stepBack') {
-                  errors.push(`Step[${index}].module.behavior must be { type: 'loop', action: 'stepBack', ... }`);
-                }
-                if (typeof behavior.steps !== 'number' || behavior.steps <= 0) {
-                  errors.push(`Step[${index}].module.behavior.steps must be a positive number`);
-                }
-                if (behavior.trigger !== undefined && typeof behavior.trigger !== 'string') {
-                  errors.push(`Step[${index}].module.behavior.trigger must be a string if provided`);
-                }
-                if (behavior.maxIterations !== undefined && typeof behavior.maxIterations !== 'number') {
-                  errors.push(`Step[${index}].module.behavior.maxIterations must be a number`);
-                }
-              }
-            }
-          }
+    if (!isNonEmptyString(spec.name)) {
+      errors.push(`${artifactLabel}.name must be a non-empty string`);
+    } else if (names.has(spec.name)) {
+      errors.push(`${artifactLabel}.name '${spec.name}' is declared twice`);
+    } else {
+      names.add(spec.name);
+    }
+    if (!isNonEmptyString(spec.path)) {
+      errors.push(`${artifactLabel}.path must be a non-empty string`);
+    }
+    if (spec.format !== undefined && !ARTIFACT_FORMATS.includes(spec.format as never)) {
+      errors.push(`${artifactLabel}.format must be one of ${ARTIFACT_FORMATS.map((f) => `'${f}'`).join('|')}`);
+    }
+    if (spec.schema !== undefined) {
+      if (spec.format !== 'json') {
+        errors.push(`${artifactLabel}.schema requires format 'json'`);
+      } else if (!isNonEmptyString(spec.schema) && (!spec.schema || typeof spec.schema !== 'object' || Array.isArray(spec.schema))) {
+        errors.push(`${artifactLabel}.schema must be a JSON schema object or a path to one`);
+      }
+    }
+    if (spec.optional !== undefined && typeof spec.optional !== 'boolean') {
+      errors.push(`${artifactLabel}.optional must be a boolean`);
+    }
+    if (spec.description !== undefined && typeof spec.description !== 'string') {
+      errors.push(`${artifactLabel}.description must be a string`);
+    }
+  });
+}
+
+function validateBudgetLimit(value: unknown, label: string, errors: string[]): void {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push(`${label} must be an object`);
+    return;
+  }
+  const limit = value as { maxTokens?: unknown; maxCost?: unknown };
+  if (limit.maxTokens !== undefined && (typeof limit.maxTokens !== 'number' || limit.maxTokens <= 0)) {
+    errors.push(`${label}.maxTokens must be a positive number`);
+  }
+  if (limit.maxCost !== undefined && (typeof limit.maxCost !== 'number' || limit.maxCost <= 0)) {
+    errors.push(`${label}.maxCost must be a positive number`);
+  }
+}
+
+function validateBudgets(value: unknown, label: string, errors: string[]): void {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push(`${label} must be an object`);
+    return;
+  }
+  const budgets = value as {
+    workflow?: unknown;
+    steps?: unknown;
+    engines?: unknown;
+    warnAt?: unknown;
+    onExceeded?: unknown;
+    switchPreset?: unknown;
+  };
+
+  if (budgets.workflow !== undefined) {
+    validateBudgetLimit(budgets.workflow, `${label}.workflow`, errors);
+  }
+  for (const scope of ['steps', 'engines'] as const) {
+    const limits = budgets[scope];
+    if (limits === undefined) continue;
+    if (!limits || typeof limits !== 'object' || Array.isArray(limits)) {
+      errors.push(`${label}.${scope} must be an object`);
+      continue;
+    }
+    for (const [key, limit] of Object.entries(limits)) {
+      validateBudgetLimit(limit, `${label}.${scope}.${key}`, errors);
+    }
+  }
+  if (
+    budgets.warnAt !== undefined &&
+    (!Array.isArray(budgets.warnAt) ||
+      !budgets.warnAt.every((fraction) => typeof fraction === 'number' && fraction > 0 && fraction < 1))
+  ) {
+    errors.push(`${label}.warnAt must be an array of fractions between 0 and 1`);
+  }
+  if (budgets.onExceeded !== undefined && budgets.onExceeded !== 'pause' && budgets.onExceeded !== 'switch-engine') {
+    errors.push(`${label}.onExceeded must be one of 'pause'|'switch-engine'`);
+  }
+  if (budgets.switchPreset !== undefined && !isNonEmptyString(budgets.switchPreset)) {
+    errors.push(`${label}.switchPreset must be a non-empty string`);
+  } else if (budgets.onExceeded === 'switch-engine' && budgets.switchPreset === undefined) {
+    errors.push(`${label}.switchPreset is required when onExceeded is 'switch-engine'`);
+  }
+}
+
+/**
+ * Check a budget config (template `budgets` or .codemachine/budgets.json)
+ *
+ * @returns one message per invalid field
+ */
+export function validateBudgetConfig(value: unknown, label = 'budgets'): string[] {
+  const errors: string[] = [];
+  validateBudgets(value, label, errors);
+  return errors;
+}
+
+function validatePromptBudget(value: unknown, label: string, errors: string[]): void {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push(`${label} must be an object`);
+    return;
+  }
+  const budget = value as {
+    maxTokens?: unknown;
+    share?: unknown;
+    strategy?: unknown;
+    contextWindows?: unknown;
+    summarizeEngine?: unknown;
+    summarizeModel?: unknown;
+  };
+
+  if (budget.maxTokens !== undefined && (!Number.isInteger(budget.maxTokens) || (budget.maxTokens as number) <= 0)) {
+    errors.push(`${label}.maxTokens must be a positive integer`);
+  }
+  if (budget.share !== undefined && (typeof budget.share !== 'number' || budget.share <= 0 || budget.share > 1)) {
+    errors.push(`${label}.share must be a number between 0 and 1`);
+  }
+  if (budget.strategy !== undefined && !PROMPT_TRIM_STRATEGIES.includes(budget.strategy as never)) {
+    errors.push(`${label}.strategy must be one of ${PROMPT_TRIM_STRATEGIES.map((s) => `'${s}'`).join('|')}`);
+  }
+  if (budget.contextWindows !== undefined) {
+    if (!budget.contextWindows || typeof budget.contextWindows !== 'object' || Array.isArray(budget.contextWindows)) {
+      errors.push(`${label}.contextWindows must be an object`);
+    } else {
+      for (const [model, tokens] of Object.entries(budget.contextWindows)) {
+        if (!Number.isInteger(tokens) || (tokens as number) <= 0) {
+          errors.push(`${label}.contextWindows.${model} must be a positive integer`);
         }
       }
-    });
+    }
+  }
+  for (const field of ['summarizeEngine', 'summarizeModel'] as const) {
+    if (budget[field] !== undefined && !isNonEmptyString(budget[field])) {
+      errors.push(`${label}.${field} must be a non-empty string`);
+    }
+  }
+}
+
+export function validateWorkflowTemplate(value: unknown): ValidationResult {
+  const errors: string[] = [];
+  if (!value || typeof value !== 'object') {
+    return { valid: false, errors: ['Template is not an object'] };
+  }
+
+  const obj = value as {
+    name?: unknown;
+    steps?: unknown;
+    maxParallel?: unknown;
+    budgets?: unknown;
+    snapshots?: unknown;
+    promptBudget?: unknown;
+    tiers?: unknown;
+  };
+  if (typeof obj.name !== 'string' || obj.name.trim().length === 0) {
+    errors.push('Template.name must be a non-empty string');
+  }
+  if (obj.maxParallel !== undefined && (!Number.isInteger(obj.maxParallel) || (obj.maxParallel as number) < 1)) {
+    errors.push('Template.maxParallel must be a positive integer');
+  }
+  if (obj.budgets !== undefined) {
+    validateBudgets(obj.budgets, 'Template.budgets', errors);
+  }
+  if (obj.snapshots !== undefined && typeof obj.snapshots !== 'boolean') {
+    errors.push('Template.snapshots must be a boolean');
+  }
+  if (obj.promptBudget !== undefined) {
+    validatePromptBudget(obj.promptBudget, 'Template.promptBudget', errors);
+  }
+  if (
+    obj.tiers !== undefined &&
+    (!obj.tiers || typeof obj.tiers !== 'object' || Array.isArray(obj.tiers) || !Object.values(obj.tiers).every(isTier))
+  ) {
+    errors.push('Template.tiers must map agent IDs to a tier (1|2|3)');
+  }
+  if (!Array.isArray(obj.steps)) {
+    errors.push('Template.steps must be an array');
+  } else {
+    validateSteps(obj.steps, 'Step', errors, new Map());
   }
 
   return { valid: errors.length === 0, errors };
@@ -2,6 +2,9 @@ export { resolveStep } from './resolvers/step.js';
 export { resolveModule } from './resolvers/module.js';
 export { resolveFolder } from './resolvers/folder.js';
 export { resolveUI } from './resolvers/ui.js';
+export { resolveParallel, type ParallelOptions } from './resolvers/parallel.js';
+export { resolveBranch, type BranchOptions } from './resolvers/branch.js';
+export { resolveWorkflow } from './resolvers/workflow.js';
 
 export type {
   StepOverrides,
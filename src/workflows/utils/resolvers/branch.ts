@@ -0,0 +1,25 @@
+import type { BranchStep, WorkflowStep } from '../../templates/types.js';
+
+export interface BranchOptions {
+  label?: string;
+  default?: string;
+}
+
+export function resolveBranch(
+  id: string,
+  paths: Record<string, WorkflowStep | WorkflowStep[]>,
+  options: BranchOptions = {},
+): BranchStep {
+  const normalized: Record<string, WorkflowStep[]> = {};
+  for (const [name, steps] of Object.entries(paths)) {
+    normalized[name] = Array.isArray(steps) ? steps : [steps];
+  }
+
+  return {
+    type: 'branch',
+    id,
+    label: options.label,
+    paths: normalized,
+    default: options.default,
+  };
+}
@@ -64,6 +64,13 @@ export function resolveModule(id: string, overrides: ModuleOverrides = {}): Work
     model,
     modelReasoningEffort,
     engine,
+    tier: overrides.tier,
+    parallelGroup: overrides.parallelGroup,
+    dependsOn: overrides.dependsOn,
+    promptBudget: overrides.promptBudget,
+    produces: overrides.produces,
+    consumes: overrides.consumes,
+    onInvalidArtifacts: overrides.onInvalidArtifacts,
     module: {
       id: moduleEntry.id,
       behavior,
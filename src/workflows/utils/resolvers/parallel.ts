@@ -0,0 +1,14 @@
+import type { ModuleStep, ParallelStep } from '../../templates/types.js';
+
+export interface ParallelOptions {
+  label?: string;
+}
+
+export function resolveParallel(id: string, steps: ModuleStep[], options: ParallelOptions = {}): ParallelStep {
+  return {
+    type: 'parallel',
+    id,
+    label: options.label,
+    steps,
+  };
+}
@@ -29,9 +29,16 @@ export function resolveStep(id: string, overrides: StepOverrides = {}): Workflow
     model,
     modelReasoningEffort: overrides.modelReasoningEffort ?? agent.modelReasoningEffort,
     engine: overrides.engine ?? agent.engine, // Override from step or use agent config
+    tier: overrides.tier,
     executeOnce: overrides.executeOnce,
     notCompletedFallback: overrides.notCompletedFallback,
     tracks: overrides.tracks,
     conditions: overrides.conditions,
+    parallelGroup: overrides.parallelGroup,
+    dependsOn: overrides.dependsOn,
+    promptBudget: overrides.promptBudget,
+    produces: overrides.produces,
+    consumes: overrides.consumes,
+    onInvalidArtifacts: overrides.onInvalidArtifacts,
   };
 }
@@ -0,0 +1,8 @@
+import type { IncludeStep } from '../../templates/types.js';
+
+export function resolveWorkflow(name: string): IncludeStep {
+  return {
+    type: 'include',
+    workflow: name,
+  };
+}
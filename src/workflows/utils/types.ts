@@ -1,13 +1,23 @@
+import type { PromptBudgetConfig } from '../execution/prompt-budget.js';
+import type { ArtifactSpec } from '../artifacts/types.js';
+
 export interface StepOverrides {
   agentName?: string;
   promptPath?: string | string[];
   model?: string;
   modelReasoningEffort?: string;
   engine?: string; // Dynamic engine type from registry
+  tier?: 1 | 2 | 3; // Complexity tier selecting the preset model (1=complex, 2=standard, 3=simple)
   executeOnce?: boolean;
   notCompletedFallback?: string;
   tracks?: string[]; // Track names this step belongs to (e.g., ['bmad', 'enterprise'])
   conditions?: string[]; // Conditions required for this step (e.g., ['has_ui', 'has_api'])
+  parallelGroup?: string; // Consecutive steps sharing this name run concurrently
+  dependsOn?: string[]; // Agent IDs in the same parallel group that must finish first
+  promptBudget?: PromptBudgetConfig; // Prompt token budget for this step
+  produces?: ArtifactSpec[]; // Artifacts checked after the step completes
+  consumes?: string[]; // Names of artifacts produced by earlier steps
+  onInvalidArtifacts?: 'retry' | 'fail'; // Ask the agent to fix invalid artifacts (default) or fail the step
 }
 
 export interface WorkflowStep {
@@ -18,11 +28,18 @@ export interface WorkflowStep {
   model?: string;
   modelReasoningEffort?: string;
   engine?: string; // Dynamic engine type from registry
+  tier?: 1 | 2 | 3; // Complexity tier selecting the preset model (1=complex, 2=standard, 3=simple)
   module?: ModuleMetadata;
   executeOnce?: boolean;
   notCompletedFallback?: string;
   tracks?: string[]; // Track names this step belongs to (e.g., ['bmad', 'enterprise'])
   conditions?: string[]; // Conditions required for this step (e.g., ['has_ui', 'has_api'])
+  parallelGroup?: string; // Consecutive steps sharing this name run concurrently
+  dependsOn?: string[]; // Agent IDs in the same parallel group that must finish first
+  promptBudget?: PromptBudgetConfig; // Prompt token budget for this step
+  produces?: ArtifactSpec[]; // Artifacts checked after the step completes
+  consumes?: string[]; // Names of artifacts produced by earlier steps
+  onInvalidArtifacts?: 'retry' | 'fail'; // Ask the agent to fix invalid artifacts (default) or fail the step
 }
 
 export interface LoopBehaviorConfig {
@@ -30,7 +30,7 @@ export default {
     // MODEL OVERRIDE - Change AI model
     // ============================================
     resolveStep('code-generation', {
-      model: 'gpt-5-codex', // Available: gpt-5-codex, gpt-5, gpt-4, etc.
+      model: 'gpt-5-codex', // Available: gpt-5-codex, gpt-5, gpt-5-codex-mini, etc.
     }),
 
     // ============================================
@@ -2,12 +2,9 @@ import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
 import { mkdtemp, rm } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
-import {
-  runWithFallback,
-  hasAvailableEngine,
-} from '../../../src/workflows/execution/engine-fallback.js';
+import { hasAvailableEngine } from '../../../src/workflows/execution/engine-fallback.js';
 import { RateLimitManager } from '../../../src/workflows/execution/rate-limit-manager.js';
-import { registry } from '../../../src/infra/engines/index.js';
+import { registry, circuitRegistry } from '../../../src/infra/engines/index.js';
 import {
   setMockConfig,
   resetMockConfig
@@ -28,83 +25,14 @@ describe('Engine Fallback', () => {
   afterEach(async () => {
     RateLimitManager.resetInstance();
     resetMockConfig();
+    circuitRegistry.resetAll();
     await rm(tempDir, { recursive: true, force: true });
   });
 
-  describe('runWithFallback', () => {
-    it('uses primary engine when available', async () => {
-      setMockConfig({
-        mode: 'static',
-        staticResponse: 'Success from mock engine'
-      });
-
-      const result = await runWithFallback({
-        primaryEngine: 'mock',
-        runOptions: { prompt: 'Test prompt', workingDir: tempDir },
-        rateLimitManager,
-        maxAttempts: 3
-      });
-
-      expect(result.engineUsed).toBe('mock');
-      expect(result.fellBack).toBe(false);
-      expect(result.stdout).toBe('Success from mock engine');
-      expect(result.rateLimitedEngines).toEqual([]);
-    });
-
-    it('tracks rate limited engines', async () => {
-      // Configure mock to simulate rate limit
-      setMockConfig({
-        mode: 'scripted',
-        scriptedResponses: [
-          { output: '', isRateLimitError: true, retryAfterSeconds: 60 }
-        ]
-      });
-
-      // Mark the mock engine as rate limited and verify it's tracked
-      await rateLimitManager.markRateLimited('mock', undefined, 60);
-
-      expect(rateLimitManager.isEngineAvailable('mock')).toBe(false);
-      expect(rateLimitManager.getRateLimitedEngines()).toContain('mock');
-    });
-
-    it('returns correct result on successful run', async () => {
-      setMockConfig({
-        mode: 'static',
-        staticResponse: 'Task completed successfully',
-        defaultTelemetry: {
-          tokensIn: 100,
-          tokensOut: 50,
-          cost: 0.001
-        }
-      });
-
-      const result = await runWithFallback({
-        primaryEngine: 'mock',
-        runOptions: {
-          prompt: 'Generate some code',
-          workingDir: tempDir,
-          onData: () => {}
-        },
-        rateLimitManager
-      });
-
-      expect(result.stdout).toBe('Task completed successfully');
-      expect(result.stderr).toBe('');
-      expect(result.engineUsed).toBe('mock');
-    });
-
-    it('returns exhausted result when engine not found', async () => {
-      const result = await runWithFallback({
-        primaryEngine: 'nonexistent-engine',
-        runOptions: { prompt: 'Test', workingDir: tempDir },
-        rateLimitManager
-      });
-
-      // New behavior: returns allEnginesExhausted instead of throwing
-      expect(result.allEnginesExhausted).toBe(true);
-      expect(result.engineUsed).toBe('nonexistent-engine');
-    });
-  });
+  async function runMock(prompt: string) {
+    const engine = await registry.getAsync('mock');
+    return engine!.run({ prompt, workingDir: tempDir });
+  }
 
   describe('hasAvailableEngine', () => {
     it('returns true when mock engine is available', async () => {
@@ -156,25 +84,13 @@ describe('Engine Fallback', () => {
       });
 
       // Run three times, should get scripted responses in order
-      const result1 = await runWithFallback({
-        primaryEngine: 'mock',
-        runOptions: { prompt: 'Call 1', workingDir: tempDir },
-        rateLimitManager
-      });
+      const result1 = await runMock('Call 1');
       expect(result1.stdout).toBe('First response');
 
-      const result2 = await runWithFallback({
-        primaryEngine: 'mock',
-        runOptions: { prompt: 'Call 2', workingDir: tempDir },
-        rateLimitManager
-      });
+      const result2 = await runMock('Call 2');
       expect(result2.stdout).toBe('Second response');
 
-      const result3 = await runWithFallback({
-        primaryEngine: 'mock',
-        runOptions: { prompt: 'Call 3', workingDir: tempDir },
-        rateLimitManager
-      });
+      const result3 = await runMock('Call 3');
       expect(result3.stdout).toBe('Third response');
     });
 
@@ -186,11 +102,7 @@ describe('Engine Fallback', () => {
         })
       });
 
-      const result = await runWithFallback({
-        primaryEngine: 'mock',
-        runOptions: { prompt: 'Hello World', workingDir: tempDir },
-        rateLimitManager
-      });
+      const result = await runMock('Hello World');
 
       expect(result.stdout).toBe('Echo: Hello World');
     });
@@ -203,31 +115,15 @@ describe('Engine Fallback', () => {
       });
 
       // First two calls should succeed
-      const result1 = await runWithFallback({
-        primaryEngine: 'mock',
-        runOptions: { prompt: 'Call 1', workingDir: tempDir },
-        rateLimitManager
-      });
+      const result1 = await runMock('Call 1');
       expect(result1.stdout).toBe('OK');
 
-      const result2 = await runWithFallback({
-        primaryEngine: 'mock',
-        runOptions: { prompt: 'Call 2', workingDir: tempDir },
-        rateLimitManager
-      });
+      const result2 = await runMock('Call 2');
       expect(result2.stdout).toBe('OK');
 
       // Third call should trigger rate limit
-      // Note: The fallback logic will handle this and potentially fall back to another engine
-      // or return the rate limit result if no fallback is available
-      const result3 = await runWithFallback({
-        primaryEngine: 'mock',
-        runOptions: { prompt: 'Call 3', workingDir: tempDir },
-        rateLimitManager
-      });
-
-      // Either we got a fallback or the rate limit result
-      expect(result3.rateLimitedEngines).toContain('mock');
+      const result3 = await runMock('Call 3');
+      expect(result3.isRateLimitError).toBe(true);
     });
   });
 });
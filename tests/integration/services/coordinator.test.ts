@@ -6,7 +6,17 @@
 
 import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
 import { CoordinatorService } from '../../../src/agents/coordinator/service.js';
-import { CoordinatorParser } from '../../../src/agents/coordinator/parser.js';
+import { CoordinatorParser, collectCommands } from '../../../src/agents/coordinator/parser.js';
+import type { CoordinationNode } from '../../../src/agents/coordinator/types.js';
+import { CoordinationSyntaxError } from '../../../src/shared/errors/index.js';
+
+type Shape = string | { [mode: string]: Shape[] };
+
+/** Compact tree view: command names, or { mode: [children] } */
+function shape(node: CoordinationNode): Shape {
+  if (node.type === 'command') return node.command.name;
+  return { [node.mode]: node.children.map(shape) };
+}
 
 describe('Coordinator Integration', () => {
   let parser: CoordinatorParser;
@@ -25,67 +35,128 @@ describe('Coordinator Integration', () => {
     it('should parse single command', () => {
       const plan = parser.parse("test-agent 'hello world'");
 
-      expect(plan.groups).toHaveLength(1);
-      expect(plan.groups[0].mode).toBe('sequential');
-      expect(plan.groups[0].commands).toHaveLength(1);
-      expect(plan.groups[0].commands[0].name).toBe('test-agent');
-      expect(plan.groups[0].commands[0].prompt).toBe('hello world');
+      expect(plan.root.type).toBe('command');
+      const [command] = collectCommands(plan.root);
+      expect(command.name).toBe('test-agent');
+      expect(command.prompt).toBe('hello world');
     });
 
     it('should parse parallel commands', () => {
       const plan = parser.parse("agent1 'task1' & agent2 'task2' & agent3 'task3'");
 
-      expect(plan.groups).toHaveLength(1);
-      expect(plan.groups[0].mode).toBe('parallel');
-      expect(plan.groups[0].commands).toHaveLength(3);
+      expect(shape(plan.root)).toEqual({ parallel: ['agent1', 'agent2', 'agent3'] });
     });
 
     it('should parse sequential commands', () => {
       const plan = parser.parse("agent1 'task1' && agent2 'task2'");
 
-      expect(plan.groups).toHaveLength(1);
-      expect(plan.groups[0].mode).toBe('sequential');
-      expect(plan.groups[0].commands).toHaveLength(2);
+      expect(shape(plan.root)).toEqual({ sequential: ['agent1', 'agent2'] });
     });
 
-    it('should parse mixed mode commands', () => {
+    it('should parse mixed mode commands with & binding tighter than &&', () => {
       const plan = parser.parse("prep 'setup' && worker1 'job1' & worker2 'job2' && cleanup 'done'");
 
-      expect(plan.groups).toHaveLength(3);
-      expect(plan.groups[0].mode).toBe('sequential');
-      expect(plan.groups[0].commands[0].name).toBe('prep');
-      expect(plan.groups[1].mode).toBe('parallel');
-      expect(plan.groups[1].commands).toHaveLength(2);
-      expect(plan.groups[2].mode).toBe('sequential');
-      expect(plan.groups[2].commands[0].name).toBe('cleanup');
+      expect(shape(plan.root)).toEqual({
+        sequential: ['prep', { parallel: ['worker1', 'worker2'] }, 'cleanup'],
+      });
+    });
+
+    it('should parse arbitrarily nested groups', () => {
+      const plan = parser.parse("a 'one' && (b 'two' & (c 'three' && d 'four')) && e 'five'");
+
+      expect(shape(plan.root)).toEqual({
+        sequential: ['a', { parallel: ['b', { sequential: ['c', 'd'] }] }, 'e'],
+      });
+      expect(collectCommands(plan.root).map(c => c.prompt)).toEqual(['one', 'two', 'three', 'four', 'five']);
+    });
+
+    it('should parse || as the loosest operator', () => {
+      const plan = parser.parse("build && test || fix 'repair' && (test)");
+
+      expect(shape(plan.root)).toEqual({
+        fallback: [{ sequential: ['build', 'test'] }, { sequential: ['fix', 'test'] }],
+      });
+    });
+
+    it('should keep operators and parentheses inside quotes and options', () => {
+      const plan = parser.parse("a 'x && (y) | z' & b[prompt:\"p & q\"]");
+
+      expect(shape(plan.root)).toEqual({ parallel: ['a', 'b'] });
+      const [a, b] = collectCommands(plan.root);
+      expect(a.prompt).toBe('x && (y) | z');
+      expect(b.prompt).toBe('p & q');
+    });
+
+    it('should record command positions', () => {
+      const plan = parser.parse("a && (b & c)");
+
+      const positions: number[] = [];
+      const walk = (node: CoordinationNode): void => {
+        if (node.type === 'command') positions.push(node.position);
+        else node.children.forEach(walk);
+      };
+      walk(plan.root);
+      expect(positions).toEqual([0, 6, 10]);
     });
 
     it('should parse enhanced syntax with options', () => {
       const plan = parser.parse("agent[input:file.md,tail:100] 'analyze this'");
 
-      expect(plan.groups).toHaveLength(1);
-      expect(plan.groups[0].commands[0].name).toBe('agent');
-      expect(plan.groups[0].commands[0].input).toEqual(['file.md']);
-      expect(plan.groups[0].commands[0].tail).toBe(100);
-      expect(plan.groups[0].commands[0].prompt).toBe('analyze this');
+      const [command] = collectCommands(plan.root);
+      expect(command.name).toBe('agent');
+      expect(command.input).toEqual(['file.md']);
+      expect(command.tail).toBe(100);
+      expect(command.prompt).toBe('analyze this');
     });
 
     it('should handle prompts with apostrophes', () => {
       const plan = parser.parse("agent \"what's the issue here?\"");
 
-      expect(plan.groups[0].commands[0].prompt).toBe("what's the issue here?");
+      expect(collectCommands(plan.root)[0].prompt).toBe("what's the issue here?");
     });
 
     it('should handle agent-only commands without prompt', () => {
       const plan = parser.parse('my-agent');
 
-      expect(plan.groups[0].commands[0].name).toBe('my-agent');
-      expect(plan.groups[0].commands[0].prompt).toBeUndefined();
+      expect(collectCommands(plan.root)[0].name).toBe('my-agent');
+      expect(collectCommands(plan.root)[0].prompt).toBeUndefined();
     });
 
     it('should throw on empty script', () => {
       expect(() => parser.parse('')).toThrow('empty');
     });
+
+    it.each([
+      ["a && && b", 5, "Expected an agent command but found '&&'"],
+      ["a && (b & c", 11, "Missing ')'"],
+      ["a & b)", 5, "Unmatched ')'"],
+      ["a && ()", 6, 'Empty group'],
+      ["a | b", 2, "Unexpected '|'"],
+      ["a 'unterminated && b", 2, 'Unterminated'],
+      ["a &&", 4, 'found end of script'],
+    ])('should report the location of syntax errors in %p', (script, position, reason) => {
+      try {
+        parser.parse(script);
+        throw new Error('expected parse to fail');
+      } catch (error) {
+        expect(error).toBeInstanceOf(CoordinationSyntaxError);
+        const syntaxError = error as CoordinationSyntaxError;
+        expect(syntaxError.position).toBe(position);
+        expect(syntaxError.column).toBe(position + 1);
+        expect(syntaxError.message).toContain(reason);
+        expect(syntaxError.message).toContain(`\n  ${' '.repeat(position)}^`);
+      }
+    });
+
+    it('should report invalid agent names at the command location', () => {
+      try {
+        parser.parse("good && ../bad 'x'");
+        throw new Error('expected parse to fail');
+      } catch (error) {
+        expect(error).toBeInstanceOf(CoordinationSyntaxError);
+        expect((error as CoordinationSyntaxError).position).toBe(8);
+      }
+    });
   });
 
   describe('Singleton', () => {
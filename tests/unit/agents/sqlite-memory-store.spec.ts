@@ -0,0 +1,97 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+
+import { closeMemoryDatabases, SqliteMemoryAdapter } from '../../../src/infra/fs/sqlite-memory-adapter.js';
+import { MemoryStore, resolveMemoryRetention } from '../../../src/agents/index.js';
+import { assemblePrompt } from '../../../src/shared/prompts/index.js';
+
+describe('SqliteMemoryAdapter', () => {
+  let cwd: string;
+  let memoryDir: string;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'codemachine-memory-'));
+    memoryDir = join(cwd, '.codemachine', 'memory');
+  });
+
+  afterEach(() => {
+    closeMemoryDatabases();
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  const createStore = (retention?: { maxEntriesPerAgent?: number; maxAgeDays?: number }) =>
+    new MemoryStore(new SqliteMemoryAdapter(join(memoryDir, 'memory.db'), { retention }));
+
+  it('lists entries in time order with their metadata', async () => {
+    const store = createStore();
+    await store.append({ agentId: 'plan-agent', content: 'second', timestamp: '2024-05-01T11:00:00Z' });
+    await store.append({
+      agentId: 'plan-agent',
+      content: 'first',
+      timestamp: '2024-05-01T10:00:00Z',
+      metadata: { tags: ['plan'] },
+    });
+
+    expect(await store.list('plan-agent')).toEqual([
+      { agentId: 'plan-agent', content: 'first', timestamp: '2024-05-01T10:00:00Z', metadata: { tags: ['plan'] } },
+      { agentId: 'plan-agent', content: 'second', timestamp: '2024-05-01T11:00:00Z' },
+    ]);
+    expect((await store.latest('plan-agent'))?.content).toBe('second');
+  });
+
+  it('searches by relevance, agent and tags', async () => {
+    const store = createStore();
+    await store.append({ agentId: 'code-generation', content: 'Added JWT authentication to the login route', timestamp: '2024-05-01T10:00:00Z', metadata: { tags: ['auth', 'api'] } });
+    await store.append({ agentId: 'code-generation', content: 'Refactored the database layer', timestamp: '2024-05-01T11:00:00Z', metadata: { tags: ['db'] } });
+    await store.append({ agentId: 'plan-agent', content: 'Plan: login with auth tokens', timestamp: '2024-05-01T12:00:00Z' });
+
+    const results = await store.search({ text: 'auth login' });
+    expect(results.map((r) => r.agentId)).toEqual(['plan-agent', 'code-generation']);
+    expect(results[0].score).toBeGreaterThan(0);
+
+    expect((await store.search({ text: 'login', agentId: 'code-generation' })).map((r) => r.content)).toEqual([
+      'Added JWT authentication to the login route',
+    ]);
+    expect((await store.search({ tags: ['auth', 'api'] })).map((r) => r.timestamp)).toEqual(['2024-05-01T10:00:00Z']);
+    expect((await store.search({ limit: 1 })).map((r) => r.timestamp)).toEqual(['2024-05-01T12:00:00Z']);
+    expect(await store.search({ text: '!!!' })).toEqual([]);
+  });
+
+  it('applies the retention policy on append', async () => {
+    const store = createStore({ maxEntriesPerAgent: 2 });
+    for (const hour of [10, 11, 12]) {
+      await store.append({ agentId: 'context-manager', content: `note ${hour}`, timestamp: `2024-05-01T${hour}:00:00Z` });
+    }
+    await store.append({ agentId: 'git-commit', content: 'committed', timestamp: '2024-05-01T09:00:00Z' });
+
+    expect((await store.list('context-manager')).map((e) => e.content)).toEqual(['note 11', 'note 12']);
+    expect(await store.prune({ maxAgeDays: 1 })).toBe(3);
+    expect(resolveMemoryRetention({})).toBeUndefined();
+    expect(resolveMemoryRetention({ CODEMACHINE_MEMORY_MAX_AGE_DAYS: '30' })).toEqual({ maxAgeDays: 30 });
+  });
+
+  it('imports entries from the JSON memory files once', async () => {
+    mkdirSync(memoryDir, { recursive: true });
+    writeFileSync(join(memoryDir, 'plan-agent.json'), JSON.stringify([{ agentId: 'plan-agent', content: 'legacy note', timestamp: '2024-04-01T10:00:00Z' }]));
+    writeFileSync(join(memoryDir, 'behavior.json'), JSON.stringify({ action: 'continue' }));
+
+    const contents = async () =>
+      Object.values(await new SqliteMemoryAdapter(join(memoryDir, 'memory.db')).readAll()).flat().map((e) => e.content);
+
+    expect(await contents()).toEqual(['legacy note']);
+    closeMemoryDatabases();
+    expect(await contents()).toEqual(['legacy note']);
+  });
+
+  it('fills memory placeholders with relevant entries', async () => {
+    const store = createStore();
+    await store.append({ agentId: 'code-generation', content: 'Auth uses JWT', timestamp: '2024-05-01T10:00:00Z' });
+    await store.append({ agentId: 'code-generation', content: 'CSS cleanup', timestamp: '2024-05-01T11:00:00Z' });
+
+    const { prompt } = await assemblePrompt('Notes:\n{memory:code-generation?q=auth&limit=5}\n{memory:*?q=kubernetes|default:"none"}', cwd);
+    expect(prompt).toBe('Notes:\n<!-- Memory: code-generation at 2024-05-01T10:00:00Z -->\n\nAuth uses JWT\nnone');
+  });
+});
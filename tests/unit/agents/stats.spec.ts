@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'bun:test';
+import { Database } from 'bun:sqlite';
+
+import { initSchema } from '../../../src/agents/monitoring/db/schema.js';
+import { AgentRepository } from '../../../src/agents/monitoring/db/repository.js';
+import { computeAgentStats, percentile } from '../../../src/agents/monitoring/stats.js';
+import type { AgentUsageRecord } from '../../../src/agents/monitoring/types.js';
+import { formatStatsCsv, parseStatsDate } from '../../../src/cli/commands/agents/stats.js';
+
+function usage(id: number, extra: Partial<AgentUsageRecord>): AgentUsageRecord {
+  return {
+    id,
+    name: 'builder',
+    status: 'completed',
+    startTime: '2026-10-01T10:00:00.000Z',
+    tokensIn: 0,
+    tokensOut: 0,
+    ...extra,
+  };
+}
+
+describe('agents stats', () => {
+  it('computes nearest-rank percentiles', () => {
+    const sorted = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+    expect(percentile(sorted, 50)).toBe(5);
+    expect(percentile(sorted, 90)).toBe(9);
+    expect(percentile(sorted, 99)).toBe(10);
+    expect(percentile([], 50)).toBeNull();
+  });
+
+  it('groups usage and derives the cache-hit ratio from cache reads', () => {
+    const groups = computeAgentStats(
+      [
+        usage(1, { engine: 'claude', duration: 4000, tokensIn: 100, tokensOut: 50, cost: 0.5, cacheReadTokens: 300 }),
+        usage(2, { engine: 'claude', duration: 1000, status: 'failed', tokensIn: 100, cacheCreationTokens: 0 }),
+        usage(3, { engine: 'codex', tokensIn: 10, tokensOut: 5 }),
+        usage(4, {}),
+      ],
+      'engine',
+    );
+
+    expect(groups.map((group) => group.key)).toEqual(['claude', 'codex', 'unknown']);
+    expect(groups[0]).toEqual({
+      key: 'claude',
+      runs: 2,
+      completed: 1,
+      failed: 1,
+      tokensIn: 200,
+      tokensOut: 50,
+      cost: 0.5,
+      durationP50: 1000,
+      durationP90: 4000,
+      durationP99: 4000,
+      cacheHitRatio: 0.75,
+    });
+    expect(groups[1]).toMatchObject({ durationP50: null, cacheHitRatio: null });
+  });
+
+  it('groups by UTC day of the start time', () => {
+    const groups = computeAgentStats(
+      [usage(1, { startTime: '2026-10-01T23:59:00.000Z' }), usage(2, { startTime: '2026-10-02T00:01:00.000Z' })],
+      'day',
+    );
+
+    expect(groups.map((group) => `${group.key}:${group.runs}`)).toEqual(['2026-10-01:1', '2026-10-02:1']);
+  });
+
+  it('reads usage from the monitoring database within a date range', () => {
+    const db = new Database(':memory:');
+    initSchema(db);
+    const repository = new AgentRepository(db);
+
+    const early = repository.register({ name: 'plan', prompt: 'p', engine: 'claude', modelName: 'opus' }, 'plan.log');
+    const late = repository.register({ name: 'build', prompt: 'p', engine: 'codex' }, 'build.log');
+    db.prepare('UPDATE agents SET start_time = ? WHERE id = ?').run('2026-09-01T00:00:00.000Z', early);
+    db.prepare('UPDATE agents SET start_time = ? WHERE id = ?').run('2026-10-01T00:00:00.000Z', late);
+    repository.update(early, {
+      status: 'completed',
+      duration: 1200,
+      telemetry: { tokensIn: 10, tokensOut: 20, cost: 0.1, cacheReadTokens: 5 },
+    });
+
+    expect(repository.getUsage().map((record) => record.id)).toEqual([early, late]);
+    expect(repository.getUsage({ until: '2026-09-15T00:00:00.000Z' })).toEqual([
+      {
+        id: early,
+        name: 'plan',
+        engine: 'claude',
+        modelName: 'opus',
+        status: 'completed',
+        startTime: '2026-09-01T00:00:00.000Z',
+        duration: 1200,
+        tokensIn: 10,
+        tokensOut: 20,
+        cost: 0.1,
+        cacheReadTokens: 5,
+        cacheCreationTokens: undefined,
+      },
+    ]);
+    expect(repository.getUsage({ since: '2026-09-15T00:00:00.000Z' }).map((record) => record.name)).toEqual(['build']);
+
+    db.close();
+  });
+
+  it('parses relative, date-only and ISO bounds', () => {
+    const now = new Date('2026-10-18T12:00:00.000Z');
+
+    expect(parseStatsDate('7d', 'start', now)).toBe('2026-10-11T12:00:00.000Z');
+    expect(parseStatsDate('2026-10-01', 'start', now)).toBe('2026-10-01T00:00:00.000Z');
+    expect(parseStatsDate('2026-10-01', 'end', now)).toBe('2026-10-02T00:00:00.000Z');
+    expect(parseStatsDate('2026-10-01T08:30:00Z', 'end', now)).toBe('2026-10-01T08:30:00.000Z');
+    expect(parseStatsDate('last week', 'start', now)).toBeNull();
+  });
+
+  it('renders CSV with empty cells for missing values', () => {
+    const csv = formatStatsCsv(computeAgentStats([usage(1, { name: 'a,b', tokensIn: 3 })], 'agent'), 'agent');
+
+    expect(csv.split('\n')).toEqual([
+      'agent,runs,completed,failed,tokens_in,tokens_out,cost,duration_p50_ms,duration_p90_ms,duration_p99_ms,cache_hit_ratio',
+      '"a,b",1,1,0,3,0,0.0000,,,,',
+    ]);
+  });
+});
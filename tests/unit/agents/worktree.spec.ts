@@ -0,0 +1,112 @@
+import { describe, expect, it, beforeEach, afterEach } from 'bun:test';
+import { existsSync, mkdtempSync, readFileSync, realpathSync, rmSync, unlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { spawnSync } from 'node:child_process';
+
+import {
+  captureBase,
+  createIsolatedWorktree,
+  findRepositoryRoot,
+  mergeIsolatedWorktrees,
+} from '../../../src/agents/coordinator/worktree.js';
+
+function git(cwd: string, ...args: string[]): string {
+  return spawnSync('git', args, { cwd, encoding: 'utf8' }).stdout.trim();
+}
+
+describe('coordinator worktree isolation', () => {
+  let repoDir: string;
+
+  beforeEach(() => {
+    repoDir = realpathSync(mkdtempSync(join(tmpdir(), 'codemachine-isolation-spec-')));
+    git(repoDir, 'init', '-q');
+    git(repoDir, 'config', 'user.email', 'test@example.com');
+    git(repoDir, 'config', 'user.name', 'Test');
+    writeFileSync(join(repoDir, 'shared.txt'), 'one\ntwo\nthree\nfour\nfive\n');
+    writeFileSync(join(repoDir, 'old.txt'), 'remove me\n');
+    git(repoDir, 'add', '.');
+    git(repoDir, 'commit', '-q', '-m', 'initial');
+  });
+
+  afterEach(() => {
+    git(repoDir, 'worktree', 'prune');
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('runs branches from the uncommitted working tree and merges their changes', async () => {
+    writeFileSync(join(repoDir, 'draft.txt'), 'uncommitted\n');
+    const root = (await findRepositoryRoot(repoDir))!;
+    const base = await captureBase(root);
+
+    const [first, second] = [
+      await createIsolatedWorktree(root, base, repoDir),
+      await createIsolatedWorktree(root, base, repoDir),
+    ];
+    expect(readFileSync(join(first.workingDir, 'draft.txt'), 'utf8')).toBe('uncommitted\n');
+
+    writeFileSync(join(first.workingDir, 'shared.txt'), 'ONE\ntwo\nthree\nfour\nfive\n');
+    writeFileSync(join(first.workingDir, 'ui.txt'), 'ui\n');
+    writeFileSync(join(second.workingDir, 'shared.txt'), 'one\ntwo\nthree\nfour\nFIVE\n');
+    unlinkSync(join(second.workingDir, 'old.txt'));
+
+    const merges = await mergeIsolatedWorktrees(root, base, [first, second]);
+
+    expect(merges).toEqual([
+      { changedFiles: ['shared.txt', 'ui.txt'], conflicts: [] },
+      { changedFiles: ['old.txt', 'shared.txt'], conflicts: [] },
+    ]);
+    expect(readFileSync(join(repoDir, 'shared.txt'), 'utf8')).toBe('ONE\ntwo\nthree\nfour\nFIVE\n');
+    expect(readFileSync(join(repoDir, 'ui.txt'), 'utf8')).toBe('ui\n');
+    expect(existsSync(join(repoDir, 'old.txt'))).toBe(false);
+    expect(existsSync(first.path)).toBe(false);
+    expect(existsSync(second.path)).toBe(false);
+    expect(git(repoDir, 'diff', '--cached', '--name-only')).toBe('');
+  });
+
+  it('skips a conflicting branch and keeps its worktree', async () => {
+    const root = (await findRepositoryRoot(repoDir))!;
+    const base = await captureBase(root);
+    const first = await createIsolatedWorktree(root, base, repoDir);
+    const second = await createIsolatedWorktree(root, base, repoDir);
+
+    writeFileSync(join(first.workingDir, 'shared.txt'), 'first\n');
+    writeFileSync(join(second.workingDir, 'shared.txt'), 'second\n');
+    writeFileSync(join(second.workingDir, 'extra.txt'), 'extra\n');
+
+    const merges = await mergeIsolatedWorktrees(root, base, [first, second]);
+
+    expect(merges[0]).toEqual({ changedFiles: ['shared.txt'], conflicts: [] });
+    expect(merges[1]).toEqual({ changedFiles: ['extra.txt', 'shared.txt'], conflicts: ['shared.txt'], worktree: second.path });
+    expect(readFileSync(join(repoDir, 'shared.txt'), 'utf8')).toBe('first\n');
+    expect(existsSync(join(repoDir, 'extra.txt'))).toBe(false);
+    expect(existsSync(second.path)).toBe(true);
+
+    rmSync(second.path, { recursive: true, force: true });
+  });
+
+  it('keeps every worktree when merging fails', async () => {
+    const root = (await findRepositoryRoot(repoDir))!;
+    const base = await captureBase(root);
+    const first = await createIsolatedWorktree(root, base, repoDir);
+    const second = await createIsolatedWorktree(root, base, repoDir);
+
+    writeFileSync(join(first.workingDir, 'ui.txt'), 'ui\n');
+    rmSync(second.path, { recursive: true, force: true });
+
+    await expect(mergeIsolatedWorktrees(root, base, [first, second])).rejects.toThrow();
+    expect(existsSync(first.path)).toBe(true);
+    expect(existsSync(join(repoDir, 'ui.txt'))).toBe(false);
+
+    rmSync(first.path, { recursive: true, force: true });
+  });
+
+  it('returns null outside a git repository', async () => {
+    const plainDir = mkdtempSync(join(tmpdir(), 'codemachine-plain-'));
+    try {
+      expect(await findRepositoryRoot(plainDir)).toBeNull();
+    } finally {
+      rmSync(plainDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { renderAgentPrompt } from '../../../src/cli/commands/prompt.command.js';
+import type { ModuleStep, WorkflowTemplate } from '../../../src/workflows/templates/types.js';
+
+function moduleStep(agentId: string, extra: Partial<ModuleStep> = {}): ModuleStep {
+  return { type: 'module', agentId, agentName: agentId, promptPath: `prompts/${agentId}-step.md`, ...extra };
+}
+
+describe('prompt render', () => {
+  let cwd: string;
+  let templatePath: string;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'codemachine-prompt-render-'));
+    templatePath = join(cwd, 'plan.workflow.js');
+    mkdirSync(join(cwd, 'config'));
+    mkdirSync(join(cwd, 'prompts', 'planner-chain'), { recursive: true });
+    mkdirSync(join(cwd, '.codemachine'));
+
+    writeFileSync(join(cwd, 'config', 'main.agents.js'), `module.exports = ${JSON.stringify([
+      {
+        id: 'planner',
+        name: 'Planner',
+        promptPath: 'prompts/planner.md',
+        chainedPromptsPath: ['prompts/planner-chain', { path: 'prompts/ui-review.md', conditions: ['has_ui'] }],
+      },
+      { id: 'reviewer', name: 'Reviewer', promptPath: 'prompts/reviewer.md' },
+    ])};\n`);
+    writeFileSync(join(cwd, 'prompts', 'planner.md'), 'Plan from the agent config.');
+    writeFileSync(join(cwd, 'prompts', 'planner-step.md'), 'Plan from the workflow step.');
+    writeFileSync(join(cwd, 'prompts', 'reviewer.md'), 'Review from the agent config.');
+    writeFileSync(join(cwd, 'prompts', 'reviewer-step.md'), 'Review from the workflow step.');
+    writeFileSync(join(cwd, 'prompts', 'planner-chain', '02-detail.md'), 'Detail every task.');
+    writeFileSync(
+      join(cwd, 'prompts', 'planner-chain', '01-outline.md'),
+      '---\nname: outline\ndescription: Outline the plan\n---\nOutline the plan first.',
+    );
+    writeFileSync(join(cwd, 'prompts', 'ui-review.md'), 'Review the UI.');
+
+    const template: WorkflowTemplate = {
+      name: 'Plan',
+      steps: [
+        { type: 'ui', text: 'Planning' },
+        moduleStep('planner'),
+        moduleStep('designer', { conditions: ['has_ui'] }),
+        moduleStep('reviewer'),
+      ],
+    };
+    writeFileSync(templatePath, `export default ${JSON.stringify(template)};\n`);
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('renders the configured prompt without a step', async () => {
+    const rendered = await renderAgentPrompt('planner', cwd, { conditions: [] });
+
+    expect(rendered.step).toBeUndefined();
+    expect(rendered.assembled.prompt).toBe('Plan from the agent config.');
+  });
+
+  it('renders the prompt of the selected step, indexing module steps for the conditions', async () => {
+    const reviewer = await renderAgentPrompt('reviewer', cwd, { stepIndex: 1, conditions: [], templatePath });
+    expect(reviewer.step?.index).toBe(1);
+    expect(reviewer.step?.step.agentId).toBe('reviewer');
+    expect(reviewer.assembled.prompt).toBe('Review from the workflow step.');
+
+    // With has_ui the designer step comes before the reviewer
+    const planner = await renderAgentPrompt('planner', cwd, { stepIndex: 0, conditions: ['has_ui'], templatePath });
+    expect(planner.assembled.prompt).toBe('Plan from the workflow step.');
+    await expect(renderAgentPrompt('reviewer', cwd, { stepIndex: 2, conditions: ['has_ui'], templatePath }))
+      .resolves.toMatchObject({ step: { index: 2 } });
+  });
+
+  it('rejects out-of-range steps and steps of another agent', async () => {
+    await expect(renderAgentPrompt('reviewer', cwd, { stepIndex: 2, conditions: [], templatePath })).rejects.toThrow(
+      'Step 2 does not exist (the workflow has 2 steps for this track and conditions)',
+    );
+    await expect(renderAgentPrompt('reviewer', cwd, { stepIndex: 0, conditions: [], templatePath })).rejects.toThrow(
+      'Step 0 runs planner, not reviewer',
+    );
+  });
+
+  it('rejects unknown agents', async () => {
+    await expect(renderAgentPrompt('unknown', cwd, { conditions: [] })).rejects.toThrow('Unknown agent id: unknown');
+  });
+
+  it('loads chained prompts in order, filtered by the conditions', async () => {
+    const plain = await renderAgentPrompt('planner', cwd, { conditions: [] });
+    expect(plain.chainedPrompts.map((p) => [p.name, p.label, p.content.trim()])).toEqual([
+      ['outline', 'Outline the plan', 'Outline the plan first.'],
+      ['02-detail', expect.any(String), 'Detail every task.'],
+    ]);
+
+    const withUi = await renderAgentPrompt('planner', cwd, { conditions: ['has_ui'] });
+    expect(withUi.chainedPrompts.map((p) => p.content.trim())).toEqual([
+      'Outline the plan first.',
+      'Detail every task.',
+      'Review the UI.',
+    ]);
+    expect((await renderAgentPrompt('reviewer', cwd, { conditions: [] })).chainedPrompts).toEqual([]);
+  });
+});
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+import { mkdtempSync, readFileSync, rmSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+
+import {
+  exportLogLines,
+  filterLogLines,
+  findErrorLines,
+  findMatchingLines,
+  stepIndex,
+} from "../../../../src/cli/tui/routes/workflow/components/modals/log-viewer/log-search.js"
+import { splitHighlight } from "../../../../src/cli/tui/shared/utils/text.js"
+import {
+  classifyLine,
+  formatCommand,
+  formatError,
+  formatMessage,
+  formatResult,
+  formatThinking,
+} from "../../../../src/shared/formatters/outputMarkers.js"
+
+const LOG = [
+  formatMessage("Reading the spec"),
+  formatThinking("Planning the **API** layer"),
+  formatCommand("npm test", "started"),
+  formatCommand("npm test", "error"),
+  formatResult("Exit code 1", true),
+  "plain output mentioning the api",
+  formatError("Build failed"),
+]
+
+describe("log viewer search", () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "codemachine-log-search-"))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it("classifies formatted lines by marker kind", () => {
+    expect(LOG.map(classifyLine)).toEqual([
+      [],
+      ["thinking"],
+      ["tool"],
+      ["tool", "error"],
+      ["tool", "error"],
+      [],
+      ["error"],
+    ])
+  })
+
+  it("filters by kind, searches with smart case and steps through errors", () => {
+    expect(filterLogLines(LOG, new Set())).toBe(LOG)
+    expect(filterLogLines(LOG, new Set(["thinking", "error"]))).toEqual([LOG[1], LOG[3], LOG[4], LOG[6]])
+
+    expect(findMatchingLines(LOG, "api")).toEqual([1, 5])
+    expect(findMatchingLines(LOG, "API")).toEqual([1])
+    expect(findMatchingLines(LOG, "")).toEqual([])
+
+    const errors = findErrorLines(LOG)
+    expect(errors).toEqual([3, 4, 6])
+    expect(stepIndex(errors, -1, 1)).toBe(3)
+    expect(stepIndex(errors, 4, 1)).toBe(6)
+    expect(stepIndex(errors, 6, 1)).toBe(3)
+    expect(stepIndex(errors, 3, -1)).toBe(6)
+    expect(stepIndex([], 0, 1)).toBeUndefined()
+  })
+
+  it("splits text into highlight segments", () => {
+    expect(splitHighlight("Api and api", "api")).toEqual([
+      { text: "Api", match: true },
+      { text: " and ", match: false },
+      { text: "api", match: true },
+    ])
+    expect(splitHighlight("no hit", "xyz")).toEqual([{ text: "no hit", match: false }])
+  })
+
+  it("exports the view as plain text next to the log", async () => {
+    const logPath = join(dir, "logs", "agent-1-planner.log")
+    const exportPath = await exportLogLines(logPath, [LOG[3], LOG[6]], new Date("2026-01-02T03:04:05.000Z"))
+
+    expect(exportPath).toBe(join(dir, "logs", "exports", "agent-1-planner-2026-01-02T03-04-05-000Z.log"))
+    expect(readFileSync(exportPath, "utf-8")).toBe("   x npm test\nx Build failed\n")
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "bun:test"
+
+import {
+  createPresetDraft,
+  cycleOption,
+  describeCustomPreset,
+  getOverrideAgentIds,
+  modelOptionsFor,
+  removePreset,
+  savePresetDraft,
+  setAgentOverride,
+  validatePresetName,
+} from "../../../../src/cli/tui/routes/workflow/components/modals/settings/preset-editing.js"
+import { getEngineModelOptions } from "../../../../src/workflows/execution/engine-presets.js"
+import type { EnginePresetConfig } from "../../../../src/workflows/execution/engine-presets.js"
+
+const PRESETS: Record<string, EnginePresetConfig> = {
+  fast: { defaultEngine: "claude", modelByTier: { 1: "sonnet", 2: "haiku", 3: "haiku" } },
+  mixed: { agentOverrides: { "git-commit": "codex" } },
+}
+
+describe("engine preset editing", () => {
+  it("offers built-in tier models and the registry default as model choices", () => {
+    expect(getEngineModelOptions("claude").slice(0, 3)).toEqual(["opus", "sonnet", "haiku"])
+    expect(getEngineModelOptions("openai-compatible")).toEqual(["default"])
+    expect(modelOptionsFor("claude", "my-model")[0]).toBe("my-model")
+
+    expect(cycleOption(["a", "b", "c"], "c", 1)).toBe("a")
+    expect(cycleOption(["a", "b", "c"], "a", -1)).toBe("c")
+    expect(cycleOption<string | null>([null, "claude"], null, 1)).toBe("claude")
+  })
+
+  it("drafts new presets from the engine's built-in tiers", () => {
+    expect(createPresetDraft("", undefined, ["claude", "codex"])).toEqual({
+      name: "",
+      engine: "claude",
+      modelByTier: { 1: "opus", 2: "sonnet", 3: "haiku" },
+    })
+    expect(createPresetDraft("fast", PRESETS.fast, ["codex"]).modelByTier).toEqual({ 1: "sonnet", 2: "haiku", 3: "haiku" })
+    expect(describeCustomPreset(PRESETS.fast)).toBe("claude: sonnet / haiku / haiku")
+    expect(describeCustomPreset(PRESETS.mixed)).toBe("Custom agent mappings")
+  })
+
+  it("validates preset names", () => {
+    expect(validatePresetName("  ", PRESETS)).toBe("Name is required")
+    expect(validatePresetName("my preset", PRESETS)).toBe("Use letters, numbers, '.', '_' or '-'")
+    expect(validatePresetName("all-claude", PRESETS)).toBe('"all-claude" is a built-in preset')
+    expect(validatePresetName("fast", PRESETS)).toBe('Preset "fast" already exists')
+    expect(validatePresetName("fast", PRESETS, "fast")).toBeNull()
+  })
+
+  it("saves, renames and deletes presets", () => {
+    const created = savePresetDraft(PRESETS, {
+      name: " cheap ",
+      engine: "codex",
+      modelByTier: { 1: "gpt-4o-mini", 2: "gpt-4o-mini", 3: "gpt-4o-mini" },
+    })
+    expect(Object.keys(created)).toEqual(["fast", "mixed", "cheap"])
+
+    const renamed = savePresetDraft(PRESETS, {
+      name: "hybrid",
+      engine: "gemini",
+      modelByTier: { 1: "gemini-1.5-pro", 2: "gemini-1.5-pro", 3: "gemini-1.5-flash" },
+    }, "mixed")
+    expect(Object.keys(renamed)).toEqual(["fast", "hybrid"])
+    expect(renamed.hybrid.agentOverrides).toEqual({ "git-commit": "codex" })
+    expect(renamed.hybrid.defaultEngine).toBe("gemini")
+
+    expect(removePreset(PRESETS, "fast")).toEqual({ mixed: PRESETS.mixed })
+    expect(PRESETS.fast).toBeDefined()
+  })
+
+  it("sets and clears per-agent overrides", () => {
+    const overrides = setAgentOverride({ "git-commit": "codex" }, "plan-agent", "claude")
+    expect(overrides).toEqual({ "git-commit": "codex", "plan-agent": "claude" })
+    expect(setAgentOverride(overrides, "git-commit", null)).toEqual({ "plan-agent": "claude" })
+
+    const ids = getOverrideAgentIds({ "custom-agent": "gemini" })
+    expect(ids).toContain("plan-agent")
+    expect(ids[ids.length - 1]).toBe("custom-agent")
+  })
+})
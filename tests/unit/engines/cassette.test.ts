@@ -0,0 +1,160 @@
+/**
+ * Engine Cassette Record/Replay Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { CassetteRecorder, freezeCassetteTime, hashRunPrompt } from '../../../src/infra/engines/core/cassette.js';
+import { freezeBuiltInTime } from '../../../src/shared/prompts/replacement/builtins.js';
+import { processPromptString } from '../../../src/shared/prompts/index.js';
+import { loadReplayCassette, resetReplayState, runReplay } from '../../../src/infra/engines/providers/replay/index.js';
+import mockEngine, { resetMockConfig, setMockConfig } from '../../../src/infra/engines/providers/mock/index.js';
+import type { EngineRunOptions, ParsedTelemetry } from '../../../src/infra/engines/core/types.js';
+
+describe('engine cassettes', () => {
+  let dir: string;
+  let cassetteFile: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'codemachine-cassette-'));
+    cassetteFile = join(dir, 'cassettes', 'workflow.json');
+    resetMockConfig();
+    resetReplayState();
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    freezeBuiltInTime(null);
+    delete process.env.CODEMACHINE_REPLAY_CASSETTE;
+    resetMockConfig();
+    resetReplayState();
+  });
+
+  function collect(options: Omit<EngineRunOptions, 'onData' | 'onTelemetry' | 'onSessionId'>) {
+    const seen = { chunks: [] as string[], telemetry: [] as ParsedTelemetry[], sessionIds: [] as string[] };
+    return {
+      seen,
+      options: {
+        ...options,
+        onData: (chunk: string) => seen.chunks.push(chunk),
+        onTelemetry: (telemetry: ParsedTelemetry) => seen.telemetry.push(telemetry),
+        onSessionId: (sessionId: string) => seen.sessionIds.push(sessionId),
+      },
+    };
+  }
+
+  it('hashes prompts independently of the working directory', () => {
+    expect(hashRunPrompt({ prompt: 'Read /repo/a/spec.md', workingDir: '/repo/a' })).toBe(
+      hashRunPrompt({ prompt: 'Read /ci/b/spec.md', workingDir: '/ci/b' }),
+    );
+    expect(hashRunPrompt({ prompt: 'Plan', workingDir: '/repo' })).not.toBe(
+      hashRunPrompt({ prompt: 'Plan', resumePrompt: 'Continue', workingDir: '/repo' }),
+    );
+  });
+
+  it('records runs and replays them by prompt hash in another checkout', async () => {
+    setMockConfig({
+      mode: 'scripted',
+      scriptedResponses: [
+        { output: 'plan v1', chunks: ['plan ', 'v1'], telemetry: { tokensIn: 10, tokensOut: 2 } },
+        { output: 'plan v2' },
+        { output: 'review done' },
+      ],
+    });
+    const recorded = new CassetteRecorder(cassetteFile).wrap(mockEngine);
+    await recorded.run({ prompt: 'Plan /repo/spec.md', workingDir: '/repo' });
+    await recorded.run({ prompt: 'Plan /repo/spec.md', workingDir: '/repo' });
+    await recorded.run({ prompt: 'Review', workingDir: '/repo', model: 'mock-model' });
+
+    const cassette = JSON.parse(readFileSync(cassetteFile, 'utf8'));
+    expect(cassette.entries.map((e: { engine: string; prompt: string }) => `${e.engine}:${e.prompt}`)).toEqual([
+      'mock:Plan <cwd>/spec.md',
+      'mock:Plan <cwd>/spec.md',
+      'mock:Review',
+    ]);
+
+    loadReplayCassette(cassetteFile);
+    const first = collect({ prompt: 'Plan /ci/spec.md', workingDir: '/ci' });
+    expect(await runReplay(first.options)).toMatchObject({ stdout: 'plan v1', stderr: '' });
+    expect(first.seen.chunks).toEqual(['plan ', 'v1']);
+    expect(first.seen.telemetry).toEqual([{ tokensIn: 10, tokensOut: 2 }]);
+
+    // Identical prompts replay in recorded order, then repeat the last recording
+    expect((await runReplay({ prompt: 'Plan /ci/spec.md', workingDir: '/ci' })).stdout).toBe('plan v2');
+    expect((await runReplay({ prompt: 'Plan /ci/spec.md', workingDir: '/ci' })).stdout).toBe('plan v2');
+    expect((await runReplay({ prompt: 'Review', workingDir: '/ci' })).stdout).toBe('review done');
+  });
+
+  it('replays session ids and errors, and fails on unrecorded prompts', async () => {
+    const recorder = new CassetteRecorder(cassetteFile);
+    const engine = recorder.wrap({
+      ...mockEngine,
+      run: async (options) => {
+        options.onSessionId?.('session-1');
+        if (options.prompt === 'Crash') throw new Error('engine exited with code 1');
+        return { stdout: 'ok', stderr: '' };
+      },
+    });
+    await engine.run({ prompt: 'Work', workingDir: dir });
+    await expect(engine.run({ prompt: 'Crash', workingDir: dir })).rejects.toThrow('engine exited with code 1');
+
+    loadReplayCassette(cassetteFile);
+    const work = collect({ prompt: 'Work', workingDir: dir });
+    await runReplay(work.options);
+    expect(work.seen.sessionIds).toEqual(['session-1']);
+    await expect(runReplay({ prompt: 'Crash', workingDir: dir })).rejects.toThrow('engine exited with code 1');
+    await expect(runReplay({ prompt: 'Something new', workingDir: dir })).rejects.toThrow(/No recording in .* for prompt/);
+  });
+
+  it('renders date placeholders at the recording time when replaying', async () => {
+    const recorder = new CassetteRecorder(cassetteFile);
+    const engine = recorder.wrap({ ...mockEngine, run: async () => ({ stdout: 'dated', stderr: '' }) });
+    freezeBuiltInTime(recorder.recordedAt);
+    await engine.run({ prompt: await processPromptString('Report for {date} at {timestamp}', dir), workingDir: dir });
+    freezeBuiltInTime(null);
+
+    // A later run renders the same prompt from the cassette's recording time
+    process.env.CODEMACHINE_REPLAY_CASSETTE = cassetteFile;
+    freezeCassetteTime();
+    const prompt = await processPromptString('Report for {date} at {timestamp}', dir);
+    expect(prompt).toContain(String(recorder.recordedAt));
+    expect((await runReplay({ prompt, workingDir: dir })).stdout).toBe('dated');
+  });
+
+  it('records the files a run writes and writes them back on replay', async () => {
+    const workspace = join(dir, 'workspace');
+    mkdirSync(join(workspace, '.codemachine', 'logs'), { recursive: true });
+    writeFileSync(join(workspace, 'stale.md'), 'old');
+    const engine = new CassetteRecorder(cassetteFile).wrap({
+      ...mockEngine,
+      run: async (options) => {
+        mkdirSync(join(options.workingDir, '.codemachine', 'memory'), { recursive: true });
+        writeFileSync(join(options.workingDir, '.codemachine', 'memory', 'behavior.json'), '{"action":"loop"}');
+        writeFileSync(join(options.workingDir, 'logo.bin'), Buffer.from([0xff, 0x00, 0xfe]));
+        writeFileSync(join(options.workingDir, '.codemachine', 'logs', 'agent.log'), 'log');
+        rmSync(join(options.workingDir, 'stale.md'));
+        return { stdout: 'wrote files', stderr: '' };
+      },
+    });
+    await engine.run({ prompt: 'Write', workingDir: workspace });
+
+    const [entry] = JSON.parse(readFileSync(cassetteFile, 'utf8')).entries;
+    expect(entry.files.map((file: { path: string }) => file.path).sort()).toEqual([
+      '.codemachine/memory/behavior.json',
+      'logo.bin',
+      'stale.md',
+    ]);
+
+    const checkout = join(dir, 'checkout');
+    mkdirSync(checkout);
+    writeFileSync(join(checkout, 'stale.md'), 'old');
+    loadReplayCassette(cassetteFile);
+    await runReplay({ prompt: 'Write', workingDir: checkout });
+    expect(readFileSync(join(checkout, '.codemachine', 'memory', 'behavior.json'), 'utf8')).toBe('{"action":"loop"}');
+    expect([...readFileSync(join(checkout, 'logo.bin'))]).toEqual([0xff, 0x00, 0xfe]);
+    expect(existsSync(join(checkout, 'stale.md'))).toBe(false);
+  });
+});
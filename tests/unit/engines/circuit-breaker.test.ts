@@ -12,6 +12,7 @@ import {
   withCircuitBreaker,
   isCircuitOpen,
   getCircuitStats,
+  onEngineCircuitChange,
 } from '../../../src/infra/engines/core/circuit-breaker.js';
 
 describe('CircuitBreaker', () => {
@@ -161,6 +162,25 @@ describe('CircuitBreaker', () => {
       }
       expect(circuit.getStats().failures).toBe(1);
     });
+
+    it('should not record errors rejected by the failure predicate', async () => {
+      const aborted = new Error('aborted');
+      aborted.name = 'AbortError';
+
+      await expect(
+        circuit.execute(() => Promise.reject(aborted), (error) => (error as Error).name !== 'AbortError')
+      ).rejects.toBe(aborted);
+      expect(circuit.getStats().failures).toBe(0);
+    });
+
+    it('should report reset time only while open', () => {
+      expect(circuit.getResetAt()).toBeUndefined();
+
+      circuit.forceState('open');
+      const resetAt = circuit.getResetAt();
+      expect(resetAt).toBeInstanceOf(Date);
+      expect(resetAt!.getTime()).toBeGreaterThan(Date.now());
+    });
   });
 
   describe('Statistics', () => {
@@ -381,6 +401,21 @@ describe('CircuitBreakerRegistry', () => {
     expect(c1.getStats().failures).toBe(0);
     expect(c2.getStats().failures).toBe(0);
   });
+
+  it('should notify state listeners for existing and new circuits', () => {
+    const changes: string[] = [];
+    const existing = registry.get('existing');
+    const unsubscribe = registry.onStateChange((name, from, to) => {
+      changes.push(`${name}:${from}->${to}`);
+    });
+
+    existing.forceState('open');
+    registry.get('created-later').forceState('half_open');
+    unsubscribe();
+    existing.forceState('closed');
+
+    expect(changes).toEqual(['existing:closed->open', 'created-later:closed->half_open']);
+  });
 });
 
 describe('Global Functions', () => {
@@ -409,4 +444,18 @@ describe('Global Functions', () => {
     expect(stats.state).toBeDefined();
     expect(stats.failures).toBeDefined();
   });
+
+  it('onEngineCircuitChange should report engine ids and new state', () => {
+    const changes: Array<[string, string]> = [];
+    const unsubscribe = onEngineCircuitChange((engineId, state) => {
+      changes.push([engineId, state]);
+    });
+
+    circuitRegistry.get('not-an-engine').forceState('open');
+    circuitRegistry.forEngine('mock').forceState('open');
+    unsubscribe();
+    circuitRegistry.resetAll();
+
+    expect(changes).toEqual([['mock', 'open']]);
+  });
 });
@@ -471,4 +471,45 @@ describe('withRecovery', () => {
     expect(result.success).toBe(false);
     expect(result.error?.message).toContain('aborted');
   });
+
+  it('should not retry errors vetoed by isRetryable', async () => {
+    let callCount = 0;
+
+    const result = await withRecovery(
+      () => {
+        callCount++;
+        throw new Error('rate limit exceeded');
+      },
+      'mock',
+      { maxRetries: 3, isRetryable: (error) => error.category !== 'rate_limit' }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.category).toBe('rate_limit');
+    expect(callCount).toBe(1);
+  });
+
+  it('should stop waiting and report abort when signal fires during backoff', async () => {
+    const controller = new AbortController();
+    let callCount = 0;
+    const started = Date.now();
+
+    const result = await withRecovery(
+      () => {
+        callCount++;
+        throw new Error('Server returned 503');
+      },
+      'mock',
+      {
+        maxRetries: 3,
+        abortSignal: controller.signal,
+        onRetry: () => controller.abort(),
+      }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toBe('Operation aborted');
+    expect(callCount).toBe(1);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
 });
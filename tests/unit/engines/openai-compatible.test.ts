@@ -0,0 +1,151 @@
+/**
+ * OpenAI-Compatible Engine Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import {
+  loadOpenAICompatibleConfig,
+  resolveEndpoint,
+  runOpenAICompatible,
+} from '../../../src/infra/engines/providers/openai-compatible/index.js';
+import type { ParsedTelemetry } from '../../../src/infra/engines/core/types.js';
+
+interface ReceivedRequest {
+  path: string;
+  authorization: string | null;
+  body: { model: string; messages: Array<{ role: string; content: string }>; stream: boolean };
+}
+
+const ENV_KEYS = ['OPENAI_COMPATIBLE_CONFIG_DIR', 'OPENAI_COMPATIBLE_BASE_URL', 'OPENAI_COMPATIBLE_MODEL', 'OPENAI_COMPATIBLE_API_KEY'];
+
+function sse(events: unknown[]): string {
+  return events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join('') + 'data: [DONE]\n\n';
+}
+
+describe('openai-compatible engine', () => {
+  let dir: string;
+  let server: ReturnType<typeof Bun.serve>;
+  let baseUrl: string;
+  let received: ReceivedRequest[];
+  let savedEnv: Record<string, string | undefined>;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'codemachine-openai-compatible-'));
+    savedEnv = Object.fromEntries(ENV_KEYS.map((key) => [key, process.env[key]]));
+    for (const key of ENV_KEYS) delete process.env[key];
+    process.env.OPENAI_COMPATIBLE_CONFIG_DIR = join(dir, 'config');
+
+    received = [];
+    server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        const body = (await request.json()) as ReceivedRequest['body'];
+        received.push({ path: new URL(request.url).pathname, authorization: request.headers.get('authorization'), body });
+        if (body.model === 'busy') {
+          return new Response('{"error":{"message":"Too many requests"}}', { status: 429, headers: { 'Retry-After': '7' } });
+        }
+        if (body.model === 'missing') {
+          return Response.json({ error: { message: 'model not found' } }, { status: 404 });
+        }
+        return new Response(
+          sse([
+            { choices: [{ delta: { role: 'assistant' } }] },
+            { choices: [{ delta: { content: 'Hello' } }] },
+            { choices: [{ delta: { content: ' world' } }] },
+            { choices: [], usage: { prompt_tokens: 12, completion_tokens: 3, prompt_tokens_details: { cached_tokens: 4 } } },
+          ]),
+          { headers: { 'Content-Type': 'text/event-stream' } },
+        );
+      },
+    });
+    baseUrl = `http://localhost:${server.port}/v1`;
+  });
+
+  afterEach(() => {
+    server.stop(true);
+    for (const [key, value] of Object.entries(savedEnv)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('streams completions to onData and reports usage as telemetry', async () => {
+    process.env.OPENAI_COMPATIBLE_BASE_URL = `${baseUrl}/`;
+    process.env.OPENAI_COMPATIBLE_MODEL = 'qwen2.5-coder';
+    process.env.OPENAI_COMPATIBLE_API_KEY = 'local-key';
+
+    const chunks: string[] = [];
+    const telemetry: ParsedTelemetry[] = [];
+    const result = await runOpenAICompatible({
+      prompt: 'Say hello',
+      workingDir: dir,
+      model: 'default',
+      onData: (chunk) => chunks.push(chunk),
+      onTelemetry: (t) => telemetry.push(t),
+    });
+
+    expect(result).toEqual({ stdout: 'Hello world', stderr: '' });
+    expect(chunks.slice(0, 2)).toEqual(['Hello', ' world']);
+    expect(chunks[2]).toContain('[TELEMETRY] tokens_in=12 tokens_out=3 cached=4');
+    expect(telemetry[0]).toMatchObject({ tokensIn: 12, tokensOut: 3, cached: 4 });
+    expect(received[0]).toMatchObject({
+      path: '/v1/chat/completions',
+      authorization: 'Bearer local-key',
+      body: { model: 'qwen2.5-coder', messages: [{ role: 'user', content: 'Say hello' }], stream: true },
+    });
+  });
+
+  it('resolves base URL and model per agent from user and project config', async () => {
+    mkdirSync(join(dir, 'config'), { recursive: true });
+    writeFileSync(
+      join(dir, 'config', 'config.json'),
+      JSON.stringify({ baseUrl: 'http://gpu-box:8000/v1', model: 'llama-3.1-70b', agents: { reviewer: { model: 'qwen-32b' } } }),
+    );
+    mkdirSync(join(dir, '.codemachine'));
+    writeFileSync(
+      join(dir, '.codemachine', 'openai-compatible.json'),
+      JSON.stringify({ agents: { planner: { baseUrl: 'http://localhost:11434/v1', model: 'llama3.2' } } }),
+    );
+
+    const config = await loadOpenAICompatibleConfig(dir);
+    expect(resolveEndpoint(config, 'planner', 'default')).toMatchObject({ baseUrl: 'http://localhost:11434/v1', model: 'llama3.2' });
+    expect(resolveEndpoint(config, 'reviewer', 'mistral')).toMatchObject({ baseUrl: 'http://gpu-box:8000/v1', model: 'qwen-32b' });
+    expect(resolveEndpoint(config, 'coder', 'mistral')).toMatchObject({ model: 'mistral' });
+    expect(resolveEndpoint(config, 'coder', 'default')).toMatchObject({ model: 'llama-3.1-70b' });
+    expect(resolveEndpoint({}, 'coder')).toContain('has no base URL');
+  });
+
+  it('reports rate limits with Retry-After and surfaces API errors', async () => {
+    process.env.OPENAI_COMPATIBLE_BASE_URL = baseUrl;
+
+    const limited = await runOpenAICompatible({ prompt: 'Hi', workingDir: dir, model: 'busy' });
+    expect(limited).toMatchObject({ isRateLimitError: true, retryAfterSeconds: 7 });
+    expect(received[0].authorization).toBeNull();
+
+    const errors: string[] = [];
+    await expect(
+      runOpenAICompatible({ prompt: 'Hi', workingDir: dir, model: 'missing', onErrorData: (e) => errors.push(e) }),
+    ).rejects.toThrow('OpenAI-compatible API error (404): model not found');
+    expect(errors).toEqual(['\n[ERROR] OpenAI-compatible API error (404): model not found\n']);
+
+    delete process.env.OPENAI_COMPATIBLE_BASE_URL;
+    await expect(runOpenAICompatible({ prompt: 'Hi', workingDir: dir, model: 'default' })).rejects.toThrow(
+      'has no base URL',
+    );
+  });
+
+  it('throws AbortError when aborted', async () => {
+    process.env.OPENAI_COMPATIBLE_BASE_URL = baseUrl;
+
+    const controller = new AbortController();
+    controller.abort();
+    const run = runOpenAICompatible({ prompt: 'Hi', workingDir: dir, model: 'qwen2.5-coder', abortSignal: controller.signal });
+    await expect(run).rejects.toMatchObject({ name: 'AbortError' });
+    expect(received).toEqual([]);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Engine Resilience Unit Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { runWithResilience } from '../../../src/infra/engines/core/resilience.js';
+import { circuitRegistry, CircuitOpenError } from '../../../src/infra/engines/core/circuit-breaker.js';
+
+describe('runWithResilience', () => {
+  beforeEach(() => {
+    circuitRegistry.resetAll();
+  });
+
+  it('should return the value and record success', async () => {
+    const result = await runWithResilience('mock', () => Promise.resolve('ok'));
+
+    expect(result).toBe('ok');
+    expect(circuitRegistry.forEngine('mock').getStats().successes).toBe(1);
+  });
+
+  it('should rethrow the original error and count it against the circuit', async () => {
+    const original = new Error('invalid model');
+
+    await expect(runWithResilience('mock', () => Promise.reject(original))).rejects.toBe(original);
+    expect(circuitRegistry.forEngine('mock').getStats().failures).toBe(1);
+  });
+
+  it('should leave rate limit errors to fallback without retrying or counting them', async () => {
+    let callCount = 0;
+
+    await expect(
+      runWithResilience('mock', () => {
+        callCount++;
+        return Promise.reject(new Error('rate limit exceeded'));
+      })
+    ).rejects.toThrow('rate limit exceeded');
+
+    expect(callCount).toBe(1);
+    expect(circuitRegistry.forEngine('mock').getStats().failures).toBe(0);
+  });
+
+  it('should not retry once canRetry returns false', async () => {
+    let callCount = 0;
+
+    await expect(
+      runWithResilience('mock', () => {
+        callCount++;
+        return Promise.reject(new Error('ECONNREFUSED'));
+      }, { canRetry: () => false })
+    ).rejects.toThrow('ECONNREFUSED');
+
+    expect(callCount).toBe(1);
+    expect(circuitRegistry.forEngine('mock').getStats().failures).toBe(1);
+  });
+
+  it('should not count aborts as failures', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      runWithResilience('mock', () => Promise.reject(new Error('Process aborted')), {
+        abortSignal: controller.signal,
+      })
+    ).rejects.toMatchObject({ name: 'AbortError' });
+    expect(circuitRegistry.forEngine('mock').getStats().failures).toBe(0);
+  });
+
+  it('should throw CircuitOpenError without calling the engine when open', async () => {
+    circuitRegistry.forEngine('mock').forceState('open');
+    let called = false;
+
+    await expect(
+      runWithResilience('mock', () => {
+        called = true;
+        return Promise.resolve('unreachable');
+      })
+    ).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(called).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'bun:test';
+
+import {
+  checkModel,
+  computeCost,
+  findModel,
+  hasModelCatalog,
+} from '../../../../src/infra/engines/core/model-catalog.js';
+import { metadata as claudeMetadata } from '../../../../src/infra/engines/providers/claude/metadata.js';
+import { metadata as codexMetadata } from '../../../../src/infra/engines/providers/codex/metadata.js';
+import { metadata as geminiMetadata } from '../../../../src/infra/engines/providers/gemini/metadata.js';
+import {
+  getBuiltInPreset,
+  getBuiltInPresetNames,
+  getEngineModelOptions,
+  validateEngineConfigModels,
+} from '../../../../src/workflows/execution/engine-presets.js';
+import { validateWorkflowTemplate } from '../../../../src/workflows/templates/validator.js';
+
+describe('model catalog', () => {
+  it('finds models by ID or alias', () => {
+    expect(findModel('claude', 'Opus')?.id).toBe('claude-opus-4-1');
+    expect(findModel('codex', 'gpt-5-codex')?.reasoningEffort).toBe(true);
+    expect(findModel('gemini', 'gemini-3-pro')?.contextWindow).toBe(1_000_000);
+    expect(findModel('claude', 'gpt-5')).toBeUndefined();
+
+    for (const metadata of [claudeMetadata, codexMetadata, geminiMetadata]) {
+      expect(findModel(metadata.id, metadata.defaultModel ?? '')).toBeDefined();
+    }
+  });
+
+  it('reports unknown models with the closest name', () => {
+    expect(checkModel('claude', 'sonnet')).toBeNull();
+    expect(checkModel('claude', 'sonet')).toBe("'sonet' is not a claude model (did you mean 'sonnet'?)");
+    expect(checkModel('codex', 'o3-pro')).toContain('known models: gpt-5-codex, gpt-5');
+    expect(hasModelCatalog('opencode')).toBe(false);
+    expect(checkModel('opencode', 'anthropic/claude-sonnet-4')).toBeNull();
+  });
+
+  it('computes cost from tokens and model pricing', () => {
+    // 1M input of which 400K cached, 100K output at gpt-5-codex prices
+    const cost = computeCost('codex', 'codex', { tokensIn: 1_000_000, tokensOut: 100_000, cached: 400_000 });
+    expect(cost).toBeCloseTo(0.6 * 1.25 + 0.4 * 0.125 + 0.1 * 10, 6);
+
+    const cacheCost = computeCost('claude', 'haiku', { tokensIn: 0, tokensOut: 0, cacheReadTokens: 1_000_000, cacheCreationTokens: 1_000_000 });
+    expect(cacheCost).toBeCloseTo(0.1 + 1.25, 6);
+
+    expect(computeCost('opencode', 'anthropic/claude-sonnet-4', { tokensIn: 1000, tokensOut: 1000 })).toBeUndefined();
+  });
+
+  it('validates step and preset models', () => {
+    const step = { type: 'module', agentId: 'plan', agentName: 'Plan', promptPath: 'prompts/plan.md' };
+    const result = validateWorkflowTemplate({
+      name: 'Models',
+      steps: [
+        { ...step, engine: 'codex', model: 'gpt-5-codx' },
+        { ...step, engine: 'claude', model: 'sonnet', modelReasoningEffort: 'high' },
+        { ...step, engine: 'codex', model: 'gpt-5', modelReasoningEffort: 'high' },
+        { ...step, model: 'anything' },
+      ],
+    });
+    expect(result.errors).toEqual([
+      "Step[0].model 'gpt-5-codx' is not a codex model (did you mean 'gpt-5-codex'?)",
+      "Step[1].modelReasoningEffort is not supported by claude model 'sonnet'",
+    ]);
+
+    expect(validateEngineConfigModels({
+      presets: {
+        fast: { defaultEngine: 'gemini', modelByTier: { 1: 'gemini-2.5-pro', 2: 'gemini-2.5-flash', 3: 'gemini-2.5-flsh' } },
+        local: { defaultEngine: 'opencode', modelByTier: { 1: 'ollama/qwen', 2: 'ollama/qwen', 3: 'ollama/qwen' } },
+      },
+    })).toEqual(["Preset 'fast' tier 3: 'gemini-2.5-flsh' is not a gemini model (did you mean 'gemini-2.5-flash'?)"]);
+
+    for (const name of getBuiltInPresetNames()) {
+      expect(validateEngineConfigModels({ presets: { [name]: getBuiltInPreset(name) } })).toEqual([]);
+    }
+  });
+
+  it('offers catalog models in model pickers', () => {
+    expect(getEngineModelOptions('codex')).toEqual(['gpt-5-codex', 'gpt-5-codex-mini', 'gpt-5', 'gpt-5-mini']);
+    expect(getEngineModelOptions('claude')).toEqual(['opus', 'sonnet', 'haiku', 'claude-sonnet-4-20250514']);
+  });
+});
@@ -0,0 +1,74 @@
+import { mkdtemp, mkdir, rm, stat, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+
+import { runDoctor, applyDoctorFixes } from '../../../src/runtime/services/doctor.js';
+
+describe('doctor service', () => {
+  let cwd: string;
+
+  beforeEach(async () => {
+    cwd = await mkdtemp(join(tmpdir(), 'doctor-'));
+  });
+
+  afterEach(async () => {
+    await rm(cwd, { recursive: true, force: true });
+  });
+
+  it('reports missing workspace directories and creates them with fixes', async () => {
+    const report = await runDoctor(cwd, { skipChecks: ['engines'], credentialFiles: [] });
+    const missing = report.issues.filter((issue) => issue.kind === 'missing-directory');
+
+    expect(missing.some((issue) => issue.path === join(cwd, '.codemachine'))).toBe(true);
+    expect(missing.some((issue) => issue.path === join(cwd, '.codemachine', 'logs'))).toBe(true);
+
+    const results = await applyDoctorFixes(report.issues);
+    expect(results.every((result) => result.fixed)).toBe(true);
+
+    const after = await runDoctor(cwd, { skipChecks: ['engines'], credentialFiles: [] });
+    expect(after.issues.filter((issue) => issue.kind === 'missing-directory')).toHaveLength(0);
+  });
+
+  it('detects and removes stale lock directories', async () => {
+    const logsDir = join(cwd, '.codemachine', 'logs');
+    const staleLock = join(logsDir, 'agent-1.log.lock');
+    const freshLock = join(logsDir, 'agent-2.log.lock');
+    await mkdir(staleLock, { recursive: true });
+    await mkdir(freshLock, { recursive: true });
+    const past = new Date(Date.now() - 5 * 60 * 1000);
+    await utimes(staleLock, past, past);
+
+    const report = await runDoctor(cwd, { skipChecks: ['engines'], credentialFiles: [] });
+    const locks = report.issues.filter((issue) => issue.kind === 'stale-lock');
+
+    expect(locks.map((issue) => issue.path)).toEqual([staleLock]);
+
+    await applyDoctorFixes(locks);
+    await expect(stat(staleLock)).rejects.toThrow();
+    expect((await stat(freshLock)).isDirectory()).toBe(true);
+  });
+
+  it.skipIf(process.platform === 'win32')('flags insecure credential files and tightens permissions', async () => {
+    const credentialFile = join(cwd, 'credentials.json');
+    await writeFile(credentialFile, '{}', { mode: 0o644 });
+
+    const report = await runDoctor(cwd, { skipChecks: ['engines'], credentialFiles: [credentialFile] });
+    const insecure = report.issues.filter((issue) => issue.kind === 'insecure-permissions');
+
+    expect(insecure).toHaveLength(1);
+    expect(report.overall).toBe('unhealthy');
+
+    await applyDoctorFixes(insecure);
+    expect((await stat(credentialFile)).mode & 0o777).toBe(0o600);
+  });
+
+  it('ignores credential files that do not exist', async () => {
+    const report = await runDoctor(cwd, {
+      skipChecks: ['engines'],
+      credentialFiles: [join(cwd, 'missing.json')],
+    });
+
+    expect(report.issues.filter((issue) => issue.kind === 'insecure-permissions')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { findPlaceholders } from '../../../src/shared/prompts/replacement/parser.js';
+import { applyPlaceholderFilters } from '../../../src/shared/prompts/replacement/filters.js';
+import { PlaceholderError } from '../../../src/shared/prompts/replacement/errors.js';
+import { processPromptString } from '../../../src/shared/prompts/index.js';
+
+const ARCHITECTURE = [
+  '# Architecture',
+  'Intro',
+  '## Data Model',
+  'Users have tasks.',
+  '### Indexes',
+  'By owner.',
+  '## API',
+  'REST.',
+].join('\n');
+
+describe('placeholder filters', () => {
+  it('parses filter chains with bare and quoted arguments', () => {
+    const [placeholder] = findPlaceholders('See {!tasks|jq:".[] | select(.done==false)"|head:5|upper} now');
+
+    expect(placeholder).toEqual({
+      fullMatch: '{!tasks|jq:".[] | select(.done==false)"|head:5|upper}',
+      isOptional: true,
+      name: 'tasks',
+      filters: [
+        { name: 'jq', arg: '.[] | select(.done==false)' },
+        { name: 'head', arg: '5' },
+        { name: 'upper' },
+      ],
+    });
+    expect(findPlaceholders('{name|default:"say \\"hi\\""}')[0].filters).toEqual([{ name: 'default', arg: 'say "hi"' }]);
+    expect(findPlaceholders('{"json": true} and {plain}').map((p) => p.name)).toEqual(['plain']);
+  });
+
+  it('slices lines and markdown sections', async () => {
+    expect(await applyPlaceholderFilters('a\nb\nc', [{ name: 'head', arg: '2' }], 'x')).toBe('a\nb');
+    expect(await applyPlaceholderFilters('a\nb\nc', [{ name: 'tail', arg: '1' }], 'x')).toBe('c');
+    expect(await applyPlaceholderFilters(ARCHITECTURE, [{ name: 'section', arg: 'data model' }], 'x')).toBe(
+      '## Data Model\nUsers have tasks.\n### Indexes\nBy owner.',
+    );
+    expect(
+      await applyPlaceholderFilters(ARCHITECTURE, [{ name: 'section', arg: 'Missing' }, { name: 'default', arg: 'n/a' }], 'x'),
+    ).toBe('n/a');
+  });
+
+  it('transforms case and filters JSON with jq', async () => {
+    expect(await applyPlaceholderFilters(' Name ', [{ name: 'trim' }, { name: 'upper' }], 'x')).toBe('NAME');
+
+    const tasks = JSON.stringify([{ id: 'a', done: true }, { id: 'b', done: false }]);
+    expect(await applyPlaceholderFilters(tasks, [{ name: 'jq', arg: '.[] | select(.done==false) | .id' }], 'x')).toBe('b');
+  });
+
+  it('rejects unknown filters and invalid arguments', async () => {
+    await expect(applyPlaceholderFilters('a', [{ name: 'shout' }], 'x')).rejects.toBeInstanceOf(PlaceholderError);
+    await expect(applyPlaceholderFilters('a', [{ name: 'head', arg: 'ten' }], 'x')).rejects.toThrow('expected a line count');
+    await expect(applyPlaceholderFilters('a', [{ name: 'section' }], 'x')).rejects.toThrow('an argument is required');
+  });
+
+  describe('prompt replacement', () => {
+    let cwd: string;
+
+    beforeEach(() => {
+      cwd = mkdtempSync(join(tmpdir(), 'codemachine-filters-'));
+      mkdirSync(join(cwd, '.codemachine', 'artifacts', 'architecture'), { recursive: true });
+      writeFileSync(join(cwd, '.codemachine', 'artifacts', 'architecture', '01.md'), ARCHITECTURE);
+    });
+
+    afterEach(() => {
+      rmSync(cwd, { recursive: true, force: true });
+    });
+
+    it('applies filters per placeholder expression', async () => {
+      const result = await processPromptString(
+        'Head: {architecture|head:3}\nData: {architecture|section:"API"}\nSpec: {specifications|default:"No spec ($1)"}',
+        cwd,
+      );
+
+      expect(result).toBe('Head: <!-- File: 01.md -->\n\n# Architecture\nData: ## API\nREST.\nSpec: No spec ($1)');
+    });
+
+    it('still fails for missing required placeholders without a default', async () => {
+      await expect(processPromptString('{specifications|upper}', cwd)).rejects.toBeInstanceOf(PlaceholderError);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { closeMemoryDatabases } from '../../../src/infra/fs/sqlite-memory-adapter.js';
+import { createMemoryStore } from '../../../src/agents/memory/memory-store.js';
+import { findPlaceholders } from '../../../src/shared/prompts/replacement/parser.js';
+import { PlaceholderError } from '../../../src/shared/prompts/replacement/errors.js';
+import {
+  clearPlaceholderSourceCache,
+  loadSourceContent,
+  queryJsonPath,
+  registerPlaceholderSource,
+  resolvePlaceholderSource,
+} from '../../../src/shared/prompts/sources/index.js';
+import { assemblePrompt } from '../../../src/shared/prompts/index.js';
+
+describe('placeholder sources', () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'codemachine-sources-'));
+    clearPlaceholderSourceCache();
+  });
+
+  afterEach(() => {
+    closeMemoryDatabases();
+    rmSync(cwd, { recursive: true, force: true });
+    delete process.env.CODEMACHINE_TEST_SOURCE;
+  });
+
+  it('parses inline sources and resolves config sources', () => {
+    expect(findPlaceholders('{step:plan-agent.output|tail:5} {!env:CI_BRANCH} {other:x}').map((p) => p.name)).toEqual([
+      'step:plan-agent.output',
+      'env:CI_BRANCH',
+    ]);
+
+    const config = { sources: { git_changes: { type: 'command', command: 'git diff --stat' } } };
+    expect(resolvePlaceholderSource('git_changes', config)).toEqual(config.sources.git_changes);
+    expect(resolvePlaceholderSource('step:plan-agent.output', config)).toEqual({ type: 'step', agentId: 'plan-agent' });
+    expect(resolvePlaceholderSource('memory:code-generation?q=auth+flow&limit=5', config)).toEqual({
+      type: 'memory',
+      agentId: 'code-generation',
+      query: 'auth flow',
+      limit: '5',
+      tags: undefined,
+    });
+    expect(resolvePlaceholderSource('specifications', config)).toBeNull();
+    expect(() => resolvePlaceholderSource('step:plan-agent.summary', config)).toThrow(PlaceholderError);
+  });
+
+  it('queries JSON paths', () => {
+    const data = { tasks: [{ title: 'A' }, { title: 'B', done: true }] };
+
+    expect(queryJsonPath(data, 'tasks[*].title')).toEqual(['A', 'B']);
+    expect(queryJsonPath(data, '$.tasks[1].done')).toBe(true);
+    expect(queryJsonPath(data, 'tasks[5]')).toBeUndefined();
+    expect(() => queryJsonPath(data, 'tasks[x]')).toThrow('invalid JSON path');
+  });
+
+  it('fills placeholders from env vars and previous step outputs', async () => {
+    process.env.CODEMACHINE_TEST_SOURCE = 'main';
+    await createMemoryStore(cwd).append({
+      agentId: 'plan-agent',
+      content: 'line 1\nline 2',
+      timestamp: new Date().toISOString(),
+    });
+
+    const { prompt, report } = await assemblePrompt(
+      'Branch {env:CODEMACHINE_TEST_SOURCE}. Plan: {step:plan-agent.output|tail:1}.{!step:test-agent.output}',
+      cwd,
+    );
+
+    expect(prompt).toBe('Branch main. Plan: line 2.');
+    expect(report.placeholders.map((p) => p.source)).toEqual([
+      { kind: 'env', pattern: 'CODEMACHINE_TEST_SOURCE', files: undefined },
+      expect.objectContaining({ kind: 'step', pattern: 'plan-agent' }),
+      { kind: 'step', missing: true },
+    ]);
+  });
+
+  it('reports why a required source failed', async () => {
+    await expect(assemblePrompt('{env:CODEMACHINE_TEST_SOURCE}', cwd)).rejects.toThrow(
+      'Placeholder {env:CODEMACHINE_TEST_SOURCE} could not be loaded from its env source: environment variable CODEMACHINE_TEST_SOURCE is not set',
+    );
+    await expect(
+      loadSourceContent({ type: 'command', command: 'exit 3' }, { placeholderName: 'broken', cwd }),
+    ).rejects.toThrow('"exit 3" exited with code 3');
+    await expect(loadSourceContent({ type: 'ftp' }, { placeholderName: 'remote', cwd })).rejects.toThrow('unknown source type');
+  });
+
+  it('caches until the source file changes', async () => {
+    mkdirSync(join(cwd, 'data'));
+    writeFileSync(join(cwd, 'data', 'plan.json'), JSON.stringify({ phase: 'one' }));
+    const config = { type: 'json', file: 'data/plan.json', path: 'phase' };
+    let calls = 0;
+    registerPlaceholderSource('counter', async () => ({ content: String(++calls), description: 'counter' }), 60);
+
+    expect((await loadSourceContent(config, { placeholderName: 'phase', cwd })).content).toBe('one');
+    writeFileSync(join(cwd, 'data', 'plan.json'), JSON.stringify({ phase: 'two!' }));
+    expect((await loadSourceContent(config, { placeholderName: 'phase', cwd })).content).toBe('two!');
+
+    await loadSourceContent({ type: 'counter' }, { placeholderName: 'n', cwd });
+    expect((await loadSourceContent({ type: 'counter' }, { placeholderName: 'n', cwd })).content).toBe('1');
+    expect((await loadSourceContent({ type: 'counter', cacheSeconds: 0 }, { placeholderName: 'n', cwd })).content).toBe('2');
+  });
+});
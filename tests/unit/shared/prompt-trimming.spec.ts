@@ -0,0 +1,125 @@
+import { describe, expect, it, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import {
+  assemblePrompt,
+  estimateTokens,
+  fitToBudget,
+  truncateToTokens,
+  type TrimEntry,
+} from '../../../src/shared/prompts/index.js';
+
+function entry(name: string, tokens: number, optional = false, occurrences = 1): TrimEntry {
+  return {
+    expression: `{${optional ? '!' : ''}${name}}`,
+    name,
+    optional,
+    occurrences,
+    // Lines of 40 characters = 10 tokens
+    content: `${'x'.repeat(39)}\n`.repeat(tokens / 10),
+  };
+}
+
+describe('prompt trimming', () => {
+  it('truncates at a line boundary and marks the cut', () => {
+    const content = entry('plan', 1000).content;
+    const truncated = truncateToTokens(content, 100);
+
+    expect(estimateTokens(truncated)).toBeLessThanOrEqual(100);
+    expect(truncated).toContain('tokens truncated to fit the prompt budget');
+    expect(truncateToTokens('short', 100)).toBe('short');
+  });
+
+  it('leaves prompts within budget untouched', async () => {
+    const { placeholders } = await fitToBudget([entry('plan', 100)], 50, { maxTokens: 1000 });
+    expect(placeholders).toEqual([expect.objectContaining({ tokens: 100, finalTokens: 100, action: 'kept' })]);
+  });
+
+  it('drops optional placeholders before truncating required ones', async () => {
+    const { contents, placeholders } = await fitToBudget(
+      [entry('plan', 500), entry('context', 400, true), entry('notes', 100, true)],
+      100,
+      { maxTokens: 750 },
+    );
+
+    expect(placeholders.map((p) => p.action)).toEqual(['kept', 'dropped', 'kept']);
+    expect(contents.get('{!context}')).toBe('');
+  });
+
+  it('shares the budget out, keeping small placeholders whole', async () => {
+    const { placeholders } = await fitToBudget(
+      [entry('plan', 2000), entry('architecture', 1000), entry('spec', 100)],
+      100,
+      { maxTokens: 1100, strategy: 'truncate' },
+    );
+
+    expect(placeholders.map((p) => p.action)).toEqual(['truncated', 'truncated', 'kept']);
+    const total = 100 + placeholders.reduce((sum, p) => sum + p.finalTokens, 0);
+    expect(total).toBeLessThanOrEqual(1100);
+  });
+
+  it('summarizes with the given summarizer and falls back to truncating', async () => {
+    const summarized = await fitToBudget([entry('plan', 2000)], 0, {
+      maxTokens: 500,
+      strategy: 'summarize',
+      summarize: async (_content, maxTokens) => `summary within ${maxTokens}`,
+    });
+    expect(summarized.contents.get('{plan}')).toBe('summary within 500');
+    expect(summarized.placeholders[0].action).toBe('summarized');
+
+    const failed = await fitToBudget([entry('plan', 2000)], 0, {
+      maxTokens: 500,
+      strategy: 'summarize',
+      summarize: async () => {
+        throw new Error('engine unavailable');
+      },
+    });
+    expect(failed.placeholders[0].action).toBe('truncated');
+  });
+
+  describe('assemblePrompt', () => {
+    let cwd: string;
+
+    beforeEach(() => {
+      cwd = mkdtempSync(join(tmpdir(), 'codemachine-trimming-'));
+      mkdirSync(join(cwd, '.codemachine', 'inputs'), { recursive: true });
+      mkdirSync(join(cwd, '.codemachine', 'prompts'), { recursive: true });
+      writeFileSync(join(cwd, '.codemachine', 'inputs', 'specifications.md'), 'S'.repeat(400));
+      writeFileSync(join(cwd, '.codemachine', 'prompts', 'context.md'), 'C'.repeat(4000));
+    });
+
+    afterEach(() => {
+      rmSync(cwd, { recursive: true, force: true });
+    });
+
+    it('reports per-placeholder contributions and trims to the budget', async () => {
+      const unbounded = await assemblePrompt('Spec: {specifications}\nContext: {!context}', cwd);
+      expect(unbounded.report.trimmed).toBe(false);
+      expect(unbounded.report.placeholders.map((p) => [p.expression, p.tokens])).toEqual([
+        ['{specifications}', 100],
+        ['{!context}', 1000],
+      ]);
+
+      const { prompt, report } = await assemblePrompt('Spec: {specifications}\nContext: {!context}', cwd, { maxTokens: 200 });
+      expect(prompt).toBe(`Spec: ${'S'.repeat(400)}\nContext: `);
+      expect(report).toEqual(expect.objectContaining({ maxTokens: 200, trimmed: true, overBudget: false }));
+    });
+
+    it('records where each placeholder came from', async () => {
+      rmSync(join(cwd, '.codemachine', 'prompts', 'context.md'));
+      const { report } = await assemblePrompt('{specifications} {!context} {date}', cwd);
+
+      expect(report.placeholders.map((p) => p.source)).toEqual([
+        {
+          kind: 'file',
+          pattern: '.codemachine/inputs/specifications.md',
+          files: [join(cwd, '.codemachine', 'inputs', 'specifications.md')],
+        },
+        { kind: 'file', pattern: '.codemachine/prompts/context.md', files: [], missing: true },
+        { kind: 'built-in' },
+      ]);
+    });
+  });
+});
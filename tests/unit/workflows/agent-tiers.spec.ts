@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+
+import {
+  collectDefinitionTiers,
+  collectWorkflowTiers,
+  estimateAgentTiers,
+} from '../../../src/workflows/execution/agent-tiers.js';
+import {
+  describeAvailablePresets,
+  resolveAgentTier,
+  resolveEngineAndModelForAgent,
+  setAgentTierConfig,
+} from '../../../src/workflows/execution/engine-presets.js';
+import { validateWorkflowTemplate } from '../../../src/workflows/templates/validator.js';
+import type { AgentUsageRecord } from '../../../src/agents/monitoring/types.js';
+import type { ModuleStep, WorkflowTemplate } from '../../../src/workflows/templates/types.js';
+
+function step(agentId: string, tier?: 1 | 2 | 3): ModuleStep {
+  return { type: 'module', agentId, agentName: agentId, promptPath: `prompts/${agentId}.md`, tier };
+}
+
+function run(name: string, tokensIn: number, tokensOut: number, status: AgentUsageRecord['status'] = 'completed'): AgentUsageRecord {
+  return { id: 0, name, status, startTime: '2026-01-01T00:00:00.000Z', tokensIn, tokensOut };
+}
+
+describe('agent tiers', () => {
+  afterEach(() => {
+    setAgentTierConfig(null);
+  });
+
+  it('collects tiers from agent definitions and workflow templates', () => {
+    expect(collectDefinitionTiers([
+      { id: 'reviewer', tier: 1 },
+      { id: 'linter', tier: 3 },
+      { id: 'broken', tier: 5 as never },
+      { id: 'plain' },
+    ])).toEqual({ reviewer: 1, linter: 3 });
+
+    const template: WorkflowTemplate = {
+      name: 'Tiers',
+      tiers: { 'sub-helper': 3, reviewer: 2 },
+      steps: [step('reviewer', 1), { type: 'parallel', id: 'build', steps: [step('builder', 2), step('tester')] }],
+    };
+    expect(collectWorkflowTiers(template)).toEqual({ 'sub-helper': 3, reviewer: 1, builder: 2 });
+  });
+
+  it('estimates tiers from the average tokens of completed runs', () => {
+    const records = [
+      run('architect', 180_000, 20_000), run('architect', 120_000, 10_000), run('architect', 150_000, 5_000),
+      run('committer', 5_000, 500), run('committer', 8_000, 500), run('committer', 6_000, 500),
+      run('developer', 40_000, 4_000), run('developer', 60_000, 6_000), run('developer', 50_000, 5_000),
+      run('newcomer', 900_000, 0), run('newcomer', 900_000, 0),
+      run('flaky', 900_000, 0, 'failed'), run('flaky', 900_000, 0, 'failed'), run('flaky', 1_000, 0),
+    ];
+
+    expect(estimateAgentTiers(records)).toEqual({ architect: 1, committer: 3, developer: 2 });
+    expect(estimateAgentTiers(records, { minRuns: 2, complexTokens: 50_000 })).toEqual({
+      architect: 1,
+      committer: 3,
+      developer: 1,
+      newcomer: 1,
+    });
+  });
+
+  it('resolves tiers by priority and selects the preset model for them', () => {
+    setAgentTierConfig({
+      workflow: { 'git-commit': 1 },
+      agents: { reviewer: 3, 'git-commit': 2 },
+      estimated: { reviewer: 1, helper: 3, 'plan-agent': 3 },
+    });
+
+    expect(resolveAgentTier('git-commit')).toEqual({ tier: 1, source: 'workflow' });
+    expect(resolveAgentTier('reviewer')).toEqual({ tier: 3, source: 'agent' });
+    expect(resolveAgentTier('plan-agent')).toEqual({ tier: 1, source: 'built-in' });
+    expect(resolveAgentTier('helper')).toEqual({ tier: 3, source: 'estimated' });
+    expect(resolveAgentTier('unknown')).toEqual({ tier: 2, source: 'default' });
+
+    expect(resolveEngineAndModelForAgent('reviewer', { preset: 'all-claude' }, null)).toEqual({ engine: 'claude', model: 'haiku' });
+    expect(resolveEngineAndModelForAgent('git-commit', { preset: 'all-claude' }, null)).toEqual({ engine: 'claude', model: 'opus' });
+
+    const description = describeAvailablePresets(null, ['reviewer', 'unknown']);
+    expect(description).toContain('  Agent tiers:\n    reviewer: 3 (simple, agent)\n    unknown: 2 (standard, default)');
+    expect(describeAvailablePresets(null)).toContain('    helper: 3 (simple, estimated)');
+  });
+
+  it('validates tiers in workflow templates', () => {
+    const result = validateWorkflowTemplate({
+      name: 'Tiers',
+      tiers: { helper: 4 },
+      steps: [{ ...step('reviewer'), tier: 0 }],
+    });
+
+    expect(result.errors).toEqual([
+      'Template.tiers must map agent IDs to a tier (1|2|3)',
+      'Step[0].tier must be one of 1|2|3',
+    ]);
+  });
+});
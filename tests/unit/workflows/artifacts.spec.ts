@@ -0,0 +1,125 @@
+import { describe, expect, it, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import {
+  ArtifactRegistry,
+  createArtifactRegistry,
+  formatArtifactCorrection,
+  validateJsonSchema,
+} from '../../../src/workflows/artifacts/index.js';
+import { validateWorkflowTemplate } from '../../../src/workflows/templates/validator.js';
+import type { ModuleStep } from '../../../src/workflows/templates/types.js';
+
+function moduleStep(agentId: string, extra: Partial<ModuleStep> = {}): ModuleStep {
+  return { type: 'module', agentId, agentName: agentId, promptPath: `prompts/${agentId}.md`, ...extra };
+}
+
+describe('artifact registry', () => {
+  let cwd: string;
+  let registry: ArtifactRegistry;
+
+  const planStep = moduleStep('plan-agent', {
+    produces: [
+      { name: 'plan', path: 'artifacts/plan.md', format: 'markdown' },
+      {
+        name: 'tasks',
+        path: 'artifacts/tasks_*.json',
+        format: 'json',
+        schema: { type: 'array', minItems: 1, items: { type: 'object', required: ['id'] } },
+      },
+      { name: 'notes', path: 'artifacts/notes.txt', optional: true },
+    ],
+  });
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'codemachine-artifacts-'));
+    mkdirSync(join(cwd, 'artifacts'));
+    registry = createArtifactRegistry(cwd);
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('validates JSON against a schema subset', () => {
+    const schema = {
+      type: 'object' as const,
+      required: ['phase', 'tasks'],
+      additionalProperties: false,
+      properties: {
+        phase: { enum: ['one', 'two'] },
+        tasks: { type: 'array' as const, items: { type: 'string' as const, minLength: 2 } },
+      },
+    };
+
+    expect(validateJsonSchema({ phase: 'one', tasks: ['ab'] }, schema)).toEqual([]);
+    expect(validateJsonSchema({ phase: 'three', tasks: ['a', 3], extra: true }, schema)).toEqual([
+      '$.phase must be one of "one", "two"',
+      '$.tasks[0] must be at least 2 characters long',
+      '$.tasks[1] must be a string (got integer)',
+      '$.extra is not allowed',
+    ]);
+    expect(validateJsonSchema([], schema)).toEqual(['$ must be an object (got array)']);
+  });
+
+  it('records missing, invalid and valid artifacts', async () => {
+    writeFileSync(join(cwd, 'artifacts', 'plan.md'), '   \n');
+    writeFileSync(join(cwd, 'artifacts', 'tasks_I1.json'), JSON.stringify([{ id: 1 }, { title: 'x' }]));
+
+    const first = await registry.verify(planStep, 2);
+    expect(first.records.map((r) => r.status)).toEqual(['invalid', 'invalid', 'missing']);
+    expect(first.failures.map((r) => r.name)).toEqual(['plan', 'tasks']);
+    expect(first.failures[1].errors).toEqual(['artifacts/tasks_I1.json: $[1].id is required']);
+    expect(formatArtifactCorrection(first.failures)).toContain('- artifacts/plan.md is empty');
+
+    writeFileSync(join(cwd, 'artifacts', 'plan.md'), '# Plan');
+    writeFileSync(join(cwd, 'artifacts', 'tasks_I1.json'), JSON.stringify([{ id: 1 }]));
+    const second = await registry.verify(planStep, 2);
+    expect(second.failures).toEqual([]);
+    expect(second.records[1]).toMatchObject({ status: 'valid', files: ['artifacts/tasks_I1.json'], producer: 'plan-agent' });
+
+    expect(await registry.findUnavailable(['plan', 'notes', 'review'])).toEqual(['notes', 'review']);
+  });
+
+  it('lists declared artifacts and forgets steps that run again', async () => {
+    writeFileSync(join(cwd, 'artifacts', 'plan.md'), '# Plan');
+    await registry.verify(planStep, 0);
+
+    const steps = [planStep, moduleStep('review-agent', { produces: [{ name: 'review', path: 'artifacts/review.md' }] })];
+    expect((await registry.list(steps)).map((r) => `${r.name}:${r.status}`)).toEqual([
+      'plan:valid',
+      'tasks:missing',
+      'notes:missing',
+      'review:pending',
+    ]);
+
+    await registry.truncate(0);
+    expect((await registry.list(steps)).every((r) => r.status === 'pending')).toBe(true);
+  });
+
+  it('validates produces and consumes in templates', () => {
+    const result = validateWorkflowTemplate({
+      name: 'artifacts',
+      steps: [
+        moduleStep('plan-agent', {
+          produces: [
+            { name: 'plan', path: 'plan.md' },
+            { name: 'plan', path: '', format: 'yaml' as never, schema: {} },
+          ],
+        }),
+        { ...moduleStep('code-agent'), consumes: 'plan', onInvalidArtifacts: 'ignore' },
+      ],
+    });
+
+    expect(result.errors).toEqual([
+      "Step[0].produces[1].name 'plan' is declared twice",
+      'Step[0].produces[1].path must be a non-empty string',
+      "Step[0].produces[1].format must be one of 'markdown'|'json'|'text'",
+      "Step[0].produces[1].schema requires format 'json'",
+      'Step[1].consumes must be an array of artifact names',
+      "Step[1].onInvalidArtifacts must be one of 'retry'|'fail'",
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import {
+  BehaviorDecisionService,
+  createBehaviorDecisionService,
+  formatBehaviorCorrection,
+  validateBehaviorAction,
+} from '../../../src/workflows/behaviors/service.js';
+
+describe('behavior decision service', () => {
+  let cwd: string;
+  let memoryDir: string;
+  let service: BehaviorDecisionService;
+
+  function writeBehavior(content: string): void {
+    writeFileSync(join(memoryDir, 'behavior.json'), content);
+  }
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'codemachine-behavior-'));
+    memoryDir = join(cwd, '.codemachine', 'memory');
+    mkdirSync(memoryDir, { recursive: true });
+    service = createBehaviorDecisionService(cwd);
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('validates decisions against the schema', () => {
+    expect(validateBehaviorAction({ version: 1, action: 'loop', reason: 'Tests fail' }).valid).toBe(true);
+    expect(validateBehaviorAction({ action: 'continue' }).valid).toBe(true);
+
+    const result = validateBehaviorAction({ version: 2, action: 'jump', reason: '' });
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((error) => error.field)).toEqual(['version', 'action', 'reason']);
+
+    expect(validateBehaviorAction({ reason: 'no action' }).errors[0].message).toContain('action');
+    expect(validateBehaviorAction('continue').valid).toBe(false);
+  });
+
+  it('reports missing, valid and invalid files', async () => {
+    expect(await service.read()).toEqual({ status: 'missing' });
+
+    writeBehavior('{"action": "stop", "reason": "Done"}');
+    expect(await service.read()).toEqual({ status: 'valid', decision: { action: 'stop', reason: 'Done' } });
+
+    writeBehavior('{"action": ');
+    const invalid = await service.read();
+    expect(invalid.status).toBe('invalid');
+    expect(await service.readDecision()).toBeNull();
+  });
+
+  it('formats a correction prompt listing the errors', () => {
+    const prompt = formatBehaviorCorrection(['action: must be one of continue, loop']);
+    expect(prompt).toContain('- action: must be one of continue, loop');
+    expect(prompt).toContain('"version": 1');
+  });
+
+  it('resets to a versioned continue decision', async () => {
+    await service.reset();
+    expect(JSON.parse(readFileSync(join(memoryDir, 'behavior.json'), 'utf8'))).toEqual({ version: 1, action: 'continue' });
+  });
+
+  it('archives decisions and answers history queries', async () => {
+    expect(await service.archive(0, 'plan', { status: 'missing' })).toBeNull();
+
+    await service.archive(0, 'plan', { status: 'valid', decision: { action: 'continue', path: 'fix' } });
+    await service.archive(1, 'review', { status: 'invalid', errors: ['Invalid JSON'] });
+    await service.archive(2, 'test', { status: 'valid', decision: { action: 'loop', reason: 'Retry' } });
+
+    const history = await service.getHistory();
+    expect(history.map((record) => record.stepIndex)).toEqual([0, 1, 2]);
+    expect(history[1]).toEqual(expect.objectContaining({ agentId: 'review', errors: ['Invalid JSON'] }));
+    expect(typeof history[0].timestamp).toBe('string');
+
+    expect(await service.getDecision(0)).toEqual({ action: 'continue', path: 'fix' });
+    expect(await service.getDecision(1)).toBeNull();
+    expect(await service.getDecision(3)).toBeNull();
+
+    await service.truncateHistory(1);
+    expect((await service.getHistory()).map((record) => record.stepIndex)).toEqual([0]);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import {
+  BudgetTracker,
+  formatBudgetAlert,
+  loadBudgetConfig,
+  mergeBudgetConfigs,
+} from '../../../src/workflows/execution/budget.js';
+import { validateWorkflowTemplate } from '../../../src/workflows/templates/validator.js';
+
+describe('workflow budgets', () => {
+  describe('BudgetTracker', () => {
+    it('warns at thresholds and reports an exceeded limit once', () => {
+      const tracker = new BudgetTracker({ workflow: { maxTokens: 1000 }, warnAt: [0.5, 0.8] });
+
+      expect(tracker.record({}, { tokensIn: 400, tokensOut: 50 })).toEqual([]);
+      expect(tracker.record({}, { tokensIn: 100 })).toEqual([
+        { level: 'warning', scope: 'workflow', key: '', metric: 'tokens', used: 550, limit: 1000 },
+      ]);
+      expect(tracker.record({}, { tokensOut: 500 })).toEqual([
+        { level: 'exceeded', scope: 'workflow', key: '', metric: 'tokens', used: 1050, limit: 1000 },
+      ]);
+      expect(tracker.record({}, { tokensOut: 500 })).toEqual([]);
+      expect(tracker.getUsage('workflow')).toEqual({ tokens: 1550, cost: 0 });
+    });
+
+    it('tracks step and engine budgets separately', () => {
+      const tracker = new BudgetTracker({
+        steps: { plan: { maxCost: 1 } },
+        engines: { claude: { maxCost: 2 } },
+      });
+
+      const first = tracker.record({ agentId: 'plan', engine: 'claude' }, { cost: 1.7 });
+      const second = tracker.record({ agentId: 'build', engine: 'claude' }, { cost: 1 });
+
+      expect(first.map((alert) => `${alert.level}:${alert.scope}:${alert.key}`)).toEqual([
+        'exceeded:step:plan',
+        'warning:engine:claude',
+      ]);
+      expect(second.map((alert) => `${alert.level}:${alert.scope}:${alert.key}`)).toEqual(['exceeded:engine:claude']);
+      expect(tracker.getUsage('step', 'build')).toEqual({ tokens: 0, cost: 1 });
+    });
+
+    it('reports reached limits again for every run', () => {
+      const tracker = new BudgetTracker({ workflow: { maxTokens: 1000 }, steps: { plan: { maxCost: 1 } } });
+      tracker.record({ agentId: 'plan' }, { tokensIn: 1200, cost: 0.5 });
+
+      const exceeded = { level: 'exceeded', scope: 'workflow', key: '', metric: 'tokens', used: 1200, limit: 1000 };
+      expect(tracker.exceeded({ agentId: 'plan' })).toEqual([exceeded]);
+      expect(tracker.exceeded({ agentId: 'plan' })).toEqual([exceeded]);
+
+      tracker.record({ agentId: 'plan' }, { cost: 0.5 });
+      expect(tracker.exceeded({ agentId: 'plan' }).map((alert) => `${alert.scope}:${alert.metric}`)).toEqual([
+        'workflow:tokens',
+        'step:cost',
+      ]);
+      expect(tracker.exceeded({ agentId: 'build' }).map((alert) => `${alert.scope}:${alert.metric}`)).toEqual([
+        'workflow:tokens',
+      ]);
+    });
+  });
+
+  it('formats alerts for the agent log', () => {
+    expect(
+      formatBudgetAlert({ level: 'warning', scope: 'workflow', key: '', metric: 'tokens', used: 8000, limit: 10000 }),
+    ).toBe('Workflow has used 80% of its budget: 8,000 tokens of 10,000 tokens');
+    expect(
+      formatBudgetAlert({ level: 'exceeded', scope: 'engine', key: 'claude', metric: 'cost', used: 2.5, limit: 2 }),
+    ).toBe("Engine 'claude' exceeded its budget: $2.50 of $2.00");
+  });
+
+  it('merges template budgets over the config file per key', () => {
+    const merged = mergeBudgetConfigs(
+      { workflow: { maxCost: 10 }, steps: { plan: { maxCost: 1 } }, onExceeded: 'pause' },
+      { steps: { build: { maxCost: 2 } }, onExceeded: 'switch-engine', switchPreset: 'all-gemini' },
+    );
+
+    expect(merged).toEqual({
+      workflow: { maxCost: 10 },
+      steps: { plan: { maxCost: 1 }, build: { maxCost: 2 } },
+      engines: {},
+      onExceeded: 'switch-engine',
+      switchPreset: 'all-gemini',
+    });
+  });
+
+  it('validates template budgets', () => {
+    const result = validateWorkflowTemplate({
+      name: 'Budgeted',
+      steps: [],
+      budgets: {
+        workflow: { maxTokens: -1 },
+        engines: { claude: 'cheap' },
+        warnAt: [1.5],
+        onExceeded: 'switch-engine',
+      },
+    });
+
+    expect(result.errors).toEqual([
+      'Template.budgets.workflow.maxTokens must be a positive number',
+      'Template.budgets.engines.claude must be an object',
+      'Template.budgets.warnAt must be an array of fractions between 0 and 1',
+      "Template.budgets.switchPreset is required when onExceeded is 'switch-engine'",
+    ]);
+  });
+
+  it('validates budgets.json with the template rules', async () => {
+    const cmRoot = mkdtempSync(join(tmpdir(), 'codemachine-budgets-'));
+    try {
+      expect(await loadBudgetConfig(cmRoot)).toBeNull();
+
+      writeFileSync(join(cmRoot, 'budgets.json'), JSON.stringify({ workflow: { maxCost: 5 }, warnAt: [0.5] }));
+      expect(await loadBudgetConfig(cmRoot)).toEqual({ workflow: { maxCost: 5 }, warnAt: [0.5] });
+
+      writeFileSync(join(cmRoot, 'budgets.json'), JSON.stringify({ steps: { plan: { maxCost: '1' } }, onExceeded: 'stop' }));
+      await expect(loadBudgetConfig(cmRoot)).rejects.toThrow(
+        'Invalid budgets in .codemachine/budgets.json:\n' +
+          '- budgets.json.steps.plan.maxCost must be a positive number\n' +
+          "- budgets.json.onExceeded must be one of 'pause'|'switch-engine'",
+      );
+
+      writeFileSync(join(cmRoot, 'budgets.json'), '{ workflow: }');
+      await expect(loadBudgetConfig(cmRoot)).rejects.toThrow('Invalid budgets in .codemachine/budgets.json: ');
+    } finally {
+      rmSync(cmRoot, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,265 @@
+import { describe, expect, it, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+import {
+  collectModuleSteps,
+  flattenWorkflowSteps,
+  resolveIncludes,
+} from '../../../src/workflows/templates/composition.js';
+import { validateWorkflowTemplate } from '../../../src/workflows/templates/validator.js';
+import { evaluateBranchBehavior } from '../../../src/workflows/behaviors/branch/evaluator.js';
+import type { ModuleStep, WorkflowStep, WorkflowTemplate } from '../../../src/workflows/templates/types.js';
+
+function moduleStep(agentId: string, extra: Partial<ModuleStep> = {}): ModuleStep {
+  return { type: 'module', agentId, agentName: agentId, promptPath: `prompts/${agentId}.md`, ...extra };
+}
+
+describe('workflow template composition', () => {
+  describe('validateWorkflowTemplate', () => {
+    it('accepts parallel, branch and include steps', () => {
+      const result = validateWorkflowTemplate({
+        name: 'Composed',
+        steps: [
+          moduleStep('plan'),
+          { type: 'parallel', id: 'build', steps: [moduleStep('api'), moduleStep('ui')] },
+          {
+            type: 'branch',
+            id: 'review',
+            paths: { approve: [{ type: 'include', workflow: 'release' }], fix: [moduleStep('fixer')] },
+            default: 'approve',
+          },
+        ],
+      });
+
+      expect(result).toEqual({ valid: true, errors: [] });
+    });
+
+    it('reports nested errors with their location', () => {
+      const result = validateWorkflowTemplate({
+        name: 'Broken',
+        steps: [
+          { type: 'parallel', id: 'build', steps: [moduleStep('api'), { type: 'ui', text: 'nope' }] },
+          {
+            type: 'branch',
+            id: 'build',
+            paths: { fix: [{ type: 'module', agentId: 'fixer', agentName: 'Fixer' }] },
+            default: 'ship',
+          },
+          { type: 'include' },
+          { type: 'loop' },
+        ],
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        "Step[0].steps[1].type must be 'module' inside a parallel step",
+        "Step[1].id 'build' is already used by another parallel or branch step",
+        'Step[1].paths.fix[0].promptPath must be a non-empty string or array of non-empty strings',
+        'Step[1].default must name one of the branch paths',
+        'Step[2].workflow must be a non-empty string',
+        "Step[3].type must be one of 'module', 'ui', 'parallel', 'branch', 'include'",
+      ]);
+    });
+
+    it('rejects empty parallel groups and branches without paths', () => {
+      const result = validateWorkflowTemplate({
+        name: 'Empty',
+        steps: [
+          { type: 'parallel', id: 'none', steps: [] },
+          { type: 'branch', id: 'nowhere', paths: {} },
+        ],
+      });
+
+      expect(result.errors).toEqual([
+        'Step[0].steps must be a non-empty array',
+        'Step[1].paths must be an object with at least one path',
+      ]);
+    });
+    it('validates parallelGroup, dependsOn and maxParallel', () => {
+      const result = validateWorkflowTemplate({
+        name: 'Scheduled',
+        maxParallel: 0,
+        steps: [
+          { type: 'parallel', id: 'build', steps: [moduleStep('api', { parallelGroup: 'checks' })] },
+          moduleStep('lint', { parallelGroup: 'build' }),
+          moduleStep('test', { parallelGroup: 'checks', dependsOn: 'lint' as unknown as string[] }),
+        ],
+      });
+
+      expect(result.errors).toEqual([
+        'Template.maxParallel must be a positive integer',
+        'Step[0].steps[0].parallelGroup cannot be used inside a parallel step',
+        "Step[1].parallelGroup 'build' is already used by a parallel or branch step",
+        'Step[2].dependsOn must be an array of agent IDs',
+      ]);
+    });
+
+    it('keeps dependsOn inside the parallel group and free of cycles', () => {
+      const result = validateWorkflowTemplate({
+        name: 'Dependencies',
+        steps: [
+          moduleStep('plan', { dependsOn: ['review'] }),
+          moduleStep('lint', { parallelGroup: 'checks', dependsOn: ['plan'] }),
+          moduleStep('test', { parallelGroup: 'checks', dependsOn: ['test'] }),
+          moduleStep('review', { parallelGroup: 'review' }),
+          {
+            type: 'parallel',
+            id: 'build',
+            steps: [
+              moduleStep('api', { dependsOn: ['docs'] }),
+              moduleStep('ui', { dependsOn: ['api'] }),
+              moduleStep('docs', { dependsOn: ['ui'] }),
+            ],
+          },
+          moduleStep('e2e', { parallelGroup: 'verify' }),
+          moduleStep('report', { parallelGroup: 'verify', dependsOn: ['e2e'] }),
+        ],
+      });
+
+      expect(result.errors).toEqual([
+        'Step[0].dependsOn can only be used in a parallel group',
+        "Step[1].dependsOn 'plan' is not another step of its parallel group",
+        "Step[2].dependsOn 'test' is not another step of its parallel group",
+        'Step[4] has a dependsOn cycle: api -> docs -> ui -> api',
+      ]);
+    });
+  });
+
+  describe('flattenWorkflowSteps', () => {
+    it('annotates module steps with their enclosing groups', () => {
+      const steps: WorkflowStep[] = [
+        moduleStep('plan'),
+        {
+          type: 'branch',
+          id: 'review',
+          label: 'Review',
+          default: 'fix',
+          paths: {
+            fix: [{ type: 'parallel', id: 'fixes', steps: [moduleStep('api'), moduleStep('ui')] }],
+            ship: [moduleStep('release')],
+          },
+        },
+      ];
+
+      const flat = flattenWorkflowSteps(steps);
+
+      expect(flat.map((step) => (step.type === 'module' ? step.agentId : step.text))).toEqual([
+        'plan',
+        'api',
+        'ui',
+        'release',
+      ]);
+      expect((flat[0] as ModuleStep).groups).toBeUndefined();
+      expect((flat[1] as ModuleStep).groups).toEqual([
+        { kind: 'branch', id: 'review', label: 'Review', path: 'fix', paths: ['fix', 'ship'], defaultPath: 'fix' },
+        { kind: 'parallel', id: 'fixes', label: 'fixes' },
+      ]);
+      expect((flat[3] as ModuleStep).groups?.map((group) => group.path)).toEqual(['ship']);
+    });
+
+    it('filters module steps by track and conditions at any depth', () => {
+      const steps: WorkflowStep[] = [
+        moduleStep('always'),
+        {
+          type: 'parallel',
+          id: 'build',
+          steps: [moduleStep('api', { conditions: ['has_api'] }), moduleStep('ui', { conditions: ['!no_ui'] })],
+        },
+        moduleStep('enterprise', { tracks: ['enterprise'] }),
+      ];
+
+      const flat = flattenWorkflowSteps(steps, { track: 'quick', conditions: ['no_ui'] });
+
+      expect(flat.map((step) => (step as ModuleStep).agentId)).toEqual(['always']);
+    });
+
+    it('gives repeated group ids a suffix per occurrence', () => {
+      const group: WorkflowStep = { type: 'parallel', id: 'checks', steps: [moduleStep('lint'), moduleStep('test')] };
+
+      const flat = flattenWorkflowSteps([group, group]) as ModuleStep[];
+
+      expect(flat.map((step) => step.groups?.[0]?.id)).toEqual(['checks', 'checks', 'checks#2', 'checks#2']);
+    });
+
+    it('groups module steps that share a parallelGroup', () => {
+      const flat = flattenWorkflowSteps([
+        moduleStep('plan'),
+        moduleStep('lint', { parallelGroup: 'checks' }),
+        moduleStep('test', { parallelGroup: 'checks', dependsOn: ['lint'] }),
+      ]) as ModuleStep[];
+
+      expect(flat.map((step) => step.groups)).toEqual([
+        undefined,
+        [{ kind: 'parallel', id: 'checks', label: 'checks' }],
+        [{ kind: 'parallel', id: 'checks', label: 'checks' }],
+      ]);
+      expect(flat[2]!.dependsOn).toEqual(['lint']);
+    });
+
+    it('requires includes to be resolved first', () => {
+      expect(() => flattenWorkflowSteps([{ type: 'include', workflow: 'release' }])).toThrow(
+        "Include of workflow 'release' must be resolved before flattening",
+      );
+    });
+  });
+
+  describe('resolveIncludes', () => {
+    const workflows: Record<string, WorkflowTemplate> = {
+      release: { name: 'Release', steps: [moduleStep('tag'), { type: 'include', workflow: 'notify' }] },
+      notify: { name: 'Notify', steps: [moduleStep('announce')] },
+      loop: { name: 'Loop', steps: [{ type: 'include', workflow: 'main' }] },
+    };
+    const load = async (name: string): Promise<WorkflowTemplate> => workflows[name]!;
+
+    it('inlines included workflows, including inside branch paths', async () => {
+      const resolved = await resolveIncludes(
+        [{ type: 'branch', id: 'ship', paths: { yes: [{ type: 'include', workflow: 'release' }], no: [] } }],
+        load,
+        ['main'],
+      );
+
+      expect(collectModuleSteps(resolved).map((step) => step.agentId)).toEqual(['tag', 'announce']);
+    });
+
+    it('rejects include cycles', async () => {
+      await expect(resolveIncludes([{ type: 'include', workflow: 'loop' }], load, ['main'])).rejects.toThrow(
+        'Workflow include cycle: main -> loop -> main',
+      );
+    });
+  });
+
+  describe('evaluateBranchBehavior', () => {
+    const testDir = join(process.cwd(), '.test-branch-behavior');
+    const memoryDir = join(testDir, '.codemachine', 'memory');
+
+    beforeEach(() => {
+      mkdirSync(memoryDir, { recursive: true });
+    });
+
+    afterEach(() => {
+      rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it('takes the path named in behavior.json', async () => {
+      writeFileSync(join(memoryDir, 'behavior.json'), JSON.stringify({ action: 'continue', path: 'fix', reason: 'tests fail' }));
+
+      const result = await evaluateBranchBehavior({ cwd: testDir, paths: ['fix', 'ship'], defaultPath: 'ship' });
+
+      expect(result).toEqual({ path: 'fix', source: 'behavior', reason: 'tests fail' });
+    });
+
+    it('falls back to the default for unknown or missing paths', async () => {
+      writeFileSync(join(memoryDir, 'behavior.json'), JSON.stringify({ action: 'continue', path: 'elsewhere' }));
+
+      expect(await evaluateBranchBehavior({ cwd: testDir, paths: ['fix', 'ship'], defaultPath: 'ship' })).toEqual({
+        path: 'ship',
+        source: 'default',
+      });
+      expect(await evaluateBranchBehavior({ cwd: testDir, paths: ['fix', 'ship'] })).toEqual({
+        path: null,
+        source: 'none',
+      });
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { buildExecutionPlan, formatPlanMermaid } from '../../../src/workflows/execution/dry-run.js';
+import type { ModuleStep, WorkflowTemplate } from '../../../src/workflows/templates/types.js';
+
+function moduleStep(agentId: string, extra: Partial<ModuleStep> = {}): ModuleStep {
+  return { type: 'module', agentId, agentName: agentId, promptPath: `prompts/${agentId}.md`, ...extra };
+}
+
+describe('workflow dry run', () => {
+  let cwd: string;
+  let templatePath: string;
+
+  const writeTemplate = (template: WorkflowTemplate) => {
+    writeFileSync(templatePath, `export default ${JSON.stringify(template)};\n`);
+  };
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'codemachine-dry-run-'));
+    templatePath = join(cwd, 'plan.workflow.js');
+    mkdirSync(join(cwd, 'prompts'));
+    mkdirSync(join(cwd, '.codemachine'));
+    for (const agent of ['plan', 'api', 'ui', 'review', 'docs']) {
+      writeFileSync(join(cwd, 'prompts', `${agent}.md`), `You are the ${agent} agent. Do the ${agent} work.`);
+    }
+    writeFileSync(join(cwd, '.codemachine', 'template.json'), JSON.stringify({ selectedConditions: ['has_ui'] }));
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('plans engines, prompts, filtered steps and loop/trigger edges', async () => {
+    writeTemplate({
+      name: 'Dry run',
+      steps: [
+        moduleStep('plan', { engine: 'codex', model: 'gpt-5' }),
+        { type: 'parallel', id: 'build', steps: [moduleStep('api'), moduleStep('ui', { conditions: ['has_ui'] })] },
+        moduleStep('docs', { conditions: ['!has_ui'] }),
+        moduleStep('review', {
+          promptPath: 'prompts/missing.md',
+          module: { id: 'review', behavior: { type: 'loop', action: 'stepBack', steps: 2, maxIterations: 3 } },
+        }),
+      ],
+    });
+
+    const plan = await buildExecutionPlan({ cwd, templatePath, engineOverride: 'claude' });
+
+    expect(plan.conditions).toEqual(['has_ui']);
+    expect(plan.steps.map((s) => [s.agentId, s.index, s.engine, s.engineSource])).toEqual([
+      ['plan', 0, 'claude', 'preset'],
+      ['api', 1, 'claude', 'preset'],
+      ['ui', 2, 'claude', 'preset'],
+      ['docs', undefined, 'claude', 'preset'],
+      ['review', 3, 'claude', 'preset'],
+    ]);
+    expect(plan.steps[3].skipped).toBe('docs skipped (unmet conditions: !has_ui).');
+    expect(plan.steps[0].promptTokens).toBeGreaterThan(0);
+    expect(plan.steps[4].promptError).toContain('missing.md');
+    expect(plan.edges).toEqual([{ kind: 'loop', from: 3, to: 1, maxIterations: 3 }]);
+    expect(plan.totals).toMatchObject({ steps: 5, runnable: 4, promptErrors: 1 });
+  });
+
+  it('indexes module steps only, past UI steps', async () => {
+    writeTemplate({
+      name: 'Dry run',
+      steps: [
+        { type: 'ui', text: 'Planning' },
+        moduleStep('plan'),
+        { type: 'ui', text: 'Building' },
+        moduleStep('api', { executeOnce: true }),
+        moduleStep('review', {
+          module: { id: 'review', behavior: { type: 'loop', action: 'stepBack', steps: 1, maxIterations: 2 } },
+        }),
+      ],
+    });
+    writeFileSync(join(cwd, '.codemachine', 'template.json'), JSON.stringify({
+      resumeFromLastStep: true,
+      completedSteps: { 1: { sessionId: 's', monitoringId: 1, completedAt: '2026-01-01T00:00:00.000Z' } },
+    }));
+
+    const plan = await buildExecutionPlan({ cwd, templatePath });
+
+    expect(plan.steps.map((s) => [s.agentId, s.index])).toEqual([['plan', 0], ['api', 1], ['review', 2]]);
+    expect(plan.startIndex).toBe(2);
+    expect(plan.steps.map((s) => [s.skipped, s.resumed])).toEqual([
+      [undefined, true],
+      ['api skipped (already completed).', true],
+      [undefined, undefined],
+    ]);
+    expect(plan.edges).toEqual([{ kind: 'loop', from: 2, to: 1, maxIterations: 2 }]);
+  });
+
+  it('uses step engines without overrides and renders a Mermaid graph', async () => {
+    writeTemplate({
+      name: 'Dry run',
+      steps: [
+        moduleStep('plan', { engine: 'codex' }),
+        { type: 'parallel', id: 'build', label: 'Build', steps: [moduleStep('api'), moduleStep('ui')] },
+        moduleStep('review'),
+      ],
+    });
+
+    const plan = await buildExecutionPlan({ cwd, templatePath });
+    expect(plan.workflow).toBe('Dry run');
+    expect(plan.steps[0]).toMatchObject({ engine: 'codex', engineSource: 'step' });
+    expect(plan.steps[1].engineSource).toBe('default');
+
+    plan.edges.push({ kind: 'trigger', from: 3, agentId: 'docs' });
+    const graph = formatPlanMermaid(plan);
+    expect(graph.split('\n')[0]).toBe('flowchart TD');
+    expect(graph).toContain('subgraph g1["Build (parallel)"]');
+    for (const edge of ['s0 --> s1', 's0 --> s2', 's1 --> s3', 's2 --> s3', 's3 -. trigger .-> t_docs(["docs"])']) {
+      expect(graph).toContain(edge);
+    }
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'bun:test';
+
+import { scheduleTasks, type ScheduledTask } from '../../../src/workflows/execution/scheduler.js';
+
+function task(id: number, dependsOn: number[] = [], run?: () => Promise<number>): ScheduledTask<number> {
+  return { id, dependsOn, run: run ?? (async () => id) };
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+describe('scheduleTasks', () => {
+  it('never runs more tasks at once than the limit', async () => {
+    let running = 0;
+    let peak = 0;
+    const run = async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await tick();
+      running--;
+      return 0;
+    };
+
+    const result = await scheduleTasks([0, 1, 2, 3, 4].map((id) => task(id, [], run)), { maxParallel: 2 });
+
+    expect(peak).toBe(2);
+    expect(result.outcomes).toHaveLength(5);
+    expect(result.notStarted).toEqual([]);
+  });
+
+  it('starts a task only after its dependencies succeed', async () => {
+    const order: string[] = [];
+    const logged = (id: number) => async () => {
+      order.push(`start:${id}`);
+      await tick();
+      order.push(`end:${id}`);
+      return id;
+    };
+
+    await scheduleTasks([task(0, [], logged(0)), task(1, [0], logged(1)), task(2, [], logged(2))], {
+      maxParallel: 4,
+    });
+
+    expect(order.indexOf('start:1')).toBeGreaterThan(order.indexOf('end:0'));
+    expect(order.indexOf('start:2')).toBeLessThan(order.indexOf('end:0'));
+  });
+
+  it('ignores dependencies on unknown tasks', async () => {
+    const result = await scheduleTasks([task(3, [99])], { maxParallel: 1 });
+
+    expect(result.outcomes).toEqual([{ id: 3, ok: true, value: 3 }]);
+  });
+
+  it('leaves dependents of failed tasks and dependency cycles unstarted', async () => {
+    const failing = task(0, [], async () => {
+      throw new Error('boom');
+    });
+
+    const result = await scheduleTasks([failing, task(1, [0]), task(2, [3]), task(3, [2]), task(4)], {
+      maxParallel: 4,
+    });
+
+    expect(result.outcomes.find((outcome) => outcome.id === 0)).toMatchObject({ ok: false, error: { message: 'boom' } });
+    expect(result.notStarted).toEqual([1, 2, 3]);
+  });
+
+  it('stops starting tasks once shouldContinue returns false', async () => {
+    const settled: number[] = [];
+
+    const result = await scheduleTasks([task(0), task(1), task(2)], {
+      maxParallel: 1,
+      onSettled: (outcome) => settled.push(outcome.id),
+      shouldContinue: () => settled.length === 0,
+    });
+
+    expect(settled).toEqual([0]);
+    expect(result.notStarted).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'bun:test';
+
+import { shouldSkipStep } from '../../../src/workflows/behaviors/skip.js';
+import type { ModuleStep } from '../../../src/workflows/templates/types.js';
+
+function moduleStep(agentId: string, extra: Partial<ModuleStep> = {}): ModuleStep {
+  return { type: 'module', agentId, agentName: agentId, promptPath: `prompts/${agentId}.md`, ...extra };
+}
+
+describe('step skipping', () => {
+  it('skips steps whose conditions are not all selected', () => {
+    const step = moduleStep('ui', { conditions: ['has_ui', 'has_api'] });
+    expect(shouldSkipStep(step, 0, [], null, undefined, undefined, null, ['has_ui', 'has_api']).skip).toBe(false);
+    expect(shouldSkipStep(step, 0, [], null, undefined, undefined, null, ['has_ui'])).toEqual({
+      skip: true,
+      reason: 'ui skipped (unmet conditions: has_api).',
+    });
+  });
+
+  it('honours inverse conditions', () => {
+    const step = moduleStep('docs', { conditions: ['!has_ui'] });
+    expect(shouldSkipStep(step, 0, [], null, undefined, undefined, null, []).skip).toBe(false);
+    expect(shouldSkipStep(step, 0, [], null, undefined, undefined, null, ['has_ui'])).toEqual({
+      skip: true,
+      reason: 'docs skipped (unmet conditions: !has_ui).',
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it, beforeEach, afterEach } from 'bun:test';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { spawnSync } from 'node:child_process';
+
+import {
+  getBranchDecisions,
+  getCompletedSteps,
+  initStepSession,
+  markStepCompleted,
+  recordBranchDecision,
+  recordStepSnapshot,
+} from '../../../src/shared/workflows/steps.js';
+import {
+  createStepSnapshot,
+  getStepSnapshots,
+  rollbackToStep,
+  SnapshotError,
+} from '../../../src/shared/workflows/snapshots.js';
+
+function git(cwd: string, ...args: string[]): string {
+  return spawnSync('git', args, { cwd, encoding: 'utf8' }).stdout.trim();
+}
+
+async function completeStep(cwd: string, cmRoot: string, stepIndex: number): Promise<string> {
+  await initStepSession(cmRoot, stepIndex, `session-${stepIndex}`, stepIndex + 100);
+  await markStepCompleted(cmRoot, stepIndex);
+  const commit = await createStepSnapshot(cwd, stepIndex, `step ${stepIndex}`);
+  await recordStepSnapshot(cmRoot, stepIndex, commit!);
+  return commit!;
+}
+
+describe('workflow step snapshots', () => {
+  let repoDir: string;
+  let cmRoot: string;
+
+  beforeEach(() => {
+    repoDir = mkdtempSync(join(tmpdir(), 'codemachine-snapshots-'));
+    cmRoot = join(repoDir, '.codemachine');
+    mkdirSync(cmRoot, { recursive: true });
+
+    git(repoDir, 'init', '-q');
+    git(repoDir, 'config', 'user.email', 'test@example.com');
+    git(repoDir, 'config', 'user.name', 'Test');
+    writeFileSync(join(repoDir, 'app.txt'), 'v0\n');
+    git(repoDir, 'add', 'app.txt');
+    git(repoDir, 'commit', '-q', '-m', 'initial');
+  });
+
+  afterEach(() => {
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('records snapshots on a shadow ref without touching HEAD or the index', async () => {
+    writeFileSync(join(repoDir, 'app.txt'), 'v1\n');
+    const head = git(repoDir, 'rev-parse', 'HEAD');
+
+    const commit = await completeStep(repoDir, cmRoot, 0);
+
+    expect(git(repoDir, 'rev-parse', 'refs/codemachine/snapshots/step-0')).toBe(commit);
+    expect(git(repoDir, 'rev-parse', 'HEAD')).toBe(head);
+    expect(git(repoDir, 'diff', '--cached', '--name-only')).toBe('');
+    expect(git(repoDir, 'ls-tree', '--name-only', commit)).toBe('app.txt');
+    expect(await getStepSnapshots(cmRoot)).toEqual([
+      expect.objectContaining({ stepIndex: 0, monitoringId: 100, commit }),
+    ]);
+  });
+
+  it('restores files and resets later steps on rollback', async () => {
+    writeFileSync(join(repoDir, 'app.txt'), 'v1\n');
+    const first = await completeStep(repoDir, cmRoot, 0);
+
+    writeFileSync(join(repoDir, 'app.txt'), 'v2\n');
+    writeFileSync(join(repoDir, 'new.txt'), 'created later\n');
+    await completeStep(repoDir, cmRoot, 1);
+    await recordBranchDecision(cmRoot, 'review', 'fix', 1);
+
+    const result = await rollbackToStep(repoDir, cmRoot, 0);
+
+    expect(result).toEqual({ commit: first, removedSteps: [1] });
+    expect(readFileSync(join(repoDir, 'app.txt'), 'utf8')).toBe('v1\n');
+    expect(existsSync(join(repoDir, 'new.txt'))).toBe(false);
+    expect(existsSync(join(cmRoot, 'template.json'))).toBe(true);
+    expect(await getCompletedSteps(cmRoot)).toEqual([0]);
+    expect(await getBranchDecisions(cmRoot)).toEqual({});
+    expect(git(repoDir, 'for-each-ref', '--format=%(refname)', 'refs/codemachine/')).toBe(
+      'refs/codemachine/snapshots/step-0',
+    );
+  });
+
+  it('refuses to roll back to a step without a snapshot', async () => {
+    await initStepSession(cmRoot, 0, 'session-0', 100);
+    await markStepCompleted(cmRoot, 0);
+
+    await expect(rollbackToStep(repoDir, cmRoot, 0)).rejects.toBeInstanceOf(SnapshotError);
+    await expect(rollbackToStep(repoDir, cmRoot, 3)).rejects.toThrow('Step 3 has not completed');
+  });
+
+  it('skips snapshots outside a git work tree', async () => {
+    const plainDir = mkdtempSync(join(tmpdir(), 'codemachine-plain-'));
+    try {
+      expect(await createStepSnapshot(plainDir, 0, 'step 0')).toBeNull();
+    } finally {
+      rmSync(plainDir, { recursive: true, force: true });
+    }
+  });
+});
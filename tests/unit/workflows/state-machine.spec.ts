@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'bun:test';
+
+import { createWorkflowMachine } from '../../../src/workflows/state/index.js';
+
+describe('workflow state machine', () => {
+  const waitingMachine = () => {
+    const machine = createWorkflowMachine({ totalSteps: 2 });
+    machine.send({ type: 'START' });
+    machine.send({ type: 'STEP_COMPLETE', output: { output: 'done' } });
+    return machine;
+  };
+
+  it('fails the workflow when a waiting step has invalid artifacts', () => {
+    const machine = waitingMachine();
+    const error = new Error('Plan did not produce valid artifacts: spec (missing)');
+    machine.send({ type: 'ARTIFACTS_FAILED', error });
+
+    expect(machine.state).toBe('error');
+    expect(machine.isFinal).toBe(true);
+    expect(machine.context.lastError).toBe(error);
+  });
+
+  it('keeps waiting on step errors outside of a run', () => {
+    const machine = waitingMachine();
+    machine.send({ type: 'STEP_ERROR', error: new Error('resume failed') });
+
+    expect(machine.state).toBe('waiting');
+    expect(machine.context.lastError).toBeUndefined();
+  });
+});